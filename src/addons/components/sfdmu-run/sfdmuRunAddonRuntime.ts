@@ -12,6 +12,7 @@ import * as fs from 'fs';
 
 import { BulkApiV1_0Engine } from "../../../modules/components/api_engines/bulkApiV1_0Engine";
 import { RestApiEngine } from "../../../modules/components/api_engines/restApiEngine";
+import { CompositeApiEngine } from "../../../modules/components/api_engines/compositeApiEngine";
 import { Common } from "../../../modules/components/common_components/common";
 import { Logger } from "../../../modules/components/common_components/logger";
 import { Sfdx } from "../../../modules/components/common_components/sfdx";
@@ -140,7 +141,7 @@ export default class SfdmuRunAddonRuntime extends AddonRuntime implements ISfdmu
           return API_ENGINE.BULK_API_V1;
       }
     }
-    return API_ENGINE.REST_API;
+    return this.#script.useCompositeApi ? API_ENGINE.COMPOSITE_API : API_ENGINE.REST_API;
   }
 
 
@@ -154,7 +155,8 @@ export default class SfdmuRunAddonRuntime extends AddonRuntime implements ISfdmu
    * If the target is csvfile it will write into the CSV file according to the script settings.
   *
   * @param {string} sObjectName The sObject name to update.
-  * @param {OPERATION} operation The operation
+  * @param {OPERATION} operation The operation. The Upsert is always performed by the Composite API
+  *                               using the external id of the object
   * @param {any[]} records The records to process
   * @param {API_ENGINE} [engine] You can choose the API engine to use
   * @param {boolean} [updateRecordId] When true it will override the Ids of the source records passed to the method by the Ids returned
@@ -186,7 +188,7 @@ export default class SfdmuRunAddonRuntime extends AddonRuntime implements ISfdmu
 
       // Missing task => new sObject
       let apiEngine: IApiEngine;
-      engine = this.getApiEngine(records.length, engine);
+      engine = operation == OPERATION.Upsert ? API_ENGINE.COMPOSITE_API : this.getApiEngine(records.length, engine);
 
       task = this.#script.job.createDummyJobTask(sObjectName);
 
@@ -203,7 +205,8 @@ export default class SfdmuRunAddonRuntime extends AddonRuntime implements ISfdmu
             bulkApiV1BatchSize: task.scriptObject.batchSizes.bulkV1BatchSize,
             targetCSVFullFilename: TaskData.getTargetCSVFilename(this.#script.targetDirectory, sObjectName, operation),
             createTargetCSVFiles: this.#script.createTargetCSVFiles,
-            targetFieldMapping: null
+            targetFieldMapping: null,
+            retryPolicy: this.#script.retryPolicy
           });
           break;
 
@@ -218,7 +221,28 @@ export default class SfdmuRunAddonRuntime extends AddonRuntime implements ISfdmu
             updateRecordId,
             targetCSVFullFilename: TaskData.getTargetCSVFilename(this.#script.targetDirectory, sObjectName, operation),
             createTargetCSVFiles: this.#script.createTargetCSVFiles,
-            targetFieldMapping: null
+            targetFieldMapping: null,
+            retryPolicy: this.#script.retryPolicy
+          });
+          break;
+
+        case API_ENGINE.COMPOSITE_API:
+          apiEngine = new CompositeApiEngine({
+            logger: this.#logger,
+            connectionData: this.#script.targetOrg.connectionData,
+            sObjectName,
+            operation,
+            pollingIntervalMs: this.#script.pollingIntervalMs,
+            concurrencyMode: this.#script.concurrencyMode,
+            updateRecordId,
+            targetCSVFullFilename: TaskData.getTargetCSVFilename(this.#script.targetDirectory, sObjectName, operation),
+            createTargetCSVFiles: this.#script.createTargetCSVFiles,
+            targetFieldMapping: null,
+            restApiBatchSize: task.scriptObject.batchSizes.restBatchSize,
+            binaryDataCache: this.#script.binaryDataCache,
+            binaryCacheDirectory: this.#script.binaryCacheDirectory,
+            externalIdFieldName: task.scriptObject.externalId,
+            retryPolicy: this.#script.retryPolicy
           });
           break;
 
@@ -236,7 +260,8 @@ export default class SfdmuRunAddonRuntime extends AddonRuntime implements ISfdmu
             targetFieldMapping: null,
             restApiBatchSize: task.scriptObject.batchSizes.restBatchSize,
             binaryDataCache: this.#script.binaryDataCache,
-            binaryCacheDirectory: this.#script.binaryCacheDirectory
+            binaryCacheDirectory: this.#script.binaryCacheDirectory,
+            retryPolicy: this.#script.retryPolicy
           });
           break;
       }
@@ -0,0 +1,152 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import {
+  flags,
+  FlagsConfig,
+  SfdxCommand,
+} from '@salesforce/command';
+import { Messages } from '@salesforce/core';
+import { AnyJson } from '@salesforce/ts-types';
+
+import {
+  IInitProcess,
+} from '../../modules/commands_processors/IInitProcess';
+import {
+  InitCommand,
+} from '../../modules/commands_processors/initCommand';
+import InitCommandExecutor
+  from '../../modules/commands_processors/initCommandExecutor';
+import {
+  IResourceBundle,
+  IUxLogger,
+} from '../../modules/components/common_components/logger';
+import ISfdmuCommand from '../../modules/models/common_models/ISfdxCommand';
+
+Messages.importMessagesDirectory(__dirname);
+
+const commandMessages = Messages.loadMessages('sfdmu', 'init');
+const resources = Messages.loadMessages('sfdmu', 'resources');
+export default class Init extends SfdxCommand implements IInitProcess {
+
+  exitProcess: boolean = true;
+
+  m_flags: any;
+  m_ux: IUxLogger;
+
+  cmd: ISfdmuCommand;
+  command: InitCommand;
+
+  commandMessages: IResourceBundle = commandMessages;
+  resources: IResourceBundle = resources;
+
+  protected static supportsUsername = true;
+  protected static requiresUsername = false;
+  protected static varargs = false;
+
+  public static description = commandMessages.getMessage('commandDescription');
+  public static longDescription = commandMessages.getMessage('commandLongDescription');
+
+  public static readonly flagsConfig: FlagsConfig = {
+    sourceusername: flags.string({
+      char: "s",
+      description: commandMessages.getMessage('sourceusernameFlagDescription'),
+      longDescription: commandMessages.getMessage('sourceusernameFlagLongDescription'),
+      default: ''
+    }),
+    objects: flags.string({
+      char: "o",
+      description: commandMessages.getMessage('objectsFlagDescription'),
+      longDescription: commandMessages.getMessage('objectsFlagLongDescription'),
+      required: true
+    }),
+    depth: flags.integer({
+      char: "d",
+      description: commandMessages.getMessage('depthFlagDescription'),
+      longDescription: commandMessages.getMessage('depthFlagLongDescription'),
+      default: 1,
+      min: 0
+    }),
+    overwrite: flags.boolean({
+      description: commandMessages.getMessage('overwriteFlagDescription'),
+      longDescription: commandMessages.getMessage('overwriteFlagLongDescription')
+    }),
+    path: flags.directory({
+      char: 'p',
+      description: commandMessages.getMessage('pathFlagDescription'),
+      longDescription: commandMessages.getMessage('pathFlagLongDescription'),
+      default: ''
+    }),
+    verbose: flags.builtin({
+      description: commandMessages.getMessage('verboseFlagDescription'),
+      longDescription: commandMessages.getMessage('verboseFlagLongDescription')
+    }),
+    concise: flags.builtin({
+      description: commandMessages.getMessage('conciseFlagDescription'),
+      longDescription: commandMessages.getMessage('conciseFlagLongDescription'),
+    }),
+    quiet: flags.builtin({
+      description: commandMessages.getMessage('quietFlagDescription'),
+      longDescription: commandMessages.getMessage('quietFlagLongDescription'),
+    }),
+    silent: flags.boolean({
+      description: commandMessages.getMessage("silentFlagDescription"),
+      longDescription: commandMessages.getMessage("silentFlagLongDescription")
+    }),
+    apiversion: flags.builtin({
+      description: commandMessages.getMessage("apiversionFlagDescription"),
+      longDescription: commandMessages.getMessage("apiversionFlagLongDescription")
+    }),
+    filelog: flags.integer({
+      char: "l",
+      description: commandMessages.getMessage("filelogFlagDescription"),
+      longDescription: commandMessages.getMessage("filelogFlagLongDescription"),
+      default: 1
+    }),
+    noprompt: flags.boolean({
+      char: "n",
+      description: commandMessages.getMessage("nopromptFlagDescription"),
+      longDescription: commandMessages.getMessage("nopromptLongFlagDescription")
+    }),
+    json: flags.boolean({
+      description: commandMessages.getMessage("jsonFlagDescription"),
+      longDescription: commandMessages.getMessage("jsonLongFlagDescription"),
+      default: false
+    }),
+    nowarnings: flags.boolean({
+      char: "w",
+      description: commandMessages.getMessage("nowarningsFlagDescription"),
+      longDescription: commandMessages.getMessage("nowarningsLongFlagDescription")
+    }),
+    loglevel: flags.string({
+      description: commandMessages.getMessage('loglevelFlagDescription'),
+      longDescription: commandMessages.getMessage('loglevelLongFlagDescription'),
+      default: 'trace',
+      options: ['info', 'debug', 'warn', 'error', 'fatal', 'trace', 'INFO', 'DEBUG', 'WARN', 'ERROR', 'FATAL', 'TRACE']
+    }),
+    usesf: flags.string({
+      description: commandMessages.getMessage("useSfFlagDescription"),
+      longDescription: commandMessages.getMessage("useSfLongFlagDescription"),
+      default: "true",
+      options: ['true', 'false', 'TRUE', 'FALSE']
+    }),
+  };
+
+
+  public async run(): Promise<AnyJson> {
+
+    this.ux["isOutputEnabled"] = true;
+
+    this.m_flags = this.flags;
+    this.m_ux = this.ux;
+
+    await InitCommandExecutor.execute(this);
+
+    return {};
+  }
+
+}
@@ -135,6 +135,46 @@ export default class Run extends SfdxCommand implements IRunProcess {
       description: commandMessages.getMessage("logfullqueryFlagDescription"),
       longDescription: commandMessages.getMessage("logfullqueryLongFlagDescription")
     }),
+    resume: flags.boolean({
+      description: commandMessages.getMessage("resumeFlagDescription"),
+      longDescription: commandMessages.getMessage("resumeLongFlagDescription")
+    }),
+    diff: flags.boolean({
+      description: commandMessages.getMessage("diffFlagDescription"),
+      longDescription: commandMessages.getMessage("diffLongFlagDescription")
+    }),
+    resetwatermarks: flags.boolean({
+      description: commandMessages.getMessage("resetwatermarksFlagDescription"),
+      longDescription: commandMessages.getMessage("resetwatermarksLongFlagDescription")
+    }),
+    refreshdescribecache: flags.boolean({
+      description: commandMessages.getMessage("refreshdescribecacheFlagDescription"),
+      longDescription: commandMessages.getMessage("refreshdescribecacheLongFlagDescription")
+    }),
+    offline: flags.boolean({
+      description: commandMessages.getMessage("offlineFlagDescription"),
+      longDescription: commandMessages.getMessage("offlineLongFlagDescription")
+    }),
+    preflight: flags.boolean({
+      description: commandMessages.getMessage("preflightFlagDescription"),
+      longDescription: commandMessages.getMessage("preflightLongFlagDescription")
+    }),
+    "retry-failed": flags.boolean({
+      description: commandMessages.getMessage("retryfailedFlagDescription"),
+      longDescription: commandMessages.getMessage("retryfailedLongFlagDescription")
+    }),
+    params: flags.string({
+      description: commandMessages.getMessage("paramsFlagDescription"),
+      longDescription: commandMessages.getMessage("paramsFlagLongDescription")
+    }),
+    paramsfile: flags.string({
+      description: commandMessages.getMessage("paramsfileFlagDescription"),
+      longDescription: commandMessages.getMessage("paramsfileFlagLongDescription")
+    }),
+    printscript: flags.boolean({
+      description: commandMessages.getMessage("printscriptFlagDescription"),
+      longDescription: commandMessages.getMessage("printscriptFlagLongDescription")
+    }),
   };
 
 
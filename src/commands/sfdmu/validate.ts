@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import {
+  flags,
+  FlagsConfig,
+  SfdxCommand,
+} from '@salesforce/command';
+import { Messages } from '@salesforce/core';
+import { AnyJson } from '@salesforce/ts-types';
+
+import {
+  IValidateProcess,
+} from '../../modules/commands_processors/IValidateProcess';
+import {
+  ValidateCommand,
+} from '../../modules/commands_processors/validateCommand';
+import ValidateCommandExecutor
+  from '../../modules/commands_processors/validateCommandExecutor';
+import {
+  IResourceBundle,
+  IUxLogger,
+} from '../../modules/components/common_components/logger';
+import ISfdmuCommand from '../../modules/models/common_models/ISfdxCommand';
+
+Messages.importMessagesDirectory(__dirname);
+
+const commandMessages = Messages.loadMessages('sfdmu', 'validate');
+const resources = Messages.loadMessages('sfdmu', 'resources');
+export default class Validate extends SfdxCommand implements IValidateProcess {
+
+  exitProcess: boolean = true;
+
+  m_flags: any;
+  m_ux: IUxLogger;
+
+  cmd: ISfdmuCommand;
+  command: ValidateCommand;
+
+  commandMessages: IResourceBundle = commandMessages;
+  resources: IResourceBundle = resources;
+
+  protected static supportsUsername = true;
+  protected static requiresUsername = false;
+  protected static varargs = false;
+
+  public static description = commandMessages.getMessage('commandDescription');
+  public static longDescription = commandMessages.getMessage('commandLongDescription');
+
+  public static readonly flagsConfig: FlagsConfig = {
+    sourceusername: flags.string({
+      char: "s",
+      description: commandMessages.getMessage('sourceusernameFlagDescription'),
+      longDescription: commandMessages.getMessage('sourceusernameFlagLongDescription'),
+      default: ''
+    }),
+    path: flags.directory({
+      char: 'p',
+      description: commandMessages.getMessage('pathFlagDescription'),
+      longDescription: commandMessages.getMessage('pathFlagLongDescription'),
+      default: ''
+    }),
+    verbose: flags.builtin({
+      description: commandMessages.getMessage('verboseFlagDescription'),
+      longDescription: commandMessages.getMessage('verboseFlagLongDescription')
+    }),
+    concise: flags.builtin({
+      description: commandMessages.getMessage('conciseFlagDescription'),
+      longDescription: commandMessages.getMessage('conciseFlagLongDescription'),
+    }),
+    quiet: flags.builtin({
+      description: commandMessages.getMessage('quietFlagDescription'),
+      longDescription: commandMessages.getMessage('quietFlagLongDescription'),
+    }),
+    silent: flags.boolean({
+      description: commandMessages.getMessage("silentFlagDescription"),
+      longDescription: commandMessages.getMessage("silentFlagLongDescription")
+    }),
+    filelog: flags.integer({
+      char: "l",
+      description: commandMessages.getMessage("filelogFlagDescription"),
+      longDescription: commandMessages.getMessage("filelogFlagLongDescription"),
+      default: 1
+    }),
+    noprompt: flags.boolean({
+      char: "n",
+      description: commandMessages.getMessage("nopromptFlagDescription"),
+      longDescription: commandMessages.getMessage("nopromptLongFlagDescription")
+    }),
+    json: flags.boolean({
+      description: commandMessages.getMessage("jsonFlagDescription"),
+      longDescription: commandMessages.getMessage("jsonLongFlagDescription"),
+      default: false
+    }),
+    nowarnings: flags.boolean({
+      char: "w",
+      description: commandMessages.getMessage("nowarningsFlagDescription"),
+      longDescription: commandMessages.getMessage("nowarningsLongFlagDescription")
+    }),
+    loglevel: flags.string({
+      description: commandMessages.getMessage('loglevelFlagDescription'),
+      longDescription: commandMessages.getMessage('loglevelLongFlagDescription'),
+      default: 'trace',
+      options: ['info', 'debug', 'warn', 'error', 'fatal', 'trace', 'INFO', 'DEBUG', 'WARN', 'ERROR', 'FATAL', 'TRACE']
+    }),
+    params: flags.string({
+      description: commandMessages.getMessage("paramsFlagDescription"),
+      longDescription: commandMessages.getMessage("paramsFlagLongDescription")
+    }),
+    paramsfile: flags.string({
+      description: commandMessages.getMessage("paramsfileFlagDescription"),
+      longDescription: commandMessages.getMessage("paramsfileFlagLongDescription")
+    }),
+  };
+
+
+  public async run(): Promise<AnyJson> {
+
+    this.ux["isOutputEnabled"] = true;
+
+    this.m_flags = this.flags;
+    this.m_ux = this.ux;
+
+    await ValidateCommandExecutor.execute(this);
+
+    return {};
+  }
+
+}
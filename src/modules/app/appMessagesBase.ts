@@ -12,6 +12,10 @@ export default abstract class AppMessagesBase implements IResourceBundle {
     protected messages: Map<string, string> = new Map<string, string>();
 
     getMessage(key: string, tokens?: any): string { 
+        if (!this.messages.has(key)) {
+            // The same as the sfdx messages, so the caller can fall back to the other bundle or the raw text
+            throw new Error(`Missing message ${key}`);
+        }
         let message = this.messages.get(key) || '';
         let counter = 0;
         tokens = tokens || [];
@@ -9,7 +9,7 @@ import { DATA_CACHE_TYPES } from "../components/common_components/enumerations";
 import { LOG_MESSAGE_TYPE, LOG_MESSAGE_VERBOSITY } from "../components/common_components/logger";
 import { ObjectFieldMapping, SFieldDescribe, SObjectDescribe } from "../models";
 import { IBlobField } from "../models/api_models/helper_interfaces";
-import { IIdentityInfo, ITableMessage } from "../models/common_models/helper_interfaces";
+import { IIdentityInfo, IOrgConnectionData, ITableMessage } from "../models/common_models/helper_interfaces";
 
 export interface IAppLogger {
   log(message: string | object | ITableMessage,
@@ -19,7 +19,8 @@ export interface IAppLogger {
   ): void;
   infoMinimal(message: string, ...tokens: string[]): void;
   infoNormal(message: string, ...tokens: string[]): void;
-  infoVerbose(message: string, ...tokens: string[]): void
+  infoVerbose(message: string, ...tokens: string[]): void;
+  getResourceString(message: string, ...tokens: string[]): string;
 }
 
 export interface IAppScript {
@@ -29,19 +30,27 @@ export interface IAppScript {
   parallelBinaryDownloads: number;
   binaryCacheDirectory: string;
   sourceRecordsCacheDirectory: string;
+  pollingIntervalMs: number;
+  bulkQueryApiVersionNumber: number;
+  bulkQueryPageSize: number;
+  bulkQueryPkChunkSize: number;
+  parallelBulkJobs: number;
 }
 
 export interface IAppScriptOrg {
   script: IAppScript;
   getConnection(): any;
+  connectionData: IOrgConnectionData;
   isSource: boolean;
+  readDescribeCache(fileName: string): any;
+  writeDescribeCache(fileName: string, data: any): void;
 }
 
 export interface IAppSfdxService {
   org: IAppScriptOrg;
   readonly logger: IAppLogger;
-  queryOrgOrCsvAsync(soql: string, useBulkQueryApi: boolean, csvFullFilename?: string, sFieldsDescribeMap?: Map<string, SFieldDescribe>, useQueryAll?: boolean, bulkQueryPollTimeout?: number): Promise<Array<any>>;
-  queryOrgAsync(soql: string, useBulkQueryApi: boolean, useQueryAll?: boolean, bulkQueryPollTimeout?: number): Promise<Array<any>>;
+  queryOrgOrCsvAsync(soql: string, useBulkQueryApi: boolean, csvFullFilename?: string, sFieldsDescribeMap?: Map<string, SFieldDescribe>, useQueryAll?: boolean, bulkQueryPollTimeout?: number, pageCallback?: (records: Array<any>) => Promise<void>): Promise<Array<any>>;
+  queryOrgAsync(soql: string, useBulkQueryApi: boolean, useQueryAll?: boolean, bulkQueryPollTimeout?: number, pageCallback?: (records: Array<any>) => Promise<Array<any>>): Promise<Array<any>>;
   describeOrgAsync(): Promise<Array<SObjectDescribe>>;
   getPolymorphicObjectFields(sObjectName: string): Promise<string[]>;
   identityAsync(): Promise<IIdentityInfo>;
@@ -0,0 +1,13 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { GraphCommand } from './graphCommand';
+import { ICommandProcess } from './ICommandProcess';
+
+export interface IGraphProcess extends ICommandProcess {
+    command: GraphCommand;
+}
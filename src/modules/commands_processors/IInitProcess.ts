@@ -0,0 +1,13 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { ICommandProcess } from './ICommandProcess';
+import { InitCommand } from './initCommand';
+
+export interface IInitProcess extends ICommandProcess {
+    command: InitCommand;
+}
@@ -5,22 +5,11 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import {
-  IResourceBundle,
-  IUxLogger,
-} from '../components/common_components/logger';
-import ISfdmuCommand from '../models/common_models/ISfdxCommand';
+import { ICommandProcess } from './ICommandProcess';
 import { RunCommand } from './runCommand';
 
-export interface IRunProcess {
-    argv: Array<string>;
+export interface IRunProcess extends ICommandProcess {
     command: RunCommand;
-    cmd: ISfdmuCommand;
-    m_ux: IUxLogger;
-    m_flags: any;
     exportJson: string;
-    commandMessages: IResourceBundle;
-    resources: IResourceBundle;
-    exitProcess: boolean;
     runCommand(): Promise<any>;
 }
@@ -0,0 +1,163 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Common } from '../components/common_components/common';
+import {
+  COMMAND_EXIT_STATUSES,
+  Logger,
+  RESOURCES,
+} from '../components/common_components/logger';
+import {
+  CommandAbortedByAddOnError,
+  CommandAbortedByUserError,
+  CommandExecutionError,
+  CommandInitializationError,
+  OrgMetadataError,
+  SuccessExit,
+  UnresolvableWarning,
+} from '../models';
+import ISfdmuCommand from '../models/common_models/ISfdxCommand';
+import { ICommandProcess } from './ICommandProcess';
+
+/**
+ * The common functionality shared between all command executors
+ *
+ * @export
+ * @class CommandExecutorBase
+ */
+export default class CommandExecutorBase {
+
+  /**
+   * Normalizes the common command flags
+   * and creates the global logger instance
+   *
+   * @static
+   * @param {ICommandProcess} commandProcess
+   * @memberof CommandExecutorBase
+   */
+  static setupLogger(commandProcess: ICommandProcess) {
+
+    commandProcess.m_flags.verbose = commandProcess.m_flags.verbose && !commandProcess.m_flags.json;
+    commandProcess.m_flags.quiet = commandProcess.m_flags.quiet || commandProcess.m_flags.silent || commandProcess.m_flags.version;
+    commandProcess.m_flags.filelog = !!commandProcess.m_flags.filelog && !commandProcess.m_flags.version;
+    commandProcess.m_flags.commandoutput = commandProcess.m_flags.version;
+
+    commandProcess.cmd = {
+      statics: commandProcess["statics"],
+      argv: commandProcess.argv
+    } as ISfdmuCommand;
+
+    Common.logger = new Logger(
+      commandProcess.resources,
+      commandProcess.commandMessages,
+      commandProcess.m_ux,
+      commandProcess.cmd,
+      commandProcess.m_flags.loglevel,
+      commandProcess.m_flags.path,
+      commandProcess.m_flags.verbose,
+      commandProcess.m_flags.concise,
+      commandProcess.m_flags.quiet,
+      commandProcess.m_flags.json,
+      commandProcess.m_flags.noprompt,
+      commandProcess.m_flags.nowarnings,
+      commandProcess.m_flags.filelog,
+      commandProcess.m_flags.commandoutput);
+  }
+
+  /**
+   * Outputs the success message and exits the process
+   *
+   * @static
+   * @param {ICommandProcess} commandProcess
+   * @param {string} [commandResult]
+   * @memberof CommandExecutorBase
+   */
+  static exitWithSuccess(commandProcess: ICommandProcess, commandResult?: string) {
+    Common.logger.commandFinishMessage(
+      commandResult || RESOURCES.commandSucceededResult,
+      COMMAND_EXIT_STATUSES.SUCCESS);
+
+    commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.SUCCESS);
+  }
+
+  /**
+   * Outputs the result message depend on the type of the thrown error
+   * and exits the process with the corresponding status
+   *
+   * @static
+   * @param {ICommandProcess} commandProcess
+   * @param {*} e The thrown error
+   * @memberof CommandExecutorBase
+   */
+  static exitWithError(commandProcess: ICommandProcess, e: any) {
+
+    switch (e.constructor) {
+
+      case SuccessExit:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandSucceededResult,
+          COMMAND_EXIT_STATUSES.SUCCESS);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.SUCCESS);
+
+
+      case CommandInitializationError:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandInitializationErrorResult,
+          COMMAND_EXIT_STATUSES.COMMAND_INITIALIZATION_ERROR,
+          e.stack, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_INITIALIZATION_ERROR);
+
+
+      case OrgMetadataError:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandOrgMetadataErrorResult,
+          COMMAND_EXIT_STATUSES.ORG_METADATA_ERROR,
+          e.stack, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.ORG_METADATA_ERROR);
+
+
+      case CommandExecutionError:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandExecutionErrorResult,
+          COMMAND_EXIT_STATUSES.COMMAND_EXECUTION_ERROR,
+          e.stack, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_EXECUTION_ERROR);
+
+
+      case UnresolvableWarning:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandAbortedDueWarningErrorResult,
+          COMMAND_EXIT_STATUSES.UNRESOLWABLE_WARNING, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.UNRESOLWABLE_WARNING);
+
+
+      case CommandAbortedByUserError:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandAbortedByUserErrorResult,
+          COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_USER,
+          e.stack, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_USER);
+
+      case CommandAbortedByAddOnError:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandAbortedByAddOnErrorResult,
+          COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_ADDON,
+          e.stack, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_ADDON);
+
+
+      default:
+        Common.logger.commandFinishMessage(
+          RESOURCES.commandAbortedDueUnexpectedErrorResult,
+          COMMAND_EXIT_STATUSES.COMMAND_UNEXPECTED_ERROR,
+          e.stack, e.message);
+        commandProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_UNEXPECTED_ERROR);
+
+    }
+  }
+
+}
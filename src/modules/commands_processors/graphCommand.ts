@@ -0,0 +1,116 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+
+import IPluginInfo from '../models/common_models/IPluginInfo';
+import { CommandInitializationError } from '../models/common_models/errors';
+import { GRAPH_FORMAT } from '../components/common_components/enumerations';
+import 'reflect-metadata';
+import 'es6-shim';
+import {
+  Logger,
+  RESOURCES,
+} from '../components/common_components/logger';
+import {
+  MigrationJob as Job,
+  MigrationJobGraph,
+} from '../models';
+import { RunCommand } from './runCommand';
+
+/**
+ * SFDMU:GRAPH CLI command.
+ * Sets up the migration job the same way as the SFDMU:RUN command does,
+ * but only writes the resolved object / lookup graph without processing any records.
+ *
+ * @export
+ * @class GraphCommand
+ */
+export class GraphCommand extends RunCommand {
+
+  formats: Array<GRAPH_FORMAT>;
+  filePaths: Array<string> = new Array<string>();
+
+  /**
+   * New instance of GraphCommand.
+   * @param {Logger} logger The MessageUtils instance
+   * @param {string} basePath The absolute or relative path where the export.json file does exist (from the command line)
+   * @param {string} sourceUsername The username/SFDX instance name of the source env (from the command line)
+   * @param {string} targetUsername The username/SFDX instance name of the target env (from the command line)
+   * @param {string} apiVersion The sf api version to use across all api operations (from the command line)
+   * @param {string} format The format of the graph file, all formats if not set (from the command line)
+   * @param {boolean} offline Set up the orgs from the describe cache without connecting to them (from the command line)
+   * @param {string} params The comma-separated name=value pairs of the export.json parameters (from the command line)
+   * @param {string} paramsFile The path to the JSON file with the values of the export.json parameters (from the command line)
+   * @memberof GraphCommand
+   */
+  constructor(
+    pinfo: IPluginInfo,
+    logger: Logger,
+    basePath: string,
+    sourceUsername: string,
+    targetUsername: string,
+    apiVersion: string,
+    useSf: boolean,
+    format: string,
+    offline: boolean,
+    params: string,
+    paramsFile: string) {
+
+    super(pinfo,
+      logger,
+      basePath,
+      sourceUsername,
+      targetUsername,
+      apiVersion,
+      "",
+      false,
+      undefined,
+      useSf,
+      false,
+      { offline, params, paramsFile });
+
+    this.graphMode = true;
+
+    let formats: Array<string> = Object.values(GRAPH_FORMAT);
+    if (format && formats.indexOf(format.toLowerCase()) < 0) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.invalidObjectGraphFormat, format, formats.join(', ')));
+    }
+    this.formats = (format ? [format.toLowerCase()] : formats) as Array<GRAPH_FORMAT>;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Creates the migration job of the current object set
+   * and writes its graph files
+   *
+   * @returns {Promise<void>}
+   * @memberof GraphCommand
+   */
+  async createGraphAsync(): Promise<void> {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.headerMinimal(RESOURCES.creatingObjectGraph);
+
+    this.job = new Job({
+      script: this.script
+    });
+
+    // No journals are loaded => nothing is written except the graph files
+    this.job.setup();
+
+    let graph = new MigrationJobGraph(this.job);
+    this.filePaths = this.filePaths.concat(graph.save(this.formats));
+
+    if (graph.graph.circularReferences.length > 0) {
+      this.logger.infoNormal(RESOURCES.objectGraphCircularReferences,
+        graph.graph.circularReferences.map(objects => objects.join(' <-> ')).join('; '));
+    }
+    this.logger.infoVerbose(RESOURCES.newLine);
+  }
+
+}
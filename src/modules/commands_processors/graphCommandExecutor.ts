@@ -0,0 +1,72 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Common } from '../components/common_components/common';
+import { CommandInitializationError } from '../models';
+import CommandExecutorBase from './commandExecutorBase';
+import { GraphCommand } from './graphCommand';
+import { IGraphProcess } from './IGraphProcess';
+
+export default class GraphCommandExecutor {
+
+  static async execute(graphProcess: IGraphProcess): Promise<any> {
+
+    CommandExecutorBase.setupLogger(graphProcess);
+
+    try {
+
+      let pinfo = Common.getPluginInfo(graphProcess.cmd);
+
+      // At least one of the orgs is required to be specified.
+      // If missing, the second org will be the same one.
+      if (!graphProcess.m_flags.sourceusername && !graphProcess.m_flags.targetusername) {
+        throw new CommandInitializationError(graphProcess.commandMessages.getMessage('errorMissingRequiredFlag', ['--sourceusername, --targetusername']));
+      }
+
+      if (!graphProcess.m_flags.sourceusername) {
+        graphProcess.m_flags.sourceusername = graphProcess.m_flags.targetusername;
+      }
+
+      if (!graphProcess.m_flags.targetusername) {
+        graphProcess.m_flags.targetusername = graphProcess.m_flags.sourceusername;
+      }
+
+      graphProcess.command = new GraphCommand(pinfo,
+        Common.logger,
+        graphProcess.m_flags.path,
+        graphProcess.m_flags.sourceusername,
+        graphProcess.m_flags.targetusername,
+        graphProcess.m_flags.apiversion,
+        graphProcess.m_flags.usesf == "true",
+        graphProcess.m_flags.format,
+        graphProcess.m_flags.offline,
+        graphProcess.m_flags.params,
+        graphProcess.m_flags.paramsfile
+      );
+
+      const objectSetsAmount = await graphProcess.command.loadAsync();
+
+      for (let objectSetIndex = 0; objectSetIndex < objectSetsAmount; objectSetIndex++) {
+        await graphProcess.command.setupObjectSetAsync(objectSetIndex);
+        await graphProcess.command.createGraphAsync();
+      }
+
+      // Exit - success
+      CommandExecutorBase.exitWithSuccess(graphProcess);
+      // --
+
+    } catch (e: any) {
+
+      // Exit - errors
+      CommandExecutorBase.exitWithError(graphProcess, e);
+      // --
+    }
+
+    return {};
+  }
+
+}
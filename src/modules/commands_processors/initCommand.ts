@@ -0,0 +1,297 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+
+import * as fs from 'fs';
+import * as models from '../models';
+import * as path from 'path';
+import IPluginInfo from '../models/common_models/IPluginInfo';
+import { CommandInitializationError } from '../models/common_models/errors';
+import { Common } from '../components/common_components/common';
+import { Sfdx } from '../components/common_components/sfdx';
+import { CONSTANTS } from '../components/common_components/statics';
+import {
+  DATA_MEDIA_TYPE,
+  OPERATION,
+} from '../components/common_components/enumerations';
+import 'reflect-metadata';
+import 'es6-shim';
+import {
+  Logger,
+  RESOURCES,
+} from '../components/common_components/logger';
+import {
+  ScriptObject,
+  ScriptOrg,
+  SFieldDescribe,
+  SObjectDescribe,
+} from '../models';
+
+/**
+ * SFDMU:INIT CLI command.
+ * Creates the new export.json from the metadata of the org:
+ * starts from the given root sObjects and follows their lookups and child relationships
+ * up to the given depth.
+ *
+ * @export
+ * @class InitCommand
+ */
+export class InitCommand {
+
+  logger: Logger;
+  pinfo: IPluginInfo;
+  basePath: string;
+  sourceUsername: string;
+  objects: string;
+  depth: number;
+  apiVersion: string;
+  useSf: boolean;
+  overwrite: boolean;
+  filePath: string;
+  script: models.Script;
+
+  // The described sObjects in the order they were reached
+  describes: Map<string, SObjectDescribe> = new Map<string, SObjectDescribe>();
+
+  /**
+   * New instance of InitCommand.
+   * @param {Logger} logger The MessageUtils instance
+   * @param {string} basePath The absolute or relative path where the export.json file should be created (from the command line)
+   * @param {string} sourceUsername The username/SFDX instance name of the org to describe (from the command line)
+   * @param {string} objects The comma-separated list of the root sObjects (from the command line)
+   * @param {number} depth The amount of the lookup and the child relationship levels to follow from the root sObjects (from the command line)
+   * @param {string} apiVersion The sf api version to use across all api operations (from the command line)
+   * @param {boolean} overwrite True to replace the existing export.json file (from the command line)
+   * @memberof InitCommand
+   */
+  constructor(
+    pinfo: IPluginInfo,
+    logger: Logger,
+    basePath: string,
+    sourceUsername: string,
+    objects: string,
+    depth: number,
+    apiVersion: string,
+    useSf: boolean,
+    overwrite: boolean) {
+
+    this.pinfo = pinfo;
+    this.logger = logger;
+    this.basePath = (path.isAbsolute(basePath) ? basePath : path.join(process.cwd(), basePath.toString())).replace(/([^"]+)(.*)/, "$1");
+    this.sourceUsername = sourceUsername;
+    this.objects = objects;
+    this.depth = +depth || 0;
+    this.apiVersion = apiVersion;
+    this.useSf = useSf;
+    this.overwrite = overwrite;
+    this.filePath = path.join(this.basePath, CONSTANTS.SCRIPT_FILE_NAME);
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Connects to the org to describe
+   *
+   * @returns {Promise<void>}
+   * @memberof InitCommand
+   */
+  async setupOrgAsync(): Promise<void> {
+
+    if (!fs.existsSync(this.basePath)) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.workingPathDoesNotExist));
+    }
+
+    if (fs.existsSync(this.filePath) && !this.overwrite) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.initScriptFileAlreadyExists, this.filePath));
+    }
+
+    if (!this.sourceUsername || this.sourceUsername.toLowerCase() == CONSTANTS.CSV_FILES_SOURCENAME) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.initSourceOrgIsMissing));
+    }
+
+    this.logger.objectMinimal({ [this.logger.getResourceString(RESOURCES.runningVersion)]: this.pinfo.version });
+    this.logger.infoVerbose(RESOURCES.newLine);
+
+    this.script = new models.Script();
+    this.script.logger = this.logger;
+    this.script.basePath = this.basePath;
+    this.script.useSf = this.useSf;
+    this.script.apiVersion = this.apiVersion || this.script.apiVersion;
+
+    this.script.sourceOrg = new ScriptOrg();
+    Object.assign(this.script.sourceOrg, {
+      script: this.script,
+      name: this.sourceUsername,
+      media: DATA_MEDIA_TYPE.Org
+    });
+
+    await this.script.sourceOrg.setupAsync(true);
+
+    this.logger.objectMinimal({
+      [this.logger.getResourceString(RESOURCES.source)]: this.logger.getResourceString(RESOURCES.sourceOrg, this.script.sourceOrg.name)
+    });
+  }
+
+  /**
+   * Describes the sObjects starting from the root ones
+   * and writes the new export.json file
+   *
+   * @returns {Promise<number>} The amount of the sObjects in the created script
+   * @memberof InitCommand
+   */
+  async executeAsync(): Promise<number> {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.headerMinimal(RESOURCES.initCreatingScript, String(this.depth));
+
+    // Follow the lookups and the child relationships level by level
+    let level = this._getRootObjectNames();
+    for (let levelIndex = 0; level.length > 0; levelIndex++) {
+      let nextLevel = new Array<string>();
+      for (let objectName of level) {
+        let describe = await this._describeAsync(objectName);
+        if (!describe || levelIndex >= this.depth || !this._isMigratable(describe)) {
+          continue;
+        }
+        nextLevel.push(...this._getParentObjectNames(describe), ...describe.childRelationships
+          .filter(relationship => ___isChildObjectToFollow(relationship.childSObject))
+          .map(relationship => relationship.childSObject));
+      }
+      level = Common.distinctStringArray(nextLevel).filter(objectName => !this.describes.has(objectName));
+    }
+
+    // The special objects, referenced by the lookups, are added as readonly ones
+    for (let describe of [...this.describes.values()]) {
+      for (let objectName of this._getParentObjectNames(describe, true)) {
+        await this._describeAsync(objectName);
+      }
+    }
+
+    let objects = [...this.describes.values()].map(describe => this._createScriptObject(describe));
+    fs.writeFileSync(this.filePath, JSON.stringify({ objects }, null, 4));
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.infoMinimal(RESOURCES.initScriptCreated, this.filePath, String(objects.length));
+
+    return objects.length;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___isChildObjectToFollow(objectName: string): boolean {
+      return CONSTANTS.INIT_EXCLUDED_CHILD_OBJECT_SUFFIXES.every(suffix => !objectName.endsWith(suffix));
+    }
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _getRootObjectNames(): Array<string> {
+    let objectNames = String(this.objects || '').split(',').map(objectName => objectName.trim()).filter(objectName => !!objectName);
+    if (objectNames.length == 0) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.initRootObjectsAreMissing));
+    }
+    let orgObjectNames = this.script.sourceOrg.objectNamesList;
+    return Common.distinctStringArray(objectNames.map(objectName => {
+      let orgObjectName = Common.searchClosest(objectName, orgObjectNames, true);
+      if (!orgObjectName) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.initObjectDoesNotExist,
+          objectName, this.script.sourceOrg.name, Common.searchClosest(objectName, orgObjectNames) || ''));
+      }
+      return orgObjectName;
+    }));
+  }
+
+  private async _describeAsync(objectName: string): Promise<SObjectDescribe> {
+    if (this.describes.has(objectName)) {
+      return this.describes.get(objectName);
+    }
+    if (CONSTANTS.EXCLUDED_OBJECTS.indexOf(objectName) >= 0
+      || !this.script.sourceOrg.orgDescribe.has(objectName)) {
+      return undefined;
+    }
+    this.logger.infoNormal(RESOURCES.initDescribingObject, objectName);
+    let describe = await new Sfdx(this.script.sourceOrg).describeSObjectAsync(objectName);
+    this.describes.set(objectName, describe);
+    return describe;
+  }
+
+  private _getParentObjectNames(describe: SObjectDescribe, specialObjectsOnly: boolean = false): Array<string> {
+    if (!this._isMigratable(describe)) {
+      return [];
+    }
+    return Common.distinctStringArray(this._getCreateableFields(describe)
+      .filter(field => field.lookup)
+      .map(field => this._getReferencedObjectName(field))
+      .filter(objectName => !specialObjectsOnly || CONSTANTS.SPECIAL_OBJECTS.indexOf(objectName) >= 0));
+  }
+
+  private _getReferencedObjectName(field: SFieldDescribe): string {
+    // The lookups to the Group are resolved against the User
+    return field.referencedObjectType == "Group" ? "User" : field.referencedObjectType;
+  }
+
+  private _isMigratable(describe: SObjectDescribe): boolean {
+    return describe.createable
+      && CONSTANTS.NOT_SUPPORTED_OBJECTS.indexOf(describe.name) < 0
+      && CONSTANTS.SPECIAL_OBJECTS.indexOf(describe.name) < 0;
+  }
+
+  private _getCreateableFields(describe: SObjectDescribe): Array<SFieldDescribe> {
+    let excludedFields = [].concat(CONSTANTS.FIELDS_NOT_TO_USE_IN_QUERY_MULTISELECT['*'],
+      CONSTANTS.FIELDS_NOT_TO_USE_IN_QUERY_MULTISELECT[describe.name] || []);
+    return [...describe.fieldsMap.values()].filter(field => field.creatable
+      && !field.calculated
+      && !field.autoNumber
+      && excludedFields.indexOf(field.name) < 0);
+  }
+
+  private _getFieldsToMigrate(describe: SObjectDescribe): Array<SFieldDescribe> {
+    // The lookups are kept only to the objects of the script
+    return this._getCreateableFields(describe).filter(field => !field.lookup
+      || this.describes.has(this._getReferencedObjectName(field)));
+  }
+
+  /**
+   * Proposes the external id of the sObject:
+   * the predefined composite key, then the external id or the unique field,
+   * then the name field. Returns Id if there is no suitable field.
+   */
+  private _getExternalId(describe: SObjectDescribe): string {
+    if (CONSTANTS.DEFAULT_EXTERNAL_IDS[describe.name]) {
+      return CONSTANTS.DEFAULT_EXTERNAL_IDS[describe.name];
+    }
+    let fields = [...describe.fieldsMap.values()].filter(field => !field.autoNumber && !field.lookup && field.name != "Id");
+    let field = fields.find(field => field.externalId && field.unique)
+      || fields.find(field => field.externalId)
+      || fields.find(field => field.unique)
+      || fields.find(field => field.nameField);
+    return field ? field.name : "Id";
+  }
+
+  private _createScriptObject(describe: SObjectDescribe): any {
+
+    let externalId = this._getExternalId(describe);
+    let externalIdFields = externalId.split(CONSTANTS.COMPLEX_FIELDS_SEPARATOR);
+    let isMigratable = this._isMigratable(describe);
+
+    // The readonly objects are only queried to resolve the lookups by the external id
+    let fieldNames = Common.distinctStringArray(["Id"].concat(externalIdFields,
+      isMigratable ? this._getFieldsToMigrate(describe).map(field => field.name) : []));
+
+    let operation = !isMigratable ? OPERATION.Readonly
+      : externalId == "Id" ? OPERATION.Insert
+        : OPERATION.Upsert;
+
+    let object = {
+      query: `SELECT ${fieldNames.join(', ')} FROM ${describe.name}`,
+      operation: ScriptObject.getStrOperation(operation),
+      externalId
+    };
+
+    this.logger.infoNormal(RESOURCES.initObjectAdded, describe.name, object.operation, externalId);
+    return object;
+  }
+
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Common } from '../components/common_components/common';
+import CommandExecutorBase from './commandExecutorBase';
+import { IInitProcess } from './IInitProcess';
+import { InitCommand } from './initCommand';
+
+export default class InitCommandExecutor {
+
+  static async execute(initProcess: IInitProcess): Promise<any> {
+
+    CommandExecutorBase.setupLogger(initProcess);
+
+    try {
+
+      let pinfo = Common.getPluginInfo(initProcess.cmd);
+
+      initProcess.command = new InitCommand(pinfo,
+        Common.logger,
+        initProcess.m_flags.path,
+        initProcess.m_flags.sourceusername || initProcess.m_flags.targetusername,
+        initProcess.m_flags.objects,
+        initProcess.m_flags.depth,
+        initProcess.m_flags.apiversion,
+        initProcess.m_flags.usesf == "true",
+        initProcess.m_flags.overwrite
+      );
+
+      await initProcess.command.setupOrgAsync();
+      await initProcess.command.executeAsync();
+
+      // Exit - success
+      CommandExecutorBase.exitWithSuccess(initProcess);
+      // --
+
+    } catch (e: any) {
+
+      // Exit - errors
+      CommandExecutorBase.exitWithError(initProcess, e);
+      // --
+    }
+
+    return {};
+  }
+
+}
@@ -0,0 +1,101 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+
+import IPluginInfo from '../models/common_models/IPluginInfo';
+import 'reflect-metadata';
+import 'es6-shim';
+import {
+  Logger,
+  RESOURCES,
+} from '../components/common_components/logger';
+import { MigrationJob as Job } from '../models';
+import { RunCommand } from './runCommand';
+
+/**
+ * SFDMU:PREFLIGHT CLI command.
+ * Sets up the migration job the same way as the SFDMU:RUN command does
+ * and checks the schema compatibility between the source and the target
+ * without changing any records.
+ *
+ * @export
+ * @class PreflightCommand
+ */
+export class PreflightCommand extends RunCommand {
+
+  /**
+   * New instance of PreflightCommand.
+   * @param {Logger} logger The MessageUtils instance
+   * @param {string} basePath The absolute or relative path where the export.json file does exist (from the command line)
+   * @param {string} sourceUsername The username/SFDX instance name of the source env (from the command line)
+   * @param {string} targetUsername The username/SFDX instance name of the target env (from the command line)
+   * @param {string} apiVersion The sf api version to use across all api operations (from the command line)
+   * @param {string} params The comma-separated name=value pairs of the export.json parameters (from the command line)
+   * @param {string} paramsFile The path to the JSON file with the values of the export.json parameters (from the command line)
+   * @memberof PreflightCommand
+   */
+  constructor(
+    pinfo: IPluginInfo,
+    logger: Logger,
+    basePath: string,
+    sourceUsername: string,
+    targetUsername: string,
+    apiVersion: string,
+    useSf: boolean,
+    params: string,
+    paramsFile: string) {
+
+    super(pinfo,
+      logger,
+      basePath,
+      sourceUsername,
+      targetUsername,
+      apiVersion,
+      "",
+      false,
+      undefined,
+      useSf,
+      false,
+      { preflight: true, params, paramsFile });
+
+    this.preflightOnlyMode = true;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Creates the migration job of the current object set,
+   * retrieves the source records and checks them
+   * together with the metadata against the target
+   *
+   * @returns {Promise<void>}
+   * @memberof PreflightCommand
+   */
+  async runPreflightAsync(): Promise<void> {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.headerMinimal(RESOURCES.dataMigrationProcessStarted);
+
+    this.job = new Job({
+      script: this.script
+    });
+
+    this.job.setup();
+    this.job.loadJournals();
+
+    await this.processCSVFilesAsync();
+    await this.prepareJobAsync();
+
+    this.job.preflight.checkMetadata();
+    await this.job.retrieveRecordsAsync();
+    this.job.preflight.checkSourceRecords();
+    await this.job.preflight.completeAsync();
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+  }
+
+}
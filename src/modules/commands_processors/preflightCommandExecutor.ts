@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Common } from '../components/common_components/common';
+import { CommandInitializationError } from '../models';
+import CommandExecutorBase from './commandExecutorBase';
+import { IPreflightProcess } from './IPreflightProcess';
+import { PreflightCommand } from './preflightCommand';
+
+export default class PreflightCommandExecutor {
+
+  static async execute(preflightProcess: IPreflightProcess): Promise<any> {
+
+    CommandExecutorBase.setupLogger(preflightProcess);
+
+    try {
+
+      let pinfo = Common.getPluginInfo(preflightProcess.cmd);
+
+      // At least one of the orgs is required to be specified.
+      // If missing, the second org will be the same one.
+      if (!preflightProcess.m_flags.sourceusername && !preflightProcess.m_flags.targetusername) {
+        throw new CommandInitializationError(preflightProcess.commandMessages.getMessage('errorMissingRequiredFlag', ['--sourceusername, --targetusername']));
+      }
+
+      if (!preflightProcess.m_flags.sourceusername) {
+        preflightProcess.m_flags.sourceusername = preflightProcess.m_flags.targetusername;
+      }
+
+      if (!preflightProcess.m_flags.targetusername) {
+        preflightProcess.m_flags.targetusername = preflightProcess.m_flags.sourceusername;
+      }
+
+      preflightProcess.command = new PreflightCommand(pinfo,
+        Common.logger,
+        preflightProcess.m_flags.path,
+        preflightProcess.m_flags.sourceusername,
+        preflightProcess.m_flags.targetusername,
+        preflightProcess.m_flags.apiversion,
+        preflightProcess.m_flags.usesf == "true",
+        preflightProcess.m_flags.params,
+        preflightProcess.m_flags.paramsfile
+      );
+
+      const objectSetsAmount = await preflightProcess.command.loadAsync();
+
+      for (let objectSetIndex = 0; objectSetIndex < objectSetsAmount; objectSetIndex++) {
+        await preflightProcess.command.setupObjectSetAsync(objectSetIndex);
+        await preflightProcess.command.runPreflightAsync();
+      }
+
+      // Exit - success
+      CommandExecutorBase.exitWithSuccess(preflightProcess);
+      // --
+
+    } catch (e: any) {
+
+      // Exit - errors
+      CommandExecutorBase.exitWithError(preflightProcess, e);
+      // --
+    }
+
+    return {};
+  }
+
+}
@@ -0,0 +1,190 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+
+import * as fs from 'fs';
+import * as models from '../models';
+import * as path from 'path';
+import IPluginInfo from '../models/common_models/IPluginInfo';
+import { CommandInitializationError } from '../models/common_models/errors';
+import { CONSTANTS } from '../components/common_components/statics';
+import { DATA_MEDIA_TYPE } from '../components/common_components/enumerations';
+import { plainToClass } from 'class-transformer';
+import 'reflect-metadata';
+import 'es6-shim';
+import {
+  Logger,
+  RESOURCES,
+} from '../components/common_components/logger';
+import {
+  MigrationJobRollback,
+  ScriptOrg,
+} from '../models';
+
+/**
+ * SFDMU:ROLLBACK CLI command
+ *
+ * @export
+ * @class RollbackCommand
+ */
+export class RollbackCommand {
+
+  logger: Logger;
+  pinfo: IPluginInfo;
+  basePath: string;
+  targetUsername: string;
+  apiVersion: string;
+  canModify: string;
+  useSf: boolean;
+  script: models.Script;
+  rollbacks: Array<MigrationJobRollback> = new Array<MigrationJobRollback>();
+
+  /**
+   * New instance of RollbackCommand.
+   * @param {Logger} logger The MessageUtils instance
+   * @param {string} basePath The absolute or relative path where the export.json file does exist (from the command line)
+   * @param {string} targetUsername The username/SFDX instance name of the org to revert the changes in (from the command line)
+   * @param {string} apiVersion The sf api version to use across all api operations (from the command line)
+   * @memberof RollbackCommand
+   */
+  constructor(
+    pinfo: IPluginInfo,
+    logger: Logger,
+    basePath: string,
+    targetUsername: string,
+    apiVersion: string,
+    canModify: string,
+    useSf: boolean) {
+
+    this.pinfo = pinfo;
+    this.logger = logger;
+    this.basePath = (path.isAbsolute(basePath) ? basePath : path.join(process.cwd(), basePath.toString())).replace(/([^"]+)(.*)/, "$1");
+    this.targetUsername = targetUsername;
+    this.apiVersion = apiVersion;
+    this.canModify = canModify;
+    this.useSf = useSf;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Loads the Script (if export.json exists in the working directory)
+   * and all rollback journals of all object sets
+   *
+   * @returns {Promise<number>} The amount of the loaded journals
+   * @memberof RollbackCommand
+   */
+  async loadAsync(): Promise<number> {
+
+    if (!fs.existsSync(this.basePath)) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.workingPathDoesNotExist));
+    }
+
+    // The export.json is optional here,
+    //  it is only used to get the org credentials and the api settings
+    let jsonObject: any = {};
+    let filePath = path.join(this.basePath, CONSTANTS.SCRIPT_FILE_NAME);
+    if (fs.existsSync(filePath)) {
+      try {
+        jsonObject = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (ex: any) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.incorrectExportJsonFormat, ex.message));
+      }
+    }
+    jsonObject.objects = [];
+    jsonObject.objectSets = [];
+    this.script = plainToClass(models.Script, jsonObject);
+
+    this.script.logger = this.logger;
+    this.script.basePath = this.basePath;
+    this.script.canModify = this.canModify || "";
+    this.script.useSf = this.useSf;
+    this.script.apiVersion = this.apiVersion || this.script.apiVersion;
+
+    // Load the journals.
+    // The journals of the fan-out job are stored separately for each target org.
+    this.script.fanOutTargetName = this.targetUsername;
+    if (!fs.existsSync(path.join(this.basePath, CONSTANTS.ROLLBACK_SUB_DIRECTORY + this.script.fanOutSubdirectory))) {
+      this.script.fanOutTargetName = undefined;
+    }
+    let rollbackDirectoryPath = path.join(this.basePath, CONSTANTS.ROLLBACK_SUB_DIRECTORY + this.script.fanOutSubdirectory);
+    let objectSetIndexes = [0];
+    if (fs.existsSync(rollbackDirectoryPath)) {
+      let prefix = path.basename(CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX);
+      fs.readdirSync(rollbackDirectoryPath).forEach(name => {
+        if (name.startsWith(prefix)) {
+          let objectSetIndex = +name.substring(prefix.length) - 1;
+          if (objectSetIndex > 0) {
+            objectSetIndexes.push(objectSetIndex);
+          }
+        }
+      });
+    }
+    this.rollbacks = objectSetIndexes
+      .sort((a, b) => b - a)
+      .map(objectSetIndex => new MigrationJobRollback(this.script, objectSetIndex))
+      .filter(rollback => rollback.load());
+
+    if (this.rollbacks.length == 0) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.rollbackJournalNotFound, rollbackDirectoryPath));
+    }
+
+    return this.rollbacks.length;
+  }
+
+  /**
+   * Connects to the org where the changes should be reverted
+   *
+   * @returns {Promise<void>}
+   * @memberof RollbackCommand
+   */
+  async setupOrgAsync(): Promise<void> {
+
+    this.logger.objectMinimal({ [this.logger.getResourceString(RESOURCES.runningVersion)]: this.pinfo.version });
+    this.logger.infoVerbose(RESOURCES.newLine);
+
+    // By default the org where the journal was recorded is used
+    let targetUsername = this.targetUsername || this.rollbacks[0].journal.targetUsername;
+    if (!targetUsername) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.rollbackTargetOrgIsMissing));
+    }
+
+    this.script.targetOrg = this.script.orgs.filter(x => x.name == targetUsername)[0] || new ScriptOrg();
+    Object.assign(this.script.targetOrg, {
+      script: this.script,
+      name: targetUsername,
+      media: DATA_MEDIA_TYPE.Org
+    });
+
+    await this.script.targetOrg.setupAsync(false);
+
+    this.logger.objectMinimal({
+      [this.logger.getResourceString(RESOURCES.target)]: this.logger.getResourceString(RESOURCES.targetOrg, this.script.targetOrg.name)
+    });
+
+    // Validate production update
+    await this.script.targetOrg.promptUserForProductionModificationAsync();
+  }
+
+  /**
+   * Reverts the changes from all journals
+   * starting from the last object set
+   *
+   * @returns {Promise<number>} Total amount of the reverted records
+   * @memberof RollbackCommand
+   */
+  async executeAsync(): Promise<number> {
+    let totalReverted = 0;
+    for (let rollback of this.rollbacks) {
+      this.logger.infoVerbose(RESOURCES.newLine);
+      totalReverted += await rollback.revertAsync(this.script.targetOrg);
+    }
+    this.logger.infoVerbose(RESOURCES.newLine);
+    return totalReverted;
+  }
+
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Common } from '../components/common_components/common';
+import CommandExecutorBase from './commandExecutorBase';
+import { IRollbackProcess } from './IRollbackProcess';
+import { RollbackCommand } from './rollbackCommand';
+
+export default class RollbackCommandExecutor {
+
+  static async execute(rollbackProcess: IRollbackProcess): Promise<any> {
+
+    CommandExecutorBase.setupLogger(rollbackProcess);
+
+    try {
+
+      let pinfo = Common.getPluginInfo(rollbackProcess.cmd);
+
+      rollbackProcess.command = new RollbackCommand(pinfo,
+        Common.logger,
+        rollbackProcess.m_flags.path,
+        rollbackProcess.m_flags.targetusername,
+        rollbackProcess.m_flags.apiversion,
+        rollbackProcess.m_flags.canmodify,
+        rollbackProcess.m_flags.usesf == "true"
+      );
+
+      await rollbackProcess.command.loadAsync();
+      await rollbackProcess.command.setupOrgAsync();
+      await rollbackProcess.command.executeAsync();
+
+      // Exit - success
+      CommandExecutorBase.exitWithSuccess(rollbackProcess);
+      // --
+
+    } catch (e: any) {
+
+      // Exit - errors
+      CommandExecutorBase.exitWithError(rollbackProcess, e);
+      // --
+    }
+
+    return {};
+  }
+
+}
@@ -10,10 +10,16 @@ import * as fs from 'fs';
 import * as models from '../models';
 import * as path from 'path';
 import IPluginInfo from '../models/common_models/IPluginInfo';
-import { ADDON_EVENTS } from '../components/common_components/enumerations';
+import { IRunCommandOptions } from '../models/common_models/helper_interfaces';
+import {
+  ADDON_EVENTS,
+  DATA_FILE_FORMAT,
+} from '../components/common_components/enumerations';
 import { CommandInitializationError } from '../models/common_models/errors';
 import { Common } from '../components/common_components/common';
 import { CONSTANTS } from '../components/common_components/statics';
+import { ScriptComposer } from '../components/common_components/scriptComposer';
+import { ScriptSchemaValidator } from '../components/common_components/scriptSchemaValidator';
 import { plainToClass } from 'class-transformer';
 import 'reflect-metadata';
 import 'es6-shim';
@@ -47,8 +53,15 @@ export class RunCommand {
   simulation: boolean;
   filePath: string;
   workingJson: any;
+  resolvedJson: string;
   useSf: boolean;
   logfullquery: boolean;
+  options: IRunCommandOptions;
+  graphMode: boolean = false;
+  preflightOnlyMode: boolean = false;
+  fanOutTargetName: string;
+  fanOutTargetIndex: number = 0;
+  processedRecordsAmount: number = 0;
 
   /**
    * New instance of RunCommand.
@@ -57,6 +70,7 @@ export class RunCommand {
    * @param {string} sourceUsername The username/SFDX instance name of the source env (from the command line)
    * @param {string} targetUsername The username/SFDX instance name of the target env (from the command line)
    * @param {string} apiVersion The sf api version to use across all api operations (from the command line)
+   * @param {IRunCommandOptions} [options] The run options (from the command line)
    * @memberof RunCommand
    */
   constructor(
@@ -70,9 +84,11 @@ export class RunCommand {
     simulation: boolean,
     exportJson: string,
     useSf: boolean,
-    logfullquery: boolean) {
+    logfullquery: boolean,
+    options: IRunCommandOptions = {}) {
     
     this.logfullquery = logfullquery;
+    this.options = options;
     this.useSf = useSf;
     this.pinfo = pinfo;
     this.logger = logger;
@@ -123,10 +139,26 @@ export class RunCommand {
       }
     }
 
+    // Validate against the JSON Schema
+    new ScriptSchemaValidator(this.logger).assertValid(json, this.filePath);
+
+    let jsonObject: any;
     try {
-      
-      let jsonObject = JSON.parse(json);
-      
+      jsonObject = JSON.parse(json);
+    } catch (ex: any) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.incorrectExportJsonFormat, ex.message));
+    }
+
+    // Resolve the base scripts and the includes
+    jsonObject = new ScriptComposer(this.logger).compose(jsonObject, path.join(this.basePath, CONSTANTS.SCRIPT_FILE_NAME));
+
+    // Substitute the parameters and the environment variables
+    this._applyScriptParameters(jsonObject);
+
+    this.resolvedJson = JSON.stringify(jsonObject, null, 2);
+
+    try {
+
       jsonObject.objects = jsonObject.objects || [];
       jsonObject.objectSets = jsonObject.objectSets || [];
       
@@ -173,7 +205,8 @@ export class RunCommand {
       this.canModify,
       this.simulation,
       this.useSf,
-      this.logfullquery);
+      this.logfullquery,
+      this.options);
 
     if (objectSetIndex == 0) {
       this.logger.objectMinimal({
@@ -187,6 +220,9 @@ export class RunCommand {
     this.script.loadFieldMappingConfiguration();
     await this.script.loadFieldMappingConfigurationFileAsync();
 
+    // Load masking profile
+    this.script.loadMaskingProfile();
+
     // Describe sobjects
     await this.script.processObjectsMetadataAsync();
 
@@ -212,6 +248,7 @@ export class RunCommand {
     });
 
     this.job.setup();
+    this.job.loadJournals();
   }
 
   /**
@@ -233,7 +270,9 @@ export class RunCommand {
   async prepareJobAsync(): Promise<void> {
     this.logger.infoNormal(RESOURCES.preparingJob);
     this.job.prepareJob();
-    await this.job.getTotalRecordsCountAsync();
+    if (!this.script.offlineMode) {
+      await this.job.getTotalRecordsCountAsync();
+    }
   }
 
   /**
@@ -246,10 +285,83 @@ export class RunCommand {
 
     this.logger.infoNormal(RESOURCES.executingJob);
 
-    await this.job.deleteOldRecordsAsync();
-    await this.job.retrieveRecordsAsync();
-    await this.job.updateRecordsAsync();
+    if (this.job.checkpoint.isCompleted) {
+      // The object set was fully processed during the previous run
+      this.logger.infoMinimal(RESOURCES.checkpointObjectSetCompleted, String(this.script.objectSetIndex + 1));
+      return;
+    }
+
+    if (this.script.offlineMode) {
+      // The orgs are not connected => the job can only be planned
+      this.logger.infoMinimal(RESOURCES.offlineModeJobSkipped);
+      this.logger.infoVerbose(RESOURCES.newLine);
+      return;
+    }
+
+    if (this.script.diffMode) {
+      // Only compare the source with the target, nothing is changed
+      await this.job.retrieveRecordsAsync();
+      await this.job.createDiffReportAsync();
+      this.logger.infoVerbose(RESOURCES.newLine);
+      return;
+    }
+
+    if (this.script.preflightMode) {
+      // Fail fast on the incompatible metadata before anything is changed
+      this.job.preflight.checkMetadata();
+      if (this.job.preflight.errorsCount > 0) {
+        await this.job.preflight.completeAsync();
+      }
+    }
 
+    let isJobCompleted = false;
+    try {
+      await this.job.limits.startAsync();
+      await this.job.deleteOldRecordsAsync();
+      await this.job.retrieveRecordsAsync();
+      if (this.script.preflightMode) {
+        this.job.preflight.checkSourceRecords();
+        await this.job.preflight.completeAsync();
+      }
+      await this.job.updateRecordsAsync();
+      isJobCompleted = true;
+    } catch (ex) {
+      if (this.job.rollback) {
+        // Transactional mode => revert everything was changed so far
+        this.logger.warn(RESOURCES.transactionalModeJobFailed);
+        await this.rollbackAsync();
+      }
+      throw ex;
+    } finally {
+      // The masked values may be already written to the Target even if the job has failed,
+      // the failed records are needed to re-submit them by the next run
+      this.job.masking.save();
+      this.job.failedRecords.save(isJobCompleted);
+    }
+
+    this.job.checkpoint.complete();
+    this.job.watermarks.save();
+    this.processedRecordsAmount += this.job.processedRecordsAmount;
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+  }
+
+  /**
+   * Reverts the changes made in the Target org
+   * by the current and all previous object sets
+   * using the rollback journals
+   *
+   * @returns {Promise<void>}
+   * @memberof RunCommand
+   */
+  async rollbackAsync(): Promise<void> {
+    this.logger.infoVerbose(RESOURCES.newLine);
+    for (let objectSetIndex = this.script.objectSetIndex; objectSetIndex >= 0; objectSetIndex--) {
+      let rollback = new models.MigrationJobRollback(this.script, objectSetIndex);
+      if (rollback.load()) {
+        await rollback.revertAsync(this.script.targetOrg);
+      }
+    }
     this.logger.infoVerbose(RESOURCES.newLine);
   }
 
@@ -261,6 +373,9 @@ export class RunCommand {
    * @memberof RunCommand
    */
   async runAddonEventAsync(event: ADDON_EVENTS): Promise<void> {
+    if (this.script.offlineMode) {
+      return;
+    }
     this.logger.infoVerbose(RESOURCES.newLine);
     this.logger.headerNormal(RESOURCES.processingAddon);
     let processed = await this.script.addonManager.triggerAddonModuleMethodAsync(event);
@@ -272,17 +387,126 @@ export class RunCommand {
 
 
   // ------------  Helpers -------------------------
-  private _initScript(objectSetIndex: number) {
+  protected _initScript(objectSetIndex: number) {
     this.script = plainToClass(models.Script, JSON.parse(this.workingJson));
     this.job = undefined;
     this.script.objects = this.script.objectSets[objectSetIndex].objects || this.script.objects;
     this.script.objectSetIndex = objectSetIndex;
+    this.script.graphMode = this.graphMode;
+    this.script.preflightOnlyMode = this.preflightOnlyMode;
+    this.script.fanOutTargetName = this.fanOutTargetName;
+    this.script.fanOutTargetIndex = this.fanOutTargetIndex;
   }
 
   
   private _setupGlobalScriptParameters() {
     Common.csvReadFileDelimiter = this.script.csvReadFileDelimiter;
     Common.csvWriteFileDelimiter = this.script.csvWriteFileDelimiter;
+
+    let dataFileFormat = String(this.script.dataFileFormat || DATA_FILE_FORMAT.Csv).toLowerCase();
+    let dataFileFormats: Array<string> = Object.values(DATA_FILE_FORMAT);
+    if (dataFileFormats.indexOf(dataFileFormat) < 0) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.invalidDataFileFormat,
+        String(this.script.dataFileFormat), dataFileFormats.join(', ')));
+    }
+    Common.dataFileFormat = this.script.dataFileFormat = dataFileFormat as DATA_FILE_FORMAT;
+  }
+
+  private _applyScriptParameters(jsonObject: any) {
+
+    let logger = this.logger;
+    let parameters = plainToClass(models.ScriptParameter, <Array<any>>(jsonObject.parameters || []));
+    let providedValues = this._getProvidedScriptParameterValues();
+    let values = new Map<string, string>();
+
+    parameters.forEach(parameter => {
+      let value = parameter.getValue(providedValues.get(parameter.name), logger);
+      values.set(parameter.name, value);
+      logger.infoVerbose(RESOURCES.usingScriptParameter, parameter.name, value);
+    });
+
+    // The provided values of the undeclared parameters are substituted as is
+    providedValues.forEach((value, name) => {
+      if (!values.has(name)) {
+        values.set(name, value);
+      }
+    });
+
+    let objects: Array<any> = [].concat(jsonObject.objects || [],
+      ...(jsonObject.objectSets || []).map((objectSet: any) => objectSet.objects || []));
+
+    objects.forEach(object => {
+      CONSTANTS.SCRIPT_PARAMETERIZED_OBJECT_PROPERTIES.forEach(property => {
+        object[property] = ___substitute(object[property], true);
+      });
+    });
+
+    (jsonObject.orgs || []).forEach((org: any) => {
+      Object.keys(org).forEach(property => {
+        org[property] = ___substitute(org[property]);
+      });
+    });
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___substitute(value: any, isQuery?: boolean): any {
+      if (typeof value != 'string') {
+        return value;
+      }
+      return value.replace(CONSTANTS.SCRIPT_PARAMETER_PLACEHOLDER_REGEX, (placeholder: string, name: string) => {
+        let parameterValue: string;
+        name = name.trim();
+        if (name.startsWith(CONSTANTS.SCRIPT_PARAMETER_ENV_PREFIX)) {
+          let variableName = name.substr(CONSTANTS.SCRIPT_PARAMETER_ENV_PREFIX.length).trim();
+          if (process.env[variableName] == null) {
+            throw new CommandInitializationError(logger.getResourceString(RESOURCES.missingEnvironmentVariable, variableName));
+          }
+          parameterValue = process.env[variableName];
+        } else if (!values.has(name)) {
+          throw new CommandInitializationError(logger.getResourceString(RESOURCES.unknownScriptParameter, name));
+        } else {
+          parameterValue = values.get(name);
+        }
+        // The value can't break out of the string literal of the query / filter
+        return isQuery ? parameterValue.replace(/\\/g, '\\\\').replace(/'/g, "\\'") : parameterValue;
+      });
+    }
+  }
+
+  private _getProvidedScriptParameterValues(): Map<string, string> {
+
+    let values = new Map<string, string>();
+
+    // The params file
+    if (this.options.paramsFile) {
+      let filePath = path.isAbsolute(this.options.paramsFile) ? this.options.paramsFile : path.join(process.cwd(), this.options.paramsFile);
+      let paramsObject: any;
+      try {
+        paramsObject = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (ex: any) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.scriptParametersFileLoadError, filePath, ex.message));
+      }
+      Object.keys(paramsObject || {}).forEach(name => {
+        if (paramsObject[name] != null) {
+          values.set(name, String(paramsObject[name]));
+        }
+      });
+    }
+
+    // The command line values override the values from the file
+    if (this.options.params) {
+      String(this.options.params).split(CONSTANTS.SCRIPT_PARAMETERS_SEPARATOR)
+        .map(pair => pair.trim())
+        .filter(pair => !!pair)
+        .forEach(pair => {
+          let index = pair.indexOf(CONSTANTS.SCRIPT_PARAMETER_VALUE_SEPARATOR);
+          if (index <= 0) {
+            throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.invalidScriptParametersFlag, pair));
+          }
+          values.set(pair.substr(0, index).trim(), pair.substr(index + 1).trim());
+        });
+    }
+
+    return values;
   }
 
 }
@@ -5,25 +5,28 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+
 import { Common } from '../components/common_components/common';
-import { ADDON_EVENTS } from '../components/common_components/enumerations';
+import {
+  ADDON_EVENTS,
+  FAN_OUT_TARGET_STATUS,
+} from '../components/common_components/enumerations';
 import {
   COMMAND_EXIT_STATUSES,
   LOG_MESSAGE_TYPE,
   LOG_MESSAGE_VERBOSITY,
-  Logger,
   RESOURCES,
 } from '../components/common_components/logger';
+import { CONSTANTS } from '../components/common_components/statics';
 import {
-  CommandAbortedByAddOnError,
-  CommandAbortedByUserError,
   CommandExecutionError,
   CommandInitializationError,
-  OrgMetadataError,
-  SuccessExit,
-  UnresolvableWarning,
 } from '../models';
-import ISfdmuCommand from '../models/common_models/ISfdxCommand';
+import { IFanOutTargetResult } from '../models/common_models/helper_interfaces';
+import IPluginInfo from '../models/common_models/IPluginInfo';
+import CommandExecutorBase from './commandExecutorBase';
 import { IRunProcess } from './IRunProcess';
 import { RunCommand } from './runCommand';
 
@@ -31,31 +34,7 @@ export default class RunCommandExecutor {
 
   static async execute(runProcess: IRunProcess): Promise<any> {
 
-    runProcess.m_flags.verbose = runProcess.m_flags.verbose && !runProcess.m_flags.json;
-    runProcess.m_flags.quiet = runProcess.m_flags.quiet || runProcess.m_flags.silent || runProcess.m_flags.version;
-    runProcess.m_flags.filelog = !!runProcess.m_flags.filelog && !runProcess.m_flags.version;
-    runProcess.m_flags.commandoutput = runProcess.m_flags.version;
-
-    runProcess.cmd = {
-      statics: runProcess["statics"],
-      argv: runProcess.argv
-    } as ISfdmuCommand;
-
-    Common.logger = new Logger(
-      runProcess.resources,
-      runProcess.commandMessages,
-      runProcess.m_ux,
-      runProcess.cmd,
-      runProcess.m_flags.loglevel,
-      runProcess.m_flags.path,
-      runProcess.m_flags.verbose,
-      runProcess.m_flags.concise,
-      runProcess.m_flags.quiet,
-      runProcess.m_flags.json,
-      runProcess.m_flags.noprompt,
-      runProcess.m_flags.nowarnings,
-      runProcess.m_flags.filelog,
-      runProcess.m_flags.commandoutput);
+    CommandExecutorBase.setupLogger(runProcess);
 
     try {
 
@@ -91,109 +70,166 @@ export default class RunCommandExecutor {
       }
 
       let commandResult: any;
-      runProcess.command = new RunCommand(pinfo,
-        Common.logger,
-        runProcess.m_flags.path,
-        runProcess.m_flags.sourceusername,
-        runProcess.m_flags.targetusername,
-        runProcess.m_flags.apiversion,
-        runProcess.m_flags.canmodify,
-        runProcess.m_flags.simulation,
-        runProcess.exportJson,
-        runProcess.m_flags.usesf == "true",
-        runProcess.m_flags.logfullquery
-        );
-
-      const objectSetsAmount = await runProcess.command.loadAsync();
 
-      for (let objectSetIndex = 0; objectSetIndex < objectSetsAmount; objectSetIndex++) {
-        await runProcess.command.setupObjectSetAsync(objectSetIndex);
-        await runProcess.command.createJobAsync();
-        await runProcess.command.processCSVFilesAsync();
-        await runProcess.command.prepareJobAsync();
-        await runProcess.command.runAddonEventAsync(ADDON_EVENTS.onBefore);
-        await runProcess.command.executeJobAsync();
-        await runProcess.command.runAddonEventAsync(ADDON_EVENTS.onAfter);
+      // Multiple comma-separated target orgs => fan-out
+      let targetUsernames = Common.distinctStringArray(String(runProcess.m_flags.targetusername)
+        .split(CONSTANTS.FAN_OUT_TARGETS_SEPARATOR)
+        .map(username => username.trim())
+        .filter(username => !!username));
+
+      if (runProcess.m_flags.printscript) {
+        // Only print the resolved script
+        runProcess.command = RunCommandExecutor._createCommand(runProcess, pinfo, runProcess.m_flags.targetusername);
+        await runProcess.command.loadAsync();
+        Common.logger.log(
+          RESOURCES.resolvedScript,
+          LOG_MESSAGE_TYPE.STDOUT_ONLY,
+          LOG_MESSAGE_VERBOSITY.ALWAYS,
+          runProcess.command.resolvedJson);
+      } else if (targetUsernames.length > 1) {
+        await RunCommandExecutor._executeFanOutAsync(runProcess, pinfo, targetUsernames);
+      } else {
+        runProcess.command = RunCommandExecutor._createCommand(runProcess, pinfo, runProcess.m_flags.targetusername);
+        await RunCommandExecutor._executeCommandAsync(runProcess.command);
       }
 
       // Exit - success
-      Common.logger.commandFinishMessage(
-        commandResult || RESOURCES.commandSucceededResult,
-        COMMAND_EXIT_STATUSES.SUCCESS);
-
-      runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.SUCCESS);
+      CommandExecutorBase.exitWithSuccess(runProcess, commandResult);
       // --
 
     } catch (e: any) {
 
       // Exit - errors
-      switch (e.constructor) {
-
-        case SuccessExit:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandSucceededResult,
-            COMMAND_EXIT_STATUSES.SUCCESS);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.SUCCESS);
-
-
-        case CommandInitializationError:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandInitializationErrorResult,
-            COMMAND_EXIT_STATUSES.COMMAND_INITIALIZATION_ERROR,
-            e.stack, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_INITIALIZATION_ERROR);
-
-
-        case OrgMetadataError:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandOrgMetadataErrorResult,
-            COMMAND_EXIT_STATUSES.ORG_METADATA_ERROR,
-            e.stack, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.ORG_METADATA_ERROR);
-
-
-        case CommandExecutionError:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandExecutionErrorResult,
-            COMMAND_EXIT_STATUSES.COMMAND_EXECUTION_ERROR,
-            e.stack, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_EXECUTION_ERROR);
-
-
-        case UnresolvableWarning:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandAbortedDueWarningErrorResult,
-            COMMAND_EXIT_STATUSES.UNRESOLWABLE_WARNING, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.UNRESOLWABLE_WARNING);
+      CommandExecutorBase.exitWithError(runProcess, e);
+      // --
+    }
 
+    return {};
+  }
 
-        case CommandAbortedByUserError:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandAbortedByUserErrorResult,
-            COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_USER,
-            e.stack, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_USER);
+  // ------------  Helpers -------------------------
+  private static _createCommand(runProcess: IRunProcess, pinfo: IPluginInfo, targetUsername: string): RunCommand {
+    return new RunCommand(pinfo,
+      Common.logger,
+      runProcess.m_flags.path,
+      runProcess.m_flags.sourceusername,
+      targetUsername,
+      runProcess.m_flags.apiversion,
+      runProcess.m_flags.canmodify,
+      runProcess.m_flags.simulation,
+      runProcess.exportJson,
+      runProcess.m_flags.usesf == "true",
+      runProcess.m_flags.logfullquery,
+      {
+        resume: runProcess.m_flags.resume,
+        diff: runProcess.m_flags.diff,
+        resetWatermarks: runProcess.m_flags.resetwatermarks,
+        refreshDescribeCache: runProcess.m_flags.refreshdescribecache,
+        offline: runProcess.m_flags.offline,
+        preflight: runProcess.m_flags.preflight,
+        retryFailed: runProcess.m_flags["retry-failed"],
+        params: runProcess.m_flags.params,
+        paramsFile: runProcess.m_flags.paramsfile
+      }
+    );
+  }
 
-        case CommandAbortedByAddOnError:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandAbortedByAddOnErrorResult,
-            COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_ADDON,
-            e.stack, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_ABORTED_BY_ADDON);
+  private static async _executeCommandAsync(command: RunCommand): Promise<void> {
 
+    const objectSetsAmount = await command.loadAsync();
 
-        default:
-          Common.logger.commandFinishMessage(
-            RESOURCES.commandAbortedDueUnexpectedErrorResult,
-            COMMAND_EXIT_STATUSES.COMMAND_UNEXPECTED_ERROR,
-            e.stack, e.message);
-          runProcess.exitProcess && process.exit(COMMAND_EXIT_STATUSES.COMMAND_UNEXPECTED_ERROR);
+    try {
+      for (let objectSetIndex = 0; objectSetIndex < objectSetsAmount; objectSetIndex++) {
+        await command.setupObjectSetAsync(objectSetIndex);
+        await command.createJobAsync();
+        await command.processCSVFilesAsync();
+        await command.prepareJobAsync();
+        await command.runAddonEventAsync(ADDON_EVENTS.onBefore);
+        await command.executeJobAsync();
+        await command.runAddonEventAsync(ADDON_EVENTS.onAfter);
+      }
+    } finally {
+      // The SQLite data files are kept in memory during the run
+      await Common.saveSqliteDatabasesAsync();
+    }
+  }
 
+  private static async _executeFanOutAsync(runProcess: IRunProcess, pinfo: IPluginInfo, targetUsernames: Array<string>): Promise<void> {
+
+    let logger = Common.logger;
+    let results = new Array<IFanOutTargetResult>();
+
+    logger.infoMinimal(RESOURCES.fanOutStarted, String(targetUsernames.length), targetUsernames.join(', '));
+
+    for (let targetIndex = 0; targetIndex < targetUsernames.length; targetIndex++) {
+
+      let targetUsername = targetUsernames[targetIndex];
+      let startTime = new Date();
+      let result = <IFanOutTargetResult>{
+        targetUsername,
+        status: FAN_OUT_TARGET_STATUS.Succeeded,
+        processedRecordsAmount: 0,
+        startTime: Common.formatDateTime(startTime),
+        errorMessage: ""
+      };
+
+      logger.infoVerbose(RESOURCES.newLine);
+      logger.headerMinimal(RESOURCES.fanOutTargetStarted, String(targetIndex + 1), String(targetUsernames.length), targetUsername);
+
+      // Each target has its own log file
+      logger.switchFileLog(targetUsername);
+
+      try {
+        runProcess.command = RunCommandExecutor._createCommand(runProcess, pinfo, targetUsername);
+        runProcess.command.fanOutTargetName = targetUsername;
+        runProcess.command.fanOutTargetIndex = targetIndex;
+        await RunCommandExecutor._executeCommandAsync(runProcess.command);
+      } catch (ex: any) {
+        // The failed target does not stop the rest of the targets
+        result.status = FAN_OUT_TARGET_STATUS.Failed;
+        result.errorMessage = ex.message;
+        logger.error(RESOURCES.fanOutTargetFailed, targetUsername, ex.message);
+      } finally {
+        logger.switchFileLog();
       }
-      // --
+
+      let endTime = new Date();
+      result.processedRecordsAmount = runProcess.command ? runProcess.command.processedRecordsAmount : 0;
+      result.endTime = Common.formatDateTime(endTime);
+      result.elapsedTime = Common.timeDiffString(startTime, endTime);
+      results.push(result);
     }
 
-    return {};
+    // Combined summary
+    logger.infoVerbose(RESOURCES.newLine);
+    logger.headerMinimal(RESOURCES.fanOutSummary);
+    results.forEach(result => {
+      logger.infoMinimal(RESOURCES.fanOutTargetSummary,
+        result.targetUsername,
+        result.status,
+        String(result.processedRecordsAmount),
+        result.elapsedTime);
+    });
+
+    let summaryDirectoryPath = path.join(runProcess.command.basePath, CONSTANTS.REPORTS_SUB_DIRECTORY);
+    if (!fs.existsSync(summaryDirectoryPath)) {
+      fs.mkdirSync(summaryDirectoryPath, { recursive: true });
+    }
+    let summaryFilePath = path.join(summaryDirectoryPath, CONSTANTS.FAN_OUT_SUMMARY_FILENAME);
+    fs.writeFileSync(summaryFilePath, JSON.stringify({
+      sourceUsername: runProcess.m_flags.sourceusername,
+      createdDate: Common.formatDateTime(new Date()),
+      targets: results
+    }, null, 2));
+    logger.infoNormal(RESOURCES.fanOutSummaryFileCreated, summaryFilePath);
+
+    let failedTargets = results.filter(result => result.status == FAN_OUT_TARGET_STATUS.Failed);
+    if (failedTargets.length > 0) {
+      throw new CommandExecutionError(logger.getResourceString(RESOURCES.fanOutFailed,
+        String(failedTargets.length),
+        String(results.length),
+        failedTargets.map(result => result.targetUsername).join(', ')));
+    }
   }
 
 }
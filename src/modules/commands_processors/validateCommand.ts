@@ -0,0 +1,232 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+
+import * as fs from 'fs';
+import * as path from 'path';
+import IPluginInfo from '../models/common_models/IPluginInfo';
+import { IScriptValidationIssue } from '../models/common_models/helper_interfaces';
+import { CommandExecutionError } from '../models/common_models/errors';
+import { Common } from '../components/common_components/common';
+import { CONSTANTS } from '../components/common_components/statics';
+import {
+  DATA_FILE_FORMAT,
+  OPERATION,
+  PREFLIGHT_ISSUE_SEVERITY,
+} from '../components/common_components/enumerations';
+import { parseQuery } from 'soql-parser-js';
+import 'reflect-metadata';
+import 'es6-shim';
+import {
+  Logger,
+  RESOURCES,
+} from '../components/common_components/logger';
+import { ScriptObject } from '../models';
+import { RunCommand } from './runCommand';
+
+/**
+ * SFDMU:VALIDATE CLI command.
+ * Loads the script the same way as the SFDMU:RUN command does (which validates it against the JSON Schema)
+ * and checks the queries and the referenced data files offline, without connecting to any org.
+ *
+ * @export
+ * @class ValidateCommand
+ */
+export class ValidateCommand extends RunCommand {
+
+  issues: Array<IScriptValidationIssue> = new Array<IScriptValidationIssue>();
+
+  /**
+   * New instance of ValidateCommand.
+   * @param {Logger} logger The MessageUtils instance
+   * @param {string} basePath The absolute or relative path where the export.json file does exist (from the command line)
+   * @param {string} sourceUsername The username/SFDX instance name of the source env, the source data files are checked if it is csvfile (from the command line)
+   * @param {string} targetUsername The username/SFDX instance name of the target env (from the command line)
+   * @param {string} params The comma-separated name=value pairs of the export.json parameters (from the command line)
+   * @param {string} paramsFile The path to the JSON file with the values of the export.json parameters (from the command line)
+   * @memberof ValidateCommand
+   */
+  constructor(
+    pinfo: IPluginInfo,
+    logger: Logger,
+    basePath: string,
+    sourceUsername: string,
+    targetUsername: string,
+    params: string,
+    paramsFile: string) {
+
+    super(pinfo,
+      logger,
+      basePath,
+      sourceUsername,
+      targetUsername,
+      undefined,
+      "",
+      false,
+      undefined,
+      false,
+      false,
+      { offline: true, params, paramsFile });
+  }
+
+  get errorsCount(): number {
+    return this.issues.filter(issue => issue.severity == PREFLIGHT_ISSUE_SEVERITY.Error).length;
+  }
+
+  get warningsCount(): number {
+    return this.issues.filter(issue => issue.severity == PREFLIGHT_ISSUE_SEVERITY.Warning).length;
+  }
+
+  get isCsvSource(): boolean {
+    return String(this.sourceUsername || '').toLowerCase() == CONSTANTS.CSV_FILES_SOURCENAME;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Checks the queries of the given object set
+   * and its source data files when the source is csvfile
+   *
+   * @param {number} objectSetIndex
+   * @returns {Promise<void>}
+   * @memberof ValidateCommand
+   */
+  async validateObjectSetAsync(objectSetIndex: number): Promise<void> {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.headerMinimal(RESOURCES.validatingObjectSet, String(objectSetIndex + 1));
+
+    this._initScript(objectSetIndex);
+    this.script.basePath = this.basePath;
+
+    let objectsPath = objectSetIndex == 0 && this.script.objectSets.length == 1 ? "objects" : `objectSets[${objectSetIndex}].objects`;
+
+    for (let index = 0; index < this.script.objects.length; index++) {
+
+      let object = this.script.objects[index];
+      if (object.excluded) {
+        continue;
+      }
+      let objectPath = `${objectsPath}[${index}]`;
+
+      let parsedQuery: any;
+      try {
+        parsedQuery = parseQuery(object.query);
+      } catch (ex: any) {
+        this._addIssue(PREFLIGHT_ISSUE_SEVERITY.Error, this.filePath, `${objectPath}.query`, RESOURCES.validateInvalidQuery, ex.message);
+        continue;
+      }
+
+      if (object.deleteQuery) {
+        try {
+          parseQuery(object.deleteQuery);
+        } catch (ex: any) {
+          this._addIssue(PREFLIGHT_ISSUE_SEVERITY.Error, this.filePath, `${objectPath}.deleteQuery`, RESOURCES.validateInvalidQuery, ex.message);
+        }
+      }
+
+      if (this.isCsvSource
+        && Common.dataFileFormat != DATA_FILE_FORMAT.Sqlite
+        && ScriptObject.getOperation(object.operation) != OPERATION.Delete) {
+        await this._validateSourceFileAsync(parsedQuery, objectPath);
+      }
+    }
+
+    if (objectSetIndex == 0) {
+      await this._validateMappingFileAsync(CONSTANTS.VALUE_MAPPING_CSV_FILENAME, ["ObjectName", "FieldName", "RawValue", "Value"]);
+      await this._validateMappingFileAsync(CONSTANTS.FIELD_MAPPING_FILENAME, ["ObjectName", "Target"]);
+    }
+  }
+
+  /**
+   * Outputs the found issues and fails if there are any errors
+   *
+   * @memberof ValidateCommand
+   */
+  complete() {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+
+    this.issues.forEach(issue => {
+      this.logger.warn(RESOURCES.scriptValidationIssue, issue.severity, issue.filePath,
+        String(issue.line), String(issue.column), issue.path, issue.message);
+    });
+
+    if (this.errorsCount > 0) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.validateFailed,
+        String(this.errorsCount), String(this.warningsCount)));
+    }
+    this.logger.infoMinimal(RESOURCES.validatePassed, String(this.warningsCount));
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private async _validateSourceFileAsync(parsedQuery: any, objectPath: string): Promise<void> {
+
+    let sObjectName: string = parsedQuery.sObject;
+
+    // User and Group are merged into the single file at runtime
+    let filePath = sObjectName == "User" || sObjectName == "Group"
+      ? path.join(this.script.rawSourceDirectoryPath, `${sObjectName}.${Common.dataFileFormat}`)
+      : Common.getCSVFilename(this.script.rawSourceDirectoryPath, sObjectName);
+
+    if (!fs.existsSync(filePath)) {
+      this._addIssue(PREFLIGHT_ISSUE_SEVERITY.Warning, filePath, objectPath, RESOURCES.validateMissingSourceFile, sObjectName);
+      return;
+    }
+
+    // The columns are checked only for the csv files, the other formats omit the empty values
+    if (Common.dataFileFormat != DATA_FILE_FORMAT.Csv) {
+      return;
+    }
+
+    let rows = await Common.readCsvFileAsync(filePath, 1);
+    let columns = Object.keys(rows[0] || {}).map(column => column.trim().toLowerCase());
+    let missingColumns = (parsedQuery.fields || [])
+      .map((field: any) => field.type == 'Field' ? field.field : field.type == 'FieldRelationship' ? field.rawValue : undefined)
+      .filter((fieldName: string) => !!fieldName
+        && fieldName != "Id"
+        && fieldName.toLowerCase() != CONSTANTS.MOCK_ALL_FIELDS_PATTERN
+        && !fieldName.startsWith(CONSTANTS.COMPLEX_FIELDS_QUERY_PREFIX)
+        && !CONSTANTS.MULTISELECT_SOQL_KEYWORDS.some(keyword => ___isMultiselectKeyword(fieldName, keyword))
+        && columns.indexOf(fieldName.toLowerCase()) < 0);
+
+    if (missingColumns.length > 0) {
+      this._addIssue(PREFLIGHT_ISSUE_SEVERITY.Warning, filePath, objectPath, RESOURCES.validateMissingColumns, missingColumns.join(', '));
+    }
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___isMultiselectKeyword(fieldName: string, keyword: string): boolean {
+      return keyword.endsWith('*') ? fieldName.startsWith(keyword.slice(0, -1)) : fieldName == keyword;
+    }
+  }
+
+  private async _validateMappingFileAsync(fileName: string, requiredColumns: Array<string>): Promise<void> {
+    let filePath = path.join(this.basePath, fileName);
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    let rows = await Common.readCsvFileAsync(filePath, 1);
+    let columns = Object.keys(rows[0] || {}).map(column => column.trim());
+    let missingColumns = requiredColumns.filter(column => columns.indexOf(column) < 0);
+    if (missingColumns.length > 0) {
+      this._addIssue(PREFLIGHT_ISSUE_SEVERITY.Error, filePath, "", RESOURCES.validateMissingColumns, missingColumns.join(', '));
+    }
+  }
+
+  private _addIssue(severity: PREFLIGHT_ISSUE_SEVERITY, filePath: string, issuePath: string, message: RESOURCES, ...tokens: Array<string>) {
+    this.issues.push({
+      severity,
+      filePath,
+      line: 0,
+      column: 0,
+      path: issuePath,
+      message: this.logger.getResourceString(message, ...tokens)
+    });
+  }
+
+}
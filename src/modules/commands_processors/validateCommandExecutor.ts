@@ -0,0 +1,60 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Common } from '../components/common_components/common';
+import CommandExecutorBase from './commandExecutorBase';
+import { IValidateProcess } from './IValidateProcess';
+import { ValidateCommand } from './validateCommand';
+
+export default class ValidateCommandExecutor {
+
+  static async execute(validateProcess: IValidateProcess): Promise<any> {
+
+    CommandExecutorBase.setupLogger(validateProcess);
+
+    try {
+
+      let pinfo = Common.getPluginInfo(validateProcess.cmd);
+
+      // The orgs are never connected, so they are optional.
+      // If missing, the second org will be the same one.
+      validateProcess.m_flags.sourceusername = validateProcess.m_flags.sourceusername || validateProcess.m_flags.targetusername || '';
+      validateProcess.m_flags.targetusername = validateProcess.m_flags.targetusername || validateProcess.m_flags.sourceusername;
+
+      validateProcess.command = new ValidateCommand(pinfo,
+        Common.logger,
+        validateProcess.m_flags.path,
+        validateProcess.m_flags.sourceusername,
+        validateProcess.m_flags.targetusername,
+        validateProcess.m_flags.params,
+        validateProcess.m_flags.paramsfile
+      );
+
+      // The schema errors of the script files are thrown here
+      const objectSetsAmount = await validateProcess.command.loadAsync();
+
+      for (let objectSetIndex = 0; objectSetIndex < objectSetsAmount; objectSetIndex++) {
+        await validateProcess.command.validateObjectSetAsync(objectSetIndex);
+      }
+
+      validateProcess.command.complete();
+
+      // Exit - success
+      CommandExecutorBase.exitWithSuccess(validateProcess);
+      // --
+
+    } catch (e: any) {
+
+      // Exit - errors
+      CommandExecutorBase.exitWithError(validateProcess, e);
+      // --
+    }
+
+    return {};
+  }
+
+}
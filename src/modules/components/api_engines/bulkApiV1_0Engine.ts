@@ -15,10 +15,10 @@ import {
   IApiJobCreateResult,
   ICsvChunk,
 } from '../../models/api_models/helper_interfaces';
-import { Common } from '../common_components/common';
 import { OPERATION } from '../common_components/enumerations';
 import { Sfdx } from '../common_components/sfdx';
 import { CONSTANTS } from '../common_components/statics';
+import { RestApiEngine } from './restApiEngine';
 
 /**
  * Implementation of the Salesforce Bulk API v1.0
@@ -45,6 +45,13 @@ export class BulkApiV1_0Engine extends ApiEngineBase implements IApiEngine {
     return BulkApiV1_0Engine;
   }
 
+  getLockRetryEngineClassType(): typeof ApiEngineBase {
+    if (this.retryPolicy.switchToRestApiOnLockErrors && this.operation != OPERATION.HardDelete) {
+      return RestApiEngine;
+    }
+    return BulkApiV1_0Engine;
+  }
+
   async createCRUDApiJobAsync(allRecords: Array<any>): Promise<IApiJobCreateResult> {
 
     this._fixRecords(allRecords);
@@ -58,7 +65,7 @@ export class BulkApiV1_0Engine extends ApiEngineBase implements IApiEngine {
         concurrencyMode: this.concurrencyMode
       }
     );
-    let recordChunks = Common.chunkArray(allRecords, this.bulkApiV1BatchSize);
+    let recordChunks = this.chunkRecordsByGroups(allRecords, this.bulkApiV1BatchSize);
     let chunks = new CsvChunks().fromArrayChunks(recordChunks);
     this.apiJobCreateResult = {
       chunks,
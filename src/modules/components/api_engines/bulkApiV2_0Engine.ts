@@ -7,6 +7,7 @@
 const parse2 = require('csv-parse/lib/sync');
 //import * as parse2 from 'csv-parse/lib/sync';
 
+import { CsvChunks } from '../../models';
 import {
   ApiEngineBase,
   ApiInfo,
@@ -25,6 +26,7 @@ import {
 } from '../common_components/enumerations';
 import { RESOURCES } from '../common_components/logger';
 import { CONSTANTS } from '../common_components/statics';
+import { RestApiEngine } from './restApiEngine';
 
 const parse = (parse2 as any).parse || parse2;
 const request = require('request');
@@ -72,10 +74,29 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
     return BulkApiV2_0Engine;
   }
 
+  getLockRetryEngineClassType(): typeof ApiEngineBase {
+    if (this.retryPolicy.switchToRestApiOnLockErrors && this.operation != OPERATION.HardDelete) {
+      return RestApiEngine;
+    }
+    return BulkApiV2_0Engine;
+  }
+
   async createCRUDApiJobAsync(allRecords: Array<any>): Promise<IApiJobCreateResult> {
-    let chunks = Common.createCsvStringsFromArray(allRecords,
-      CONSTANTS.BULK_API_V2_MAX_CSV_SIZE_IN_BYTES,
-      CONSTANTS.BULK_API_V2_BLOCK_SIZE);
+    // Salesforce splits the data of the job into the internal batches of 10,000 records.
+    //  When grouped by the parent, each job holds only the whole groups and no more records
+    //  than the single internal batch, so the records of the same parent are not split between the batches.
+    //  The group larger than the internal batch is still split.
+    let recordChunks = this.groupByFieldName
+      ? this.chunkRecordsByGroups(allRecords, CONSTANTS.BULK_API_V2_INTERNAL_BATCH_SIZE)
+      : [allRecords];
+    let chunks = new CsvChunks();
+    recordChunks.forEach(records => {
+      let recordsChunks = Common.createCsvStringsFromArray(records,
+        CONSTANTS.BULK_API_V2_MAX_CSV_SIZE_IN_BYTES,
+        CONSTANTS.BULK_API_V2_BLOCK_SIZE);
+      chunks.header = recordsChunks.header;
+      chunks.chunks = chunks.chunks.concat(recordsChunks.chunks);
+    });
     this.apiJobCreateResult = {
       chunks,
       apiInfo: new ApiInfo({
@@ -218,7 +239,7 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
     let self = this;
     this.operationType = operationType;
     return new Promise(resolve => {
-      request.post({
+      self._request('post', {
         url: this.instanceUrl + this._getCreateJobEndpointUrl(),
         body: JSON.stringify({
           object: objectAPIName,
@@ -226,9 +247,6 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
           operation: operationType,
           lineEnding: 'LF'
         }),
-        auth: {
-          'bearer': this.accessToken
-        },
         headers: requestHeaderJson
       }, function (error: any, response: any, body: any) {
         if (!error && response.statusCode == 200) {
@@ -268,13 +286,10 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
     }
 
     return new Promise(resolve => {
-      request.put({
+      self._request('put', {
         timeout: requestTimeout,
         url: this.instanceUrl + '/' + contentUrl,
         body: csvContent,
-        auth: {
-          'bearer': this.accessToken
-        },
         headers: requestHeaderCsv
       }, function (error: any, response: any) {
         if (!error && response.statusCode == 201) {
@@ -301,14 +316,11 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
   async closeBulkJobAsync(contentUrl: string): Promise<ApiInfo> {
     let self = this;
     return new Promise(resolve => {
-      request.patch({
+      self._request('patch', {
         url: this.instanceUrl + '/' + contentUrl.replace("/batches", "/"),
         body: JSON.stringify({
           "state": "UploadComplete"
         }),
-        auth: {
-          'bearer': this.accessToken
-        },
         headers: requestHeaderJson
       }, function (error: any, response: any, body: any) {
         if (!error && response.statusCode == 200) {
@@ -336,11 +348,8 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
   async pollBulkJobAsync(contentUrl: string): Promise<ApiInfo> {
     let self = this;
     return new Promise(resolve => {
-      request.get({
+      self._request('get', {
         url: this.instanceUrl + '/' + contentUrl.replace("/batches", "/"),
-        auth: {
-          'bearer': this.accessToken
-        },
         headers: requestHeaderJson
       }, function (error: any, response: any, body: any) {
         if (!error && response.statusCode == 200) {
@@ -431,12 +440,9 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
   async getBulkJobResultAsync(contentUrl: string): Promise<ApiInfo> {
     let self = this;
     return new Promise(resolve => {
-      request.get({
+      self._request('get', {
         timeout: requestTimeout,
         url: this.instanceUrl + '/' + contentUrl.replace("/batches", "/") + 'successfulResults/',
-        auth: {
-          'bearer': this.accessToken
-        },
         headers: requestHeaderJson
       }, async function (error: any, response: any, body: any) {
         if (!error && response.statusCode >= 200 && response.statusCode < 400) {
@@ -534,12 +540,9 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
   private async _getBulkJobUnsuccessfullResultAsync(contentUrl: string, isGetFailed: boolean): Promise<Array<object>> {
     let self = this;
     return new Promise(resolve => {
-      request.get({
+      self._request('get', {
         timeout: requestTimeout,
         url: this.instanceUrl + '/' + contentUrl.replace("/batches", "/") + (isGetFailed ? 'failedResults/' : 'unprocessedrecords/'),
-        auth: {
-          'bearer': this.accessToken
-        },
         headers: requestHeaderJson
       }, function (error: any, response: any, body: any) {
         if (!error && response.statusCode == 200) {
@@ -590,6 +593,29 @@ export class BulkApiV2_0Engine extends ApiEngineBase implements IApiEngine {
     return value;
   }
 
+  private _request(method: 'get' | 'post' | 'put' | 'patch', options: any, callback: (error: any, response: any, body: any) => void) {
+    let accessToken = this.accessToken;
+    request[method](Object.assign({}, options, {
+      auth: {
+        'bearer': accessToken
+      }
+    }), (error: any, response: any, body: any) => {
+      if (!error && response.statusCode == 401 && this.connectionData.refreshAccessTokenAsync) {
+        // The session has expired => repeat the request once with the new access token
+        this.connectionData.refreshAccessTokenAsync(accessToken).then(newAccessToken => {
+          this.connectionData.accessToken = newAccessToken;
+          request[method](Object.assign({}, options, {
+            auth: {
+              'bearer': newAccessToken
+            }
+          }), callback);
+        }, (refreshError: any) => callback(refreshError, undefined, undefined));
+        return;
+      }
+      callback(error, response, body);
+    });
+  }
+
   private _apiRequestErrorHandler(resolve: any, error: any, response: any, body: any) {
     if (!response) {
       // Runtime error
@@ -0,0 +1,328 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+const parse2 = require('csv-parse/lib/sync');
+
+import {
+  composeQuery,
+  getComposedField,
+  OrderByClause,
+  parseQuery,
+  Query,
+  WhereClause,
+} from 'soql-parser-js';
+
+import { IAppLogger } from '../../app/appModels';
+import { ApiInfo } from '../../models/api_models';
+import { IBulkQueryEngineInitParameters } from '../../models/api_models/helper_interfaces';
+import { IOrgConnectionData } from '../../models/common_models/helper_interfaces';
+import { Common } from '../common_components/common';
+import { RESOURCES } from '../common_components/logger';
+import { CONSTANTS } from '../common_components/statics';
+
+const parse = (parse2 as any).parse || parse2;
+const request = require('request');
+
+const queryJobEndpoint = '/services/data/[v]/jobs/query';
+const requestTimeout = 10 * 60 * 1000;// 10 minutes of timeout for the large result pages and slow internet connection
+
+const requestHeaderCsv = Object.assign({}, {
+  'Accept': 'text/csv'
+}, CONSTANTS.SFORCE_API_CALL_HEADERS);
+
+const requestHeaderJson = Object.assign({}, {
+  'Content-Type': 'application/json; charset=UTF-8',
+  'Accept': 'application/json'
+}, CONSTANTS.SFORCE_API_CALL_HEADERS);
+
+type QueryOperationType = "query" | "queryAll";
+
+/**
+ * Implementation of the Salesforce Bulk API v2.0 query jobs.
+ * The query results are downloaded page by page using the locator
+ * and each page is passed to the caller as soon as it is received.
+ *
+ * When the PK chunk size is set, the boundaries of the Id ranges of this size are found first
+ * by the keyset queries (ORDER BY Id LIMIT <chunk size>),
+ * then each Id range is queried by the separated parallel job.
+ *
+ * @export
+ * @class BulkApiV2_0QueryEngine
+ */
+// tslint:disable-next-line: class-name
+export class BulkApiV2_0QueryEngine {
+
+  logger: IAppLogger;
+  connectionData: IOrgConnectionData;
+  sObjectName: string;
+  pollingIntervalMs: number;
+  pollingTimeoutMs: number;
+  pageSize: number;
+  pkChunkSize: number;
+  parallelJobs: number;
+
+  get instanceUrl() {
+    return this.connectionData.instanceUrl;
+  }
+
+  get version() {
+    return this.connectionData.apiVersion;
+  }
+
+  constructor(init: IBulkQueryEngineInitParameters) {
+    this.logger = init.logger;
+    this.connectionData = init.connectionData;
+    this.sObjectName = init.sObjectName;
+    this.pollingIntervalMs = init.pollingIntervalMs || CONSTANTS.DEFAULT_POLLING_INTERVAL_MS;
+    this.pollingTimeoutMs = init.pollingTimeoutMs;
+    this.pageSize = init.pageSize || CONSTANTS.DEFAULT_BULK_QUERY_PAGE_SIZE;
+    this.pkChunkSize = init.pkChunkSize || 0;
+    this.parallelJobs = init.parallelJobs || 1;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Executes the query and passes the retrieved records to the page callback page by page
+   *
+   * @param {string} soql The SOQL query
+   * @param {boolean} useQueryAll true to include the deleted and the archived records
+   * @param {(records: Array<any>) => Promise<void>} pageCallback Receives the records of each result page
+   * @param {(progress: ApiInfo) => void} [progressCallback] Receives the state of the query jobs
+   * @returns {Promise<number>} The total amount of the retrieved records
+   * @memberof BulkApiV2_0QueryEngine
+   */
+  async queryAsync(soql: string,
+    useQueryAll: boolean,
+    pageCallback: (records: Array<any>) => Promise<void>,
+    progressCallback?: (progress: ApiInfo) => void): Promise<number> {
+
+    let operation: QueryOperationType = useQueryAll ? "queryAll" : "query";
+    let parsedQuery = parseQuery(soql);
+
+    // The chunks can not be applied to the queries which have to be processed as a whole
+    if (this.pkChunkSize > 0
+      && !parsedQuery.limit
+      && !parsedQuery.offset
+      && !parsedQuery.orderBy
+      && !parsedQuery.groupBy) {
+      return await this._queryByPkChunksAsync(parsedQuery, operation, pageCallback, progressCallback);
+    }
+
+    return await this._runQueryJobAsync(soql, operation, pageCallback, progressCallback);
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private async _queryByPkChunksAsync(parsedQuery: Query,
+    operation: QueryOperationType,
+    pageCallback: (records: Array<any>) => Promise<void>,
+    progressCallback: (progress: ApiInfo) => void): Promise<number> {
+
+    // Find the last Id of each chunk using the keyset pagination (ORDER BY Id LIMIT <chunk size>),
+    // so only the Ids of the chunk boundaries are kept in memory
+    let boundaryIds = new Array<string>();
+    let lastId: string;
+    let chunkRecordsAmount: number;
+    do {
+      chunkRecordsAmount = 0;
+      let idQuery = composeQuery(Object.assign({}, parsedQuery, {
+        fields: [getComposedField("Id")],
+        where: this._getIdRangeWhereClause(parsedQuery, lastId),
+        orderBy: <OrderByClause>{ field: "Id", order: "ASC" },
+        limit: this.pkChunkSize
+      }));
+      await this._runQueryJobAsync(idQuery, operation, async records => {
+        if (records.length > 0) {
+          chunkRecordsAmount += records.length;
+          lastId = records[records.length - 1]["Id"];
+        }
+      }, progressCallback);
+      if (chunkRecordsAmount == this.pkChunkSize) {
+        boundaryIds.push(lastId);
+      }
+    } while (chunkRecordsAmount == this.pkChunkSize);
+
+    if (boundaryIds.length == 0) {
+      return await this._runQueryJobAsync(composeQuery(parsedQuery), operation, pageCallback, progressCallback);
+    }
+
+    // Each chunk contains the Ids after the previous boundary up to its own boundary,
+    // the last one is open to include the records created in the meantime
+    let chunkQueries = [undefined].concat(boundaryIds).map((fromId: string, index: number) => {
+      return composeQuery(Object.assign({}, parsedQuery, {
+        where: this._getIdRangeWhereClause(parsedQuery, fromId, boundaryIds[index])
+      }));
+    });
+
+    this.logger.infoNormal(RESOURCES.bulkQueryPkChunking, this.sObjectName, String(chunkQueries.length), String(this.pkChunkSize));
+
+    let totals = await Common.parallelExecAsync(chunkQueries.map(chunkQuery => {
+      return () => this._runQueryJobAsync(chunkQuery, operation, pageCallback, progressCallback);
+    }), this, this.parallelJobs);
+
+    return totals.reduce((acc: number, total: number) => acc + total, 0);
+  }
+
+  private _getIdRangeWhereClause(parsedQuery: Query, afterId: string, toId?: string): WhereClause {
+    let rangeWhere: WhereClause;
+    if (afterId) {
+      rangeWhere = Common.composeWhereClause(rangeWhere, "Id", afterId, ">", "STRING", "AND");
+    }
+    if (toId) {
+      rangeWhere = Common.composeWhereClause(rangeWhere, "Id", toId, "<=", "STRING", "AND");
+    }
+    return rangeWhere ? Common.mergeWhereClauses(parsedQuery.where, rangeWhere) : parsedQuery.where;
+  }
+
+  private async _runQueryJobAsync(soql: string,
+    operation: QueryOperationType,
+    pageCallback: (records: Array<any>) => Promise<void>,
+    progressCallback: (progress: ApiInfo) => void): Promise<number> {
+
+    // Create the job ************************************
+    let job = await this._requestJsonAsync('post', this.instanceUrl + this._getQueryJobEndpointUrl(), {
+      operation,
+      query: soql,
+      contentType: 'CSV',
+      columnDelimiter: 'COMMA',
+      lineEnding: 'LF'
+    });
+    let jobId: string = job.id;
+    // The new query job is reported as Open regardless of its actual state
+    this._reportProgress(progressCallback, jobId, "Open");
+
+    // Wait for the job is completed ************************************
+    let startTime = Date.now();
+    while (job.state != "JobComplete") {
+      if (job.state == "Failed" || job.state == "Aborted") {
+        throw new Error(job.errorMessage || `The query job ${jobId} has been ${job.state.toLowerCase()}`);
+      }
+      if (this.pollingTimeoutMs > 0 && Date.now() - startTime > this.pollingTimeoutMs) {
+        await this._requestJsonAsync('patch', this._getJobUrl(jobId), { state: "Aborted" }).catch(() => { });
+        throw new Error(`Polling time out. Job Id = ${jobId}`);
+      }
+      await Common.delayAsync(this.pollingIntervalMs);
+      job = await this._requestJsonAsync('get', this._getJobUrl(jobId));
+      if (job.state == "InProgress" || job.state == "UploadComplete") {
+        this._reportProgress(progressCallback, jobId, "InProgress", job.numberRecordsProcessed || 0);
+      }
+    }
+
+    // Download the result pages ************************************
+    let totalRecords = 0;
+    let locator = '';
+    do {
+      let url = this._getJobUrl(jobId) + `/results?maxRecords=${this.pageSize}` + (locator ? `&locator=${encodeURIComponent(locator)}` : '');
+      let response = await this._requestAsync('get', {
+        url,
+        timeout: requestTimeout,
+        headers: requestHeaderCsv
+      });
+      if (response.statusCode != 200) {
+        throw new Error(this._getErrorMessage(response.body));
+      }
+      let records = Common.transformArrayOfArrays(parse(response.body || '', {
+        skip_empty_lines: true,
+        cast: this._csvCast
+      }));
+      totalRecords += records.length;
+      await pageCallback(records);
+      locator = response.headers['sforce-locator'];
+    } while (locator && locator != 'null');
+
+    this._reportProgress(progressCallback, jobId, "JobComplete", totalRecords);
+
+    return totalRecords;
+  }
+
+  private _reportProgress(progressCallback: (progress: ApiInfo) => void, jobId: string, jobState: "Open" | "InProgress" | "JobComplete", numberRecordsProcessed: number = 0) {
+    if (progressCallback) {
+      progressCallback(new ApiInfo({
+        jobId,
+        batchId: jobId,
+        jobState,
+        sObjectName: this.sObjectName,
+        strOperation: "Query",
+        numberRecordsProcessed,
+        numberRecordsFailed: 0
+      }));
+    }
+  }
+
+  private _csvCast(value: any, context: any) {
+
+    if (context.header || typeof context.column == "undefined") {
+      return value;
+    }
+
+    if (value == "true")
+      return true;
+    else if (value == "false")
+      return false;
+
+    if (!value) {
+      return null;
+    }
+
+    return value;
+  }
+
+  private async _requestJsonAsync(method: 'get' | 'post' | 'patch', url: string, body?: any): Promise<any> {
+    let response = await this._requestAsync(method, {
+      url,
+      body: body && JSON.stringify(body),
+      headers: requestHeaderJson
+    });
+    if (response.statusCode != 200) {
+      throw new Error(this._getErrorMessage(response.body));
+    }
+    return JSON.parse(response.body);
+  }
+
+  private _requestAsync(method: 'get' | 'post' | 'patch', options: any): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let accessToken = this.connectionData.accessToken;
+      let ___send = (token: string, callback: (error: any, response: any) => void) => {
+        request[method](Object.assign({}, options, {
+          auth: {
+            'bearer': token
+          }
+        }), callback);
+      };
+      ___send(accessToken, (error: any, response: any) => {
+        if (!error && response.statusCode == 401 && this.connectionData.refreshAccessTokenAsync) {
+          // The session has expired => repeat the request once with the new access token
+          this.connectionData.refreshAccessTokenAsync(accessToken).then(newAccessToken => {
+            this.connectionData.accessToken = newAccessToken;
+            ___send(newAccessToken, (error: any, response: any) => error ? reject(error) : resolve(response));
+          }, reject);
+          return;
+        }
+        error ? reject(error) : resolve(response);
+      });
+    });
+  }
+
+  private _getErrorMessage(body: string): string {
+    try {
+      let info = [].concat(JSON.parse(body))[0];
+      if (info && info.message) {
+        return info.message;
+      }
+    } catch (e) { }
+    return this.logger.getResourceString(RESOURCES.unexpectedApiError);
+  }
+
+  private _getQueryJobEndpointUrl(): string {
+    return queryJobEndpoint.replace('[v]', `v${this.version}`);
+  }
+
+  private _getJobUrl(jobId: string): string {
+    return this.instanceUrl + this._getQueryJobEndpointUrl() + '/' + jobId;
+  }
+
+}
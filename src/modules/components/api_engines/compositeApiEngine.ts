@@ -0,0 +1,446 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { CsvChunks } from '../../models';
+import {
+    ApiEngineBase,
+    ApiInfo,
+    IApiEngineInitParameters,
+} from '../../models/api_models';
+import {
+    IApiEngine,
+    IApiJobCreateResult,
+    ICsvChunk,
+} from '../../models/api_models/helper_interfaces';
+import { Common } from '../common_components/common';
+import { OPERATION } from '../common_components/enumerations';
+import { RESOURCES } from '../common_components/logger';
+import { Sfdx } from '../common_components/sfdx';
+import { CONSTANTS } from '../common_components/statics';
+
+const compositeEndpoint = '/services/data/[v]/composite';
+
+const requestHeaderJson = Object.assign({}, {
+    'Content-Type': 'application/json; charset=UTF-8',
+    'Accept': 'application/json'
+}, CONSTANTS.SFORCE_API_CALL_HEADERS);
+
+interface ICompositeSaveResult {
+    id?: string,
+    success: boolean,
+    created?: boolean,
+    errors: Array<{
+        message: string,
+        statusCode?: string,
+        errorCode?: string
+    }>
+}
+
+/**
+ * Implementation of the Salesforce Composite Api.
+ *
+ * The records are inserted using the Composite Graph Api.
+ * The lookup field of the inserted record can hold the other record of the same call
+ * instead of its Id, then the parent and its children are inserted by the single request
+ * using the reference Ids. Each connected hierarchy is sent as the separated graph,
+ * since the failed graph is rolled back as a whole.
+ * Since each engine inserts the records of one sObject, only the self lookups
+ * (like the Account hierarchy) are connected, the records of the different sObjects
+ * are still inserted by the separated tasks.
+ *
+ * The records are updated, upserted by the external id and deleted
+ * using the sObject Collections Api. The Upsert task sends its new and existing records
+ * by the single upsert when the external id is the External Id field of the Target.
+ *
+ * @export
+ * @class CompositeApiEngine
+ */
+export class CompositeApiEngine extends ApiEngineBase implements IApiEngine {
+
+    constructor(init: IApiEngineInitParameters) {
+        super(init);
+    }
+
+
+
+    // ----------------------- Interface IApiProcess ----------------------------------
+    getEngineName(): string {
+        return "Composite API";
+    }
+
+    getIsRestApiEngine(): boolean {
+        // Runs the same amount of the parallel jobs as the REST Api
+        return true;
+    }
+
+    async executeCRUDMultithreaded(allRecords: any[], progressCallback: (progress: ApiInfo) => void, threadsCount: number): Promise<any[]> {
+        // The hierarchies of the inserted records should not be split between the threads
+        return await super.executeCRUDMultithreaded(allRecords, progressCallback, this.operation == OPERATION.Insert ? 1 : threadsCount);
+    }
+
+    async createCRUDApiJobAsync(allRecords: Array<any>): Promise<IApiJobCreateResult> {
+
+        let connection = Sfdx.createOrgConnection(this.connectionData);
+        let records = this.getSourceRecordsArray(allRecords);
+        let recordChunks = this.operation == OPERATION.Insert
+            ? this._createGraphChunks(records)
+            : Common.chunkArray(records, this._getBatchSize(CONSTANTS.COMPOSITE_API_MAX_BATCH_SIZE));
+        let chunks = recordChunks.length > 0 ? new CsvChunks().fromArrayChunks(recordChunks) : new CsvChunks().fromArray(records);
+
+        this.apiJobCreateResult = {
+            chunks,
+            apiInfo: new ApiInfo({
+                jobState: "Undefined",
+                strOperation: this.strOperation,
+                sObjectName: this.sObjectName,
+                jobId: "COMPOSITE",
+                batchId: "COMPOSITE"
+            }),
+            allRecords,
+            connection
+        };
+        return this.apiJobCreateResult;
+    }
+
+    async processCRUDApiBatchAsync(csvChunk: ICsvChunk, progressCallback: (progress: ApiInfo) => void): Promise<Array<any>> {
+
+        this.loadBinaryDataFromCache(csvChunk.records);
+
+        if (progressCallback) {
+            // Progress message: operation started
+            progressCallback(new ApiInfo({
+                jobState: "OperationStarted"
+            }));
+        }
+
+        let apiInfo = this.apiJobCreateResult.apiInfo;
+        let records = csvChunk.records;
+        let results: Array<ICompositeSaveResult>;
+
+        if ([OPERATION.Insert, OPERATION.Update, OPERATION.Delete].indexOf(this.operation) < 0
+            && !(this.operation == OPERATION.Upsert && this.externalIdFieldName)) {
+            // ERROR RESULT
+            this._reportFailure(progressCallback, this.logger.getResourceString(RESOURCES.invalidApiOperation));
+            return null;
+        }
+
+        if (progressCallback) {
+            // Progress message: job was created
+            progressCallback(new ApiInfo({
+                jobState: "Open",
+                jobId: apiInfo.jobId
+            }));
+        }
+
+        try {
+            switch (this.operation) {
+                case OPERATION.Insert:
+                    results = await this._insertGraphsAsync(records);
+                    break;
+                case OPERATION.Update:
+                    results = await this._requestAsync('PATCH', this._getCompositeUrl('/sobjects'), {
+                        allOrNone: this.allOrNone,
+                        records: records.map(record => this._createSObject(record))
+                    });
+                    break;
+                case OPERATION.Upsert:
+                    results = await this._requestAsync('PATCH', this._getCompositeUrl(`/sobjects/${this.sObjectName}/${this.externalIdFieldName}`), {
+                        allOrNone: this.allOrNone,
+                        records: records.map(record => {
+                            let sObject = this._createSObject(record);
+                            delete sObject["Id"];
+                            return sObject;
+                        })
+                    });
+                    break;
+                default:
+                    results = await this._requestAsync('DELETE', this._getCompositeUrl(`/sobjects?ids=${records.join(',')}&allOrNone=${!!this.allOrNone}`));
+                    break;
+            }
+        } catch (error: any) {
+            // ERROR RESULT
+            this._reportFailure(progressCallback, error.message);
+            return null;
+        }
+
+        let createdRecords = new Array<any>();
+        records = this.getResultRecordsArray(records);
+        records.forEach((record, index) => {
+            let result: ICompositeSaveResult = results[index] || {
+                success: false,
+                errors: [{
+                    message: this.logger.getResourceString(RESOURCES.unexpectedApiError)
+                }]
+            };
+            if (result.success) {
+                record[CONSTANTS.ERRORS_FIELD_NAME] = null;
+                if ((this.operation == OPERATION.Insert || this.operation == OPERATION.Upsert) && this.updateRecordId) {
+                    record["Id"] = result.id;
+                }
+                if (this.operation == OPERATION.Upsert && result.created) {
+                    createdRecords.push({
+                        Id: result.id
+                    });
+                }
+            } else {
+                record[CONSTANTS.ERRORS_FIELD_NAME] = result.errors[0] && result.errors[0].message;
+                if (result.errors[0]) {
+                    this.errorCodes.set(record, result.errors[0].statusCode || result.errors[0].errorCode);
+                }
+                this.numberJobRecordsFailed++;
+            }
+            this.numberJobRecordProcessed++;
+        });
+
+        // The records created by the Upsert are deleted by the rollback,
+        //  the updated records are restored from the snapshots
+        if (createdRecords.length > 0 && this.rollbackRecorder && !this.simulationMode) {
+            this.rollbackRecorder.recordChanges(OPERATION.Insert, this.sObjectName, createdRecords);
+        }
+
+        if (progressCallback) {
+            if (this.numberJobRecordsFailed > 0) {
+                // Some records are failed
+                progressCallback(new ApiInfo({
+                    jobState: "JobComplete",
+                    numberRecordsProcessed: this.numberJobRecordProcessed,
+                    numberRecordsFailed: this.numberJobRecordsFailed,
+                    jobId: apiInfo.jobId,
+                    batchId: apiInfo.batchId
+                }));
+            }
+            // Progress message: operation finished
+            progressCallback(new ApiInfo({
+                jobState: this.numberJobRecordProcessed == this.numberJobTotalRecordsToProcess ? "OperationFinished" : "InProgress",
+                numberRecordsProcessed: this.numberJobRecordProcessed,
+                numberRecordsFailed: this.numberJobRecordsFailed,
+                jobId: apiInfo.jobId,
+                batchId: apiInfo.batchId
+            }));
+        }
+
+        //SUCCESS RESULT
+        return records;
+    }
+
+    getEngineClassType(): typeof ApiEngineBase {
+        return CompositeApiEngine;
+    }
+
+    // ----------------------- ---------------- -------------------------------------------
+    /**
+     * Splits the records to insert into the request chunks.
+     * The parent records are placed before their children
+     * and each connected hierarchy is kept in the same chunk when it fits.
+     */
+    private _createGraphChunks(records: Array<any>): Array<Array<any>> {
+
+        let recordsSet = new Set<any>(records);
+        let sortedRecords = new Array<any>();
+        // false => visiting, true => visited
+        let visitedRecords = new Map<any, boolean>();
+        let recordToRootMap = new Map<any, any>();
+
+        records.forEach(record => ___visit(record));
+
+        // Root record => all the records of the hierarchy in the insert order
+        let hierarchies = new Map<any, Array<any>>();
+        sortedRecords.forEach(record => {
+            let root = ___getRoot(record);
+            let hierarchy = hierarchies.get(root) || new Array<any>();
+            hierarchy.push(record);
+            hierarchies.set(root, hierarchy);
+        });
+
+        let maxNodes = this._getBatchSize(CONSTANTS.COMPOSITE_GRAPH_MAX_NODES);
+        let chunks = new Array<Array<any>>();
+        let chunk = new Array<any>();
+        hierarchies.forEach(hierarchy => {
+            // The too large hierarchy is split, its records will refer to the parents
+            // inserted by the previous requests by their Ids
+            Common.chunkArray(hierarchy, maxNodes).forEach(part => {
+                if (chunk.length + part.length > maxNodes) {
+                    chunks.push(chunk);
+                    chunk = new Array<any>();
+                }
+                chunk = chunk.concat(part);
+            });
+        });
+        if (chunk.length > 0) {
+            chunks.push(chunk);
+        }
+        return chunks;
+
+        // ---------------------- Internal functions --------------------------- //
+        function ___visit(record: any) {
+            if (visitedRecords.has(record)) {
+                return;
+            }
+            visitedRecords.set(record, false);
+            Object.keys(record).forEach(fieldName => {
+                let parent = record[fieldName];
+                if (!recordsSet.has(parent)) {
+                    return;
+                }
+                if (visitedRecords.get(parent) === false) {
+                    // The circular reference can not be resolved by the single request,
+                    // it remains empty to be set by the next update
+                    record[fieldName] = null;
+                    return;
+                }
+                ___visit(parent);
+                recordToRootMap.set(___getRoot(record), ___getRoot(parent));
+            });
+            visitedRecords.set(record, true);
+            sortedRecords.push(record);
+        }
+
+        function ___getRoot(record: any): any {
+            let root = record;
+            while (recordToRootMap.has(root) && recordToRootMap.get(root) != root) {
+                root = recordToRootMap.get(root);
+            }
+            return root;
+        }
+    }
+
+    private async _insertGraphsAsync(records: Array<any>): Promise<Array<ICompositeSaveResult>> {
+
+        let recordToReferenceIdMap = new Map<any, string>();
+        records.forEach((record, index) => recordToReferenceIdMap.set(record, 'ref' + index));
+
+        // The record refers to the parent of the same graph,
+        // then the graph contains the whole hierarchy
+        let graphs = new Array<Array<any>>();
+        let recordToGraphMap = new Map<any, Array<any>>();
+        records.forEach(record => {
+            let parentGraphs = [...new Set<Array<any>>(this._getReferencedRecords(record)
+                .filter(parent => recordToGraphMap.has(parent))
+                .map(parent => recordToGraphMap.get(parent)))];
+            let graph = parentGraphs[0] || new Array<any>();
+            if (parentGraphs.length == 0) {
+                graphs.push(graph);
+            }
+            // The child of the several parent hierarchies joins them together
+            parentGraphs.slice(1).forEach(parentGraph => {
+                parentGraph.forEach(parent => {
+                    graph.push(parent);
+                    recordToGraphMap.set(parent, graph);
+                });
+                graphs.splice(graphs.indexOf(parentGraph), 1);
+            });
+            graph.push(record);
+            recordToGraphMap.set(record, graph);
+        });
+
+        let response = await this._requestAsync('POST', this._getCompositeUrl('/graph'), {
+            graphs: graphs.map((graph, index) => {
+                return {
+                    graphId: 'graph' + index,
+                    compositeRequest: graph.map(record => {
+                        return {
+                            method: 'POST',
+                            url: `/services/data/v${this.version}/sobjects/${this.sObjectName}`,
+                            referenceId: recordToReferenceIdMap.get(record),
+                            body: this._createSObject(record, recordToReferenceIdMap)
+                        };
+                    })
+                };
+            })
+        });
+
+        let referenceIdToResultMap = new Map<string, ICompositeSaveResult>();
+        (response.graphs || []).forEach((graph: any) => {
+            ((graph.graphResponse || {}).compositeResponse || []).forEach((item: any) => {
+                referenceIdToResultMap.set(item.referenceId, item.httpStatusCode < 300 ? {
+                    id: item.body.id,
+                    success: true,
+                    errors: []
+                } : {
+                    success: false,
+                    errors: [].concat(item.body)
+                });
+            });
+        });
+
+        let results = records.map(record => referenceIdToResultMap.get(recordToReferenceIdMap.get(record)));
+
+        // Replace the referenced records with their new Ids
+        let recordToIdMap = new Map<any, string>();
+        records.forEach((record, index) => recordToIdMap.set(record, results[index] && results[index].id));
+        records.forEach(record => {
+            Object.keys(record).forEach(fieldName => {
+                if (this._isRecordReference(record[fieldName])) {
+                    record[fieldName] = recordToIdMap.get(record[fieldName]) || record[fieldName]["Id"] || null;
+                }
+            });
+        });
+
+        return results;
+    }
+
+    private _getReferencedRecords(record: any): Array<any> {
+        return Object.keys(record).map(fieldName => record[fieldName]).filter(value => this._isRecordReference(value));
+    }
+
+    private _isRecordReference(value: any): boolean {
+        return !!value && typeof value == 'object' && !Array.isArray(value);
+    }
+
+    private _createSObject(record: any, recordToReferenceIdMap?: Map<any, string>): any {
+        let sObject: any = this.operation == OPERATION.Insert ? {} : {
+            attributes: {
+                type: this.sObjectName
+            }
+        };
+        Object.keys(record).forEach(fieldName => {
+            let value = record[fieldName];
+            if (fieldName == CONSTANTS.ERRORS_FIELD_NAME || fieldName == "attributes") {
+                return;
+            }
+            if (this._isRecordReference(value)) {
+                // The parent of the same graph is referred by its reference Id,
+                // the parent inserted by the previous request is referred by its Id
+                value = value["Id"] || (recordToReferenceIdMap && recordToReferenceIdMap.has(value)
+                    ? `@{${recordToReferenceIdMap.get(value)}.id}`
+                    : null);
+            }
+            sObject[fieldName] = value;
+        });
+        return sObject;
+    }
+
+    private _getBatchSize(maxBatchSize: number): number {
+        return Math.min(this.restApiBatchSize || maxBatchSize, maxBatchSize);
+    }
+
+    private _getCompositeUrl(path: string): string {
+        return compositeEndpoint.replace('[v]', `v${this.version}`) + path;
+    }
+
+    private async _requestAsync(method: 'POST' | 'PATCH' | 'DELETE', url: string, body?: any): Promise<any> {
+        return await this.apiJobCreateResult.connection.request({
+            method,
+            url,
+            body: body && JSON.stringify(body),
+            headers: requestHeaderJson
+        });
+    }
+
+    private _reportFailure(progressCallback: (progress: ApiInfo) => void, errorMessage: string) {
+        if (progressCallback) {
+            let apiInfo = this.apiJobCreateResult.apiInfo;
+            progressCallback(new ApiInfo({
+                jobState: "Failed",
+                errorMessage,
+                jobId: apiInfo.jobId,
+                batchId: apiInfo.batchId
+            }));
+        }
+    }
+
+}
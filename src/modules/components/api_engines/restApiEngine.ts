@@ -137,6 +137,7 @@ export class RestApiEngine extends ApiEngineBase implements IApiEngine {
                         self.numberJobRecordProcessed++;
                     } else {
                         record[CONSTANTS.ERRORS_FIELD_NAME] = resultRecords[index].errors[0].message;
+                        self.errorCodes.set(record, resultRecords[index].errors[0].statusCode);
                         self.numberJobRecordsFailed++;
                         self.numberJobRecordProcessed++;
                     }
@@ -15,6 +15,7 @@ import * as glob2 from 'glob';
 import * as path from 'path';
 import * as Throttle from 'promise-parallel-throttle';
 import * as readline from 'readline';
+import * as initSqlJs from 'sql.js';
 import {
   composeQuery,
   Condition,
@@ -40,6 +41,7 @@ import {
 } from '../../models';
 import IPluginInfo from '../../models/common_models/IPluginInfo';
 import ISfdmuCommand from '../../models/common_models/ISfdxCommand';
+import { DATA_FILE_FORMAT } from './enumerations';
 import {
   Logger,
   RESOURCES,
@@ -54,6 +56,7 @@ const glob = (glob2 as any).glob || glob2;
 const { closest } = require('fastest-levenshtein')
 
 const createCsvStringifier = require('csv-writer').createObjectCsvStringifier;
+const parquet = require('parquetjs');
 
 
 
@@ -65,6 +68,7 @@ export class Common {
   static logger: Logger;
   static csvReadFileDelimiter: ',' | ';' = ",";
   static csvWriteFileDelimiter: ',' | ';' = ",";
+  static dataFileFormat: DATA_FILE_FORMAT = DATA_FILE_FORMAT.Csv;
 
   /**
   * @static Splits array to multiple chunks by max chunk size
@@ -81,6 +85,47 @@ export class Common {
     return arr;
   }
 
+  /**
+  * @static Splits array to multiple chunks by max chunk size
+  * keeping the items of the same group in the same chunk.
+  * The items without the group key are treated as the separated groups.
+  *
+  * @param  {Array<any>} array Array to split. The items of each group should be adjacent
+  * @param  {number} chunkMaxSize Max size of each chunk
+  * @param  {(item: any) => string} getGroupKey Returns the group key of the item
+  * @param  {boolean} splitLargeGroups true to split the group larger than the max chunk size
+  *                                    to the adjacent chunks, otherwise such group is placed in its own chunk
+  * @returns {Array<Array<any>>}
+  */
+  public static chunkArrayByGroups(array: Array<any>, chunkMaxSize: number, getGroupKey: (item: any) => string, splitLargeGroups: boolean): Array<Array<any>> {
+    let arr: Array<Array<any>> = new Array<Array<any>>();
+    let chunk = new Array<any>();
+    for (let i = 0; i < array.length;) {
+      // Take the next group
+      let key = getGroupKey(array[i]);
+      let j = i + 1;
+      while (key && j < array.length && getGroupKey(array[j]) == key) {
+        j++;
+      }
+      let group = array.slice(i, j);
+      i = j;
+      if (chunk.length > 0 && chunk.length + group.length > chunkMaxSize) {
+        arr.push(chunk);
+        chunk = new Array<any>();
+      }
+      if (group.length > chunkMaxSize && splitLargeGroups) {
+        let groupChunks = Common.chunkArray(group, chunkMaxSize);
+        arr = arr.concat(groupChunks.slice(0, groupChunks.length - 1));
+        group = groupChunks[groupChunks.length - 1];
+      }
+      group.forEach(item => chunk.push(item));
+    }
+    if (chunk.length > 0) {
+      arr.push(chunk);
+    }
+    return arr;
+  }
+
   /**
   * @static Formats date to string [HH:mm:dd.mmm] using 24h-format
   *
@@ -107,6 +152,17 @@ export class Common {
     return this.formatDateTime(date, false).replace(/[:]/g, "_").replace(/\s/g, "_").replace(/[/]/g, "_");
   }
 
+  /**
+   * @static Replaces the characters which are not allowed in the file names
+   *
+   * @param {string} name The name to use as the file / directory name, for example the org username
+   * @returns {string}
+   * @memberof CommonUtils
+   */
+  public static formatFileName(name: string): string {
+    return String(name || "").replace(/[\\/:*?"<>|\s]/g, "_");
+  }
+
   /**
   * @static Returns the plugin info
   *
@@ -745,6 +801,16 @@ export class Common {
     linesAmountToRead: number = 0,
     columnToColumnDataTypeMap?: Map<string, string>): Promise<Array<object>> {
 
+    switch (Common.getDataFileFormat(filePath)) {
+      case DATA_FILE_FORMAT.Json:
+      case DATA_FILE_FORMAT.Ndjson:
+        return await Common.readJsonFileAsync(filePath, linesAmountToRead, columnToColumnDataTypeMap);
+      case DATA_FILE_FORMAT.Parquet:
+        return await Common.readParquetFileAsync(filePath, linesAmountToRead, columnToColumnDataTypeMap);
+      case DATA_FILE_FORMAT.Sqlite:
+        return await Common.readSqliteTableAsync(filePath, linesAmountToRead, columnToColumnDataTypeMap);
+    }
+
     return new Promise<Array<object>>(resolve => {
       if (!fs.existsSync(filePath)) {
         resolve(new Array<object>());
@@ -841,12 +907,26 @@ export class Common {
    * @param  {boolean=false} createEmptyFileOnEmptyArray Set to true forces creating empty file
    *                                                     even the input array is empty or undefined,
    *                                                     otherwise no file will be created
+   * @param  {Array<string>} [columns] The columns to write, by default all properties of the first object
+   * @param  {Map<string,string>?} columnToColumnDataTypeMap The mapping between each column and column data type.
+   *                                                         Used to create the typed columns of the Parquet / SQLite files.
    * @memberof CommonUtils
    */
   public static async writeCsvFileAsync(filePath: string,
     array: Array<object>,
     createEmptyFileOnEmptyArray: boolean = false,
-    columns?: Array<string>): Promise<void> {
+    columns?: Array<string>,
+    columnToColumnDataTypeMap?: Map<string, string>): Promise<void> {
+
+    switch (Common.getDataFileFormat(filePath)) {
+      case DATA_FILE_FORMAT.Json:
+      case DATA_FILE_FORMAT.Ndjson:
+        return await Common.writeJsonFileAsync(filePath, array, createEmptyFileOnEmptyArray, columns);
+      case DATA_FILE_FORMAT.Parquet:
+        return await Common.writeParquetFileAsync(filePath, array, createEmptyFileOnEmptyArray, columns, columnToColumnDataTypeMap);
+      case DATA_FILE_FORMAT.Sqlite:
+        return await Common.writeSqliteTableAsync(filePath, array, createEmptyFileOnEmptyArray, columns, columnToColumnDataTypeMap);
+    }
 
     try {
 
@@ -909,6 +989,481 @@ export class Common {
     }
   }
 
+  /**
+   * @static Returns the format of the data file by its extension
+   * (.json => JSON array, .ndjson => newline-delimited JSON, .parquet => Parquet,
+   * .sqlite => the table of the SQLite database, any other => CSV)
+   *
+   * @param {string} filePath The path to the data file
+   * @returns {DATA_FILE_FORMAT}
+   * @memberof Common
+   */
+  public static getDataFileFormat(filePath: string): DATA_FILE_FORMAT {
+    switch (path.extname(filePath || '').toLowerCase()) {
+      case '.json':
+        return DATA_FILE_FORMAT.Json;
+      case '.ndjson':
+        return DATA_FILE_FORMAT.Ndjson;
+      case '.parquet':
+        return DATA_FILE_FORMAT.Parquet;
+      case '.sqlite':
+        return DATA_FILE_FORMAT.Sqlite;
+      default:
+        return DATA_FILE_FORMAT.Csv;
+    }
+  }
+
+  /**
+   * @static Checks if the data file exists.
+   * For the SQLite format checks if the table exists in the database.
+   *
+   * @param {string} filePath The path to the data file
+   * @returns {Promise<boolean>}
+   * @memberof Common
+   */
+  public static async dataFileExistsAsync(filePath: string): Promise<boolean> {
+    if (Common.getDataFileFormat(filePath) != DATA_FILE_FORMAT.Sqlite) {
+      return fs.existsSync(filePath);
+    }
+    let location = Common.getSqliteTableLocation(filePath);
+    if (!Common.sqliteDatabaseExists(location.databasePath)) {
+      return false;
+    }
+    let db = await Common.openSqliteDatabaseAsync(location.databasePath);
+    return Common.sqliteTableExists(db, location.tableName);
+  }
+
+  /**
+   * @static Copies the data file.
+   * For the SQLite format copies the table with its rows
+   * from the database of the source directory to the database of the target directory.
+   * Does nothing if the source file does not exist.
+   *
+   * @param {string} sourceFilePath The path to the data file to copy
+   * @param {string} targetFilePath The path to the new data file
+   * @returns {Promise<void>}
+   * @memberof Common
+   */
+  public static async copyDataFileAsync(sourceFilePath: string, targetFilePath: string): Promise<void> {
+    if (Common.getDataFileFormat(sourceFilePath) != DATA_FILE_FORMAT.Sqlite) {
+      if (fs.existsSync(sourceFilePath)) {
+        fs.copyFileSync(sourceFilePath, targetFilePath);
+      }
+      return;
+    }
+    let source = Common.getSqliteTableLocation(sourceFilePath);
+    let target = Common.getSqliteTableLocation(targetFilePath);
+    if (!Common.sqliteDatabaseExists(source.databasePath)) {
+      return;
+    }
+    let sourceDb = await Common.openSqliteDatabaseAsync(source.databasePath);
+    let targetDb = await Common.openSqliteDatabaseAsync(target.databasePath);
+    if (!Common.sqliteTableExists(sourceDb, source.tableName)) {
+      return;
+    }
+    let columns = Common.getSqliteTableColumns(sourceDb, source.tableName);
+    let result = sourceDb.exec(`SELECT * FROM ${Common.quoteSqliteName(source.tableName)}`);
+    Common.writeSqliteTable(targetDb, target.tableName, columns, result.length ? result[0].values : []);
+    Common.setSqliteDatabaseModified(target.databasePath);
+  }
+
+  /**
+   * @static Deletes the data file.
+   * For the SQLite format drops the table from the database.
+   *
+   * @param {string} filePath The path to the data file
+   * @returns {Promise<void>}
+   * @memberof Common
+   */
+  public static async deleteDataFileAsync(filePath: string): Promise<void> {
+    if (Common.getDataFileFormat(filePath) != DATA_FILE_FORMAT.Sqlite) {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+      return;
+    }
+    let location = Common.getSqliteTableLocation(filePath);
+    if (!Common.sqliteDatabaseExists(location.databasePath)) {
+      return;
+    }
+    let db = await Common.openSqliteDatabaseAsync(location.databasePath);
+    db.run(`DROP TABLE IF EXISTS ${Common.quoteSqliteName(location.tableName)}`);
+    Common.setSqliteDatabaseModified(location.databasePath);
+  }
+
+  /**
+   * @static Writes all SQLite databases modified since the previous call to the disk
+   * and releases the opened databases.
+   * All the .sqlite data files of the same directory share the single in-memory database,
+   * so it is saved only once at the end of the command.
+   *
+   * @returns {Promise<void>}
+   * @memberof Common
+   */
+  public static async saveSqliteDatabasesAsync(): Promise<void> {
+    let databases = Common.sqliteDatabases;
+    let modifiedDatabases = Common.modifiedSqliteDatabases;
+    Common.sqliteDatabases = new Map<string, Promise<initSqlJs.Database>>();
+    Common.modifiedSqliteDatabases = new Set<string>();
+    for (let [databasePath, dbPromise] of databases) {
+      let db = await dbPromise;
+      try {
+        if (modifiedDatabases.has(databasePath)) {
+          fs.writeFileSync(databasePath, Buffer.from(db.export()));
+        }
+      } finally {
+        db.close();
+      }
+    }
+  }
+
+  /**
+   * @static Reads the JSON array or the NDJSON data file from the disk.
+   * The nested objects (f.ex. {"Account": {"Owner": {"Email": "..."}}})
+   * are flattened to the dotted column names (Account.Owner.Email),
+   * so the records have exactly the same shape as the records of the CSV file.
+   * Each record gets all columns found in the file.
+   *
+   * @param  {string} filePath Full path to the JSON / NDJSON file
+   * @param  {number=0} linesAmountToRead The same as for the CSV file, the first line is the "header",
+   *                                      so 1 returns only the column names.
+   * @param  {Map<string,string>?} columnToColumnDataTypeMap The mapping between each column and column data type.
+   * @returns Array<object>
+   * @memberof Common
+   */
+  public static async readJsonFileAsync(filePath: string,
+    linesAmountToRead: number = 0,
+    columnToColumnDataTypeMap?: Map<string, string>): Promise<Array<object>> {
+
+    if (!fs.existsSync(filePath)) {
+      return new Array<object>();
+    }
+
+    let rawRecords: Array<any>;
+    try {
+      let input = fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, '');
+      if (Common.getDataFileFormat(filePath) == DATA_FILE_FORMAT.Ndjson) {
+        rawRecords = input.split(/\r?\n/).reduce((acc, line) => {
+          if (line.trim()) {
+            try {
+              acc.push(JSON.parse(line));
+            } catch (ex) {
+              // Skip the broken line the same way as for the CSV file
+            }
+          }
+          return acc;
+        }, new Array<any>());
+      } else {
+        let parsed = input.trim() ? JSON.parse(input) : [];
+        // Also accept the REST API query output: { records: [...] }
+        rawRecords = Array.isArray(parsed) ? parsed : (parsed && parsed.records || []);
+      }
+    } catch (ex) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.readingJsonFileError, filePath, ex.message));
+    }
+
+    rawRecords = rawRecords.filter(rawRecord => rawRecord && typeof rawRecord == 'object' && !Array.isArray(rawRecord))
+      .map(rawRecord => {
+        let record = {};
+        ___flatten(rawRecord, '', record);
+        return record;
+      });
+
+    return Common.normalizeDataFileRecords(rawRecords, linesAmountToRead, columnToColumnDataTypeMap);
+
+    // ----------------- Internal functions -------------------------//
+    function ___flatten(value: any, prefix: string, record: any) {
+      Object.keys(value).forEach(key => {
+        if (key == 'attributes' && value[key] && typeof value[key] == 'object') {
+          return;
+        }
+        let column = prefix + key;
+        let fieldValue = value[key];
+        if (fieldValue && typeof fieldValue == 'object' && !Array.isArray(fieldValue)) {
+          ___flatten(fieldValue, column + '.', record);
+        } else {
+          record[column] = fieldValue;
+        }
+      });
+    }
+  }
+
+  /**
+   * @static Writes array of objects into the JSON array or the NDJSON file
+   * depend on the file extension.
+   * The records are written flat (with the dotted column names) as they are.
+   *
+   * @param  {string} filePath Full path to the JSON / NDJSON file
+   * @param  {Array<object>} array Array of objects to write into the file
+   * @param  {boolean=false} createEmptyFileOnEmptyArray Set to true forces creating empty file
+   *                                                     even the input array is empty or undefined,
+   *                                                     otherwise no file will be created
+   * @param  {Array<string>} [columns] The columns to write, by default all properties of the first object
+   * @memberof Common
+   */
+  public static async writeJsonFileAsync(filePath: string,
+    array: Array<object>,
+    createEmptyFileOnEmptyArray: boolean = false,
+    columns?: Array<string>): Promise<void> {
+
+    let isNdjson = Common.getDataFileFormat(filePath) == DATA_FILE_FORMAT.Ndjson;
+
+    try {
+
+      if (!array || array.length == 0) {
+        if (createEmptyFileOnEmptyArray) {
+          fs.writeFileSync(filePath, isNdjson ? "" : "[]");
+        }
+        return;
+      }
+
+      columns = [...(columns || Object.keys(array[0]))].sort((a, b) => a.localeCompare(b));
+
+      const fileStream = fs.createWriteStream(filePath);
+
+      if (!isNdjson) {
+        fileStream.write("[\n");
+      }
+
+      array.forEach((record, index) => {
+        let line = JSON.stringify(columns.reduce((acc, column) => {
+          acc[column] = typeof record[column] == "undefined" ? null : record[column];
+          return acc;
+        }, {}));
+        if (isNdjson) {
+          fileStream.write(line + "\n");
+        } else {
+          fileStream.write("  " + line + (index < array.length - 1 ? ",\n" : "\n"));
+        }
+      });
+
+      if (!isNdjson) {
+        fileStream.write("]\n");
+      }
+
+      fileStream.end();
+
+      return new Promise((resolve, reject) => {
+        fileStream.on('finish', resolve);
+        fileStream.on('error', reject);
+      });
+    } catch (ex) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.writingJsonFileError, filePath, ex.message));
+    }
+  }
+
+  /**
+   * @static Reads the Parquet data file from the disk.
+   * The typed values are converted back to the values returned by the Salesforce API
+   * (f.ex. the DATE column => "2020-01-31").
+   *
+   * @param  {string} filePath Full path to the Parquet file
+   * @param  {number=0} linesAmountToRead The same as for the CSV file, the first line is the "header",
+   *                                      so 1 returns only the column names.
+   * @param  {Map<string,string>?} columnToColumnDataTypeMap The mapping between each column and column data type.
+   * @returns Array<object>
+   * @memberof Common
+   */
+  public static async readParquetFileAsync(filePath: string,
+    linesAmountToRead: number = 0,
+    columnToColumnDataTypeMap?: Map<string, string>): Promise<Array<object>> {
+
+    if (!fs.existsSync(filePath) || fs.statSync(filePath).size == 0) {
+      return new Array<object>();
+    }
+
+    let rawRecords = new Array<any>();
+    let columns: Array<string>;
+    try {
+      let reader = await parquet.ParquetReader.openFile(filePath);
+      try {
+        let fields = reader.getSchema().fields;
+        columns = Object.keys(fields);
+        let cursor = reader.getCursor();
+        let record: any;
+        while ((linesAmountToRead == 0 || rawRecords.length < linesAmountToRead - 1)
+          && (record = await cursor.next())) {
+          rawRecords.push(columns.reduce((acc, column) => {
+            acc[column] = ___fromParquetValue(record[column], fields[column].originalType);
+            return acc;
+          }, {}));
+        }
+      } finally {
+        await reader.close();
+      }
+    } catch (ex) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.readingDataFileError, filePath, ex.message));
+    }
+
+    return Common.normalizeDataFileRecords(rawRecords, linesAmountToRead, columnToColumnDataTypeMap, columns);
+
+    // ----------------- Internal functions -------------------------//
+    function ___fromParquetValue(value: any, originalType: string): any {
+      if (typeof value == "undefined" || value === null) {
+        return null;
+      }
+      if (value instanceof Date) {
+        return originalType == 'DATE' ? Common.formatSfDate(value) : Common.formatSfDateTime(value);
+      }
+      return value;
+    }
+  }
+
+  /**
+   * @static Writes array of objects into the Parquet file.
+   * The column types are derived from the field types (the SF DisplayType enum),
+   * the columns without known field type are typed by their values.
+   *
+   * @param  {string} filePath Full path to the Parquet file
+   * @param  {Array<object>} array Array of objects to write into the file
+   * @param  {boolean=false} createEmptyFileOnEmptyArray Set to true forces creating empty file
+   *                                                     even the input array is empty or undefined,
+   *                                                     otherwise no file will be created
+   * @param  {Array<string>} [columns] The columns to write, by default all properties of the first object
+   * @param  {Map<string,string>?} columnToColumnDataTypeMap The mapping between each column and column data type.
+   * @memberof Common
+   */
+  public static async writeParquetFileAsync(filePath: string,
+    array: Array<object>,
+    createEmptyFileOnEmptyArray: boolean = false,
+    columns?: Array<string>,
+    columnToColumnDataTypeMap?: Map<string, string>): Promise<void> {
+
+    try {
+
+      if (!array || array.length == 0) {
+        if (createEmptyFileOnEmptyArray) {
+          fs.writeFileSync(filePath, "");
+        }
+        return;
+      }
+
+      columns = [...(columns || Object.keys(array[0]))].sort((a, b) => a.localeCompare(b));
+
+      let types = columns.map(column => Common.getDataFileColumnType(array, column, columnToColumnDataTypeMap));
+      let schema = new parquet.ParquetSchema(columns.reduce((acc, column, index) => {
+        acc[column] = { type: CONSTANTS.PARQUET_COLUMN_TYPES.get(types[index]) || 'UTF8', optional: true };
+        return acc;
+      }, {}));
+
+      let writer = await parquet.ParquetWriter.openFile(schema, filePath);
+      for (const record of array) {
+        await writer.appendRow(columns.reduce((acc, column, index) => {
+          let value = Common.toDataFileValue(record[column], types[index]);
+          if (value !== null) {
+            acc[column] = types[index] == 'date' || types[index] == 'datetime' ? new Date(value) : value;
+          }
+          return acc;
+        }, {}));
+      }
+      await writer.close();
+
+    } catch (ex) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.writingDataFileError, filePath, ex.message));
+    }
+  }
+
+  /**
+   * @static Reads the records from the table of the SQLite database.
+   * The database file (CONSTANTS.SQLITE_DATABASE_FILENAME) is located in the directory of the given path,
+   * the table name is the filename without the extension
+   * (f.ex. ./source/Account_source.sqlite => ./source/data.db, table "Account_source").
+   *
+   * @param  {string} filePath Full path to the virtual .sqlite data file
+   * @param  {number=0} linesAmountToRead The same as for the CSV file, the first line is the "header",
+   *                                      so 1 returns only the column names.
+   * @param  {Map<string,string>?} columnToColumnDataTypeMap The mapping between each column and column data type.
+   * @returns Array<object>
+   * @memberof Common
+   */
+  public static async readSqliteTableAsync(filePath: string,
+    linesAmountToRead: number = 0,
+    columnToColumnDataTypeMap?: Map<string, string>): Promise<Array<object>> {
+
+    let location = Common.getSqliteTableLocation(filePath);
+    if (!Common.sqliteDatabaseExists(location.databasePath)) {
+      return new Array<object>();
+    }
+
+    let rawRecords = new Array<any>();
+    let columns: Array<string>;
+    try {
+      let db = await Common.openSqliteDatabaseAsync(location.databasePath);
+      if (!Common.sqliteTableExists(db, location.tableName)) {
+        return new Array<object>();
+      }
+      let columnTypes = Common.getSqliteTableColumns(db, location.tableName);
+      columns = columnTypes.map(column => column.name);
+      let result = db.exec(`SELECT * FROM ${Common.quoteSqliteName(location.tableName)}`
+        + (linesAmountToRead > 0 ? ` LIMIT ${linesAmountToRead - 1}` : ''));
+      (result.length ? result[0].values : []).forEach(values => {
+        rawRecords.push(columnTypes.reduce((acc, column, index) => {
+          let value = values[index];
+          acc[column.name] = column.type == 'BOOLEAN' && value !== null ? !!value : value;
+          return acc;
+        }, {}));
+      });
+    } catch (ex) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.readingDataFileError, filePath, ex.message));
+    }
+
+    return Common.normalizeDataFileRecords(rawRecords, linesAmountToRead, columnToColumnDataTypeMap, columns);
+  }
+
+  /**
+   * @static Writes array of objects into the table of the SQLite database
+   * (the existing table is replaced).
+   * The column types are derived from the field types (the SF DisplayType enum),
+   * the columns without known field type are typed by their values.
+   *
+   * @param  {string} filePath Full path to the virtual .sqlite data file
+   * @param  {Array<object>} array Array of objects to write into the table
+   * @param  {boolean=false} createEmptyFileOnEmptyArray Set to true forces creating empty table
+   *                                                     even the input array is empty or undefined,
+   *                                                     otherwise no table will be created
+   * @param  {Array<string>} [columns] The columns to write, by default all properties of the first object
+   * @param  {Map<string,string>?} columnToColumnDataTypeMap The mapping between each column and column data type.
+   * @memberof Common
+   */
+  public static async writeSqliteTableAsync(filePath: string,
+    array: Array<object>,
+    createEmptyFileOnEmptyArray: boolean = false,
+    columns?: Array<string>,
+    columnToColumnDataTypeMap?: Map<string, string>): Promise<void> {
+
+    if ((!array || array.length == 0) && (!createEmptyFileOnEmptyArray || !columns)) {
+      if (createEmptyFileOnEmptyArray) {
+        await Common.deleteDataFileAsync(filePath);
+      }
+      return;
+    }
+
+    let location = Common.getSqliteTableLocation(filePath);
+    try {
+      array = array || [];
+      columns = [...(columns || Object.keys(array[0]))].sort((a, b) => a.localeCompare(b));
+
+      let types = columns.map(column => Common.getDataFileColumnType(array, column, columnToColumnDataTypeMap));
+      let rows = array.map(record => columns.map((column, index) => {
+        let value = Common.toDataFileValue(record[column], types[index]);
+        return typeof value == 'boolean' ? Number(value) : value;
+      }));
+
+      // All writers share the same database instance => the tables written concurrently are never lost
+      let db = await Common.openSqliteDatabaseAsync(location.databasePath);
+      Common.writeSqliteTable(db, location.tableName, columns.map((column, index) => {
+        return {
+          name: column,
+          type: CONSTANTS.SQLITE_COLUMN_TYPES.get(types[index]) || 'TEXT'
+        };
+      }), rows);
+      Common.setSqliteDatabaseModified(location.databasePath);
+
+    } catch (ex) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.writingDataFileError, filePath, ex.message));
+    }
+  }
+
   /**
    * @static Merges all rows from two source csv files into the single csv file
    *
@@ -933,7 +1488,7 @@ export class Common {
 
     // ------------------ internal functions -----------------//
     async function ___addRowsFromFile(file: string) {
-      if (fs.existsSync(file)) {
+      if (await Common.dataFileExistsAsync(file)) {
         let rows = await Common.readCsvFileAsync(file);
         rows.forEach(row => {
           let thisRow = columns.reduce((acc, column) => {
@@ -947,7 +1502,7 @@ export class Common {
           totalRows.push(thisRow);
         });
         if (deleteSourceFiles) {
-          fs.unlinkSync(file);
+          await Common.deleteDataFileAsync(file);
         }
       }
     }
@@ -1056,7 +1611,7 @@ export class Common {
     let currentFileMap: Map<string, any> = csvDataCacheMap.get(fileName);
 
     if (!currentFileMap) {
-      if (!fs.existsSync(fileName)) {
+      if (!(await Common.dataFileExistsAsync(fileName))) {
         return new Map<string, any>();
       }
       let csvRows = await Common.readCsvFileAsync(fileName);
@@ -1520,6 +2075,7 @@ export class Common {
 
   /**
    * Composes the filename for the csv file
+   * (the extension depends on the selected data file format: .csv, .json or .ndjson)
    *
    * @static
    * @param {string} rootPath The root directory
@@ -1529,7 +2085,7 @@ export class Common {
    * @memberof Common
    */
   public static getCSVFilename(rootPath: string, sObjectName: string, pattern?: string): string {
-    let suffix = `${pattern || ''}.csv`;
+    let suffix = `${pattern || ''}.${Common.dataFileFormat}`;
     if (sObjectName == "User" || sObjectName == "Group") {
       return path.join(rootPath, CONSTANTS.USER_AND_GROUP_FILENAME) + suffix;
     } else {
@@ -1886,4 +2442,190 @@ export class Common {
 
     return wrappedWhere1;
   }
+
+  // ----------------------- Data files private members -------------------------------------------
+  private static sqlJs: Promise<initSqlJs.SqlJsStatic>;
+  // The opened SQLite databases by the full database path
+  private static sqliteDatabases: Map<string, Promise<initSqlJs.Database>> = new Map<string, Promise<initSqlJs.Database>>();
+  private static modifiedSqliteDatabases: Set<string> = new Set<string>();
+
+  /**
+   * Makes all records of the data file have the same columns
+   * and casts the values the same way as it is done for the CSV file.
+   */
+  private static normalizeDataFileRecords(rawRecords: Array<any>,
+    linesAmountToRead: number,
+    columnToColumnDataTypeMap?: Map<string, string>,
+    columns?: Array<string>): Array<object> {
+
+    if (!columns) {
+      let columnsSet = new Set<string>();
+      rawRecords.forEach(record => Object.keys(record).forEach(column => columnsSet.add(column)));
+      columns = [...columnsSet];
+    }
+
+    columns = columns.filter(column => !columnToColumnDataTypeMap
+      || column.indexOf('.') >= 0
+      || column.indexOf(CONSTANTS.COMPLEX_FIELDS_QUERY_SEPARATOR) >= 0
+      || column.indexOf(CONSTANTS.COMPLEX_FIELDS_SEPARATOR) >= 0
+      || columnToColumnDataTypeMap.has(column));
+
+    if (linesAmountToRead == 1) {
+      if (columns.length == 0) {
+        return new Array<object>();
+      }
+      return [columns.reduce((acc, column) => {
+        acc[column] = null;
+        return acc;
+      }, {})];
+    }
+
+    if (linesAmountToRead > 1) {
+      rawRecords = rawRecords.slice(0, linesAmountToRead - 1);
+    }
+
+    return rawRecords.map(record => columns.reduce((acc, column) => {
+      acc[column] = ___cast(record[column], column);
+      return acc;
+    }, {}));
+
+    // ----------------- Internal functions -------------------------//
+    function ___cast(value: any, column: string): any {
+      let fieldType = columnToColumnDataTypeMap && columnToColumnDataTypeMap.get(column);
+      if (fieldType == "boolean") {
+        return value === true || value === 1 || value == "1" || value == "TRUE" || value == "true";
+      }
+      if (typeof value == "undefined" || value === null || value === "") {
+        return null;
+      }
+      if (Array.isArray(value)) {
+        return JSON.stringify(value);
+      }
+      return value;
+    }
+  }
+
+  /**
+   * Returns the SF field type of the data file column.
+   * When the field type is unknown (f.ex. for Account.Name) it is detected by the column values.
+   */
+  private static getDataFileColumnType(records: Array<any>, column: string, columnToColumnDataTypeMap?: Map<string, string>): string {
+    let fieldType = columnToColumnDataTypeMap && columnToColumnDataTypeMap.get(column);
+    if (fieldType) {
+      return fieldType;
+    }
+    let record = records.find(record => typeof record[column] != "undefined" && record[column] !== null && record[column] !== "");
+    switch (record && typeof record[column]) {
+      case "number":
+        return "double";
+      case "boolean":
+        return "boolean";
+      default:
+        return "string";
+    }
+  }
+
+  /**
+   * Converts the record value to the value of the typed data file column.
+   * Returns null for the empty values and for the values which are not matching the column type.
+   */
+  private static toDataFileValue(value: any, fieldType: string): any {
+    if (typeof value == "undefined" || value === null || value === "" || value === "#N/A") {
+      return null;
+    }
+    switch (CONSTANTS.PARQUET_COLUMN_TYPES.get(fieldType)) {
+      case 'BOOLEAN':
+        return value === true || value === 1 || value == "1" || String(value).toLowerCase() == "true";
+      case 'INT64':
+      case 'DOUBLE':
+        let num = Number(value);
+        return isNaN(num) ? null : fieldType == 'int' ? Math.trunc(num) : num;
+      case 'DATE':
+      case 'TIMESTAMP_MILLIS':
+        let date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return null;
+        }
+        return fieldType == 'date' ? Common.formatSfDate(date) : Common.formatSfDateTime(date);
+      default:
+        return typeof value == "object" ? JSON.stringify(value) : String(value);
+    }
+  }
+
+  private static formatSfDate(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+
+  private static formatSfDateTime(date: Date): string {
+    return date.toISOString().replace('Z', '+0000');
+  }
+
+  private static getSqliteTableLocation(filePath: string): { databasePath: string, tableName: string } {
+    return {
+      databasePath: path.join(path.dirname(filePath), CONSTANTS.SQLITE_DATABASE_FILENAME),
+      tableName: path.basename(filePath, path.extname(filePath))
+    };
+  }
+
+  private static async openSqliteDatabaseAsync(databasePath: string): Promise<initSqlJs.Database> {
+    databasePath = path.resolve(databasePath);
+    if (!Common.sqliteDatabases.has(databasePath)) {
+      // The promise is cached before the first await => the concurrent callers get the same instance
+      Common.sqlJs = Common.sqlJs || initSqlJs.default();
+      Common.sqliteDatabases.set(databasePath, Common.sqlJs.then(SQL => {
+        return fs.existsSync(databasePath) ? new SQL.Database(fs.readFileSync(databasePath)) : new SQL.Database();
+      }));
+    }
+    return await Common.sqliteDatabases.get(databasePath);
+  }
+
+  private static sqliteDatabaseExists(databasePath: string): boolean {
+    return Common.sqliteDatabases.has(path.resolve(databasePath)) || fs.existsSync(databasePath);
+  }
+
+  private static setSqliteDatabaseModified(databasePath: string) {
+    Common.modifiedSqliteDatabases.add(path.resolve(databasePath));
+  }
+
+  private static quoteSqliteName(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  private static sqliteTableExists(db: initSqlJs.Database, tableName: string): boolean {
+    let result = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [tableName]);
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  private static getSqliteTableColumns(db: initSqlJs.Database, tableName: string): Array<{ name: string, type: string }> {
+    let result = db.exec(`PRAGMA table_info(${Common.quoteSqliteName(tableName)})`);
+    if (!result.length) {
+      return [];
+    }
+    let nameIndex = result[0].columns.indexOf('name');
+    let typeIndex = result[0].columns.indexOf('type');
+    return result[0].values.map(values => {
+      return {
+        name: String(values[nameIndex]),
+        type: String(values[typeIndex]).toUpperCase()
+      };
+    });
+  }
+
+  private static writeSqliteTable(db: initSqlJs.Database, tableName: string,
+    columns: Array<{ name: string, type: string }>, rows: Array<Array<initSqlJs.SqlValue>>) {
+    let table = Common.quoteSqliteName(tableName);
+    db.run(`DROP TABLE IF EXISTS ${table}`);
+    db.run(`CREATE TABLE ${table} (${columns.map(column => `${Common.quoteSqliteName(column.name)} ${column.type}`).join(', ')})`);
+    if (rows.length == 0) {
+      return;
+    }
+    db.run('BEGIN TRANSACTION');
+    let statement = db.prepare(`INSERT INTO ${table} VALUES (${columns.map(() => '?').join(', ')})`);
+    try {
+      rows.forEach(row => statement.run(row));
+    } finally {
+      statement.free();
+    }
+    db.run('COMMIT');
+  }
 }
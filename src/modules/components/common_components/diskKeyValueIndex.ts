@@ -0,0 +1,184 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from './common';
+import { CONSTANTS } from './statics';
+
+/**
+ * The key/value index stored on the disk.
+ * The keys are distributed between the bucket files by their hash.
+ * Each bucket file is the append-only list of the JSON lines [key, value],
+ * the last written value of the key wins.
+ * The new values are buffered before they are written,
+ * only the recently used buckets are kept in the memory.
+ *
+ * @export
+ * @class DiskKeyValueIndex
+ */
+export class DiskKeyValueIndex {
+
+  directory: string;
+  bucketsCount: number;
+  maxLoadedBuckets: number;
+
+  constructor(directory: string,
+    bucketsCount: number = CONSTANTS.KEY_VALUE_INDEX_BUCKETS,
+    maxLoadedBuckets: number = CONSTANTS.KEY_VALUE_INDEX_MAX_LOADED_BUCKETS) {
+    this.directory = directory;
+    this.bucketsCount = bucketsCount;
+    this.maxLoadedBuckets = maxLoadedBuckets;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Removes all the keys of the index
+   *
+   * @memberof DiskKeyValueIndex
+   */
+  clear() {
+    this._pendingLines.clear();
+    this._pendingLinesCount = 0;
+    this._loadedBuckets.clear();
+    Common.deleteFolderRecursive(this.directory);
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Sets the value of the key
+   *
+   * @param {string} key
+   * @param {*} value
+   * @memberof DiskKeyValueIndex
+   */
+  set(key: string, value: any) {
+    let bucket = this._getBucket(key);
+    let loadedBucket = this._loadedBuckets.get(bucket);
+    if (loadedBucket) {
+      loadedBucket.set(key, value);
+    }
+    let lines = this._pendingLines.get(bucket);
+    if (!lines) {
+      lines = new Array<string>();
+      this._pendingLines.set(bucket, lines);
+    }
+    lines.push(JSON.stringify([key, value]));
+    if (++this._pendingLinesCount >= CONSTANTS.KEY_VALUE_INDEX_WRITE_BUFFER_SIZE) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Returns the value of the key or undefined if the key is missing
+   *
+   * @param {string} key
+   * @returns {*}
+   * @memberof DiskKeyValueIndex
+   */
+  get(key: string): any {
+    return this._loadBucket(this._getBucket(key)).get(key);
+  }
+
+  /**
+   * Returns the values of the given keys.
+   * Each bucket is loaded only once, so it is much faster than
+   * getting the many keys one by one.
+   *
+   * @param {Array<string>} keys
+   * @returns {Map<string, any>} The existing key => value
+   * @memberof DiskKeyValueIndex
+   */
+  getMany(keys: Array<string>): Map<string, any> {
+    let bucketToKeysMap = new Map<number, Array<string>>();
+    keys.forEach(key => {
+      let bucket = this._getBucket(key);
+      let bucketKeys = bucketToKeysMap.get(bucket);
+      if (!bucketKeys) {
+        bucketKeys = new Array<string>();
+        bucketToKeysMap.set(bucket, bucketKeys);
+      }
+      bucketKeys.push(key);
+    });
+    let result = new Map<string, any>();
+    bucketToKeysMap.forEach((bucketKeys, bucket) => {
+      let loadedBucket = this._loadBucket(bucket);
+      bucketKeys.forEach(key => {
+        if (loadedBucket.has(key)) {
+          result.set(key, loadedBucket.get(key));
+        }
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Writes all the buffered values to the disk
+   *
+   * @memberof DiskKeyValueIndex
+   */
+  flush() {
+    [...this._pendingLines.keys()].forEach(bucket => this._flushBucket(bucket));
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _pendingLines: Map<number, Array<string>> = new Map<number, Array<string>>();
+  private _pendingLinesCount: number = 0;
+
+  // The most recently used bucket is the last one
+  private _loadedBuckets: Map<number, Map<string, any>> = new Map<number, Map<string, any>>();
+
+  private _getBucket(key: string): number {
+    return <number>Common.getString32FNV1AHashcode(String(key)) % this.bucketsCount;
+  }
+
+  private _getBucketFilePath(bucket: number): string {
+    return path.join(this.directory, CONSTANTS.KEY_VALUE_INDEX_BUCKET_FILE_TEMPLATE(bucket));
+  }
+
+  private _flushBucket(bucket: number) {
+    let lines = this._pendingLines.get(bucket);
+    if (!lines) {
+      return;
+    }
+    if (!fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+    fs.appendFileSync(this._getBucketFilePath(bucket), lines.join('\n') + '\n');
+    this._pendingLinesCount -= lines.length;
+    this._pendingLines.delete(bucket);
+  }
+
+  private _loadBucket(bucket: number): Map<string, any> {
+    let loadedBucket = this._loadedBuckets.get(bucket);
+    if (loadedBucket) {
+      this._loadedBuckets.delete(bucket);
+      this._loadedBuckets.set(bucket, loadedBucket);
+      return loadedBucket;
+    }
+    this._flushBucket(bucket);
+    loadedBucket = new Map<string, any>();
+    let filePath = this._getBucketFilePath(bucket);
+    if (fs.existsSync(filePath)) {
+      fs.readFileSync(filePath, 'utf8').split('\n').forEach(line => {
+        if (line) {
+          let [key, value] = JSON.parse(line);
+          loadedBucket.set(key, value);
+        }
+      });
+    }
+    this._loadedBuckets.set(bucket, loadedBucket);
+    if (this._loadedBuckets.size > this.maxLoadedBuckets) {
+      this._loadedBuckets.delete(this._loadedBuckets.keys().next().value);
+    }
+    return loadedBucket;
+  }
+
+}
@@ -26,7 +26,8 @@ export enum API_ENGINE {
     DEFAULT_ENGINE,
     REST_API,
     BULK_API_V1,
-    BULK_API_V2
+    BULK_API_V2,
+    COMPOSITE_API
 }
 
 export enum RESULT_STATUSES {
@@ -73,3 +74,75 @@ export enum DATA_CACHE_TYPES {
     CleanFileCache = "CleanFileCache",
     FileCache = "FileCache"
 }
+
+export enum CHECKPOINT_STEPS {
+    deleteOld = "deleteOld",
+    updateForwards = "updateForwards",
+    updateBackwardsPass1 = "updateBackwardsPass1",
+    updateBackwardsPass2 = "updateBackwardsPass2",
+    deleteHierarchy = "deleteHierarchy"
+}
+
+export enum DIFF_REPORT_ACTION {
+    Insert = "Insert",
+    Update = "Update",
+    Unchanged = "Unchanged",
+    Delete = "Delete"
+}
+
+export enum DATA_FILE_FORMAT {
+    Csv = "csv",
+    Json = "json",
+    Ndjson = "ndjson",
+    Parquet = "parquet",
+    Sqlite = "sqlite"
+}
+
+export enum MASKING_STRATEGY {
+    Fake = "fake",
+    FormatPreserving = "formatPreserving",
+    Hash = "hash",
+    Redact = "redact",
+    Null = "null"
+}
+
+export enum OAUTH_FLOW {
+    JwtBearer = "jwt",
+    RefreshToken = "refreshToken",
+    ClientCredentials = "clientCredentials"
+}
+
+export enum GRAPH_FORMAT {
+    Dot = "dot",
+    Mermaid = "mermaid",
+    Json = "json"
+}
+
+export enum PREFLIGHT_ISSUE_TYPE {
+    MissingField = "MissingField",
+    TypeMismatch = "TypeMismatch",
+    LengthMismatch = "LengthMismatch",
+    ValueTooLong = "ValueTooLong",
+    NotCreateable = "NotCreateable",
+    NotUpdateable = "NotUpdateable",
+    RestrictedPicklistValue = "RestrictedPicklistValue",
+    LookupTargetMismatch = "LookupTargetMismatch"
+}
+
+export enum PREFLIGHT_ISSUE_SEVERITY {
+    Error = "Error",
+    Warning = "Warning"
+}
+
+export enum FAN_OUT_TARGET_STATUS {
+    Succeeded = "Succeeded",
+    Failed = "Failed"
+}
+
+export enum SCRIPT_PARAMETER_TYPE {
+    String = "string",
+    Number = "number",
+    Boolean = "boolean",
+    Date = "date",
+    Datetime = "datetime"
+}
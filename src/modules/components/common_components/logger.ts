@@ -39,6 +39,7 @@ export enum RESOURCES {
   noRecords = "noRecords",
   insert = "insert",
   update = "update",
+  upsert = "upsert",
   personContact = "personContact",
   customAddon = "customAddon",
   cantLoad = "cantLoad",
@@ -228,7 +229,164 @@ export enum RESOURCES {
   comandAbortedByAddonResult = "comandAbortedByAddonResult",
 
   writingToCacheFile = "writingToCacheFile",
-  readingFromCacheFile = "readingFromCacheFile"
+  readingFromCacheFile = "readingFromCacheFile",
+
+  resumingFromCheckpoint = "resumingFromCheckpoint",
+  checkpointStepSkipped = "checkpointStepSkipped",
+  checkpointIdMapRestored = "checkpointIdMapRestored",
+  checkpointObjectSetCompleted = "checkpointObjectSetCompleted",
+  checkpointReadError = "checkpointReadError",
+  checkpointOrgsMismatch = "checkpointOrgsMismatch",
+  checkpointNotCompleted = "checkpointNotCompleted",
+
+  transactionalModeJobFailed = "transactionalModeJobFailed",
+  rollingBackChanges = "rollingBackChanges",
+  rollbackEntryReverted = "rollbackEntryReverted",
+  rollbackCompleted = "rollbackCompleted",
+  rollbackFailed = "rollbackFailed",
+  nothingToRollback = "nothingToRollback",
+  rollbackJournalReadError = "rollbackJournalReadError",
+  rollbackJournalNotFound = "rollbackJournalNotFound",
+  rollbackTargetOrgIsMissing = "rollbackTargetOrgIsMissing",
+
+  runningInDiffMode = "runningInDiffMode",
+  creatingDiffReport = "creatingDiffReport",
+  diffReportObjectSummary = "diffReportObjectSummary",
+  diffReportCreated = "diffReportCreated",
+
+  invalidDataFileFormat = "invalidDataFileFormat",
+  readingJsonFileError = "readingJsonFileError",
+  writingJsonFileError = "writingJsonFileError",
+  readingDataFileError = "readingDataFileError",
+  writingDataFileError = "writingDataFileError",
+
+  incrementalWatermarkApplied = "incrementalWatermarkApplied",
+  incrementalWatermarkNotFound = "incrementalWatermarkNotFound",
+  incrementalWatermarkSaved = "incrementalWatermarkSaved",
+  incrementalWatermarkNotAdvanced = "incrementalWatermarkNotAdvanced",
+  incrementalWatermarksIgnoredInRetryMode = "incrementalWatermarksIgnoredInRetryMode",
+  incrementalWatermarksReset = "incrementalWatermarksReset",
+  incrementalWatermarksReadError = "incrementalWatermarksReadError",
+  incrementalFieldIsNotSupported = "incrementalFieldIsNotSupported",
+
+  maskingProfileLoaded = "maskingProfileLoaded",
+  maskingProfileLoadError = "maskingProfileLoadError",
+  maskingRuleInvalidStrategy = "maskingRuleInvalidStrategy",
+  maskingStoreReadError = "maskingStoreReadError",
+  maskingRecordsMasked = "maskingRecordsMasked",
+  maskingGeneratorFailed = "maskingGeneratorFailed",
+
+  updatingParallelTasks = "updatingParallelTasks",
+
+  creatingObjectGraph = "creatingObjectGraph",
+  objectGraphFileCreated = "objectGraphFileCreated",
+  objectGraphCircularReferences = "objectGraphCircularReferences",
+  invalidObjectGraphFormat = "invalidObjectGraphFormat",
+
+  connectingToOrgOAuth = "connectingToOrgOAuth",
+  oAuthConnectingFailed = "oAuthConnectingFailed",
+  oAuthInvalidFlow = "oAuthInvalidFlow",
+  oAuthMissingSettings = "oAuthMissingSettings",
+  oAuthPrivateKeyFileNotFound = "oAuthPrivateKeyFileNotFound",
+  accessTokenRefreshed = "accessTokenRefreshed",
+
+  runningInOfflineMode = "runningInOfflineMode",
+  offlineModeRequiresSimulation = "offlineModeRequiresSimulation",
+  usingOfflineDescribeCache = "usingOfflineDescribeCache",
+  describeCacheOrgNotFound = "describeCacheOrgNotFound",
+  describeCacheFileNotFound = "describeCacheFileNotFound",
+  describeCacheFormatMismatch = "describeCacheFormatMismatch",
+  readingFromDescribeCache = "readingFromDescribeCache",
+  offlineModeJobSkipped = "offlineModeJobSkipped",
+
+  runningPreflightCheck = "runningPreflightCheck",
+  runningPreflightRecordsCheck = "runningPreflightRecordsCheck",
+  preflightIssue = "preflightIssue",
+  preflightPassed = "preflightPassed",
+  preflightFailed = "preflightFailed",
+  preflightReportCreated = "preflightReportCreated",
+  preflightMissingField = "preflightMissingField",
+  preflightTypeMismatch = "preflightTypeMismatch",
+  preflightLengthMismatch = "preflightLengthMismatch",
+  preflightValueTooLong = "preflightValueTooLong",
+  preflightNotCreateable = "preflightNotCreateable",
+  preflightNotUpdateable = "preflightNotUpdateable",
+  preflightRestrictedPicklistValue = "preflightRestrictedPicklistValue",
+  preflightLookupTargetMismatch = "preflightLookupTargetMismatch",
+  runningInPreflightMode = "runningInPreflightMode",
+  fanOutStarted = "fanOutStarted",
+  fanOutTargetStarted = "fanOutTargetStarted",
+  fanOutTargetFailed = "fanOutTargetFailed",
+  fanOutSummary = "fanOutSummary",
+  fanOutTargetSummary = "fanOutTargetSummary",
+  fanOutSummaryFileCreated = "fanOutSummaryFileCreated",
+  fanOutFailed = "fanOutFailed",
+  missingRequiredScriptParameter = "missingRequiredScriptParameter",
+  invalidScriptParameterType = "invalidScriptParameterType",
+  invalidScriptParameterValue = "invalidScriptParameterValue",
+  scriptParameterValueNotAllowed = "scriptParameterValueNotAllowed",
+  unknownScriptParameter = "unknownScriptParameter",
+  missingEnvironmentVariable = "missingEnvironmentVariable",
+  invalidScriptParametersFlag = "invalidScriptParametersFlag",
+  scriptParametersFileLoadError = "scriptParametersFileLoadError",
+  usingScriptParameter = "usingScriptParameter",
+  extendingBaseScript = "extendingBaseScript",
+  includingScriptObjects = "includingScriptObjects",
+  scriptFileLoadError = "scriptFileLoadError",
+  circularScriptFileReference = "circularScriptFileReference",
+  invalidScriptInclude = "invalidScriptInclude",
+  resolvedScript = "resolvedScript",
+  scriptSyntaxError = "scriptSyntaxError",
+  scriptInvalidPropertyType = "scriptInvalidPropertyType",
+  scriptInvalidPropertyValue = "scriptInvalidPropertyValue",
+  scriptObsoleteProperty = "scriptObsoleteProperty",
+  scriptMissingRequiredProperty = "scriptMissingRequiredProperty",
+  scriptUnknownProperty = "scriptUnknownProperty",
+  scriptUnknownPropertyDidYouMean = "scriptUnknownPropertyDidYouMean",
+  scriptValidationIssue = "scriptValidationIssue",
+  scriptValidationFailed = "scriptValidationFailed",
+  validatingObjectSet = "validatingObjectSet",
+  validateInvalidQuery = "validateInvalidQuery",
+  validateMissingSourceFile = "validateMissingSourceFile",
+  validateMissingColumns = "validateMissingColumns",
+  validatePassed = "validatePassed",
+  validateFailed = "validateFailed",
+  initScriptFileAlreadyExists = "initScriptFileAlreadyExists",
+  initSourceOrgIsMissing = "initSourceOrgIsMissing",
+  initRootObjectsAreMissing = "initRootObjectsAreMissing",
+  initObjectDoesNotExist = "initObjectDoesNotExist",
+  initCreatingScript = "initCreatingScript",
+  initDescribingObject = "initDescribingObject",
+  initObjectAdded = "initObjectAdded",
+  initScriptCreated = "initScriptCreated",
+  apiOperationQueryJobCreated = "apiOperationQueryJobCreated",
+  apiOperationQueryJobInProgress = "apiOperationQueryJobInProgress",
+  apiOperationQueryJobCompleted = "apiOperationQueryJobCompleted",
+  bulkQueryPkChunking = "bulkQueryPkChunking",
+  streamingModeEnabled = "streamingModeEnabled",
+  streamingModeNotSupported = "streamingModeNotSupported",
+  streamingChunkProcessed = "streamingChunkProcessed",
+  retryingFailedRecords = "retryingFailedRecords",
+  retriedRecordsRecovered = "retriedRecordsRecovered",
+  runningInRetryFailedMode = "runningInRetryFailedMode",
+  failedRecordsLoaded = "failedRecordsLoaded",
+  noFailedRecordsToRetry = "noFailedRecordsToRetry",
+  failedRecordsReadError = "failedRecordsReadError",
+  failedRecordsOrgsMismatch = "failedRecordsOrgsMismatch",
+  failedRecordsRetried = "failedRecordsRetried",
+  failedRecordsSaved = "failedRecordsSaved",
+  failedRecordsIdMapRestored = "failedRecordsIdMapRestored",
+  bulkApiGroupingEnabled = "bulkApiGroupingEnabled",
+  bulkApiGroupByFieldNotSupported = "bulkApiGroupByFieldNotSupported",
+  apiLimitsCurrent = "apiLimitsCurrent",
+  apiLimitsEstimatedRequests = "apiLimitsEstimatedRequests",
+  apiLimitsEstimateExceedsAvailable = "apiLimitsEstimateExceedsAvailable",
+  apiLimitsTaskConsumption = "apiLimitsTaskConsumption",
+  apiLimitsParallelTaskConsumption = "apiLimitsParallelTaskConsumption",
+  apiLimitsBatchCheck = "apiLimitsBatchCheck",
+  apiLimitsPaused = "apiLimitsPaused",
+  apiLimitsReserveReached = "apiLimitsReserveReached",
+  apiLimitsReadError = "apiLimitsReadError"
 }
 
 
@@ -373,6 +531,8 @@ export class Logger implements IAppLogger {
   private _filelogFlag: boolean;
   private _startTime: Date;
   private _fileLogger: FileLogger;
+  private _fileLogDirectory: string;
+  private _fileLogName: string;
   private _noWarningsFlag: boolean;
   private _commandOutputMode: boolean;
   private _printStackTrace = false;
@@ -448,10 +608,12 @@ export class Logger implements IAppLogger {
       this._commandFullName = "unknown";
     }
 
+    this._fileLogDirectory = path.join(rootPath, CONSTANTS.FILE_LOG_SUBDIRECTORY);
+    this._fileLogName = `${Common.formatFileDate(new Date())}.${CONSTANTS.FILE_LOG_FILEEXTENSION}`;
     this._fileLogger = new FileLogger(
       this._resources,
-      path.join(rootPath, CONSTANTS.FILE_LOG_SUBDIRECTORY),
-      `${Common.formatFileDate(new Date())}.${CONSTANTS.FILE_LOG_FILEEXTENSION}`
+      this._fileLogDirectory,
+      this._fileLogName
     );
 
     this.commandStartMessage();
@@ -816,6 +978,21 @@ export class Logger implements IAppLogger {
     return this._startTime;
   }
 
+  /**
+   * Writes the file log of the given target org to the separate file (the fan-out mode),
+   * or back to the main log file if the target is not provided
+   *
+   * @param {string} [targetName]
+   * @memberof Logger
+   */
+  switchFileLog(targetName?: string): void {
+    this._fileLogger = new FileLogger(
+      this._resources,
+      this._fileLogDirectory,
+      targetName ? CONSTANTS.FAN_OUT_LOG_FILENAME_TEMPLATE(this._fileLogName, Common.formatFileName(targetName)) : this._fileLogName
+    );
+  }
+
 }
 
 
@@ -0,0 +1,151 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as crypto from 'crypto';
+
+import {
+  IOAuthSettings,
+  IOAuthToken,
+} from '../../models/common_models/helper_interfaces';
+import { OAUTH_FLOW } from './enumerations';
+import { CONSTANTS } from './statics';
+
+const request = require('request');
+
+/**
+ * The OAuth 2.0 client used to connect to the org natively,
+ * without shelling out to the SFDX/SF CLI.
+ * Supports the JWT bearer, the refresh token and the client credentials flows.
+ *
+ * @export
+ * @class OAuth
+ */
+export class OAuth {
+
+  /**
+   * The settings required by each flow
+   *
+   * @static
+   * @memberof OAuth
+   */
+  static requiredSettings: Map<string, Array<keyof IOAuthSettings>> = new Map<string, Array<keyof IOAuthSettings>>([
+    [OAUTH_FLOW.JwtBearer, ["clientId", "username", "privateKey"]],
+    [OAUTH_FLOW.RefreshToken, ["clientId", "refreshToken"]],
+    [OAUTH_FLOW.ClientCredentials, ["clientId", "clientSecret"]]
+  ]);
+
+  /**
+   * Returns the names of the settings which are required by the flow but are missing
+   *
+   * @static
+   * @param {IOAuthSettings} settings
+   * @returns {Array<string>}
+   * @memberof OAuth
+   */
+  static getMissingSettings(settings: IOAuthSettings): Array<string> {
+    return (OAuth.requiredSettings.get(settings.authFlow) || []).filter(name => !settings[name]);
+  }
+
+  /**
+   * Requests the new access token from the token endpoint of the login url
+   *
+   * @static
+   * @param {IOAuthSettings} settings
+   * @returns {Promise<IOAuthToken>}
+   * @memberof OAuth
+   */
+  static async requestAccessTokenAsync(settings: IOAuthSettings): Promise<IOAuthToken> {
+
+    let loginUrl = (settings.loginUrl || CONSTANTS.OAUTH_DEFAULT_LOGIN_URL).replace(/\/+$/, '');
+    let params: any;
+
+    switch (settings.authFlow) {
+      case OAUTH_FLOW.JwtBearer:
+        params = {
+          grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+          assertion: OAuth.createJwt(settings, loginUrl)
+        };
+        break;
+
+      case OAUTH_FLOW.RefreshToken:
+        params = {
+          grant_type: 'refresh_token',
+          client_id: settings.clientId,
+          client_secret: settings.clientSecret,
+          refresh_token: settings.refreshToken
+        };
+        break;
+
+      default:
+        params = {
+          grant_type: 'client_credentials',
+          client_id: settings.clientId,
+          client_secret: settings.clientSecret
+        };
+        break;
+    }
+
+    Object.keys(params).forEach(key => {
+      if (!params[key]) {
+        delete params[key];
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      request.post({
+        url: loginUrl + CONSTANTS.OAUTH_TOKEN_ENDPOINT,
+        form: params,
+        proxy: settings.proxyUrl || undefined,
+        json: true
+      }, function (error: any, response: any, body: any) {
+        if (error) {
+          reject(error);
+          return;
+        }
+        if (response.statusCode != 200 || !body || !body.access_token) {
+          reject(new Error(body && (body.error_description || body.error) || `HTTP ${response.statusCode}`));
+          return;
+        }
+        resolve({
+          accessToken: body.access_token,
+          instanceUrl: body.instance_url,
+          identityUrl: body.id
+        });
+      });
+    });
+  }
+
+  /**
+   * Creates the signed JWT assertion of the JWT bearer flow
+   *
+   * @static
+   * @param {IOAuthSettings} settings
+   * @param {string} audience The login url
+   * @returns {string}
+   * @memberof OAuth
+   */
+  static createJwt(settings: IOAuthSettings, audience: string): string {
+    let header = {
+      alg: 'RS256'
+    };
+    let claims = {
+      iss: settings.clientId,
+      sub: settings.username,
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + CONSTANTS.OAUTH_JWT_EXPIRATION_SEC
+    };
+    let token = ___toBase64Url(Buffer.from(JSON.stringify(header))) + '.' + ___toBase64Url(Buffer.from(JSON.stringify(claims)));
+    let signature = crypto.createSign('RSA-SHA256').update(token).sign(settings.privateKey);
+    return token + '.' + ___toBase64Url(signature);
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___toBase64Url(buffer: Buffer): string {
+      return buffer.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+    }
+  }
+
+}
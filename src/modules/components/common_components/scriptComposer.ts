@@ -0,0 +1,224 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CommandInitializationError } from '../../models/common_models/errors';
+import { Common } from './common';
+import {
+  Logger,
+  RESOURCES,
+} from './logger';
+import { ScriptSchemaValidator } from './scriptSchemaValidator';
+import { CONSTANTS } from './statics';
+
+/**
+ * Resolves the composable script file:
+ * the base scripts referenced by the "extends" property
+ * and the object definitions referenced by the "$include" items of the objects arrays.
+ *
+ * The merge rules applied to the base and the derived script:
+ *  - the scalar properties of the derived script override the base ones,
+ *  - the orgs and the parameters are matched by name,
+ *  - the objects are matched by the sObject name of the query
+ *    (the new objects are appended in their order),
+ *  - the object sets are matched by position and their objects are merged as above,
+ *  - the excludedObjects are concatenated without duplicates,
+ *  - the add-on manifests are matched by the module (or the path).
+ * The matched items are merged property by property, the derived properties win.
+ *
+ * @export
+ * @class ScriptComposer
+ */
+export class ScriptComposer {
+
+  logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Returns the script object with all the base scripts and the includes resolved
+   *
+   * @param {*} jsonObject The parsed script
+   * @param {string} filePath The path of the script file. The relative references are resolved against its directory
+   * @returns {*}
+   * @memberof ScriptComposer
+   */
+  compose(jsonObject: any, filePath: string): any {
+    return this._compose(jsonObject, filePath, [filePath]);
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _compose(jsonObject: any, filePath: string, chain: Array<string>): any {
+
+    let directory = path.dirname(filePath);
+
+    jsonObject.objects = this._resolveIncludes(jsonObject.objects, filePath, chain);
+    (jsonObject.objectSets || []).forEach((objectSet: any) => {
+      objectSet.objects = this._resolveIncludes(objectSet.objects, filePath, chain);
+    });
+
+    let baseFiles: Array<string> = [].concat(jsonObject[CONSTANTS.SCRIPT_EXTENDS_PROPERTY] || []);
+    delete jsonObject[CONSTANTS.SCRIPT_EXTENDS_PROPERTY];
+
+    if (baseFiles.length == 0) {
+      return jsonObject;
+    }
+
+    // The base scripts are applied in their order, then the current script over them
+    let result = {};
+    baseFiles.forEach(baseFile => {
+      let baseFilePath = path.resolve(directory, baseFile);
+      this.logger.infoVerbose(RESOURCES.extendingBaseScript, baseFilePath);
+      let baseObject = this._compose(this._readFile(baseFilePath, filePath, chain, CONSTANTS.SCRIPT_SCHEMA_BASE_SCRIPT_DEFINITION),
+        baseFilePath, chain.concat(baseFilePath));
+      result = this._mergeScripts(result, baseObject);
+    });
+    return this._mergeScripts(result, jsonObject);
+  }
+
+  private _resolveIncludes(objects: Array<any>, filePath: string, chain: Array<string>): Array<any> {
+
+    if (!Array.isArray(objects)) {
+      return objects;
+    }
+
+    let result = new Array<any>();
+    objects.forEach(object => {
+
+      if (!object || !object[CONSTANTS.SCRIPT_INCLUDE_PROPERTY]) {
+        result.push(object);
+        return;
+      }
+
+      let includeFilePath = path.resolve(path.dirname(filePath), object[CONSTANTS.SCRIPT_INCLUDE_PROPERTY]);
+      this.logger.infoVerbose(RESOURCES.includingScriptObjects, includeFilePath);
+
+      // The included file contains either the array of the objects, the single object or the script
+      let included = this._readFile(includeFilePath, filePath, chain, CONSTANTS.SCRIPT_SCHEMA_INCLUDE_DEFINITION);
+      let includedObjects: Array<any> = Array.isArray(included) ? included
+        : Array.isArray(included.objects) ? included.objects
+          : included.query ? [included] : [];
+      if (includedObjects.length == 0) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.invalidScriptInclude, includeFilePath, filePath));
+      }
+
+      // The other properties of the include item override the properties of each included object
+      let overrides = Object.assign({}, object);
+      delete overrides[CONSTANTS.SCRIPT_INCLUDE_PROPERTY];
+
+      this._resolveIncludes(includedObjects, includeFilePath, chain.concat(includeFilePath)).forEach(includedObject => {
+        result.push(this._mergeObjects(includedObject, overrides));
+      });
+    });
+    return result;
+  }
+
+  private _readFile(filePath: string, referencedFrom: string, chain: Array<string>, definition: string): any {
+    if (chain.indexOf(filePath) >= 0) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.circularScriptFileReference,
+        chain.concat(filePath).join(' -> ')));
+    }
+    let text: string;
+    try {
+      text = fs.readFileSync(filePath, 'utf8');
+    } catch (ex: any) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.scriptFileLoadError,
+        filePath, referencedFrom, ex.message));
+    }
+    new ScriptSchemaValidator(this.logger).assertValid(text, filePath, definition);
+    return JSON.parse(text);
+  }
+
+  private _mergeScripts(base: any, derived: any): any {
+
+    let result = Object.assign({}, base, derived);
+    let ___isDefined = (property: string) => base[property] != null || derived[property] != null;
+
+    if (___isDefined("orgs")) {
+      result.orgs = this._mergeByKey(base.orgs, derived.orgs, org => org.name);
+    }
+    if (___isDefined("parameters")) {
+      result.parameters = this._mergeByKey(base.parameters, derived.parameters, parameter => parameter.name);
+    }
+    if (___isDefined("objects")) {
+      result.objects = this._mergeObjectArrays(base.objects, derived.objects);
+    }
+
+    if (___isDefined("objectSets")) {
+      let baseObjectSets: Array<any> = base.objectSets || [];
+      let derivedObjectSets: Array<any> = derived.objectSets || [];
+      result.objectSets = new Array<any>();
+      for (let index = 0; index < Math.max(baseObjectSets.length, derivedObjectSets.length); index++) {
+        let baseObjectSet = baseObjectSets[index] || {};
+        let derivedObjectSet = derivedObjectSets[index] || {};
+        result.objectSets.push(Object.assign({}, baseObjectSet, derivedObjectSet, {
+          objects: this._mergeObjectArrays(baseObjectSet.objects, derivedObjectSet.objects)
+        }));
+      }
+    }
+
+    if (___isDefined("excludedObjects")) {
+      result.excludedObjects = Common.distinctStringArray([].concat(base.excludedObjects || [], derived.excludedObjects || []));
+    }
+
+    CONSTANTS.SCRIPT_ADDON_MANIFEST_PROPERTIES.filter(___isDefined).forEach(property => {
+      result[property] = this._mergeAddonManifests(base[property], derived[property]);
+    });
+
+    return result;
+  }
+
+  private _mergeObjectArrays(base: Array<any>, derived: Array<any>): Array<any> {
+    return this._mergeByKey(base, derived, object => this._getObjectName(object), (baseObject, derivedObject) => {
+      return this._mergeObjects(baseObject, derivedObject);
+    });
+  }
+
+  private _mergeObjects(base: any, derived: any): any {
+    let result = Object.assign({}, base, derived);
+    CONSTANTS.SCRIPT_OBJECT_ADDON_MANIFEST_PROPERTIES.forEach(property => {
+      if (base[property] || derived[property]) {
+        result[property] = this._mergeAddonManifests(base[property], derived[property]);
+      }
+    });
+    return result;
+  }
+
+  private _mergeAddonManifests(base: Array<any>, derived: Array<any>): Array<any> {
+    return this._mergeByKey(base, derived, manifest => manifest.module || manifest.path);
+  }
+
+  private _mergeByKey(base: Array<any>, derived: Array<any>,
+    getKey: (item: any) => string,
+    merge: (baseItem: any, derivedItem: any) => any = (baseItem, derivedItem) => Object.assign({}, baseItem, derivedItem)): Array<any> {
+
+    let result = [...(base || [])];
+    (derived || []).forEach(derivedItem => {
+      let key = getKey(derivedItem || {});
+      let index = key ? result.findIndex(item => getKey(item || {}) == key) : -1;
+      if (index >= 0) {
+        result[index] = merge(result[index], derivedItem);
+      } else {
+        result.push(derivedItem);
+      }
+    });
+    return result;
+  }
+
+  private _getObjectName(object: any): string {
+    let match = /\bFROM\s+([\w.]+)/i.exec(String(object.query || ''));
+    return match && match[1].toLowerCase();
+  }
+
+}
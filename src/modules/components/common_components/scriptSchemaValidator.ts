@@ -0,0 +1,361 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CommandInitializationError } from '../../models/common_models/errors';
+import { IScriptValidationIssue } from '../../models/common_models/helper_interfaces';
+import { Common } from './common';
+import { PREFLIGHT_ISSUE_SEVERITY } from './enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from './logger';
+import { CONSTANTS } from './statics';
+
+const { distance } = require('fastest-levenshtein');
+
+interface IJsonPosition {
+  line: number,
+  column: number
+}
+
+/**
+ * Validates the script files against the published JSON Schema (schemas/export.schema.json).
+ * Supports the subset of the JSON Schema keywords used by this schema:
+ * $ref, anyOf, type, enum, required, properties, additionalProperties, items and deprecated.
+ * Each issue is reported with the line and the column of the offending property or value,
+ * the unknown properties come with the "did you mean" suggestion.
+ *
+ * @export
+ * @class ScriptSchemaValidator
+ */
+export class ScriptSchemaValidator {
+
+  private static _schema: any;
+
+  logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  get schema(): any {
+    if (!ScriptSchemaValidator._schema) {
+      ScriptSchemaValidator._schema = JSON.parse(fs.readFileSync(path.join(__dirname, CONSTANTS.SCRIPT_SCHEMA_FILE_PATH), 'utf8'));
+    }
+    return ScriptSchemaValidator._schema;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Validates the text of the script file
+   *
+   * @param {string} text The text of the file
+   * @param {string} filePath The file path to report
+   * @param {string} [definition] The name of the schema definition to validate against, the root schema if not set
+   * @returns {Array<IScriptValidationIssue>}
+   * @memberof ScriptSchemaValidator
+   */
+  validate(text: string, filePath: string, definition?: string): Array<IScriptValidationIssue> {
+
+    let issues = new Array<IScriptValidationIssue>();
+
+    let jsonObject: any;
+    try {
+      jsonObject = JSON.parse(text);
+    } catch (ex: any) {
+      let match = /at position (\d+)/.exec(ex.message);
+      let position = match ? this._getTextPosition(text, +match[1]) : { line: 0, column: 0 };
+      issues.push({
+        severity: PREFLIGHT_ISSUE_SEVERITY.Error,
+        filePath,
+        line: position.line,
+        column: position.column,
+        path: "",
+        message: this.logger.getResourceString(RESOURCES.scriptSyntaxError, ex.message)
+      });
+      return issues;
+    }
+
+    let { values, keys } = this._scanPositions(text);
+    let schema = definition ? this._resolveRef(`${CONSTANTS.SCRIPT_SCHEMA_DEFINITIONS_PREFIX}${definition}`) : this.schema;
+
+    this._validateNode(jsonObject, schema, "", issues);
+
+    issues.forEach(issue => {
+      // The issues related to the property are reported at the property name
+      let position = keys.get(issue.path) || values.get(issue.path) || { line: 0, column: 0 };
+      issue.filePath = filePath;
+      issue.line = position.line;
+      issue.column = position.column;
+      issue.path = this._getDisplayPath(issue.path);
+    });
+
+    return issues;
+  }
+
+  /**
+   * Validates the text of the script file,
+   * logs the warnings and throws if there are any errors
+   *
+   * @param {string} text The text of the file
+   * @param {string} filePath The file path to report
+   * @param {string} [definition] The name of the schema definition to validate against, the root schema if not set
+   * @memberof ScriptSchemaValidator
+   */
+  assertValid(text: string, filePath: string, definition?: string) {
+    let issues = this.validate(text, filePath, definition);
+    issues.filter(issue => issue.severity == PREFLIGHT_ISSUE_SEVERITY.Warning).forEach(issue => {
+      this.logger.warn(RESOURCES.scriptValidationIssue, ...this._getIssueTokens(issue));
+    });
+    let errors = issues.filter(issue => issue.severity == PREFLIGHT_ISSUE_SEVERITY.Error);
+    if (errors.length > 0) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.scriptValidationFailed,
+        filePath, String(errors.length), errors.map(issue => this.formatIssue(issue)).join('\n')));
+    }
+  }
+
+  /**
+   * Returns the issue formatted for the log
+   *
+   * @param {IScriptValidationIssue} issue
+   * @returns {string}
+   * @memberof ScriptSchemaValidator
+   */
+  formatIssue(issue: IScriptValidationIssue): string {
+    return this.logger.getResourceString(RESOURCES.scriptValidationIssue, ...this._getIssueTokens(issue));
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _validateNode(value: any, schema: any, pointer: string, issues: Array<IScriptValidationIssue>) {
+
+    while (schema.$ref) {
+      schema = this._resolveRef(schema.$ref);
+    }
+
+    if (schema.anyOf) {
+      // The branch with the fewest errors is reported
+      let bestIssues: Array<IScriptValidationIssue>;
+      for (let branch of schema.anyOf) {
+        let branchIssues = new Array<IScriptValidationIssue>();
+        this._validateNode(value, branch, pointer, branchIssues);
+        if (!bestIssues || ___errorsCount(branchIssues) < ___errorsCount(bestIssues)) {
+          bestIssues = branchIssues;
+        }
+        if (___errorsCount(bestIssues) == 0) {
+          break;
+        }
+      }
+      issues.push(...bestIssues);
+      return;
+    }
+
+    if (schema.type) {
+      let types: Array<string> = [].concat(schema.type);
+      if (!types.some(type => this._isType(value, type))) {
+        this._addIssue(issues, PREFLIGHT_ISSUE_SEVERITY.Error, pointer, RESOURCES.scriptInvalidPropertyType,
+          types.join(' | '), this._getType(value));
+        return;
+      }
+    }
+
+    if (schema.enum && schema.enum.indexOf(value) < 0) {
+      this._addIssue(issues, PREFLIGHT_ISSUE_SEVERITY.Error, pointer, RESOURCES.scriptInvalidPropertyValue,
+        String(value), schema.enum.join(', '));
+      return;
+    }
+
+    if (schema.deprecated) {
+      this._addIssue(issues, PREFLIGHT_ISSUE_SEVERITY.Warning, pointer, RESOURCES.scriptObsoleteProperty,
+        pointer.split('/').pop());
+    }
+
+    if (this._isType(value, "object")) {
+      let properties = schema.properties || {};
+      (schema.required || []).filter((name: string) => !value.hasOwnProperty(name)).forEach((name: string) => {
+        this._addIssue(issues, PREFLIGHT_ISSUE_SEVERITY.Error, pointer, RESOURCES.scriptMissingRequiredProperty, name);
+      });
+      Object.keys(value).forEach(name => {
+        let propertyPointer = `${pointer}/${this._escapePointerToken(name)}`;
+        if (properties[name]) {
+          this._validateNode(value[name], properties[name], propertyPointer, issues);
+        } else if (typeof schema.additionalProperties == 'object') {
+          this._validateNode(value[name], schema.additionalProperties, propertyPointer, issues);
+        } else if (schema.additionalProperties === false) {
+          let suggestion = this._getSuggestion(name, Object.keys(properties));
+          if (suggestion) {
+            this._addIssue(issues, PREFLIGHT_ISSUE_SEVERITY.Error, propertyPointer, RESOURCES.scriptUnknownPropertyDidYouMean, name, suggestion);
+          } else {
+            this._addIssue(issues, PREFLIGHT_ISSUE_SEVERITY.Error, propertyPointer, RESOURCES.scriptUnknownProperty, name);
+          }
+        }
+      });
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => this._validateNode(item, schema.items, `${pointer}/${index}`, issues));
+    }
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___errorsCount(items: Array<IScriptValidationIssue>): number {
+      return items.filter(item => item.severity == PREFLIGHT_ISSUE_SEVERITY.Error).length;
+    }
+  }
+
+  private _addIssue(issues: Array<IScriptValidationIssue>, severity: PREFLIGHT_ISSUE_SEVERITY, pointer: string, message: RESOURCES, ...tokens: Array<string>) {
+    issues.push({
+      severity,
+      filePath: "",
+      line: 0,
+      column: 0,
+      path: pointer,
+      message: this.logger.getResourceString(message, ...tokens)
+    });
+  }
+
+  private _getIssueTokens(issue: IScriptValidationIssue): Array<string> {
+    return [issue.severity, issue.filePath, String(issue.line), String(issue.column), issue.path, issue.message];
+  }
+
+  private _getSuggestion(name: string, names: Array<string>): string {
+    let suggestion = Common.searchClosest(name, names, true) || Common.searchClosest(name, names);
+    if (suggestion && distance(name.toLowerCase(), suggestion.toLowerCase()) <= Math.max(2, Math.floor(name.length / 3))) {
+      return suggestion;
+    }
+  }
+
+  private _resolveRef(ref: string): any {
+    return ref.replace(/^#\/?/, '').split('/').filter(token => !!token).reduce((schema, token) => {
+      return schema[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }, this.schema);
+  }
+
+  private _isType(value: any, type: string): boolean {
+    switch (type) {
+      case "object": return value != null && typeof value == 'object' && !Array.isArray(value);
+      case "array": return Array.isArray(value);
+      case "integer": return Number.isInteger(value);
+      case "null": return value === null;
+      default: return typeof value == type;
+    }
+  }
+
+  private _getType(value: any): string {
+    return value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  }
+
+  private _escapePointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private _getDisplayPath(pointer: string): string {
+    return pointer.split('/').slice(1).reduce((displayPath, token) => {
+      return /^\d+$/.test(token) ? `${displayPath}[${token}]`
+        : `${displayPath ? displayPath + '.' : ''}${token.replace(/~1/g, '/').replace(/~0/g, '~')}`;
+    }, "") || "(root)";
+  }
+
+  private _getTextPosition(text: string, offset: number): IJsonPosition {
+    let lines = text.substr(0, offset).split('\n');
+    return {
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1
+    };
+  }
+
+  private _scanPositions(text: string): { values: Map<string, IJsonPosition>, keys: Map<string, IJsonPosition> } {
+
+    // The text is already known to be the valid JSON
+    let values = new Map<string, IJsonPosition>();
+    let keys = new Map<string, IJsonPosition>();
+    let index = 0;
+    let line = 1;
+    let column = 1;
+    let self = this;
+
+    ___scanValue("");
+
+    return { values, keys };
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___next() {
+      if (text[index] == '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+
+    function ___skipWhitespace() {
+      while (index < text.length && /\s/.test(text[index])) {
+        ___next();
+      }
+    }
+
+    function ___scanString(): string {
+      ___next();
+      let start = index;
+      while (index < text.length && text[index] != '"') {
+        if (text[index] == '\\') {
+          ___next();
+        }
+        ___next();
+      }
+      let value = JSON.parse(`"${text.substring(start, index)}"`);
+      ___next();
+      return value;
+    }
+
+    function ___scanValue(pointer: string) {
+      ___skipWhitespace();
+      values.set(pointer, { line, column });
+      let char = text[index];
+      if (char == '{' || char == '[') {
+        let isObject = char == '{';
+        let closingChar = isObject ? '}' : ']';
+        let itemIndex = 0;
+        ___next();
+        ___skipWhitespace();
+        while (index < text.length && text[index] != closingChar) {
+          let itemPointer: string;
+          if (isObject) {
+            let keyPosition = { line, column };
+            itemPointer = `${pointer}/${self._escapePointerToken(___scanString())}`;
+            keys.set(itemPointer, keyPosition);
+            ___skipWhitespace();
+            // The colon
+            ___next();
+          } else {
+            itemPointer = `${pointer}/${itemIndex++}`;
+          }
+          ___scanValue(itemPointer);
+          ___skipWhitespace();
+          if (text[index] == ',') {
+            ___next();
+            ___skipWhitespace();
+          }
+        }
+        ___next();
+        return;
+      }
+      if (char == '"') {
+        ___scanString();
+        return;
+      }
+      while (index < text.length && !/[\s,\]}]/.test(text[index])) {
+        ___next();
+      }
+    }
+  }
+
+}
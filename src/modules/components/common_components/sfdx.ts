@@ -30,6 +30,7 @@ import {
   SObjectDescribe,
 } from '../../models';
 import {
+  ApiInfo,
   IBlobField,
   ICachedRecords,
 } from '../../models/api_models';
@@ -38,9 +39,14 @@ import {
   IFieldMappingResult,
   IIdentityInfo,
   IOrgConnectionData,
+  IOrgLimit,
 } from '../../models/common_models/helper_interfaces';
+import { BulkApiV2_0QueryEngine } from '../api_engines/bulkApiV2_0QueryEngine';
 import { Common } from './common';
-import { DATA_CACHE_TYPES } from './enumerations';
+import {
+  DATA_CACHE_TYPES,
+  RESULT_STATUSES,
+} from './enumerations';
 import { RESOURCES } from './logger';
 import { CONSTANTS } from './statics';
 
@@ -73,12 +79,22 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
    * @param {string} soql The SOQL query
    * @param {boolean} useBulkQueryApi true to use Bulk Query Api instead of the Rest Api
    * @param {boolean} bulkQueryPollTimeout If set and useBuilkQueryApi is true, polling for the query results will timeout after this amount of milliseconds
+   * @param {(records: Array<any>) => Promise<Array<any>>} [pageCallback] Processes the retrieved records.
+   *                                    Called for each result page of the Bulk API 2.0 query and once for all records by the other APIs.
    * @returns {Promise<QueryResult<object>>}
    * @memberof ApiSf
    */
-  async queryOrgAsync(soql: string, useBulkQueryApi: boolean, useQueryAll?: boolean, bulkQueryPollTimeout?: number): Promise<Array<any>> {
+  async queryOrgAsync(soql: string,
+    useBulkQueryApi: boolean,
+    useQueryAll?: boolean,
+    bulkQueryPollTimeout?: number,
+    pageCallback?: (records: Array<any>) => Promise<Array<any>>): Promise<Array<any>> {
 
     let self = this;
+
+    // The Bulk API 2.0 query is used only when it is explicitly enabled
+    let useBulkQueryApiV2 = useBulkQueryApi && this.org.script.bulkQueryApiVersionNumber == 2;
+    // Only the Bulk API 2.0 supports queryAll
     useBulkQueryApi = useBulkQueryApi && !useQueryAll;
 
     // Sets, when output the first progress message
@@ -87,11 +103,43 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
     let nextProgressInfoAtRecord = firstProgressMessageAt;
     let lastProgressMessageAt = 0;
 
+    if (useBulkQueryApiV2) {
+      return await ___makeBulkV2QueryAsync(soql);
+    }
 
-    return (await ___makeQueryAsync(soql)).records;
+    let records = (await ___makeQueryAsync(soql)).records;
+    return pageCallback ? await pageCallback(records) : records;
 
 
     // ------------------ internal functions ------------------------- //
+    async function ___makeBulkV2QueryAsync(soql: string): Promise<Array<any>> {
+
+      let records = new Array<any>();
+      let engine = new BulkApiV2_0QueryEngine({
+        logger: self.logger,
+        connectionData: self.org.connectionData,
+        sObjectName: parseQuery(soql).sObject,
+        pollingIntervalMs: self.org.script.pollingIntervalMs,
+        pollingTimeoutMs: bulkQueryPollTimeout,
+        pageSize: self.org.script.bulkQueryPageSize,
+        pkChunkSize: self.org.script.bulkQueryPkChunkSize,
+        parallelJobs: self.org.script.parallelBulkJobs
+      });
+
+      await engine.queryAsync(soql, useQueryAll, async pageRecords => {
+        if (pageCallback) {
+          pageRecords = await pageCallback(pageRecords);
+        }
+        pageRecords.forEach(record => records.push(record));
+        if (records.length >= nextProgressInfoAtRecord) {
+          nextProgressInfoAtRecord = records.length + CONSTANTS.QUERY_PROGRESS_MESSAGE_PER_RECORDS;
+          self.logger.infoVerbose(RESOURCES.apiCallProgress, String(records.length));
+        }
+      }, progress => self._logBulkQueryProgress(progress));
+
+      return records;
+    }
+
     function ___fixRecords(records: Array<any>) {
       if (records.length == 0) return;
       let props = Object.keys(records[0]);
@@ -177,6 +225,8 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
    * @param {string} [csvFullFilename]   The full csv filename including full path (Used to query csv file). Leave blank to retrieve records from org.
    * @param {Map<string, SFieldDescribe>} [sFieldsDescribeMap] The field description of the queried sObject (Used to query csv file). Leave blank to retrieve records from org.
    * @param {boolean} bulkQueryPollTimeout If set and useBuilkQueryApi is true, polling for the query results will timeout after this amount of milliseconds
+   * @param {(records: Array<any>) => Promise<void>} [pageCallback] If set, the records are passed to this callback page by page instead of being returned.
+   *                                    The records cache is not used in this case.
    * @returns {Promise<Array<any>>}
    * @memberof Sfdx
    */
@@ -185,7 +235,8 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
     csvFullFilename?: string,
     sFieldsDescribeMap?: Map<string, SFieldDescribe>,
     useQueryAll?: boolean,
-    bulkQueryPollTimeout?: number): Promise<Array<any>> {
+    bulkQueryPollTimeout?: number,
+    pageCallback?: (records: Array<any>) => Promise<void>): Promise<Array<any>> {
 
     let self = this;
 
@@ -205,6 +256,14 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
         this.logger.infoVerbose(RESOURCES.usingBulkAPIQuery, parsedQuery.sObject);
       }
 
+      // Stream records /////
+      if (pageCallback) {
+        await ___queryAsync(soql, async pageRecords => {
+          await pageCallback(this.targetRecordsToSource(pageRecords, parsedQuery.sObject).records);
+        });
+        return [];
+      }
+
       // Query records /////
       let records = [].concat(await ___queryAsync(soql));
       if (parsedQuery.sObject == 'User') {
@@ -224,7 +283,7 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
     }
 
     // ------------------ internal functions ------------------------- //
-    async function ___queryAsync(soql: string): Promise<Array<any>> {
+    async function ___queryAsync(soql: string, streamCallback?: (records: Array<any>) => Promise<void>): Promise<Array<any>> {
 
       let hash32: string = '';
       let cacheFullFilename = '';
@@ -235,7 +294,8 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
       // Try to get from the record cache
       if ((self.org.script.sourceRecordsCache == DATA_CACHE_TYPES.CleanFileCache
         || self.org.script.sourceRecordsCache == DATA_CACHE_TYPES.FileCache)
-        && self.org.isSource) {
+        && self.org.isSource
+        && !streamCallback) {
 
         hash32 = String(Common.getString32FNV1AHashcode(soql, true));
         cacheFilename = CONSTANTS.SOURCE_RECORDS_FILE_CACHE_TEMPLATE(hash32);
@@ -256,26 +316,71 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
       // Query the remote
       let soqlFormat = ___formatSoql(soql);
       soql = soqlFormat[0];
-      let records = (await self.queryOrgAsync(soql, useBulkQueryApi, useQueryAll, bulkQueryPollTimeout));
-      records = ___parseRecords(records, soql);
-      records = ___formatRecords(records, soqlFormat);
-      records = await ___retrieveBlobFieldData(records, soqlFormat[3]);
 
-      // put to the record cache
-      if ((self.org.script.sourceRecordsCache == DATA_CACHE_TYPES.CleanFileCache
-        || self.org.script.sourceRecordsCache == DATA_CACHE_TYPES.FileCache)
-        && self.org.isSource) {
-        let data = JSON.stringify({
-          query: soql,
-          records
-        } as ICachedRecords);
+      // Put to the record cache.
+      // The records are appended to the temporary file page by page as they are retrieved,
+      // the file is renamed to the cache file when the query is completed.
+      let cacheFile: number;
+      let tempCacheFullFilename = cacheFullFilename + '.tmp';
+      let isFirstCachedRecord = true;
+      if (cacheFullFilename) {
         try {
           self.logger.infoVerbose(RESOURCES.writingToCacheFile, sObject, messageCacheFilename);
-          fs.writeFileSync(cacheFullFilename, data, 'utf-8');
-        } catch (e) { }
+          cacheFile = fs.openSync(tempCacheFullFilename, 'w');
+          fs.writeSync(cacheFile, `{"query":${JSON.stringify(soql)},"records":[`);
+        } catch (e) {
+          cacheFile = undefined;
+        }
       }
 
-      return records;
+      try {
+        let records = await self.queryOrgAsync(soql, useBulkQueryApi, useQueryAll, bulkQueryPollTimeout, async pageRecords => {
+          pageRecords = ___parseRecords(pageRecords, soql);
+          pageRecords = ___formatRecords(pageRecords, soqlFormat);
+          pageRecords = await ___retrieveBlobFieldData(pageRecords, soqlFormat[3]);
+          ___writeToCacheFile(pageRecords);
+          if (streamCallback) {
+            // The streamed records are not accumulated
+            await streamCallback(pageRecords);
+            return [];
+          }
+          return pageRecords;
+        });
+        if (typeof cacheFile != 'undefined') {
+          try {
+            fs.writeSync(cacheFile, ']}');
+            fs.closeSync(cacheFile);
+            cacheFile = undefined;
+            fs.renameSync(tempCacheFullFilename, cacheFullFilename);
+          } catch (e) { }
+        }
+        return records;
+      } finally {
+        // The query has failed => the incomplete file is removed
+        ___removeCacheFile();
+      }
+
+      function ___writeToCacheFile(pageRecords: Array<any>) {
+        if (typeof cacheFile == 'undefined' || pageRecords.length == 0) {
+          return;
+        }
+        try {
+          fs.writeSync(cacheFile, (isFirstCachedRecord ? '' : ',') + JSON.stringify(pageRecords).slice(1, -1));
+          isFirstCachedRecord = false;
+        } catch (e) {
+          ___removeCacheFile();
+        }
+      }
+
+      function ___removeCacheFile() {
+        if (typeof cacheFile != 'undefined') {
+          try {
+            fs.closeSync(cacheFile);
+            fs.unlinkSync(tempCacheFullFilename);
+          } catch (e) { }
+          cacheFile = undefined;
+        }
+      }
     }
 
     function ___formatSoql(soql: string): [string, Map<string, Array<string>>, Array<string>, string] {
@@ -469,11 +574,20 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
    * @memberof Sfdx
    */
   public async describeOrgAsync(): Promise<Array<SObjectDescribe>> {
-    let query = `SELECT  QualifiedApiName, Label
+    let records: Array<any> = this.org.readDescribeCache(CONSTANTS.DESCRIBE_CACHE_OBJECTS_FILENAME);
+    if (!records) {
+      let query = `SELECT  QualifiedApiName, Label
                     FROM EntityDefinition
                     WHERE IsDeprecatedAndHidden = false
                     ORDER BY QualifiedApiName`;
-    let records = await this.queryOrgAsync(query, false);
+      records = (await this.queryOrgAsync(query, false)).map(record => {
+        return {
+          QualifiedApiName: record["QualifiedApiName"],
+          Label: record["Label"]
+        };
+      });
+      this.org.writeDescribeCache(CONSTANTS.DESCRIBE_CACHE_OBJECTS_FILENAME, records);
+    }
     return records.map((record: any) => {
       return new SObjectDescribe({
         label: String(record["Label"]),
@@ -495,12 +609,18 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
    */
   public async getPolymorphicObjectFields(sObjectName: string): Promise<string[]> {
 
-    let query = `SELECT QualifiedApiName
+    let cacheFilename = CONSTANTS.DESCRIBE_CACHE_POLYMORPHIC_FIELDS_FILENAME_TEMPLATE(sObjectName);
+    let fieldNames: Array<string> = this.org.readDescribeCache(cacheFilename);
+    if (!fieldNames) {
+      let query = `SELECT QualifiedApiName
                      FROM FieldDefinition
                      WHERE EntityDefinitionId = '${sObjectName}'
                         AND IsPolymorphicForeignKey = true`;
-    let records = await this.queryOrgAsync(query, false);
-    return records.map(record => record["QualifiedApiName"]);
+      let records = await this.queryOrgAsync(query, false);
+      fieldNames = records.map(record => record["QualifiedApiName"]);
+      this.org.writeDescribeCache(cacheFilename, fieldNames);
+    }
+    return fieldNames;
   }
 
 
@@ -523,6 +643,25 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
     });
   }
 
+  /**
+   * Reads the current org limits (the /limits resource)
+   *
+   * @returns {Promise<Record<string, IOrgLimit>>} Limit name => The limit values
+   * @memberof Sfdx
+   */
+  public async getLimitsAsync(): Promise<Record<string, IOrgLimit>> {
+    var conn = this.org.getConnection();
+    return new Promise((resolve, reject) => {
+      conn.limits(function (err: any, limits: Record<string, IOrgLimit>) {
+        if (err)
+          reject(err);
+        else {
+          resolve(limits || {});
+        }
+      });
+    });
+  }
+
   /**
   * Describes given SObject by retrieving field descriptions
   *
@@ -533,10 +672,8 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
   */
   async describeSObjectAsync(objectName: string, objectFieldMapping?: ObjectFieldMapping): Promise<SObjectDescribe> {
 
-    var conn = this.org.getConnection();
-
     const describeAsync = (name: string) => new Promise((resolve, reject) =>
-      conn.sobject(name).describe(function (err: any, meta: any) {
+      this.org.getConnection().sobject(name).describe(function (err: any, meta: any) {
         if (err)
           reject(err);
         else
@@ -547,7 +684,12 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
     //let isTheSameMappedObject = objectFieldMapping && targetObjectName == objectName;
 
     // Using the target object name...
-    let describeResult: DescribeSObjectResult = <DescribeSObjectResult>(await describeAsync(targetObjectName));
+    let cacheFilename = CONSTANTS.DESCRIBE_CACHE_SOBJECT_FILENAME_TEMPLATE(targetObjectName);
+    let describeResult: DescribeSObjectResult = this.org.readDescribeCache(cacheFilename);
+    if (!describeResult) {
+      describeResult = <DescribeSObjectResult>(await describeAsync(targetObjectName));
+      this.org.writeDescribeCache(cacheFilename, ___getCachedDescribeResult());
+    }
     let sObjectDescribe: SObjectDescribe = new SObjectDescribe({
       // Using the source object name...
       name: objectName,
@@ -570,6 +712,7 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
       // ------
       f.nameField = field.nameField;
       f.unique = field.unique;
+      f.externalId = !!field.externalId;
       f.type = field.type;
       f.label = field.label;
       f.custom = field.custom;
@@ -587,12 +730,68 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
 
       f.length = field.length || 0;
 
+      f.picklistValues = (field["picklistValues"] || []).filter((entry: any) => entry.active).map((entry: any) => entry.value);
+      f.restrictedPicklist = !!field["restrictedPicklist"];
+
       // ------
       f.isDescribed = true;
       // ------
       sObjectDescribe.fieldsMap.set(f.name, f);
     });
+    sObjectDescribe.childRelationships = (describeResult.childRelationships || [])
+      .filter(relationship => !!relationship.relationshipName)
+      .map(relationship => {
+        return {
+          childSObject: relationship.childSObject,
+          field: relationship.field,
+          relationshipName: relationship.relationshipName
+        };
+      });
     return sObjectDescribe;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___getCachedDescribeResult(): any {
+      // Only the properties used to build the SObjectDescribe are kept
+      return {
+        name: describeResult.name,
+        createable: describeResult.createable,
+        custom: describeResult.custom,
+        label: describeResult.label,
+        updateable: describeResult.updateable,
+        fields: describeResult.fields.map(field => {
+          return {
+            name: field.name,
+            nameField: field.nameField,
+            unique: field.unique,
+            externalId: field.externalId,
+            type: field.type,
+            label: field.label,
+            custom: field.custom,
+            updateable: field.updateable,
+            autoNumber: field["autoNumber"],
+            createable: field.createable,
+            calculated: field.calculated,
+            cascadeDelete: field.cascadeDelete,
+            referenceTo: field.referenceTo,
+            length: field.length,
+            picklistValues: (field["picklistValues"] || []).filter((entry: any) => entry.active).map((entry: any) => {
+              return {
+                value: entry.value,
+                active: true
+              };
+            }),
+            restrictedPicklist: field["restrictedPicklist"]
+          };
+        }),
+        childRelationships: (describeResult.childRelationships || []).map(relationship => {
+          return {
+            childSObject: relationship.childSObject,
+            field: relationship.field,
+            relationshipName: relationship.relationshipName
+          };
+        })
+      };
+    }
   };
 
 
@@ -611,7 +810,12 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
       accessToken: connectionData.accessToken,
       version: connectionData.apiVersion,
       maxRequest: CONSTANTS.MAX_PARALLEL_REQUESTS,
-      proxyUrl: connectionData.proxyUrl
+      proxyUrl: connectionData.proxyUrl,
+      // The expired session is refreshed and the failed request is repeated by jsforce
+      refreshFn: connectionData.refreshAccessTokenAsync && ((connection: any, callback: Function) => {
+        connectionData.refreshAccessTokenAsync(connection.accessToken)
+          .then(accessToken => callback(null, accessToken), (error: any) => callback(error));
+      })
     });
   }
 
@@ -690,5 +894,21 @@ export class Sfdx implements IAppSfdxService, IFieldMapping {
   }
 
 
+  // ----------------------- Private members -------------------------------------------
+  private _logBulkQueryProgress(progress: ApiInfo) {
+    switch (progress.resultStatus) {
+      case RESULT_STATUSES.JobCreated:
+        this.logger.infoNormal(RESOURCES.apiOperationQueryJobCreated, progress.jobId, progress.sObjectName);
+        break;
+      case RESULT_STATUSES.InProgress:
+        this.logger.infoVerbose(RESOURCES.apiOperationQueryJobInProgress, progress.jobId, progress.sObjectName,
+          String(progress.numberRecordsProcessed));
+        break;
+      case RESULT_STATUSES.Completed:
+        this.logger.infoNormal(RESOURCES.apiOperationQueryJobCompleted, progress.jobId, progress.sObjectName,
+          String(progress.numberRecordsProcessed));
+        break;
+    }
+  }
 
 }
@@ -17,10 +17,13 @@ export const CONSTANTS = {
   DEFAULT_POLLING_QUERY_TIMEOUT_MS: 4 * 60 * 1000,
   DEFAULT_BULK_API_THRESHOLD_RECORDS: 200,
   DEFAULT_BULK_API_VERSION: '2.0',
+  DEFAULT_BULK_QUERY_API_VERSION: '1.0',
   DEFAULT_BULK_API_V1_BATCH_SIZE: 9500,
   DEFAULT_REST_API_BATCH_SIZE: undefined,
   DEFAULT_API_VERSION: '60.0',
   DEFAULT_EXTERNAL_ID_FIELD_NAME: "Name",
+  DEFAULT_INCREMENTAL_FIELD_NAME: "SystemModstamp",
+  SUPPORTED_INCREMENTAL_FIELDS: ["SystemModstamp", "LastModifiedDate"],
 
   QUERY_PROGRESS_MESSAGE_PER_RECORDS: 2000,
   DOWNLOAD_BLOB_PROGRESS_MESSAGE_PER_RECORDS: 10,
@@ -60,9 +63,17 @@ export const CONSTANTS = {
   BINARY_CACHE_SUB_DIRECTORY: "binary_cache",
   REPORTS_SUB_DIRECTORY: "reports",
   SOURCE_RECORDS_CACHE_SUB_DIRECTORY: "source_records_cache",
+  CHECKPOINT_SUB_DIRECTORY: "checkpoint",
+  ROLLBACK_SUB_DIRECTORY: "rollback",
+  INCREMENTAL_SUB_DIRECTORY: "incremental",
+  MASKING_SUB_DIRECTORY: "masking",
+  STREAMING_SUB_DIRECTORY: "streaming",
+  FAILED_RECORDS_SUB_DIRECTORY: "failed_records",
+  DESCRIBE_CACHE_SUB_DIRECTORY: "describe_cache",
   CSV_SOURCE_FILE_SUFFIX: "_source",
   CSV_TARGET_FILE_SUFFIX: "_target",
   CSV_TARGET_FILE_PERSON_ACCOUNTS_SUFFIX: "_person",
+  CSV_TARGET_FILE_CHUNK_SUFFIX: (chunkNumber: number) => `_chunk${chunkNumber}`,
   FILE_LOG_SUBDIRECTORY: "logs",
   FILE_LOG_FILEEXTENSION: "log",
   VALUE_MAPPING_CSV_FILENAME: 'ValueMapping.csv',
@@ -70,13 +81,41 @@ export const CONSTANTS = {
   CSV_ISSUES_ERRORS_FILENAME: 'CSVIssuesReport.csv',
   MISSING_PARENT_LOOKUP_RECORDS_ERRORS_FILENAME: "MissingParentRecordsReport.csv",
   FIELD_MAPPING_FILENAME: "FieldMapping.csv",
+  CHECKPOINT_JOURNAL_FILENAME: "checkpoint.json",
+  ROLLBACK_JOURNAL_FILENAME: "rollback.json",
+  INCREMENTAL_WATERMARKS_FILENAME: "watermarks.json",
+  MASKING_STORE_FILENAME: "mappings.json",
+  FAILED_RECORDS_FILENAME_TEMPLATE: (sObjectName: string) => `${sObjectName}.json`,
+  FAILED_RECORDS_ID_MAPS_FILENAME: "__idmaps.json",
+  MASKING_SECRET_FILENAME: "secret.key",
+  MASKING_SECRET_ENV_VARIABLE: "SFDMU_MASKING_SECRET",
+  STREAMING_SOURCE_RECORDS_FILENAME: "source_records.jsonl",
+  STREAMING_TARGET_RECORDS_INDEX_NAME: "target_records",
+  STREAMING_TARGET_IDS_INDEX_NAME: "target_ids",
+  KEY_VALUE_INDEX_BUCKET_FILE_TEMPLATE: (bucket: number) => `${bucket}.jsonl`,
+  DIFF_REPORT_JSON_FILENAME: "DiffReport.json",
+  DIFF_REPORT_HTML_FILENAME: "DiffReport.html",
+  DIFF_REPORT_CSV_FILENAME_TEMPLATE: (sObjectName: string) => `${sObjectName}_DiffReport.csv`,
+  OBJECT_GRAPH_FILENAME_TEMPLATE: (extension: string) => `ObjectGraph.${extension}`,
+  PREFLIGHT_REPORT_JSON_FILENAME: "PreflightReport.json",
+  PREFLIGHT_REPORT_CSV_FILENAME: "PreflightReport.csv",
   CSV_FILES_SOURCENAME: "csvfile",
+  SQLITE_DATABASE_FILENAME: "data.db",
   BINARY_FILE_CACHE_TEMPLATE: (id: string) => `${id}.blob`,
   BINARY_FILE_CACHE_RECORD_PLACEHOLDER: (id: string) => `[blob[${id}]]`,
   BINARY_FILE_CACHE_RECORD_PLACEHOLDER_ID: (value: any) => /\[blob\[([\w\d]+)\]\]/.exec(value || '')[1],
   BINARY_FILE_CACHE_RECORD_PLACEHOLDER_PREFIX: '[blob[',
 
   SOURCE_RECORDS_FILE_CACHE_TEMPLATE: (id: string) => `${id}.dat`,
+  DESCRIBE_CACHE_ORGS_FILENAME: "orgs.json",
+  // The sObject names can't start with the underscore or contain the dot
+  DESCRIBE_CACHE_OBJECTS_FILENAME: "_objects.json",
+  DESCRIBE_CACHE_SOBJECT_FILENAME_TEMPLATE: (sObjectName: string) => `${sObjectName}.json`,
+  DESCRIBE_CACHE_POLYMORPHIC_FIELDS_FILENAME_TEMPLATE: (sObjectName: string) => `${sObjectName}.polymorphic.json`,
+  DEFAULT_DESCRIBE_CACHE_TTL_HOURS: 24,
+  // Increase when the structure of the cached describe data is changed
+  // to make the cache files created by the previous versions invalid
+  DESCRIBE_CACHE_FORMAT_VERSION: 1,
 
   DEFAULT_ORG_MEDIA_TYPE: "csvfile",
 
@@ -88,6 +127,22 @@ export const CONSTANTS = {
   QUERY_BULK_API_THRESHOLD: 30000,
   BULK_API_V2_BLOCK_SIZE: 1000,
   BULK_API_V2_MAX_CSV_SIZE_IN_BYTES: 145000000,
+  BULK_API_V2_INTERNAL_BATCH_SIZE: 10000,
+  COMPOSITE_API_MAX_BATCH_SIZE: 200,
+  COMPOSITE_GRAPH_MAX_NODES: 500,
+  DEFAULT_RETRY_INITIAL_DELAY_MS: 1000,
+  DEFAULT_RETRY_BACKOFF_MULTIPLIER: 2,
+  DEFAULT_RETRY_MAX_DELAY_MS: 60000,
+  DEFAULT_DAILY_API_REQUESTS_RESERVE: 1000,
+  DEFAULT_DAILY_BULK_V2_QUERY_JOBS_RESERVE: 10,
+  DEFAULT_API_LIMITS_PAUSE_INTERVAL_MS: 300000,
+  DEFAULT_API_LIMITS_MAX_PAUSE_MS: 3600000,
+  DEFAULT_API_LIMITS_BATCH_CHECK_INTERVAL_MS: 30000,
+  DEFAULT_BULK_QUERY_PAGE_SIZE: 50000,
+  STREAMING_READ_BUFFER_SIZE: 1048576,
+  KEY_VALUE_INDEX_BUCKETS: 256,
+  KEY_VALUE_INDEX_MAX_LOADED_BUCKETS: 16,
+  KEY_VALUE_INDEX_WRITE_BUFFER_SIZE: 10000,
   POLL_TIMEOUT: 3000000,
   SHORT_QUERY_STRING_MAXLENGTH: 250,
   MAX_SOQL_WHERE_CLAUSE_CHARACTER_LENGTH: 3900,
@@ -108,6 +163,92 @@ export const CONSTANTS = {
     ]
   ),
 
+  MASKING_DEFAULT_GENERATORS: new Map<string, string>([
+    ["email", "email"],
+    ["url", "url"],
+    ["string", "word"],
+    ["textarea", "sentence"],
+    ["date", "date('YYYY-MM-DD')"],
+    ["int", "integer(1, 100000)"]
+  ]),
+  MASKING_NOT_SUPPORTED_FIELD_TYPES: ["id", "reference", "boolean", "picklist", "multipicklist"],
+  MASKING_MAX_COLLISION_ATTEMPTS: 100,
+
+  OAUTH_DEFAULT_LOGIN_URL: "https://login.salesforce.com",
+  OAUTH_TOKEN_ENDPOINT: "/services/oauth2/token",
+  OAUTH_JWT_EXPIRATION_SEC: 180,
+  OAUTH_ENV_VARIABLE_PREFIX: (isSource: boolean) => `SFDMU_${isSource ? 'SOURCE' : 'TARGET'}_`,
+  OAUTH_ENV_VARIABLES: new Map<string, string>([
+    ["authFlow", "AUTH_FLOW"],
+    ["loginUrl", "LOGIN_URL"],
+    ["clientId", "CLIENT_ID"],
+    ["clientSecret", "CLIENT_SECRET"],
+    ["username", "USERNAME"],
+    ["privateKey", "PRIVATE_KEY"],
+    ["refreshToken", "REFRESH_TOKEN"]
+  ]),
+
+  // The field types which values can be written to each other
+  PREFLIGHT_FIELD_TYPE_GROUPS: new Map<string, string>([
+    ["string", "text"],
+    ["textarea", "text"],
+    ["email", "text"],
+    ["phone", "text"],
+    ["url", "text"],
+    ["picklist", "text"],
+    ["multipicklist", "text"],
+    ["combobox", "text"],
+    ["encryptedstring", "text"],
+    ["int", "number"],
+    ["double", "number"],
+    ["currency", "number"],
+    ["percent", "number"],
+    ["id", "id"],
+    ["reference", "id"]
+  ]),
+  PREFLIGHT_MAX_VALUES_IN_ISSUE: 10,
+
+  FAN_OUT_TARGETS_SEPARATOR: ",",
+  FAN_OUT_SUMMARY_FILENAME: "FanOutSummary.json",
+  FAN_OUT_LOG_FILENAME_TEMPLATE: (logFileName: string, targetName: string) => logFileName.replace(/(\.[^.]+)$/, `.${targetName}$1`),
+
+  SCRIPT_PARAMETER_PLACEHOLDER_REGEX: /\$\{([^}]+)\}/g,
+  SCRIPT_PARAMETER_ENV_PREFIX: "env:",
+  // Only the comma followed by the next "name=" separates the parameters => the values can contain commas
+  SCRIPT_PARAMETERS_SEPARATOR: /,(?=\s*[\w.-]+\s*=)/,
+  SCRIPT_PARAMETER_VALUE_SEPARATOR: "=",
+  SCRIPT_PARAMETERIZED_OBJECT_PROPERTIES: ["query", "deleteQuery", "sourceRecordsFilter", "targetRecordsFilter"],
+  SCRIPT_PARAMETER_TYPE_PATTERNS: new Map<string, RegExp>([
+    ["number", /^-?\d+(\.\d+)?$/],
+    ["boolean", /^(true|false)$/i],
+    ["date", /^\d{4}-\d{2}-\d{2}$/],
+    ["datetime", /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?(Z|[+-]\d{2}:?\d{2})$/]
+  ]),
+
+  SCRIPT_EXTENDS_PROPERTY: "extends",
+  SCRIPT_INCLUDE_PROPERTY: "$include",
+  SCRIPT_ADDON_MANIFEST_PROPERTIES: ["beforeAddons", "afterAddons", "dataRetrievedAddons"],
+  SCRIPT_OBJECT_ADDON_MANIFEST_PROPERTIES: ["beforeAddons", "afterAddons", "beforeUpdateAddons", "afterUpdateAddons", "filterRecordsAddons"],
+
+  SCRIPT_SCHEMA_FILE_PATH: "../../../../schemas/export.schema.json",
+  SCRIPT_SCHEMA_DEFINITIONS_PREFIX: "#/definitions/",
+  SCRIPT_SCHEMA_BASE_SCRIPT_DEFINITION: "script",
+  SCRIPT_SCHEMA_INCLUDE_DEFINITION: "scriptObjectInclusion",
+
+  // The system child objects not followed by the sfdmu:init command
+  INIT_EXCLUDED_CHILD_OBJECT_SUFFIXES: [
+    "Share",
+    "History",
+    "Feed",
+    "ChangeEvent"
+  ],
+
+  OBJECT_GRAPH_FILE_EXTENSIONS: new Map<string, string>([
+    ["dot", "dot"],
+    ["mermaid", "mmd"],
+    ["json", "json"]
+  ]),
+
   RECORD_TYPE_SOBJECT_NAME: "RecordType",
 
   DEFAULT_EXTERNAL_IDS: {
@@ -390,6 +531,31 @@ export const CONSTANTS = {
 
 
 
+  // ------ Typed data files ---------- //
+  // SF field type => Parquet column type (all other types are UTF8)
+  PARQUET_COLUMN_TYPES: new Map<string, string>([
+    ["boolean", "BOOLEAN"],
+    ["int", "INT64"],
+    ["double", "DOUBLE"],
+    ["currency", "DOUBLE"],
+    ["percent", "DOUBLE"],
+    ["date", "DATE"],
+    ["datetime", "TIMESTAMP_MILLIS"]
+  ]),
+
+  // SF field type => SQLite column type (all other types are TEXT)
+  SQLITE_COLUMN_TYPES: new Map<string, string>([
+    ["boolean", "BOOLEAN"],
+    ["int", "INTEGER"],
+    ["double", "REAL"],
+    ["currency", "REAL"],
+    ["percent", "REAL"],
+    ["date", "DATE"],
+    ["datetime", "DATETIME"]
+  ]),
+
+
+
   // ------ AddOns -------------------- //
   DEFAULT_MAX_CHUNK_SIZE: 15728640,
   MAX_CHUNK_SIZE: 38797312,
@@ -399,6 +565,30 @@ export const CONSTANTS = {
 
 
 
+  // ------- Retry policy ------------- //
+  // The api errors which are expected to disappear when the record is sent again
+  DEFAULT_RETRYABLE_API_ERRORS: [
+    "UNABLE_TO_LOCK_ROW",
+    "REQUEST_LIMIT_EXCEEDED",
+    "SERVER_UNAVAILABLE",
+    "REQUEST_RUNNING_TOO_LONG",
+    "UNKNOWN_EXCEPTION"
+  ],
+  LOCK_API_ERRORS: [
+    "UNABLE_TO_LOCK_ROW"
+  ],
+
+  // ------- Api limits ------------- //
+  DAILY_API_REQUESTS_LIMIT: "DailyApiRequests",
+  DAILY_BULK_V2_QUERY_JOBS_LIMIT: "DailyBulkV2QueryJobs",
+  // The approximate amounts of the api requests used to estimate the consumption
+  //  (including the job creation, the polling and the downloading of the results)
+  ESTIMATED_QUERY_RECORDS_PER_REQUEST: 2000,
+  ESTIMATED_API_REQUESTS_PER_BULK_V1_BATCH: 5,
+  ESTIMATED_API_REQUESTS_PER_BULK_V2_JOB: 8,
+
+
+
   // ------- Headers ------------------ //
   SFORCE_API_CALL_HEADERS: {
     "Sforce-Call-Options": "client=SFDMU"
@@ -11,6 +11,7 @@ import * as path from 'path';
 import {
   CsvChunks,
   ScriptObject,
+  ScriptRetryPolicy,
 } from '../';
 import { Common } from '../../components/common_components/common';
 import {
@@ -29,12 +30,15 @@ import {
 } from '../common_models/helper_interfaces';
 import {
   ApiInfo,
+  ApiResultRecord,
   IApiEngine,
 } from './';
 import {
   IApiEngineInitParameters,
   IApiJobCreateResult,
+  IApiLimitsGuard,
   ICsvChunk,
+  IRollbackRecorder,
 } from './helper_interfaces';
 
 /**
@@ -79,6 +83,23 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
   fieldsNotToWriteInTargetCSVFile: Array<string> = new Array<string>();
   targetFieldMapping: IFieldMapping;
 
+  rollbackRecorder: IRollbackRecorder;
+  targetRecordsMap: Map<string, any>;
+  rollbackSnapshots: Map<string, any> = new Map<string, any>();
+
+  // The field to match the records by the native Upsert operation
+  externalIdFieldName: string;
+
+  retryPolicy: ScriptRetryPolicy;
+
+  // The parent lookup field to keep the records of the same parent in the same batch
+  groupByFieldName: string;
+
+  limitsGuard: IApiLimitsGuard;
+
+  // Receives the records processed by each batch as soon as the batch is completed
+  batchCompletedCallback: (resultRecords: Array<any>) => void;
+
   get instanceUrl() {
     return this.connectionData.instanceUrl;
   }
@@ -123,7 +144,13 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
     this.binaryDataCache = init.binaryDataCache;
     this.binaryCacheDirectory = init.binaryCacheDirectory;
     this.targetFieldMapping = init.targetFieldMapping;
-
+    this.rollbackRecorder = init.rollbackRecorder;
+    this.targetRecordsMap = init.targetRecordsMap;
+    this.externalIdFieldName = init.externalIdFieldName;
+    this.retryPolicy = init.retryPolicy;
+    this.groupByFieldName = init.groupByFieldName;
+    this.limitsGuard = init.limitsGuard;
+    this.batchCompletedCallback = init.batchCompletedCallback;
 
     this.fieldsNotToWriteInTargetCSVFile = CONSTANTS.FELDS_NOT_TO_OUTPUT_TO_TARGET_CSV.get(this.sObjectName) || new Array<string>();
 
@@ -153,8 +180,24 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
     return ApiEngineBase;
   }
 
+  /**
+   * Returns the engine used to retry the records failed by the lock errors
+   *
+   * @returns {typeof ApiEngineBase}
+   * @memberof ApiEngineBase
+   */
+  getLockRetryEngineClassType(): typeof ApiEngineBase {
+    return this.getEngineClassType();
+  }
+
   async executeCRUD(allRecords: Array<any>, progressCallback: (progress: ApiInfo) => void): Promise<Array<any>> {
 
+    // Put the records of the same parent together
+    allRecords = this._groupRecords(allRecords);
+
+    // Take the snapshots of the target records before they are changed
+    this._createRollbackSnapshots(allRecords);
+
     // Map source records
     this.oldSObjectName = this.sObjectName;
     let mappedRecords = this.sourceRecordsToTarget(allRecords, this.sObjectName);
@@ -182,7 +225,13 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
     }
 
     // Execute CRUD job
-    let resultRecords = await this.processCRUDApiJobAsync(progressCallback);
+    let resultRecords: Array<any>;
+    try {
+      resultRecords = await this.processCRUDApiJobAsync(progressCallback);
+    } finally {
+      // The records are already split to the batches
+      this._recordGroupKeys.clear();
+    }
 
     // Map target records
     this.sObjectName = this.oldSObjectName;
@@ -198,7 +247,11 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
       return await this.executeCRUD(allRecords, progressCallback);
     }
 
-    let chunks = Common.chunkArray(allRecords, allRecords.length / threadsCount);
+    // When the records are grouped, only the whole parent groups are processed in parallel
+    let chunks = this.groupByFieldName
+      ? this.chunkRecordsByGroups(this._groupRecords(allRecords), Math.ceil(allRecords.length / threadsCount), false)
+      : Common.chunkArray(allRecords, allRecords.length / threadsCount);
+    this._recordGroupKeys.clear();
 
     let taskQueue = chunks.map(chunk => {
       return async () => {
@@ -243,6 +296,10 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
     let allResultRecords = new Array<any>();
     for (let index = 0; index < this.apiJobCreateResult.chunks.chunks.length; index++) {
       const csvCunk = this.apiJobCreateResult.chunks.chunks[index];
+      if (index > 0 && this.limitsGuard && !this.simulationMode) {
+        // Stop before the org limits are exhausted
+        await this.limitsGuard.checkApiLimitsAsync(this.sObjectName);
+      }
       let resultRecords = new Array<any>();
       if (!this.simulationMode) {
         resultRecords = await this.processCRUDApiBatchAsync(csvCunk, progressCallback);
@@ -256,9 +313,15 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
         }
         return null;
       } else {
+        this._recordRollbackChanges(resultRecords);
+        if (this.batchCompletedCallback && !this.simulationMode) {
+          this.batchCompletedCallback(resultRecords);
+        }
         allResultRecords = allResultRecords.concat(resultRecords);
       }
     }
+    // Send again the records failed by the transient errors
+    await this._retryFailedRecordsAsync(allResultRecords, progressCallback);
     // SUCCESS RESULT
     if (!this.isChildJob) {
       await this.writeToTargetCSVFileAsync(allResultRecords, this.getTargetCsvColumns(allResultRecords));
@@ -308,6 +371,10 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
 
 
   // ----------------------- Protected members -------------------------------------------
+  // The failed result record => The api error code,
+  // when the api returns the code separately from the error message
+  protected errorCodes: Map<any, string> = new Map<any, string>();
+
   /**
    * Writes target records to csv file during CRUD api operation
    *
@@ -387,6 +454,25 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
 
   }
 
+  /**
+   * Splits the records to the batches by the max batch size.
+   * When the records are grouped by the parent lookup,
+   * the records of the same parent are placed in the same batch.
+   *
+   * @protected
+   * @param {Array<any>} records The records to split
+   * @param {number} chunkMaxSize The max batch size
+   * @param {boolean} [splitLargeGroups=true] false to keep the group larger than the batch size in its own batch
+   * @returns {Array<Array<any>>}
+   * @memberof ApiEngineBase
+   */
+  protected chunkRecordsByGroups(records: Array<any>, chunkMaxSize: number, splitLargeGroups: boolean = true): Array<Array<any>> {
+    if (!this.groupByFieldName) {
+      return Common.chunkArray(records, chunkMaxSize);
+    }
+    return Common.chunkArrayByGroups(records, chunkMaxSize, record => this._recordGroupKeys.get(record), splitLargeGroups);
+  }
+
   protected getTargetCsvColumns(records: Array<any>): Array<string> {
 
     const LAST_COLS = [
@@ -405,4 +491,201 @@ export default class ApiEngineBase implements IApiEngine, IFieldMapping, IApiEng
 
   }
 
+
+  // ----------------------- Private members -------------------------------------------
+  // The record => The value of the field to group the records by
+  private _recordGroupKeys: Map<any, string> = new Map<any, string>();
+
+  /**
+   * Sorts the records by the value of the parent lookup field to group them by,
+   * keeping the original order of the parents and of the records within each parent.
+   * The records without the parent are placed at the end.
+   *
+   * @private
+   * @param {Array<any>} records The records to sort
+   * @returns {Array<any>}
+   * @memberof ApiEngineBase
+   */
+  private _groupRecords(records: Array<any>): Array<any> {
+    if (!this.groupByFieldName) {
+      return records;
+    }
+    let groups = new Map<string, Array<any>>();
+    let noParentRecords = new Array<any>();
+    records.forEach(record => {
+      let key = record[this.groupByFieldName];
+      if (!key) {
+        noParentRecords.push(record);
+        return;
+      }
+      key = String(key);
+      this._recordGroupKeys.set(record, key);
+      let group = groups.get(key) || new Array<any>();
+      group.push(record);
+      groups.set(key, group);
+    });
+    let groupedRecords = new Array<any>();
+    groups.forEach(group => group.forEach(record => groupedRecords.push(record)));
+    noParentRecords.forEach(record => groupedRecords.push(record));
+    return groupedRecords;
+  }
+
+  /**
+   * Creates the snapshots of the target records which are going to be
+   * updated or deleted, so the changes could be reverted later.
+   * For the Update only the values of the updated fields are kept.
+   * The Upsert keeps the snapshots of the existing target records matched by the record Id.
+   *
+   * @private
+   * @param {Array<any>} records The records to process
+   * @memberof ApiEngineBase
+   */
+  private _createRollbackSnapshots(records: Array<any>) {
+    this.rollbackSnapshots.clear();
+    if (!this.rollbackRecorder || this.simulationMode || !this.targetRecordsMap
+      || [OPERATION.Update, OPERATION.Upsert, OPERATION.Delete, OPERATION.HardDelete].indexOf(this.operation) < 0) {
+      return;
+    }
+    let snapshots = new Array<any>();
+    records.forEach(record => {
+      let targetRecord = this.targetRecordsMap.get(record["Id"]);
+      if (!targetRecord) {
+        return;
+      }
+      let fields = (this.operation == OPERATION.Update || this.operation == OPERATION.Upsert ? Object.keys(record) : Object.keys(targetRecord))
+        .filter(field => field != "Id" && field in targetRecord && ___isWritableField(field));
+      let snapshot = fields.reduce((acc, field) => {
+        acc[field] = targetRecord[field];
+        return acc;
+      }, { Id: record["Id"] });
+      snapshots.push(snapshot);
+    });
+    this.sourceRecordsToTarget(snapshots, this.sObjectName).records.forEach(snapshot => {
+      this.rollbackSnapshots.set(snapshot["Id"], snapshot);
+    });
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___isWritableField(field: string): boolean {
+      return !field.startsWith('___')
+        && field.indexOf('.') < 0
+        && field.indexOf('$$') < 0
+        && field != 'attributes'
+        && field != CONSTANTS.ERRORS_FIELD_NAME;
+    }
+  }
+
+  /**
+   * Passes the successfully processed records to the rollback recorder.
+   * The existing records overwritten by the Upsert are recorded as updated,
+   * the records created by the Upsert are recorded by the engine.
+   *
+   * @private
+   * @param {Array<any>} resultRecords The records returned by the api
+   * @memberof ApiEngineBase
+   */
+  private _recordRollbackChanges(resultRecords: Array<any>) {
+    if (!this.rollbackRecorder || this.simulationMode) {
+      return;
+    }
+    let succeeded = resultRecords.filter(record => record["Id"] && !record[CONSTANTS.ERRORS_FIELD_NAME]);
+    let changes: Array<any>;
+    if (this.operation == OPERATION.Insert) {
+      changes = succeeded.map(record => {
+        return {
+          Id: record["Id"]
+        };
+      });
+    } else {
+      changes = succeeded.map(record => this.rollbackSnapshots.get(record["Id"])).filter(snapshot => !!snapshot);
+    }
+    if (changes.length > 0) {
+      this.rollbackRecorder.recordChanges(this.operation == OPERATION.Upsert ? OPERATION.Update : this.operation, this.sObjectName, changes);
+    }
+  }
+
+  /**
+   * Sends again the records failed by the retryable errors according to the retry policy.
+   * The delay before each next attempt grows exponentially.
+   * The records of each attempt replace the failed records in the result array.
+   *
+   * @private
+   * @param {Array<any>} resultRecords The records returned by the api
+   * @param {(progress: ApiInfo) => void} progressCallback
+   * @returns {Promise<void>}
+   * @memberof ApiEngineBase
+   */
+  private async _retryFailedRecordsAsync(resultRecords: Array<any>, progressCallback: (progress: ApiInfo) => void): Promise<void> {
+
+    if (!this.retryPolicy || !this.retryPolicy.isEnabled || this.simulationMode) {
+      return;
+    }
+
+    let engine: ApiEngineBase = this;
+    let indexes = resultRecords.map((record, index) => index);
+    let retriedIndexes = new Set<number>();
+
+    for (let attempt = 1; attempt <= this.retryPolicy.maxRetries; attempt++) {
+
+      let failedRecords = indexes.map(index => ___createResultRecord(resultRecords[index], engine));
+      let isRetryable = failedRecords.map(record => record.isRetryable(this.retryPolicy.retryableErrors));
+      indexes = indexes.filter((index, position) => isRetryable[position]);
+      if (indexes.length == 0) {
+        break;
+      }
+      // Only the records which are sent again select the engine of the retry
+      let hasLockErrors = failedRecords.some((record, position) => isRetryable[position] && record.isRetryable(CONSTANTS.LOCK_API_ERRORS));
+
+      let delayMs = this.retryPolicy.getDelayMs(attempt);
+      this.logger.infoNormal(RESOURCES.retryingFailedRecords, this.sObjectName, String(indexes.length),
+        String(delayMs), String(attempt), String(this.retryPolicy.maxRetries));
+      await Common.delayAsync(delayMs);
+
+      let records = indexes.map(index => resultRecords[index]);
+      let errors = records.map(record => record[CONSTANTS.ERRORS_FIELD_NAME]);
+      records.forEach(record => delete record[CONSTANTS.ERRORS_FIELD_NAME]);
+
+      let ApiEngine: typeof ApiEngineBase = hasLockErrors ? this.getLockRetryEngineClassType() : this.getEngineClassType();
+      engine = new ApiEngine(this);
+      engine.isChildJob = true;
+      engine.retryPolicy = null;
+      engine.rollbackSnapshots = this.rollbackSnapshots;
+      engine.numberJobTotalRecordsToProcess = records.length;
+      if (hasLockErrors && this.retryPolicy.switchToSerialModeOnLockErrors) {
+        engine.concurrencyMode = "Serial";
+      }
+
+      await engine.createCRUDApiJobAsync(records);
+      let retriedRecords = await engine.processCRUDApiJobAsync(progressCallback);
+      if (!retriedRecords) {
+        // The job is failed, the records keep their previous errors
+        records.forEach((record, index) => record[CONSTANTS.ERRORS_FIELD_NAME] = errors[index]);
+        break;
+      }
+
+      indexes.forEach((index, position) => {
+        resultRecords[index] = retriedRecords[position];
+        retriedIndexes.add(index);
+      });
+    }
+
+    if (retriedIndexes.size > 0) {
+      let recoveredCount = [...retriedIndexes].filter(index => !resultRecords[index][CONSTANTS.ERRORS_FIELD_NAME]).length;
+      this.numberJobRecordsFailed = Math.max(0, this.numberJobRecordsFailed - recoveredCount);
+      this.logger.infoNormal(RESOURCES.retriedRecordsRecovered, this.sObjectName, String(recoveredCount), String(retriedIndexes.size));
+    }
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___createResultRecord(record: any, engine: ApiEngineBase): ApiResultRecord {
+      let errorMessage = record[CONSTANTS.ERRORS_FIELD_NAME];
+      return new ApiResultRecord({
+        id: record["Id"],
+        sourceRecord: record,
+        isFailed: !!errorMessage,
+        errorMessage,
+        // The Bulk API error message starts with the error code: CODE:message
+        errorCode: engine.errorCodes.get(record) || (/^([A-Z_]+):/.exec(errorMessage || '') || [])[1]
+      });
+    }
+  }
+
 }
@@ -28,4 +28,23 @@ export default class ApiResultRecord  {
 
     isCreated: boolean;
     errorMessage: string;
+    errorCode: string;
+
+    /**
+     * Returns true if the record was failed by one of the given errors,
+     * so it can be sent again.
+     * The error is matched by the error code or by the error message,
+     * since the Bulk API returns the code as the prefix of the message.
+     *
+     * @param {Array<string>} retryableErrors The error codes
+     * @returns {boolean}
+     * @memberof ApiResultRecord
+     */
+    isRetryable(retryableErrors: Array<string>): boolean {
+        if (!this.isFailed) {
+            return false;
+        }
+        return retryableErrors.some(error => error == this.errorCode
+            || String(this.errorMessage || '').indexOf(error) >= 0);
+    }
 }
\ No newline at end of file
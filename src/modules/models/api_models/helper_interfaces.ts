@@ -5,7 +5,11 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import { CsvChunks } from '../';
+import { IAppLogger } from '../../app/appModels';
+import {
+  CsvChunks,
+  ScriptRetryPolicy,
+} from '../';
 import {
   DATA_CACHE_TYPES,
   OPERATION,
@@ -138,6 +142,47 @@ export interface IApiEngine {
 
 }
 
+/**
+ * Receives the changes made by the api engine
+ * to be able to revert them later
+ *
+ * @export
+ * @interface IRollbackRecorder
+ */
+export interface IRollbackRecorder {
+
+    /**
+     * Records the successfully processed records
+     *
+     * @param {OPERATION} operation The executed operation
+     * @param {string} sObjectName The target sObject name
+     * @param {Array<any>} records Inserted records (Id only)
+     *                              or the snapshots of updated / deleted records
+     * @memberof IRollbackRecorder
+     */
+    recordChanges(operation: OPERATION, sObjectName: string, records: Array<any>): void;
+}
+
+/**
+ * Checks the org api limits between the batches
+ * processed by the api engine
+ *
+ * @export
+ * @interface IApiLimitsGuard
+ */
+export interface IApiLimitsGuard {
+
+    /**
+     * Pauses or aborts the job when the remaining org limits
+     * fall below the reserve
+     *
+     * @param {string} sObjectName The processed sObject name
+     * @returns {Promise<void>}
+     * @memberof IApiLimitsGuard
+     */
+    checkApiLimitsAsync(sObjectName: string): Promise<void>;
+}
+
 export interface IApiEngineInitParameters {
     logger: Logger,
     connectionData: IOrgConnectionData,
@@ -156,6 +201,24 @@ export interface IApiEngineInitParameters {
     binaryDataCache?: DATA_CACHE_TYPES;
     binaryCacheDirectory?: string;
     isChildJob?: boolean;
+    rollbackRecorder?: IRollbackRecorder;
+    targetRecordsMap?: Map<string, any>;
+    externalIdFieldName?: string;
+    retryPolicy?: ScriptRetryPolicy;
+    groupByFieldName?: string;
+    limitsGuard?: IApiLimitsGuard;
+    batchCompletedCallback?: (resultRecords: Array<any>) => void;
+}
+
+export interface IBulkQueryEngineInitParameters {
+    logger: IAppLogger,
+    connectionData: IOrgConnectionData,
+    sObjectName: string,
+    pollingIntervalMs: number,
+    pollingTimeoutMs?: number,
+    pageSize?: number,
+    pkChunkSize?: number,
+    parallelJobs?: number
 }
 
 export interface ICsvChunk {
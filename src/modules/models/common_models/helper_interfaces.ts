@@ -11,6 +11,8 @@ export interface IOrgConnectionData {
   accessToken: string;
   apiVersion: string;
   proxyUrl: string;
+  // Obtains the new access token when the session has expired (OAuth 2.0 connections only)
+  refreshAccessTokenAsync?: (expiredAccessToken: string) => Promise<string>;
 }
 
 export interface IMockField {
@@ -57,6 +59,14 @@ export interface IFieldMappingResult {
   targetSObjectName?: string;
 }
 
+/**
+ * The single org limit returned by the /limits resource
+ */
+export interface IOrgLimit {
+  Max: number,
+  Remaining: number
+}
+
 export interface IIdentityInfo {
   user_id: string,
   organization_id: string,
@@ -64,6 +74,286 @@ export interface IIdentityInfo {
   display_name: string
 }
 
+/**
+ * The step of the migration job recorded in the checkpoint journal
+ */
+export interface ICheckpointStep {
+  step: string,
+  sObjectName: string,
+  completedDate: string
+}
+
+/**
+ * The checkpoint journal of the single object set
+ */
+export interface ICheckpointJournal {
+  objectSetIndex: number,
+  sourceUsername: string,
+  targetUsername: string,
+  startDate: string,
+  lastUpdateDate: string,
+  completed: boolean,
+  steps: Array<ICheckpointStep>,
+  // sObject name => { source record Id => target record Id }
+  idMaps: Record<string, Record<string, string>>
+}
+
+/**
+ * The single CRUD operation recorded in the rollback journal.
+ * Holds the Ids of the inserted records
+ * or the snapshots of the records before they were updated or deleted.
+ */
+export interface IRollbackJournalEntry {
+  operation: string,
+  sObjectName: string,
+  date: string,
+  reverted: boolean,
+  records: Array<any>
+}
+
+/**
+ * The rollback journal of the single object set
+ */
+export interface IRollbackJournal {
+  objectSetIndex: number,
+  targetUsername: string,
+  startDate: string,
+  lastUpdateDate: string,
+  rolledBack: boolean,
+  entries: Array<IRollbackJournalEntry>
+}
+
+/**
+ * The single field difference between the source and the matched target record
+ */
+export interface IDiffReportFieldChange {
+  field: string,
+  oldValue: any,
+  newValue: any
+}
+
+/**
+ * The single record of the diff report
+ */
+export interface IDiffReportRecord {
+  action: string,
+  externalIdValue: string,
+  sourceId: string,
+  targetId: string,
+  changes: Array<IDiffReportFieldChange>
+}
+
+/**
+ * The diff report of the single sObject
+ */
+export interface IDiffReportObject {
+  sObjectName: string,
+  operation: string,
+  externalId: string,
+  inserted: number,
+  updated: number,
+  unchanged: number,
+  deleted: number,
+  records: Array<IDiffReportRecord>
+}
+
+/**
+ * The high-watermark of the single sObject used in the incremental mode
+ */
+export interface IIncrementalWatermark {
+  field: string,
+  value: string,
+  updatedDate: string
+}
+
+/**
+ * The incremental watermarks of the single object set
+ */
+export interface IIncrementalWatermarks {
+  objectSetIndex: number,
+  lastUpdateDate: string,
+  // Source org name => { sObject name => watermark }
+  sources: Record<string, Record<string, IIncrementalWatermark>>
+}
+
+/**
+ * The single record failed to be written to the target
+ */
+export interface IFailedRecord {
+  sourceId: string,
+  operation: string,
+  updateMode: "forwards" | "backwards",
+  error: string,
+  // The record sent to the target
+  record: any
+}
+
+/**
+ * The failed records of the single sObject stored for the --retry-failed mode
+ */
+export interface IFailedRecordsFile {
+  sObjectName: string,
+  sourceUsername: string,
+  targetUsername: string,
+  lastUpdateDate: string,
+  records: Array<IFailedRecord>
+}
+
+/**
+ * The record Id maps stored together with the failed records
+ * to resolve the lookups to the records already written to the target
+ */
+export interface IFailedRecordsIdMapsFile {
+  sourceUsername: string,
+  targetUsername: string,
+  lastUpdateDate: string,
+  // sObject name => { source record Id => target record Id }
+  idMaps: Record<string, Record<string, string>>
+}
+
+/**
+ * The mapping store of the masking profile
+ */
+export interface IMaskingStore {
+  lastUpdateDate: string,
+  // HMAC of the original value => masked value
+  mappings: Record<string, string>
+}
+
+/**
+ * The single issue found by the preflight check
+ */
+export interface IPreflightIssue {
+  severity: string,
+  issueType: string,
+  sObjectName: string,
+  fieldName: string,
+  targetSObjectName: string,
+  targetFieldName: string,
+  details: string
+}
+
+/**
+ * The single issue found by the validation of the script file
+ */
+export interface IScriptValidationIssue {
+  severity: string,
+  filePath: string,
+  line: number,
+  column: number,
+  path: string,
+  message: string
+}
+
+/**
+ * The result of the job against the single target org in the fan-out mode
+ */
+export interface IFanOutTargetResult {
+  targetUsername: string,
+  status: string,
+  processedRecordsAmount: number,
+  startTime: string,
+  endTime: string,
+  elapsedTime: string,
+  errorMessage: string
+}
+
+/**
+ * The single file of the persistent describe cache
+ */
+export interface IDescribeCacheEntry {
+  formatVersion: number,
+  cachedDate: string,
+  data: any
+}
+
+/**
+ * The org details kept in the describe cache
+ * to set up the org without connecting to it in the offline mode
+ */
+export interface IDescribeCacheOrgInfo {
+  orgId: string,
+  orgUserName: string,
+  instanceUrl: string,
+  organizationType: string,
+  isSandbox: boolean,
+  isPersonAccountEnabled: boolean,
+  cachedDate: string
+}
+
+/**
+ * The child relationship of the described sObject
+ */
+export interface ISObjectChildRelationship {
+  childSObject: string,
+  field: string,
+  relationshipName: string
+}
+
+/**
+ * The settings of the OAuth 2.0 flow used to connect to the org
+ */
+export interface IOAuthSettings {
+  authFlow: string,
+  loginUrl: string,
+  clientId: string,
+  clientSecret: string,
+  username: string,
+  // The PEM private key or the path to the key file (JWT bearer flow)
+  privateKey: string,
+  refreshToken: string,
+  proxyUrl: string
+}
+
+/**
+ * The access token issued by the OAuth 2.0 token endpoint
+ */
+export interface IOAuthToken {
+  accessToken: string,
+  instanceUrl: string,
+  identityUrl: string
+}
+
+/**
+ * The single sObject of the object graph
+ */
+export interface IObjectGraphNode {
+  sObjectName: string,
+  operation: string,
+  externalId: string,
+  isExtraObject: boolean,
+  isReadonlyObject: boolean,
+  allRecords: boolean,
+  queryOrder: number,
+  executionOrder: number,
+  deleteOrder: number,
+  dependsOn: Array<string>
+}
+
+/**
+ * The single lookup field of the object graph (child sObject => parent sObject)
+ */
+export interface IObjectGraphEdge {
+  sObjectName: string,
+  fieldName: string,
+  parentSObjectName: string,
+  isMasterDetail: boolean,
+  isPolymorphic: boolean,
+  // forwards = the lookup is set when the record is inserted/updated,
+  // backwards = the lookup is set by the backwards update passes
+  pass: string,
+  isCircular: boolean
+}
+
+/**
+ * The resolved object / lookup graph of the migration job
+ */
+export interface IObjectGraph {
+  objectSetIndex: number,
+  nodes: Array<IObjectGraphNode>,
+  edges: Array<IObjectGraphEdge>,
+  circularReferences: Array<Array<string>>
+}
 
 /**
  * Metadata to write table into log
@@ -77,10 +367,26 @@ export interface ITableMessage {
   }>
 }
 
-
-
-
-
-
-
-
+/**
+ * The options of the run command which are set from the command line
+ */
+export interface IRunCommandOptions {
+  // Continue the previously interrupted job from the checkpoint journal
+  resume?: boolean,
+  // Only create the diff report between the source and the target without any DML
+  diff?: boolean,
+  // Ignore the stored watermarks of the incremental mode
+  resetWatermarks?: boolean,
+  // Describe the metadata again and overwrite the describe cache
+  refreshDescribeCache?: boolean,
+  // Set up the orgs from the describe cache without connecting to them
+  offline?: boolean,
+  // Check the schema compatibility between the source and the target before any DML
+  preflight?: boolean,
+  // Re-submit only the records failed during the previous run
+  retryFailed?: boolean,
+  // The comma-separated name=value pairs of the export.json parameters
+  params?: string,
+  // The path to the JSON file with the values of the export.json parameters
+  paramsFile?: string
+}
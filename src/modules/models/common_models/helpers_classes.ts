@@ -360,6 +360,20 @@ export class TaskOrgData {
             this.task.scriptObject.targetSObjectDescribe.fieldsMap;
     }
 
+    /**
+     * Field Api name => Field type
+     * (Used to create the typed columns of the Parquet / SQLite data files)
+     *
+     * @readonly
+     * @type {Map<string, string>}
+     * @memberof TaskOrgData
+     */
+    get fieldTypesMap(): Map<string, string> {
+        let fieldTypesMap = new Map<string, string>();
+        (this.fieldsMap || new Map<string, SFieldDescribe>()).forEach((field, fieldName) => fieldTypesMap.set(fieldName, field.type));
+        return fieldTypesMap;
+    }
+
     /**
      * The resource text of the resource for Source/Target according to the task data type.
      * Used for the quick access.
@@ -413,6 +427,10 @@ export class ProcessedData implements IProcessedData {
 
     processPersonAccounts: boolean = false;
 
+    // The number of the chunk processed in the streaming mode,
+    // each chunk has its own target file
+    chunkNumber: number;
+
     clonedToSourceMap: Map<any, any> = new Map<any, any>();
 
     fields: Array<SFieldDescribe>;
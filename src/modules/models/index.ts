@@ -12,13 +12,58 @@ export * from "./common_models/helpers_classes";
 export { default as OrgInfo } from './common_models/orgInfo';
 export { default as Script } from './script_models/script';
 export { default as ScriptMockField } from './script_models/scriptMockField';
+export {
+  default as ScriptMaskingProfile,
+} from './script_models/scriptMaskingProfile';
+export {
+  default as ScriptMaskingRule,
+} from './script_models/scriptMaskingRule';
 export {
   default as ScriptMappingItem,
 } from './script_models/scriptMappingItem';
 export { default as ScriptObject } from './script_models/scriptObject';
 export { default as ScriptObjectSet } from './script_models/scriptObjectSet';
 export { default as ScriptOrg } from './script_models/scriptOrg';
+export {
+  default as ScriptParameter,
+} from './script_models/scriptParameter';
+export {
+  default as ScriptRetryPolicy,
+} from './script_models/scriptRetryPolicy';
+export {
+  default as ScriptApiLimits,
+} from './script_models/scriptApiLimits';
 export { default as SFieldDescribe } from './sf_models/sfieldDescribe';
 export { default as SObjectDescribe } from './sf_models/sobjectDescribe';
 export { default as MigrationJobTask } from './job_models/migrationJobTask';
 export { default as MigrationJob } from './job_models/migrationJob';
+export {
+  default as MigrationJobCheckpoint,
+} from './job_models/migrationJobCheckpoint';
+export {
+  default as MigrationJobRollback,
+} from './job_models/migrationJobRollback';
+export {
+  default as MigrationJobDiffReport,
+} from './job_models/migrationJobDiffReport';
+export {
+  default as MigrationJobWatermarks,
+} from './job_models/migrationJobWatermarks';
+export {
+  default as MigrationJobFailedRecords,
+} from './job_models/migrationJobFailedRecords';
+export {
+  default as MigrationJobMasking,
+} from './job_models/migrationJobMasking';
+export {
+  default as MigrationJobGraph,
+} from './job_models/migrationJobGraph';
+export {
+  default as MigrationJobPreflight,
+} from './job_models/migrationJobPreflight';
+export {
+  default as MigrationJobLimits,
+} from './job_models/migrationJobLimits';
+export {
+  default as MigrationJobStreaming,
+} from './job_models/migrationJobStreaming';
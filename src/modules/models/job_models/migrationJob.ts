@@ -5,7 +5,6 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
 
 import {
@@ -21,7 +20,9 @@ import {
 import { Common } from '../../components/common_components/common';
 import {
   ADDON_EVENTS,
+  CHECKPOINT_STEPS,
   DATA_MEDIA_TYPE,
+  GRAPH_FORMAT,
 } from '../../components/common_components/enumerations';
 import {
   Logger,
@@ -32,7 +33,17 @@ import {
   ICSVIssueCsvRow,
   IMissingParentLookupRecordCsvRow,
 } from '../common_models/helper_interfaces';
+import MigrationJobCheckpoint from './migrationJobCheckpoint';
+import MigrationJobDiffReport from './migrationJobDiffReport';
+import MigrationJobFailedRecords from './migrationJobFailedRecords';
+import MigrationJobGraph from './migrationJobGraph';
+import MigrationJobLimits from './migrationJobLimits';
+import MigrationJobMasking from './migrationJobMasking';
+import MigrationJobPreflight from './migrationJobPreflight';
+import MigrationJobRollback from './migrationJobRollback';
+import MigrationJobStreaming from './migrationJobStreaming';
 import MigrationJobTask from './migrationJobTask';
+import MigrationJobWatermarks from './migrationJobWatermarks';
 
 export default class MigrationJob {
 
@@ -43,6 +54,14 @@ export default class MigrationJob {
   valueMapping: Map<string, Map<string, string>> = new Map<string, Map<string, string>>();
   csvIssues: Array<ICSVIssueCsvRow> = new Array<ICSVIssueCsvRow>();
   cachedCSVContent: CachedCSVContent = new CachedCSVContent();
+  checkpoint: MigrationJobCheckpoint;
+  rollback: MigrationJobRollback;
+  watermarks: MigrationJobWatermarks;
+  masking: MigrationJobMasking;
+  failedRecords: MigrationJobFailedRecords;
+  preflight: MigrationJobPreflight;
+  limits: MigrationJobLimits;
+  processedRecordsAmount: number = 0;
 
   constructor(init: Partial<MigrationJob>) {
     if (init) {
@@ -199,6 +218,35 @@ export default class MigrationJob {
       [this.logger.getResourceString(RESOURCES.executionOrder)]: this.tasks.map(x => x.sObjectName).join("; ")
     });
 
+    // Switch the large objects to the streaming mode
+    this.tasks.filter(task => task.scriptObject.streamingMode).forEach(task => {
+      if (!MigrationJobStreaming.isSupported(task)) {
+        this.logger.warn(RESOURCES.streamingModeNotSupported, task.sObjectName);
+        return;
+      }
+      task.streaming = new MigrationJobStreaming(task);
+      this.logger.infoNormal(RESOURCES.streamingModeEnabled, task.sObjectName, String(task.streaming.chunkSize));
+    });
+
+    // Group the child records by the parent to avoid the lock contention between the parallel batches
+    this.tasks.filter(task => task.scriptObject.bulkApiGroupByField).forEach(task => {
+      let fieldName = task.scriptObject.bulkApiGroupByField;
+      let field = task.data.sFieldsToUpdate.find(field => field.isSimpleReference && field.nameId.toLowerCase() == fieldName.toLowerCase());
+      if (!field) {
+        this.logger.warn(RESOURCES.bulkApiGroupByFieldNotSupported, task.sObjectName, fieldName);
+        task.scriptObject.bulkApiGroupByField = undefined;
+        return;
+      }
+      task.scriptObject.bulkApiGroupByField = field.nameId;
+      this.logger.infoNormal(RESOURCES.bulkApiGroupingEnabled, task.sObjectName, field.nameId);
+    });
+
+    // Create the schema compatibility check
+    this.preflight = new MigrationJobPreflight(this);
+
+    // Create the monitoring of the org api limits
+    this.limits = new MigrationJobLimits(this);
+
     // Initialize the runtime job
     this.script.addonRuntime.createSfdmuPluginJob();
 
@@ -268,6 +316,54 @@ export default class MigrationJob {
     }
   }
 
+  /**
+   * Loads or starts the journals of the job
+   * (checkpoint, incremental watermarks, masking store, failed records and rollback)
+   *
+   * @memberof MigrationJob
+   */
+  loadJournals() {
+
+    // Start or load the checkpoint journal
+    this.checkpoint = new MigrationJobCheckpoint(this);
+    this.checkpoint.load();
+
+    // Load the watermarks of the incremental mode
+    this.watermarks = new MigrationJobWatermarks(this);
+    this.watermarks.load();
+
+    // Load the mapping store of the masking profile
+    this.masking = new MigrationJobMasking(this);
+    this.masking.load();
+
+    // Load the records failed during the previous run
+    this.failedRecords = new MigrationJobFailedRecords(this);
+    this.failedRecords.load();
+
+    // Start the rollback journal.
+    // In resume mode the changes are appended to the existing journal.
+    if (this.script.transactionalMode && !this.script.simulationMode && !this.script.diffMode && !this.script.preflightOnlyMode) {
+      this.rollback = new MigrationJobRollback(this.script, this.script.objectSetIndex);
+      if (!this.checkpoint.isResumed || !this.rollback.load()) {
+        this.rollback.start();
+      }
+    }
+  }
+
+  /**
+   * Returns the resolved object / lookup graph of the job
+   * (the object orders, the auto-added objects, the update pass of each lookup
+   * and the circular references) in the given format.
+   * The job should be set up before.
+   *
+   * @param {GRAPH_FORMAT} [format=GRAPH_FORMAT.Json]
+   * @returns {string}
+   * @memberof MigrationJob
+   */
+  getGraph(format: GRAPH_FORMAT = GRAPH_FORMAT.Json): string {
+    return new MigrationJobGraph(this).format(format);
+  }
+
   /**
    * Prepare execution of the job
    *
@@ -292,7 +388,7 @@ export default class MigrationJob {
 
       // Prepare source CSV files
       await this._mergeUserGroupCSVfiles();
-      this._copyCSVFilesToSourceSubDir();
+      await this._copyCSVFilesToSourceSubDirAsync();
 
       if (!this.script.importCSVFilesAsIs) {
 
@@ -348,7 +444,13 @@ export default class MigrationJob {
     let deleted = false;
     for (let index = 0; index < this.deleteTasks.length; index++) {
       const task = this.deleteTasks[index];
+      if (this.checkpoint.isStepCompleted(CHECKPOINT_STEPS.deleteOld, task)) {
+        continue;
+      }
+      await this.limits.beginTaskAsync(task, "delete");
       deleted = await task.deleteOldTargetRecords() || deleted;
+      await this.limits.completeTaskAsync(task, "delete");
+      this.checkpoint.completeStep(CHECKPOINT_STEPS.deleteOld, task);
     }
 
     if (deleted) {
@@ -378,6 +480,7 @@ export default class MigrationJob {
     this.logger.headerMinimal(RESOURCES.retrievingData, this.logger.getResourceString(RESOURCES.step1));
     for (let index = 0; index < this.queryTasks.length; index++) {
       const task = this.queryTasks[index];
+      await this.limits.checkApiLimitsAsync(task.sObjectName);
       retrieved = await task.retrieveRecords("forwards", false) || retrieved;
     }
     if (!retrieved) {
@@ -456,6 +559,7 @@ export default class MigrationJob {
 
     for (let index = 0; index < this.queryTasks.length; index++) {
       const task = this.queryTasks[index];
+      await this.limits.checkApiLimitsAsync(task.sObjectName);
       retrieved = await task.retrieveRecords("target", false) || retrieved;
     }
     if (!retrieved) {
@@ -485,9 +589,11 @@ export default class MigrationJob {
     this.logger.headerNormal(RESOURCES.fetchingSummary);
     for (let index = 0; index < this.queryTasks.length; index++) {
       const task = this.queryTasks[index];
+      let recordsAmount = task.streaming ? task.streaming.sourceRecordsCount + "/" + task.streaming.targetRecordsCount
+        : task.sourceData.idRecordsMap.size + "/" + task.targetData.idRecordsMap.size;
       this.logger.infoNormal(RESOURCES.amuntOfRetrievedRecords,
         task.sObjectName,
-        String(task.sourceData.idRecordsMap.size + "/" + task.targetData.idRecordsMap.size));
+        String(recordsAmount));
     }
 
 
@@ -506,35 +612,42 @@ export default class MigrationJob {
     let self = this;
 
     let noAbortPrompt = false;
+    let warnUserLock: Promise<void> = Promise.resolve();
     let totalProcessedRecordsAmount = 0;
     let totalProcessedRecordsByObjectsMap = new Map<string, number>();
 
     let allMissingParentLookups: IMissingParentLookupRecordCsvRow[] = new Array<IMissingParentLookupRecordCsvRow>();
     let tasksToProcess = this.script.hasDeleteFromSourceObjectOperation ? this.deleteTasks : this.tasks;
 
+    // Restore the record Id maps from the previous run
+    await this.checkpoint.restoreIdMapsAsync();
+    await this.failedRecords.restoreIdMapsAsync();
+
     //:::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::
     // STEP 1 FORWARDS ::::::::::::::::::::::::::::::::::::::::::::::::::::::::
     this.logger.infoVerbose(RESOURCES.newLine);
     this.logger.headerMinimal(RESOURCES.updatingTarget, this.logger.getResourceString(RESOURCES.step1));
 
-    for (let index = 0; index < tasksToProcess.length; index++) {
-      const task = tasksToProcess[index];
-      let processedRecordsAmount = (await task.updateRecords("forwards", async (data: ProcessedData) => {
-        allMissingParentLookups = allMissingParentLookups.concat(data.missingParentLookups);
-        if (noAbortPrompt) {
-          ___warn(data, task.sObjectName);
-          return;
-        }
-        await ___promptToAbort(data, task.sObjectName);
-        noAbortPrompt = true;
-      }));
+    if (this.script.parallelTasks > 1 && !this.script.keepObjectOrderWhileExecute) {
+      this.logger.infoNormal(RESOURCES.updatingParallelTasks, String(this.script.parallelTasks));
+    }
+
+    await this.runTasksAsync(tasksToProcess, async (task: Task) => {
+      if (this.checkpoint.isStepCompleted(CHECKPOINT_STEPS.updateForwards, task)) {
+        totalProcessedRecordsByObjectsMap.set(task.sObjectName, 0);
+        return;
+      }
+      await this.limits.beginTaskAsync(task, "update");
+      let processedRecordsAmount = (await task.updateRecords("forwards", ___warnUserCallback(task)));
+      await this.limits.completeTaskAsync(task, "update");
       if (processedRecordsAmount > 0) {
         this.logger.infoNormal(RESOURCES.updatingTargetObjectCompleted, task.sObjectName, String(processedRecordsAmount));
         this.logger.infoVerbose(RESOURCES.newLine);
       }
       totalProcessedRecordsAmount += processedRecordsAmount;
       totalProcessedRecordsByObjectsMap.set(task.sObjectName, processedRecordsAmount);
-    }
+      this.checkpoint.completeStep(CHECKPOINT_STEPS.updateForwards, task);
+    });
 
     this.logger.infoVerbose(RESOURCES.newLine);
 
@@ -557,48 +670,42 @@ export default class MigrationJob {
       this.logger.infoNormal(RESOURCES.pass1);
       this.logger.headerVerbose(RESOURCES.separator);
 
-      for (let index = 0; index < this.tasks.length; index++) {
-        const task = this.tasks[index];
-        let processedRecordsAmount = (await task.updateRecords("backwards", async (data: ProcessedData) => {
-          allMissingParentLookups = allMissingParentLookups.concat(data.missingParentLookups);
-          if (noAbortPrompt) {
-            ___warn(data, task.sObjectName);
-            return;
-          }
-          await ___promptToAbort(data, task.sObjectName);
-          noAbortPrompt = true;
-        }));
+      await this.runTasksAsync(this.tasks, async (task: Task) => {
+        if (this.checkpoint.isStepCompleted(CHECKPOINT_STEPS.updateBackwardsPass1, task)) {
+          return;
+        }
+        await this.limits.beginTaskAsync(task, "update");
+        let processedRecordsAmount = (await task.updateRecords("backwards", ___warnUserCallback(task)));
+        await this.limits.completeTaskAsync(task, "update");
         if (processedRecordsAmount > 0) {
           this.logger.infoNormal(RESOURCES.updatingTargetObjectCompleted, task.sObjectName, String(processedRecordsAmount));
           this.logger.infoVerbose(RESOURCES.newLine);
         }
         totalProcessedRecordsAmount += processedRecordsAmount;
         totalProcessedRecordsByObjectsMap.set(task.sObjectName, totalProcessedRecordsByObjectsMap.get(task.sObjectName) + processedRecordsAmount);
-      }
+        this.checkpoint.completeStep(CHECKPOINT_STEPS.updateBackwardsPass1, task);
+      });
    
       // To properly handle circular refernces, we have perform the backwards update twice
       this.logger.infoVerbose(RESOURCES.newLine);
       this.logger.infoNormal(RESOURCES.pass2);
       this.logger.headerVerbose(RESOURCES.separator);
 
-      for (let index = 0; index < this.tasks.length; index++) {
-        const task = this.tasks[index];
-        let processedRecordsAmount = (await task.updateRecords("backwards", async (data: ProcessedData) => {
-          allMissingParentLookups = allMissingParentLookups.concat(data.missingParentLookups);
-          if (noAbortPrompt) {
-            ___warn(data, task.sObjectName);
-            return;
-          }
-          await ___promptToAbort(data, task.sObjectName);
-          noAbortPrompt = true;
-        }));
+      await this.runTasksAsync(this.tasks, async (task: Task) => {
+        if (this.checkpoint.isStepCompleted(CHECKPOINT_STEPS.updateBackwardsPass2, task)) {
+          return;
+        }
+        await this.limits.beginTaskAsync(task, "update");
+        let processedRecordsAmount = (await task.updateRecords("backwards", ___warnUserCallback(task)));
+        await this.limits.completeTaskAsync(task, "update");
         if (processedRecordsAmount > 0) {
           this.logger.infoNormal(RESOURCES.updatingTargetObjectCompleted, task.sObjectName, String(processedRecordsAmount));
           this.logger.infoVerbose(RESOURCES.newLine);
         }
         totalProcessedRecordsAmount += processedRecordsAmount;
         totalProcessedRecordsByObjectsMap.set(task.sObjectName, totalProcessedRecordsByObjectsMap.get(task.sObjectName) + processedRecordsAmount);
-      }
+        this.checkpoint.completeStep(CHECKPOINT_STEPS.updateBackwardsPass2, task);
+      });
     }
 
     this.logger.infoVerbose(RESOURCES.newLine);
@@ -619,12 +726,16 @@ export default class MigrationJob {
         this.logger.infoVerbose(RESOURCES.newLine);
         const task = this.deleteTasks[index];
         if (task.scriptObject.isHierarchicalDeleteOperation) {
+          if (this.checkpoint.isStepCompleted(CHECKPOINT_STEPS.deleteHierarchy, task)) {
+            continue;
+          }
           let processedRecordsAmount = await task.deleteRecords();
           if (processedRecordsAmount > 0) {
             this.logger.infoNormal(RESOURCES.deletingRecordsCompleted, task.sObjectName, String(processedRecordsAmount));
           }
           totalProcessedRecordsAmount += processedRecordsAmount;
           totalProcessedRecordsByObjectsMap.set(task.sObjectName, processedRecordsAmount);
+          this.checkpoint.completeStep(CHECKPOINT_STEPS.deleteHierarchy, task);
         }
       }
 
@@ -664,6 +775,7 @@ export default class MigrationJob {
         task.sObjectName,
         String(totalProcessedRecordsByObjectsMap.get(task.sObjectName)));
     }
+    this.processedRecordsAmount = [...totalProcessedRecordsByObjectsMap.values()].reduce((total, amount) => total + (amount || 0), 0);
 
     // Done message
     this.logger.infoVerbose(RESOURCES.newLine);
@@ -671,6 +783,22 @@ export default class MigrationJob {
 
 
     // ---------------------- Internal functions -------------------------------------- //
+    function ___warnUserCallback(task: Task): (data: ProcessedData) => Promise<void> {
+      return async (data: ProcessedData) => {
+        // The tasks can run in parallel => only one prompt at a time
+        warnUserLock = warnUserLock.then(async () => {
+          allMissingParentLookups = allMissingParentLookups.concat(data.missingParentLookups);
+          if (noAbortPrompt) {
+            ___warn(data, task.sObjectName);
+            return;
+          }
+          await ___promptToAbort(data, task.sObjectName);
+          noAbortPrompt = true;
+        });
+        await warnUserLock;
+      };
+    }
+
     async function ___promptToAbort(data: ProcessedData, sObjectName: string): Promise<void> {
       await Common.abortWithPrompt(
         RESOURCES.missingParentLookupsPrompt,
@@ -694,6 +822,87 @@ export default class MigrationJob {
 
   }
 
+  /**
+   * Creates the dependency graph of the given tasks.
+   * Each task depends on the previous tasks related to it
+   * by the lookup / master-detail fields, by the special update order
+   * or by the Person Accounts processing (Account => Contact),
+   * so the independent tasks can be processed in parallel.
+   * If the parallel processing is disabled or keepObjectOrderWhileExecute = true
+   * each task depends on the previous one.
+   *
+   * @param {Task[]} tasks The tasks in the execution order
+   * @returns {Map<Task, Task[]>} Task => the tasks it depends on
+   * @memberof MigrationJob
+   */
+  createTaskDependencyGraph(tasks: Task[]): Map<Task, Task[]> {
+    let graph = new Map<Task, Task[]>();
+    tasks.forEach((task, index) => {
+      let prevTasks = tasks.slice(0, index);
+      if (this.script.parallelTasks <= 1 || this.script.keepObjectOrderWhileExecute) {
+        graph.set(task, prevTasks.slice(-1));
+      } else {
+        graph.set(task, prevTasks.filter(prevTask => ___isDependent(prevTask, task) || ___isDependent(task, prevTask)));
+      }
+    });
+    return graph;
+
+    // ---------------------- Internal functions -------------------------------------- //
+    function ___isDependent(parentTask: Task, childTask: Task): boolean {
+      return childTask.scriptObject.parentLookupObjects.some(object => object.name == parentTask.sObjectName)
+        || (CONSTANTS.SPECIAL_OBJECT_UPDATE_ORDER.get(parentTask.sObjectName) || []).indexOf(childTask.sObjectName) >= 0
+        // The Person Account task inserts the Person Contacts into the data of the Contact task
+        || (parentTask.data.isPersonAccountOrContact && parentTask.sObjectName == "Account" && childTask.sObjectName == "Contact");
+    }
+  }
+
+  /**
+   * Processes the given tasks using the dependency graph.
+   * The task is started when all the tasks it depends on are completed,
+   * up to script.parallelTasks tasks at the same time.
+   *
+   * @param {Task[]} tasks The tasks in the execution order
+   * @param {(task: Task) => Promise<void>} processTaskAsync The function to process the single task
+   * @returns {Promise<void>}
+   * @memberof MigrationJob
+   */
+  async runTasksAsync(tasks: Task[], processTaskAsync: (task: Task) => Promise<void>): Promise<void> {
+
+    let graph = this.createTaskDependencyGraph(tasks);
+    let maxParallelTasks = Math.max(this.script.parallelTasks || 1, 1);
+
+    let pendingTasks: Task[] = [].concat(tasks);
+    let completedTasks = new Set<Task>();
+    let runningTasks = new Map<Task, Promise<Task>>();
+    let error: any;
+
+    while ((pendingTasks.length > 0 && !error) || runningTasks.size > 0) {
+      if (!error) {
+        // Start the tasks which have all dependencies completed
+        pendingTasks.filter(task => graph.get(task).every(dependency => completedTasks.has(dependency)))
+          .slice(0, maxParallelTasks - runningTasks.size)
+          .forEach(task => {
+            pendingTasks.splice(pendingTasks.indexOf(task), 1);
+            runningTasks.set(task, processTaskAsync(task).then(() => task, (ex: any) => {
+              // Stop starting the new tasks, but let the running ones complete
+              error = error || ex;
+              return task;
+            }));
+          });
+      }
+      if (runningTasks.size == 0) {
+        break;
+      }
+      let completedTask = await Promise.race(runningTasks.values());
+      runningTasks.delete(completedTask);
+      completedTasks.add(completedTask);
+    }
+
+    if (error) {
+      throw error;
+    }
+  }
+
   /**
    * Returns a task by the given sObject name
    *
@@ -763,6 +972,17 @@ export default class MigrationJob {
 
   }
 
+  /**
+   * Creates the dry-run diff report of the retrieved source and target records.
+   * Used instead of the update in the diff mode.
+   *
+   * @returns {Promise<void>}
+   * @memberof MigrationJob
+   */
+  async createDiffReportAsync(): Promise<void> {
+    await new MigrationJobDiffReport(this).createAsync();
+  }
+
   /**
    * Save csv file from the data of the input array
    *
@@ -991,19 +1211,17 @@ export default class MigrationJob {
   }
 
   private async _mergeUserGroupCSVfiles(): Promise<void> {
-    let filepath1 = path.join(this.script.basePath, "User.csv");
-    let filepath2 = path.join(this.script.basePath, "Group.csv");
-    let filepath3 = path.join(this.script.basePath, CONSTANTS.USER_AND_GROUP_FILENAME + ".csv");
+    let filepath1 = path.join(this.script.basePath, `User.${Common.dataFileFormat}`);
+    let filepath2 = path.join(this.script.basePath, `Group.${Common.dataFileFormat}`);
+    let filepath3 = path.join(this.script.basePath, `${CONSTANTS.USER_AND_GROUP_FILENAME}.${Common.dataFileFormat}`);
     await Common.mergeCsvFilesAsync(filepath1, filepath2, filepath3, true, "Id", "Name");
   }
 
-  private _copyCSVFilesToSourceSubDir() {
-    this.tasks.filter(task => this.script.sourceOrg.isFileMedia || task.scriptObject.useSourceCSVFile)
-      .forEach(task => {
-        if (fs.existsSync(task.data.csvFilename)) {
-          fs.copyFileSync(task.data.csvFilename, task.data.sourceCsvFilename);
-        }
-      });
+  private async _copyCSVFilesToSourceSubDirAsync(): Promise<void> {
+    let tasks = this.tasks.filter(task => this.script.sourceOrg.isFileMedia || task.scriptObject.useSourceCSVFile);
+    for (const task of tasks) {
+      await Common.copyDataFileAsync(task.data.csvFilename, task.data.sourceCsvFilename);
+    }
   }
 
   private async _validateAndRepairSourceCSVFiles(): Promise<void> {
@@ -0,0 +1,292 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from '../../components/common_components/common';
+import { CHECKPOINT_STEPS } from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { CommandInitializationError } from '../common_models/errors';
+import { ICheckpointJournal } from '../common_models/helper_interfaces';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * The checkpoint journal of the migration job.
+ * Tracks the completed delete and update steps of each task of the current object set
+ * and the source => target record Id maps, so the interrupted job
+ * can be continued using the --resume flag.
+ * The records are always retrieved again, since they are not stored in the journal.
+ * The Id map is stored after each api batch, so the records inserted
+ * before the job was interrupted are not inserted again.
+ *
+ * @export
+ * @class MigrationJobCheckpoint
+ */
+export default class MigrationJobCheckpoint {
+
+  job: MigrationJob;
+  journal: ICheckpointJournal;
+
+  private _isLoaded: boolean = false;
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+  get filePath(): string {
+    return path.join(this.job.script.checkpointDirectoryPath, CONSTANTS.CHECKPOINT_JOURNAL_FILENAME);
+  }
+
+  /**
+   * true if the job is running in resume mode
+   * and the previous journal was loaded
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof MigrationJobCheckpoint
+   */
+  get isResumed(): boolean {
+    return this.job.script.resume && this._isLoaded;
+  }
+
+  /**
+   * true if the journal is written during this run.
+   * Nothing is really changed in the simulation / diff / preflight mode,
+   * so no reason to continue from this point later.
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof MigrationJobCheckpoint
+   */
+  get isEnabled(): boolean {
+    return !this.job.script.simulationMode && !this.job.script.diffMode && !this.job.script.preflightOnlyMode;
+  }
+
+  /**
+   * true if the whole object set was completed during the previous run
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof MigrationJobCheckpoint
+   */
+  get isCompleted(): boolean {
+    return this.isResumed && this.journal.completed;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Loads the existing journal (in resume mode)
+   * or starts the new empty one.
+   * The new journal is written to the disk by the first completed step.
+   * The journal of the interrupted run is never overwritten without the --resume flag.
+   *
+   * @memberof MigrationJobCheckpoint
+   */
+  load() {
+    let script = this.job.script;
+    this._isLoaded = false;
+    if (fs.existsSync(this.filePath) && (script.resume || this.isEnabled)) {
+      let journal: ICheckpointJournal;
+      try {
+        journal = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      } catch (ex: any) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.checkpointReadError, this.filePath, ex.message));
+      }
+      if (!script.resume) {
+        if (!journal.completed) {
+          throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.checkpointNotCompleted, this.filePath));
+        }
+      } else {
+        if (journal.sourceUsername != script.sourceOrg.name
+          || journal.targetUsername != script.targetOrg.name) {
+          throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.checkpointOrgsMismatch, this.filePath));
+        }
+        this.journal = journal;
+        this.journal.steps = this.journal.steps || [];
+        this.journal.idMaps = this.journal.idMaps || {};
+        this._isLoaded = true;
+        this.logger.infoMinimal(RESOURCES.resumingFromCheckpoint, this.filePath, String(this.journal.steps.length));
+        return;
+      }
+    }
+    this.journal = {
+      objectSetIndex: script.objectSetIndex || 0,
+      sourceUsername: script.sourceOrg.name,
+      targetUsername: script.targetOrg.name,
+      startDate: Common.formatDateTime(new Date()),
+      lastUpdateDate: Common.formatDateTime(new Date()),
+      completed: false,
+      steps: [],
+      idMaps: {}
+    };
+  }
+
+  /**
+   * Checks whether the given step of the given task
+   * was completed during the previous run.
+   * Logs the message if the step will be skipped.
+   *
+   * @param {CHECKPOINT_STEPS} step
+   * @param {MigrationJobTask} task
+   * @returns {boolean}
+   * @memberof MigrationJobCheckpoint
+   */
+  isStepCompleted(step: CHECKPOINT_STEPS, task: MigrationJobTask): boolean {
+    if (!this.isResumed) {
+      return false;
+    }
+    let completed = this.journal.steps.some(x => x.step == step && x.sObjectName == task.sObjectName);
+    if (completed) {
+      this.logger.infoNormal(RESOURCES.checkpointStepSkipped, task.sObjectName, step);
+    }
+    return completed;
+  }
+
+  /**
+   * Marks the given step of the given task as completed
+   * and stores the current Id map of the task
+   *
+   * @param {CHECKPOINT_STEPS} step
+   * @param {MigrationJobTask} task
+   * @memberof MigrationJobCheckpoint
+   */
+  completeStep(step: CHECKPOINT_STEPS, task: MigrationJobTask) {
+    if (!this.journal.steps.some(x => x.step == step && x.sObjectName == task.sObjectName)) {
+      this.journal.steps.push({
+        step,
+        sObjectName: task.sObjectName,
+        completedDate: Common.formatDateTime(new Date())
+      });
+    }
+    let idMap = this.journal.idMaps[task.sObjectName] || {};
+    task.data.sourceToTargetRecordMap.forEach((target, source) => {
+      if (source["Id"] && target["Id"]) {
+        idMap[source["Id"]] = target["Id"];
+      }
+    });
+    if (Object.keys(idMap).length > 0) {
+      this.journal.idMaps[task.sObjectName] = idMap;
+    }
+    this.save();
+  }
+
+  /**
+   * Stores the target Ids of the records inserted by the single api batch,
+   * so they are not inserted again if the job is interrupted before the step is completed
+   *
+   * @param {MigrationJobTask} task
+   * @param {Array<any>} targetRecords The records returned by the api
+   * @param {Map<any, any>} clonedToSourceMap The sent record => the source record
+   * @memberof MigrationJobCheckpoint
+   */
+  recordInsertedRecords(task: MigrationJobTask, targetRecords: Array<any>, clonedToSourceMap: Map<any, any>) {
+    let idMap = this.journal.idMaps[task.sObjectName] || {};
+    let recordsCount = 0;
+    targetRecords.forEach(target => {
+      let source = clonedToSourceMap.get(target);
+      if (source && source["Id"] && target["Id"] && !target[CONSTANTS.ERRORS_FIELD_NAME]) {
+        idMap[source["Id"]] = target["Id"];
+        recordsCount++;
+      }
+    });
+    if (recordsCount > 0) {
+      this.journal.idMaps[task.sObjectName] = idMap;
+      this.save();
+    }
+  }
+
+  /**
+   * Returns the target Id of the given source record
+   * inserted during the previous run
+   *
+   * @param {MigrationJobTask} task
+   * @param {string} sourceId
+   * @returns {string}
+   * @memberof MigrationJobCheckpoint
+   */
+  getTargetId(task: MigrationJobTask, sourceId: string): string {
+    if (!this.isResumed) {
+      return undefined;
+    }
+    let idMap = this.journal.idMaps[task.sObjectName];
+    return idMap && idMap[sourceId];
+  }
+
+  /**
+   * Marks the whole object set as completed
+   *
+   * @memberof MigrationJobCheckpoint
+   */
+  complete() {
+    this.journal.completed = true;
+    this.save();
+  }
+
+  /**
+   * Restores the source => target record maps of all tasks
+   * from the Id maps stored in the journal.
+   * The target records which were not retrieved by the target query
+   * (f.ex. inserted by the Insert operation) are queried by their Ids.
+   * The records which no longer exist in the target are processed again.
+   * Should be called after the records were retrieved.
+   *
+   * @returns {Promise<void>}
+   * @memberof MigrationJobCheckpoint
+   */
+  async restoreIdMapsAsync(): Promise<void> {
+    if (!this.isResumed) {
+      return;
+    }
+    for (let task of this.job.tasks) {
+      let idMap = this.journal.idMaps[task.sObjectName];
+      if (!idMap) {
+        continue;
+      }
+      let sourceIds = Object.keys(idMap).filter(sourceId => {
+        let source = task.sourceData.idRecordsMap.get(sourceId);
+        return source && !task.data.sourceToTargetRecordMap.has(source);
+      });
+      await task.retrieveTargetRecordsByIdsAsync(sourceIds.map(sourceId => idMap[sourceId])
+        .filter(targetId => !task.targetData.idRecordsMap.has(targetId)));
+      let restored = 0;
+      sourceIds.forEach(sourceId => {
+        let target = task.targetData.idRecordsMap.get(idMap[sourceId]);
+        if (target) {
+          task.data.sourceToTargetRecordMap.set(task.sourceData.idRecordsMap.get(sourceId), target);
+          restored++;
+        }
+      });
+      this.logger.infoVerbose(RESOURCES.checkpointIdMapRestored, task.sObjectName, String(restored));
+    }
+  }
+
+  /**
+   * Writes the journal to the disk
+   *
+   * @memberof MigrationJobCheckpoint
+   */
+  save() {
+    if (!this.isEnabled) {
+      return;
+    }
+    this.journal.lastUpdateDate = Common.formatDateTime(new Date());
+    fs.writeFileSync(path.join(this.job.script.checkpointDirectory, CONSTANTS.CHECKPOINT_JOURNAL_FILENAME),
+      JSON.stringify(this.journal, null, 2));
+  }
+
+}
@@ -0,0 +1,298 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from '../../components/common_components/common';
+import {
+  DATA_MEDIA_TYPE,
+  DIFF_REPORT_ACTION,
+  OPERATION,
+} from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import {
+  IDiffReportFieldChange,
+  IDiffReportObject,
+  IDiffReportRecord,
+} from '../common_models/helper_interfaces';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * The dry-run diff report of the migration job.
+ * Compares the retrieved source records with the target records
+ * matched by the externalId and reports the records which would be
+ * inserted, updated, left unchanged or deleted,
+ * without calling any CRUD api.
+ * The source records are filtered, mocked and masked
+ * the same way as by the real run before they are compared.
+ *
+ * @export
+ * @class MigrationJobDiffReport
+ */
+export default class MigrationJobDiffReport {
+
+  job: MigrationJob;
+  objects: Array<IDiffReportObject> = new Array<IDiffReportObject>();
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Compares the records of all tasks and writes the report files
+   * (the CSV file per sObject and the JSON / HTML files for the whole object set)
+   *
+   * @returns {Promise<void>}
+   * @memberof MigrationJobDiffReport
+   */
+  async createAsync(): Promise<void> {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.headerMinimal(RESOURCES.creatingDiffReport);
+
+    this.objects = new Array<IDiffReportObject>();
+    for (let task of this.job.tasks) {
+      let object = await this._createObjectReportAsync(task);
+      if (object) {
+        this.objects.push(object);
+      }
+    }
+
+    let directory = this.job.script.diffReportDirectory;
+
+    // CSV
+    for (let object of this.objects) {
+      let rows = Common.flattenArrays(object.records.map(record => {
+        let changes: Array<IDiffReportFieldChange> = record.changes.length > 0 ? record.changes : [{
+          field: "",
+          oldValue: "",
+          newValue: ""
+        }];
+        return changes.map(change => {
+          return {
+            Action: record.action,
+            ExternalId: record.externalIdValue,
+            SourceId: record.sourceId,
+            TargetId: record.targetId,
+            Field: change.field,
+            OldValue: change.oldValue,
+            NewValue: change.newValue
+          };
+        });
+      }));
+      let filePath = path.join(directory, CONSTANTS.DIFF_REPORT_CSV_FILENAME_TEMPLATE(object.sObjectName));
+      this.logger.infoVerbose(RESOURCES.writingCsvFile, filePath);
+      await Common.writeCsvFileAsync(filePath, rows, true);
+      this.logger.infoNormal(RESOURCES.diffReportObjectSummary, object.sObjectName,
+        String(object.inserted), String(object.updated), String(object.unchanged), String(object.deleted));
+    }
+
+    // JSON
+    fs.writeFileSync(path.join(directory, CONSTANTS.DIFF_REPORT_JSON_FILENAME), JSON.stringify({
+      objectSetIndex: this.job.script.objectSetIndex || 0,
+      sourceUsername: this.job.script.sourceOrg.name,
+      targetUsername: this.job.script.targetOrg.name,
+      createdDate: Common.formatDateTime(new Date()),
+      objects: this.objects
+    }, null, 2));
+
+    // HTML
+    fs.writeFileSync(path.join(directory, CONSTANTS.DIFF_REPORT_HTML_FILENAME), this._createHtml());
+
+    this.logger.infoMinimal(RESOURCES.diffReportCreated, directory);
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private async _createObjectReportAsync(task: MigrationJobTask): Promise<IDiffReportObject> {
+
+    if (task.targetData.media != DATA_MEDIA_TYPE.Org || task.operation == OPERATION.Readonly) {
+      return null;
+    }
+
+    let report: IDiffReportObject = {
+      sObjectName: task.sObjectName,
+      operation: task.scriptObject.strOperation,
+      externalId: task.scriptObject.externalId,
+      inserted: 0,
+      updated: 0,
+      unchanged: 0,
+      deleted: 0,
+      records: []
+    };
+
+    let externalId = task.scriptObject.complexExternalId;
+
+    if (task.scriptObject.isDeletedFromSourceOperation) {
+      // Delete from the source
+      task.sourceData.records.forEach(source => ___addRecord(DIFF_REPORT_ACTION.Delete, source, null));
+      return report;
+    }
+
+    if (task.operation == OPERATION.Delete) {
+      // Delete matched target records
+      task.sourceData.records.forEach(source => {
+        let target = task.data.sourceToTargetRecordMap.get(source);
+        if (target) {
+          ___addRecord(DIFF_REPORT_ACTION.Delete, source, target);
+        }
+      });
+      return report;
+    }
+
+    if (task.scriptObject.deleteOldData) {
+      // All the target records are deleted before the update
+      task.targetData.records.forEach(target => ___addRecord(DIFF_REPORT_ACTION.Delete, null, target));
+    }
+
+    let fields = task.data.sFieldsToUpdate.filter(field => {
+      return (field.isSimpleNotLookup || field.isSimpleReference)
+        && field.name != "Id"
+        && !(field.isDescribed && !field.updateable);
+    });
+
+    // The original values of the masked fields are never written to the report
+    let records = await task.transformRecordsAsync(task.sourceData.records);
+
+    records.forEach(record => {
+      let source = task.sourceData.idRecordsMap.get(record["Id"]) || record;
+      let target = task.scriptObject.deleteOldData ? null : task.data.sourceToTargetRecordMap.get(source);
+      if (task.operation == OPERATION.Insert || !target && task.operation == OPERATION.Upsert) {
+        ___addRecord(DIFF_REPORT_ACTION.Insert, record, null);
+      } else if (target) {
+        let changes = task.scriptObject.skipExistingRecords ? [] : ___compareRecords(record, target);
+        ___addRecord(changes.length > 0 ? DIFF_REPORT_ACTION.Update : DIFF_REPORT_ACTION.Unchanged, record, target, changes);
+      }
+    });
+
+    return report;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___addRecord(action: DIFF_REPORT_ACTION, source: any, target: any, changes?: Array<IDiffReportFieldChange>) {
+      let record: IDiffReportRecord = {
+        action,
+        externalIdValue: String((source || target)[externalId] || ''),
+        sourceId: source && source["Id"] || '',
+        targetId: target && target["Id"] || '',
+        changes: changes || []
+      };
+      report.records.push(record);
+      switch (action) {
+        case DIFF_REPORT_ACTION.Insert: report.inserted++; break;
+        case DIFF_REPORT_ACTION.Update: report.updated++; break;
+        case DIFF_REPORT_ACTION.Unchanged: report.unchanged++; break;
+        case DIFF_REPORT_ACTION.Delete: report.deleted++; break;
+      }
+    }
+
+    function ___compareRecords(source: any, target: any): Array<IDiffReportFieldChange> {
+      return fields.map(field => {
+        // Lookups are compared by the external id of the parent record
+        let fieldName = field.isSimpleReference ? field.fullName__r : field.name;
+        let oldValue = ___normalizeValue(target[fieldName]);
+        let newValue = ___normalizeValue(source[fieldName]);
+        return oldValue != newValue ? {
+          field: fieldName,
+          oldValue,
+          newValue
+        } : null;
+      }).filter(change => !!change);
+    }
+
+    function ___normalizeValue(value: any): string {
+      return typeof value == 'undefined' || value == null ? '' : String(value);
+    }
+  }
+
+  private _createHtml(): string {
+
+    let script = this.job.script;
+
+    let summaryRows = this.objects.map(object => `<tr>
+<td><a href="#${___escape(object.sObjectName)}">${___escape(object.sObjectName)}</a></td>
+<td>${___escape(object.operation)}</td>
+<td class="insert">${object.inserted}</td>
+<td class="update">${object.updated}</td>
+<td>${object.unchanged}</td>
+<td class="delete">${object.deleted}</td>
+</tr>`).join('\n');
+
+    let objectSections = this.objects.map(object => {
+      let rows = object.records
+        .filter(record => record.action != DIFF_REPORT_ACTION.Unchanged)
+        .map(record => {
+          let changes = record.changes.map(change => `<div><b>${___escape(change.field)}</b>: `
+            + `<span class="old">${___escape(change.oldValue)}</span> &rarr; `
+            + `<span class="new">${___escape(change.newValue)}</span></div>`).join('');
+          return `<tr class="${record.action.toLowerCase()}">
+<td>${___escape(record.action)}</td>
+<td>${___escape(record.externalIdValue)}</td>
+<td>${___escape(record.sourceId)}</td>
+<td>${___escape(record.targetId)}</td>
+<td>${changes}</td>
+</tr>`;
+        }).join('\n');
+      return `<h2 id="${___escape(object.sObjectName)}">${___escape(object.sObjectName)}</h2>
+<p>Operation: ${___escape(object.operation)}, External Id: ${___escape(object.externalId)}, Unchanged records: ${object.unchanged}</p>
+<table>
+<tr><th>Action</th><th>External Id</th><th>Source Id</th><th>Target Id</th><th>Changes</th></tr>
+${rows}
+</table>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>SFDMU Diff Report</title>
+<style>
+body { font-family: Arial, Helvetica, sans-serif; font-size: 13px; margin: 20px; }
+table { border-collapse: collapse; margin-bottom: 20px; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+tr.insert td:first-child, td.insert { color: #2e7d32; }
+tr.update td:first-child, td.update { color: #1565c0; }
+tr.delete td:first-child, td.delete { color: #c62828; }
+.old { color: #c62828; text-decoration: line-through; }
+.new { color: #2e7d32; }
+</style>
+</head>
+<body>
+<h1>SFDMU Diff Report</h1>
+<p>Source: ${___escape(script.sourceOrg.name)}, Target: ${___escape(script.targetOrg.name)}, Object set: ${(script.objectSetIndex || 0) + 1}, Created: ${___escape(Common.formatDateTime(new Date()))}</p>
+<table>
+<tr><th>sObject</th><th>Operation</th><th>Insert</th><th>Update</th><th>Unchanged</th><th>Delete</th></tr>
+${summaryRows}
+</table>
+${objectSections}
+</body>
+</html>
+`;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___escape(value: any): string {
+      return String(typeof value == 'undefined' || value == null ? '' : value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+  }
+
+}
@@ -0,0 +1,352 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  ScriptObject,
+  SFieldDescribe,
+} from '../';
+import { Common } from '../../components/common_components/common';
+import {
+  DATA_MEDIA_TYPE,
+  OPERATION,
+} from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { CommandInitializationError } from '../common_models/errors';
+import {
+  IFailedRecord,
+  IFailedRecordsFile,
+  IFailedRecordsIdMapsFile,
+} from '../common_models/helper_interfaces';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * The records failed to be written to the target.
+ * Each run stores the failed records of each sObject to the separated file,
+ * so they can be re-submitted using the --retry-failed flag.
+ * In this mode only the previously failed records are processed
+ * and the files are updated with the records which are still failing.
+ *
+ * @export
+ * @class MigrationJobFailedRecords
+ */
+export default class MigrationJobFailedRecords {
+
+  job: MigrationJob;
+
+  // sObject name => The records failed during the previous run
+  previousRecords: Map<string, Array<IFailedRecord>> = new Map<string, Array<IFailedRecord>>();
+
+  // sObject name => { source record Id + update mode => The record failed during the current run }
+  records: Map<string, Map<string, IFailedRecord>> = new Map<string, Map<string, IFailedRecord>>();
+
+  // sObject name => { source record Id => target record Id }
+  idMaps: Record<string, Record<string, string>> = {};
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+  get isRetryMode(): boolean {
+    return this.job.script.retryFailedMode;
+  }
+
+  getFilePath(sObjectName: string): string {
+    return path.join(this.job.script.failedRecordsDirectoryPath, CONSTANTS.FAILED_RECORDS_FILENAME_TEMPLATE(sObjectName));
+  }
+
+  get idMapsFilePath(): string {
+    return path.join(this.job.script.failedRecordsDirectoryPath, CONSTANTS.FAILED_RECORDS_ID_MAPS_FILENAME);
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Loads the records failed during the previous run (in retry mode)
+   *
+   * @memberof MigrationJobFailedRecords
+   */
+  load() {
+    this.previousRecords.clear();
+    this.records.clear();
+    this.idMaps = {};
+    if (!this.isRetryMode) {
+      return;
+    }
+    if (fs.existsSync(this.idMapsFilePath)) {
+      let idMapsFile = this._readFile<IFailedRecordsIdMapsFile>(this.idMapsFilePath);
+      this.idMaps = idMapsFile.idMaps || {};
+    }
+    this.job.tasks.forEach(task => {
+      let filePath = this.getFilePath(task.sObjectName);
+      if (!fs.existsSync(filePath)) {
+        return;
+      }
+      let file = this._readFile<IFailedRecordsFile>(filePath);
+      let records = (file.records || []).filter(record => !!record.sourceId);
+      this.previousRecords.set(task.sObjectName, records);
+      this.logger.infoNormal(RESOURCES.failedRecordsLoaded, task.sObjectName, String(records.length));
+    });
+    if (this.previousRecords.size == 0) {
+      this.logger.infoMinimal(RESOURCES.noFailedRecordsToRetry);
+    }
+  }
+
+  /**
+   * true if the records of the given task should not be changed,
+   * since the task has no failed records to retry
+   * and no lookups to the failed records of other tasks
+   *
+   * @param {MigrationJobTask} task
+   * @returns {boolean}
+   * @memberof MigrationJobFailedRecords
+   */
+  isTaskSkipped(task: MigrationJobTask): boolean {
+    return this.isRetryMode
+      && !this.previousRecords.has(task.sObjectName)
+      && !this._getLookupFields(task).some(field => this.previousRecords.has(field.parentLookupObject.name));
+  }
+
+  /**
+   * Restores the source => target record maps of all tasks
+   * from the Id maps stored during the previous run,
+   * so the lookups of the retried records are resolved against the records
+   * which already exist in the target.
+   * The target records which were not retrieved by the target query
+   * (f.ex. inserted by the Insert operation) are queried by their Ids.
+   * Should be called after the records were retrieved.
+   *
+   * @returns {Promise<void>}
+   * @memberof MigrationJobFailedRecords
+   */
+  async restoreIdMapsAsync(): Promise<void> {
+    if (!this.isRetryMode) {
+      return;
+    }
+    for (let task of this.job.tasks) {
+      let idMap = this.idMaps[task.sObjectName];
+      if (!idMap) {
+        continue;
+      }
+      let sourceIds = Object.keys(idMap).filter(sourceId => {
+        let source = task.sourceData.idRecordsMap.get(sourceId);
+        return source && !task.data.sourceToTargetRecordMap.has(source);
+      });
+      await task.retrieveTargetRecordsByIdsAsync(sourceIds.map(sourceId => idMap[sourceId])
+        .filter(targetId => !task.targetData.idRecordsMap.has(targetId)));
+      let restored = 0;
+      sourceIds.forEach(sourceId => {
+        let target = task.targetData.idRecordsMap.get(idMap[sourceId]);
+        if (target) {
+          task.data.sourceToTargetRecordMap.set(task.sourceData.idRecordsMap.get(sourceId), target);
+          restored++;
+        }
+      });
+      this.logger.infoVerbose(RESOURCES.failedRecordsIdMapRestored, task.sObjectName, String(restored));
+    }
+  }
+
+  /**
+   * Returns the source records to process by the given update step.
+   * In retry mode these are only the records failed during the previous run.
+   * The records failed by the backwards step were already inserted
+   * by the forwards step, so only their lookups are updated again.
+   * The backwards step also updates the records which are referencing
+   * the records not inserted during the previous run, since their lookups
+   * could not be resolved before.
+   *
+   * @param {MigrationJobTask} task
+   * @param {Array<any>} records The source records
+   * @param {("forwards" | "backwards")} updateMode
+   * @returns {Array<any>}
+   * @memberof MigrationJobFailedRecords
+   */
+  filterRecordsToRetry(task: MigrationJobTask, records: Array<any>, updateMode: "forwards" | "backwards"): Array<any> {
+    if (!this.isRetryMode) {
+      return records;
+    }
+    let sourceIds = new Set<string>((this.previousRecords.get(task.sObjectName) || [])
+      .filter(record => updateMode == "backwards" || record.updateMode == "forwards")
+      .map(record => record.sourceId));
+    let lookupFields = updateMode == "backwards" ? this._getLookupFields(task) : [];
+    let parentSourceIdsMap = new Map<string, Set<string>>();
+    lookupFields.forEach(field => {
+      parentSourceIdsMap.set(field.nameId, new Set<string>((this.previousRecords.get(field.parentLookupObject.name) || [])
+        .filter(record => record.updateMode == "forwards")
+        .map(record => record.sourceId)));
+    });
+    return records.filter(record => sourceIds.has(record["Id"])
+      || lookupFields.some(field => record[field.nameId] && parentSourceIdsMap.get(field.nameId).has(record[field.nameId])));
+  }
+
+  /**
+   * Adds the failed records returned by the api
+   *
+   * @param {MigrationJobTask} task
+   * @param {OPERATION} operation
+   * @param {("forwards" | "backwards")} updateMode
+   * @param {Array<any>} targetRecords The records returned by the api
+   * @param {Map<any, any>} clonedToSourceMap The sent record => the source record
+   * @memberof MigrationJobFailedRecords
+   */
+  addRecords(task: MigrationJobTask,
+    operation: OPERATION,
+    updateMode: "forwards" | "backwards",
+    targetRecords: Array<any>,
+    clonedToSourceMap: Map<any, any>) {
+    let failedRecords = this.records.get(task.sObjectName) || new Map<string, IFailedRecord>();
+    targetRecords.filter(target => !!target[CONSTANTS.ERRORS_FIELD_NAME]).forEach(target => {
+      let source = clonedToSourceMap.get(target);
+      let sourceId = source && source["Id"];
+      // The same record can fail by several passes of the same step, keep the last error only
+      let key = sourceId ? sourceId + ':' + updateMode : String(failedRecords.size);
+      failedRecords.set(key, {
+        sourceId,
+        operation: ScriptObject.getStrOperation(operation),
+        updateMode,
+        error: target[CONSTANTS.ERRORS_FIELD_NAME],
+        record: Object.keys(target).reduce((record, fieldName) => {
+          if (fieldName != CONSTANTS.ERRORS_FIELD_NAME && !fieldName.startsWith('___')) {
+            record[fieldName] = target[fieldName];
+          }
+          return record;
+        }, {})
+      });
+    });
+    this.records.set(task.sObjectName, failedRecords);
+  }
+
+  /**
+   * Checks whether any records of the given task have failed during the current run
+   *
+   * @param {MigrationJobTask} task
+   * @returns {boolean}
+   * @memberof MigrationJobFailedRecords
+   */
+  hasFailedRecords(task: MigrationJobTask): boolean {
+    return this.records.has(task.sObjectName) && this.records.get(task.sObjectName).size > 0;
+  }
+
+  /**
+   * Writes the records failed during the current run to the disk.
+   * The file of the sObject without failed records is removed.
+   * In retry mode only the files of the retried sObjects are updated
+   * and the failed records which were not retrieved from the source again are kept.
+   * The record Id maps of all sObjects are stored while any failed records remain.
+   * When the job has failed, the files of the sObjects without new failed records are kept,
+   * since these sObjects might not be processed yet.
+   *
+   * @param {boolean} [isJobCompleted=true] False if the job has failed
+   * @memberof MigrationJobFailedRecords
+   */
+  save(isJobCompleted: boolean = true) {
+    let script = this.job.script;
+    if (script.simulationMode || script.diffMode || script.targetOrg.media != DATA_MEDIA_TYPE.Org) {
+      return;
+    }
+    let hasFailedRecords = false;
+    this.job.tasks.forEach(task => {
+      let idMap = this.idMaps[task.sObjectName] || {};
+      task.data.sourceToTargetRecordMap.forEach((target, source) => {
+        if (source["Id"] && target["Id"]) {
+          idMap[source["Id"]] = target["Id"];
+        }
+      });
+      if (Object.keys(idMap).length > 0) {
+        this.idMaps[task.sObjectName] = idMap;
+      }
+      if (this.isTaskSkipped(task)
+        || task.scriptObject.operation == OPERATION.Readonly
+        || task.scriptObject.operation == OPERATION.Delete) {
+        hasFailedRecords = hasFailedRecords || fs.existsSync(this.getFilePath(task.sObjectName));
+        return;
+      }
+      let filePath = this.getFilePath(task.sObjectName);
+      let records = [...(this.records.get(task.sObjectName) || new Map<string, IFailedRecord>()).values()]
+        .concat(this._getNotRetrievedRecords(task));
+      if (records.length == 0 && !isJobCompleted) {
+        hasFailedRecords = hasFailedRecords || fs.existsSync(filePath);
+        return;
+      }
+      if (this.previousRecords.has(task.sObjectName)) {
+        let previousCount = this.previousRecords.get(task.sObjectName).length;
+        this.logger.infoNormal(RESOURCES.failedRecordsRetried, task.sObjectName,
+          String(Math.max(0, previousCount - records.length)), String(previousCount));
+      }
+      if (records.length == 0) {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+        return;
+      }
+      hasFailedRecords = true;
+      let file: IFailedRecordsFile = {
+        sObjectName: task.sObjectName,
+        sourceUsername: script.sourceOrg.name,
+        targetUsername: script.targetOrg.name,
+        lastUpdateDate: Common.formatDateTime(new Date()),
+        records
+      };
+      fs.writeFileSync(path.join(script.failedRecordsDirectory, CONSTANTS.FAILED_RECORDS_FILENAME_TEMPLATE(task.sObjectName)),
+        JSON.stringify(file, null, 2));
+      this.logger.infoNormal(RESOURCES.failedRecordsSaved, task.sObjectName, String(records.length), filePath);
+    });
+    if (!hasFailedRecords) {
+      if (fs.existsSync(this.idMapsFilePath)) {
+        fs.unlinkSync(this.idMapsFilePath);
+      }
+      return;
+    }
+    let idMapsFile: IFailedRecordsIdMapsFile = {
+      sourceUsername: script.sourceOrg.name,
+      targetUsername: script.targetOrg.name,
+      lastUpdateDate: Common.formatDateTime(new Date()),
+      idMaps: this.idMaps
+    };
+    fs.writeFileSync(path.join(script.failedRecordsDirectory, CONSTANTS.FAILED_RECORDS_ID_MAPS_FILENAME),
+      JSON.stringify(idMapsFile, null, 2));
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _getNotRetrievedRecords(task: MigrationJobTask): Array<IFailedRecord> {
+    // The previously failed records which were not retrieved from the source again
+    //  were not retried, so they are kept in the file
+    return (this.previousRecords.get(task.sObjectName) || [])
+      .filter(record => !task.sourceData.idRecordsMap.has(record.sourceId));
+  }
+
+  private _getLookupFields(task: MigrationJobTask): Array<SFieldDescribe> {
+    return task.data.sFieldsToUpdate.filter(field => field.isSimpleReference && !!field.parentLookupObject);
+  }
+
+  private _readFile<T extends { sourceUsername: string, targetUsername: string }>(filePath: string): T {
+    let file: T;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (ex: any) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.failedRecordsReadError, filePath, ex.message));
+    }
+    if (file.sourceUsername != this.job.script.sourceOrg.name
+      || file.targetUsername != this.job.script.targetOrg.name) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.failedRecordsOrgsMismatch, filePath));
+    }
+    return file;
+  }
+
+}
@@ -0,0 +1,278 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { GRAPH_FORMAT } from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import {
+  IObjectGraph,
+  IObjectGraphEdge,
+  IObjectGraphNode,
+} from '../common_models/helper_interfaces';
+import MigrationJob from './migrationJob';
+
+/**
+ * The resolved object / lookup graph of the migration job:
+ * the query, execution and delete orders of the sObjects,
+ * the sObjects automatically added by the plugin (isExtraObject),
+ * the update pass where each lookup is set and the circular references.
+ *
+ * @export
+ * @class MigrationJobGraph
+ */
+export default class MigrationJobGraph {
+
+  job: MigrationJob;
+  graph: IObjectGraph;
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+    this.graph = this._createGraph();
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Returns the graph in the given format
+   *
+   * @param {GRAPH_FORMAT} format
+   * @returns {string}
+   * @memberof MigrationJobGraph
+   */
+  format(format: GRAPH_FORMAT): string {
+    switch (format) {
+      case GRAPH_FORMAT.Dot:
+        return this.toDot();
+      case GRAPH_FORMAT.Mermaid:
+        return this.toMermaid();
+      default:
+        return JSON.stringify(this.graph, null, 2);
+    }
+  }
+
+  /**
+   * Returns the graph as Graphviz DOT digraph
+   *
+   * @returns {string}
+   * @memberof MigrationJobGraph
+   */
+  toDot(): string {
+    let lines = new Array<string>();
+    lines.push(`digraph "${this._getTitle()}" {`);
+    lines.push('  rankdir=BT;');
+    lines.push('  node [shape=box, fontname="Helvetica"];');
+    lines.push('  edge [fontname="Helvetica", fontsize=10];');
+    this.graph.nodes.forEach(node => {
+      let attributes = [`label="${___escape(this._getNodeLabel(node, '\\n'))}"`];
+      if (node.isExtraObject) {
+        attributes.push('style=dashed');
+      }
+      if (node.isReadonlyObject) {
+        attributes.push('color=gray');
+      }
+      lines.push(`  "${___escape(node.sObjectName)}" [${attributes.join(', ')}];`);
+    });
+    this.graph.edges.forEach(edge => {
+      let attributes = [`label="${___escape(this._getEdgeLabel(edge))}"`];
+      if (edge.pass == 'backwards') {
+        attributes.push('style=dashed');
+      }
+      if (edge.isMasterDetail) {
+        attributes.push('penwidth=2');
+      }
+      if (edge.isCircular) {
+        attributes.push('color=red');
+      }
+      lines.push(`  "${___escape(edge.sObjectName)}" -> "${___escape(edge.parentSObjectName)}" [${attributes.join(', ')}];`);
+    });
+    lines.push('}');
+    return lines.join('\n') + '\n';
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___escape(value: string): string {
+      return value.replace(/"/g, '\\"');
+    }
+  }
+
+  /**
+   * Returns the graph as Mermaid flowchart
+   *
+   * @returns {string}
+   * @memberof MigrationJobGraph
+   */
+  toMermaid(): string {
+    let lines = new Array<string>();
+    let nodeIds = new Map<string, string>();
+    lines.push('flowchart BT');
+    this.graph.nodes.forEach((node, index) => {
+      nodeIds.set(node.sObjectName, `n${index}`);
+      lines.push(`  n${index}["${this._getNodeLabel(node, '<br/>').replace(/"/g, '#quot;')}"]`);
+    });
+    let circularEdgeIndexes = new Array<number>();
+    this.graph.edges.forEach((edge, index) => {
+      let arrow = edge.pass == 'backwards' ? '-.->' : edge.isMasterDetail ? '==>' : '-->';
+      lines.push(`  ${nodeIds.get(edge.sObjectName)} ${arrow}|${this._getEdgeLabel(edge).replace(/\|/g, '#124;')}| ${nodeIds.get(edge.parentSObjectName)}`);
+      if (edge.isCircular) {
+        circularEdgeIndexes.push(index);
+      }
+    });
+    let extraNodes = this.graph.nodes.filter(node => node.isExtraObject).map(node => nodeIds.get(node.sObjectName));
+    if (extraNodes.length > 0) {
+      lines.push('  classDef extra stroke-dasharray: 5 5');
+      lines.push(`  class ${extraNodes.join(',')} extra`);
+    }
+    if (circularEdgeIndexes.length > 0) {
+      lines.push(`  linkStyle ${circularEdgeIndexes.join(',')} stroke:red`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Writes the graph files in the given formats to the reports directory
+   *
+   * @param {Array<GRAPH_FORMAT>} formats
+   * @returns {Array<string>} The paths of the written files
+   * @memberof MigrationJobGraph
+   */
+  save(formats: Array<GRAPH_FORMAT>): Array<string> {
+    let directory = this.job.script.diffReportDirectory;
+    return formats.map(format => {
+      let filePath = path.join(directory, CONSTANTS.OBJECT_GRAPH_FILENAME_TEMPLATE(CONSTANTS.OBJECT_GRAPH_FILE_EXTENSIONS.get(format)));
+      fs.writeFileSync(filePath, this.format(format));
+      this.logger.infoNormal(RESOURCES.objectGraphFileCreated, filePath);
+      return filePath;
+    });
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _createGraph(): IObjectGraph {
+
+    let job = this.job;
+    let dependencyGraph = job.createTaskDependencyGraph(job.tasks);
+
+    let nodes = job.tasks.map(task => {
+      return <IObjectGraphNode>{
+        sObjectName: task.sObjectName,
+        operation: task.scriptObject.strOperation,
+        externalId: task.scriptObject.externalId,
+        isExtraObject: task.scriptObject.isExtraObject,
+        isReadonlyObject: task.scriptObject.isReadonlyObject,
+        allRecords: task.sourceData.allRecords,
+        queryOrder: job.queryTasks.indexOf(task) + 1,
+        executionOrder: job.tasks.indexOf(task) + 1,
+        deleteOrder: job.deleteTasks.indexOf(task) + 1,
+        dependsOn: dependencyGraph.get(task).map(dependency => dependency.sObjectName)
+      };
+    });
+
+    let edges = new Array<IObjectGraphEdge>();
+    job.tasks.forEach(task => {
+      [...task.scriptObject.fieldsInQueryMap.values()].forEach(field => {
+        if (!field.isSimpleReference || !field.parentLookupObject) {
+          return;
+        }
+        let parentTask = job.getTaskBySObjectName(field.parentLookupObject.name);
+        if (!parentTask) {
+          return;
+        }
+        edges.push({
+          sObjectName: task.sObjectName,
+          fieldName: field.nameId,
+          parentSObjectName: parentTask.sObjectName,
+          isMasterDetail: field.isMasterDetail,
+          isPolymorphic: field.isPolymorphicField,
+          // The same rule as used by the task to select the fields to update in the forwards step
+          pass: task.data.prevTasks.indexOf(parentTask) >= 0 ? 'forwards' : 'backwards',
+          isCircular: false
+        });
+      });
+    });
+
+    let circularReferences = this._findCircularReferences(nodes, edges);
+    edges.forEach(edge => {
+      edge.isCircular = circularReferences.some(objects => objects.indexOf(edge.sObjectName) >= 0
+        && objects.indexOf(edge.parentSObjectName) >= 0);
+    });
+
+    return {
+      objectSetIndex: job.script.objectSetIndex || 0,
+      nodes,
+      edges,
+      circularReferences
+    };
+  }
+
+  private _findCircularReferences(nodes: Array<IObjectGraphNode>, edges: Array<IObjectGraphEdge>): Array<Array<string>> {
+
+    // Tarjan's strongly connected components
+    let index = 0;
+    let stack = new Array<string>();
+    let indexes = new Map<string, number>();
+    let lowLinks = new Map<string, number>();
+    let components = new Array<Array<string>>();
+
+    nodes.forEach(node => {
+      if (!indexes.has(node.sObjectName)) {
+        ___connect(node.sObjectName);
+      }
+    });
+
+    return components.filter(component => component.length > 1
+      || edges.some(edge => edge.sObjectName == component[0] && edge.parentSObjectName == component[0]));
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___connect(sObjectName: string) {
+      indexes.set(sObjectName, index);
+      lowLinks.set(sObjectName, index);
+      index++;
+      stack.push(sObjectName);
+      edges.filter(edge => edge.sObjectName == sObjectName).forEach(edge => {
+        let parent = edge.parentSObjectName;
+        if (!indexes.has(parent)) {
+          ___connect(parent);
+          lowLinks.set(sObjectName, Math.min(lowLinks.get(sObjectName), lowLinks.get(parent)));
+        } else if (stack.indexOf(parent) >= 0) {
+          lowLinks.set(sObjectName, Math.min(lowLinks.get(sObjectName), indexes.get(parent)));
+        }
+      });
+      if (lowLinks.get(sObjectName) == indexes.get(sObjectName)) {
+        let component = new Array<string>();
+        let member: string;
+        do {
+          member = stack.pop();
+          component.unshift(member);
+        } while (member != sObjectName);
+        components.push(component);
+      }
+    }
+  }
+
+  private _getTitle(): string {
+    return `ObjectSet${(this.graph.objectSetIndex || 0) + 1}`;
+  }
+
+  private _getNodeLabel(node: IObjectGraphNode, lineBreak: string): string {
+    return `${node.executionOrder}. ${node.sObjectName}${node.isExtraObject ? ' (auto-added)' : ''}`
+      + `${lineBreak}${node.operation} | ${node.externalId}`;
+  }
+
+  private _getEdgeLabel(edge: IObjectGraphEdge): string {
+    return edge.fieldName + (edge.pass == 'backwards' ? ' (backwards)' : '');
+  }
+
+}
@@ -0,0 +1,350 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import {
+  ScriptApiLimits,
+  ScriptOrg,
+} from '../';
+import { Common } from '../../components/common_components/common';
+import {
+  DATA_MEDIA_TYPE,
+  OPERATION,
+} from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { Sfdx } from '../../components/common_components/sfdx';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { IApiLimitsGuard } from '../api_models/helper_interfaces';
+import { CommandExecutionError } from '../common_models/errors';
+import { IOrgLimit } from '../common_models/helper_interfaces';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+type LimitsStep = "delete" | "update";
+
+interface ITaskConsumption {
+  // Org name => The consumed api requests
+  requests: Map<string, number>,
+  // The tasks which were running in parallel
+  parallelTasks: Set<string>
+}
+
+/**
+ * The monitoring of the org api limits.
+ * The limits are read at the start of the job, between the objects
+ * and between the batches of the api engines.
+ * The consumption of the api requests is logged per object and
+ * the job is paused or aborted before the remaining
+ * DailyApiRequests or DailyBulkV2QueryJobs fall below the reserve.
+ *
+ * @export
+ * @class MigrationJobLimits
+ */
+export default class MigrationJobLimits implements IApiLimitsGuard {
+
+  job: MigrationJob;
+
+  // Org name => The limits read by the last check
+  limits: Map<string, Record<string, IOrgLimit>> = new Map<string, Record<string, IOrgLimit>>();
+
+  // The running task => The api requests consumed by the task step so far
+  private _runningTasks: Map<MigrationJobTask, ITaskConsumption> = new Map<MigrationJobTask, ITaskConsumption>();
+
+  // Org name => The remaining daily api requests read by the last check
+  private _lastRemainingRequests: Map<string, number> = new Map<string, number>();
+
+  // The completed steps ("step:sObject name") excluded from the estimation
+  private _completedSteps: Set<string> = new Set<string>();
+
+  private _lastCheckTime: number = 0;
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+  get settings(): ScriptApiLimits {
+    return this.job.script.apiLimits;
+  }
+
+  get orgs(): Array<ScriptOrg> {
+    let orgs = [this.job.script.sourceOrg, this.job.script.targetOrg].filter(org => org && org.isOrgMedia);
+    return orgs.filter((org, index) => orgs.findIndex(x => x.name == org.name) == index);
+  }
+
+  get isEnabled(): boolean {
+    return this.settings.enabled && this.orgs.length > 0;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Reads the limits at the start of the job,
+   * logs them with the estimated amount of the api requests needed for the job
+   *
+   * @returns {Promise<void>}
+   * @memberof MigrationJobLimits
+   */
+  async startAsync(): Promise<void> {
+    if (!this.isEnabled) {
+      return;
+    }
+    await this._readLimitsAsync();
+    this.orgs.forEach(org => {
+      [CONSTANTS.DAILY_API_REQUESTS_LIMIT, CONSTANTS.DAILY_BULK_V2_QUERY_JOBS_LIMIT].forEach(limitName => {
+        let limit = this._getLimit(org.name, limitName);
+        if (limit) {
+          this.logger.infoNormal(RESOURCES.apiLimitsCurrent, org.name, String(limit.Remaining), String(limit.Max), limitName);
+        }
+      });
+    });
+    this._logEstimate(true);
+    await this._checkReserveAsync();
+  }
+
+  /**
+   * Checks the limits before the given step of the task is started
+   *
+   * @param {MigrationJobTask} task
+   * @param {LimitsStep} step
+   * @returns {Promise<void>}
+   * @memberof MigrationJobLimits
+   */
+  async beginTaskAsync(task: MigrationJobTask, step: LimitsStep): Promise<void> {
+    if (!this.isEnabled || !this._isStepApplicable(task, step)) {
+      return;
+    }
+    await this._readLimitsAsync();
+    this._runningTasks.set(task, {
+      requests: new Map<string, number>(),
+      parallelTasks: new Set<string>()
+    });
+    await this._checkReserveAsync();
+  }
+
+  /**
+   * Logs the api requests consumed by the given step of the task
+   * and the estimated amount of the requests needed for the remaining tasks.
+   * The requests consumed while the other tasks were running in parallel
+   * can not be told apart, so they are counted for each of these tasks.
+   *
+   * @param {MigrationJobTask} task
+   * @param {LimitsStep} step
+   * @returns {Promise<void>}
+   * @memberof MigrationJobLimits
+   */
+  async completeTaskAsync(task: MigrationJobTask, step: LimitsStep): Promise<void> {
+    if (!this.isEnabled || !this._runningTasks.has(task)) {
+      return;
+    }
+    await this._readLimitsAsync();
+    let consumption = this._runningTasks.get(task);
+    this._runningTasks.delete(task);
+    this._completedSteps.add(step + ':' + task.sObjectName);
+    this.orgs.forEach(org => {
+      let limit = this._getLimit(org.name, CONSTANTS.DAILY_API_REQUESTS_LIMIT);
+      if (!limit) {
+        return;
+      }
+      let requests = String(consumption.requests.get(org.name) || 0);
+      if (consumption.parallelTasks.size > 0) {
+        this.logger.infoNormal(RESOURCES.apiLimitsParallelTaskConsumption, task.sObjectName,
+          requests, org.name, [...consumption.parallelTasks].join(', '), String(limit.Remaining), String(limit.Max));
+      } else {
+        this.logger.infoNormal(RESOURCES.apiLimitsTaskConsumption, task.sObjectName,
+          requests, org.name, String(limit.Remaining), String(limit.Max));
+      }
+    });
+    this._logEstimate(false);
+  }
+
+  /**
+   * Checks the limits between the api batches.
+   * The limits are read not more often than the configured interval.
+   *
+   * @param {string} sObjectName
+   * @returns {Promise<void>}
+   * @memberof MigrationJobLimits
+   */
+  async checkApiLimitsAsync(sObjectName: string): Promise<void> {
+    if (!this.isEnabled || Date.now() - this._lastCheckTime < this.settings.batchCheckIntervalMs) {
+      return;
+    }
+    await this._readLimitsAsync();
+    this.orgs.forEach(org => {
+      let limit = this._getLimit(org.name, CONSTANTS.DAILY_API_REQUESTS_LIMIT);
+      if (limit) {
+        this.logger.infoVerbose(RESOURCES.apiLimitsBatchCheck, sObjectName, org.name, String(limit.Remaining), String(limit.Max));
+      }
+    });
+    await this._checkReserveAsync();
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private async _readLimitsAsync(): Promise<void> {
+    this._lastCheckTime = Date.now();
+    for (let org of this.orgs) {
+      try {
+        let apiSf = new Sfdx(org);
+        this.limits.set(org.name, await apiSf.getLimitsAsync());
+      } catch (ex: any) {
+        // Keep the previously read limits
+        this.logger.warn(RESOURCES.apiLimitsReadError, org.name, ex.message || String(ex));
+      }
+      this._addTasksConsumption(org.name);
+    }
+  }
+
+  /**
+   * Adds the api requests consumed since the last check
+   * to all the tasks running at the moment
+   *
+   * @private
+   * @param {string} orgName
+   * @memberof MigrationJobLimits
+   */
+  private _addTasksConsumption(orgName: string) {
+    let limit = this._getLimit(orgName, CONSTANTS.DAILY_API_REQUESTS_LIMIT);
+    if (!limit) {
+      return;
+    }
+    let lastRemaining = this._lastRemainingRequests.get(orgName);
+    this._lastRemainingRequests.set(orgName, limit.Remaining);
+    let requests = lastRemaining == undefined ? 0 : Math.max(0, lastRemaining - limit.Remaining);
+    if (requests == 0) {
+      return;
+    }
+    this._runningTasks.forEach((consumption, task) => {
+      consumption.requests.set(orgName, (consumption.requests.get(orgName) || 0) + requests);
+      this._runningTasks.forEach((_, parallelTask) => {
+        if (parallelTask != task) {
+          consumption.parallelTasks.add(parallelTask.sObjectName);
+        }
+      });
+    });
+  }
+
+  private _getLimit(orgName: string, limitName: string): IOrgLimit {
+    let limits = this.limits.get(orgName);
+    return limits && limits[limitName];
+  }
+
+  /**
+   * Pauses the job until the remaining limits are above the reserve
+   * or aborts it
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof MigrationJobLimits
+   */
+  private async _checkReserveAsync(): Promise<void> {
+    let pausedMs = 0;
+    while (true) {
+      let reached = this._findReachedReserve();
+      if (!reached) {
+        return;
+      }
+      let reserve = String(this.settings.getReserve(reached.limitName));
+      if (!this.settings.pauseOnReserveReached || pausedMs >= this.settings.maxPauseMs) {
+        throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.apiLimitsReserveReached,
+          String(reached.limit.Remaining), reached.limitName, reached.orgName, reserve));
+      }
+      this.logger.warn(RESOURCES.apiLimitsPaused, String(reached.limit.Remaining), reached.limitName, reached.orgName, reserve,
+        String(Math.round(this.settings.pauseIntervalMs / 1000)));
+      await Common.delayAsync(this.settings.pauseIntervalMs);
+      pausedMs += this.settings.pauseIntervalMs;
+      await this._readLimitsAsync();
+    }
+  }
+
+  private _findReachedReserve(): { orgName: string, limitName: string, limit: IOrgLimit } {
+    for (let org of this.orgs) {
+      for (let limitName of [CONSTANTS.DAILY_API_REQUESTS_LIMIT, CONSTANTS.DAILY_BULK_V2_QUERY_JOBS_LIMIT]) {
+        let limit = this._getLimit(org.name, limitName);
+        if (limit && limit.Remaining <= this.settings.getReserve(limitName)) {
+          return { orgName: org.name, limitName, limit };
+        }
+      }
+    }
+    return null;
+  }
+
+  private _isStepApplicable(task: MigrationJobTask, step: LimitsStep): boolean {
+    if (task.targetData.media != DATA_MEDIA_TYPE.Org) {
+      return false;
+    }
+    return step == "delete" ? task.scriptObject.deleteOldData : task.operation != OPERATION.Readonly;
+  }
+
+  /**
+   * Logs the estimated amount of the api requests needed
+   * to complete the steps of the tasks which were not completed yet
+   *
+   * @private
+   * @param {boolean} includeRetrieval true to include the requests retrieving the records
+   * @memberof MigrationJobLimits
+   */
+  private _logEstimate(includeRetrieval: boolean) {
+    let script = this.job.script;
+    // Org name => Estimated amount of the api requests
+    let estimates = new Map<string, number>();
+    let ___add = (org: ScriptOrg, requests: number) => {
+      if (org.isOrgMedia && requests > 0) {
+        estimates.set(org.name, (estimates.get(org.name) || 0) + requests);
+      }
+    };
+    this.job.tasks.forEach(task => {
+      if (includeRetrieval) {
+        ___add(script.sourceOrg, Math.ceil(task.sourceTotalRecorsCount / CONSTANTS.ESTIMATED_QUERY_RECORDS_PER_REQUEST) || 1);
+        if (task.operation != OPERATION.Insert) {
+          ___add(script.targetOrg, Math.ceil(task.targetTotalRecorsCount / CONSTANTS.ESTIMATED_QUERY_RECORDS_PER_REQUEST) || 1);
+        }
+      }
+      if (this._isStepApplicable(task, "delete") && !this._completedSteps.has('delete:' + task.sObjectName)) {
+        ___add(script.targetOrg, this._estimateDmlRequests(task, task.targetTotalRecorsCount));
+      }
+      if (this._isStepApplicable(task, "update") && task.operation != OPERATION.Delete
+        && !this._completedSteps.has('update:' + task.sObjectName)) {
+        ___add(script.targetOrg, this._estimateDmlRequests(task, Math.max(task.sourceTotalRecorsCount, task.sourceData.records.length)));
+      }
+    });
+    estimates.forEach((requests, orgName) => {
+      let limit = this._getLimit(orgName, CONSTANTS.DAILY_API_REQUESTS_LIMIT);
+      if (!limit) {
+        return;
+      }
+      let available = Math.max(0, limit.Remaining - this.settings.getReserve(CONSTANTS.DAILY_API_REQUESTS_LIMIT));
+      if (requests > available) {
+        this.logger.warn(RESOURCES.apiLimitsEstimateExceedsAvailable, String(requests), String(available), orgName);
+      } else {
+        this.logger.infoNormal(RESOURCES.apiLimitsEstimatedRequests, String(requests), String(available), orgName);
+      }
+    });
+  }
+
+  private _estimateDmlRequests(task: MigrationJobTask, recordsAmount: number): number {
+    if (recordsAmount <= 0) {
+      return 0;
+    }
+    let script = this.job.script;
+    if (recordsAmount > script.bulkThreshold && !script.alwaysUseRestApiToUpdateRecords
+      && CONSTANTS.NOT_SUPPORTED_OBJECTS_IN_BULK_API.indexOf(task.sObjectName) < 0) {
+      if (script.bulkApiVersionNumber == 2) {
+        return CONSTANTS.ESTIMATED_API_REQUESTS_PER_BULK_V2_JOB;
+      }
+      return 2 + Math.ceil(recordsAmount / task.scriptObject.batchSizes.bulkV1BatchSize) * CONSTANTS.ESTIMATED_API_REQUESTS_PER_BULK_V1_BATCH;
+    }
+    return Math.ceil(recordsAmount / CONSTANTS.COMPOSITE_API_MAX_BATCH_SIZE);
+  }
+
+}
@@ -0,0 +1,297 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as casual from 'casual';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from '../../components/common_components/common';
+import { MASKING_STRATEGY } from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { CommandInitializationError } from '../common_models/errors';
+import { IMaskingStore } from '../common_models/helper_interfaces';
+import ScriptMaskingProfile from '../script_models/scriptMaskingProfile';
+import ScriptMaskingRule from '../script_models/scriptMaskingRule';
+import SFieldDescribe from '../sf_models/sfieldDescribe';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * Applies the masking profile to the records before they are written to the target.
+ * All the values are derived from the HMAC of the original value using the local secret,
+ * so the same source value is always masked to the same value across the objects and the runs.
+ * The generated values are kept in the mapping store to stay stable
+ * and to avoid collisions between the masked values.
+ *
+ * @export
+ * @class MigrationJobMasking
+ */
+export default class MigrationJobMasking {
+
+  job: MigrationJob;
+  secret: string;
+  store: IMaskingStore;
+  maskedValues: Set<string> = new Set<string>();
+  isModified: boolean = false;
+  failedGenerators: Set<string> = new Set<string>();
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+  get profile(): ScriptMaskingProfile {
+    return this.job.script.parsedMaskingProfile;
+  }
+
+  get storeFilePath(): string {
+    return path.join(this.job.script.maskingDirectoryPath, CONSTANTS.MASKING_STORE_FILENAME);
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Resolves the secret and loads the mapping store
+   * written by the previous runs
+   *
+   * @memberof MigrationJobMasking
+   */
+  load() {
+    if (!this.profile) {
+      return;
+    }
+    this.secret = this.profile.secret
+      || process.env[CONSTANTS.MASKING_SECRET_ENV_VARIABLE]
+      || this._getLocalSecret();
+    this.store = {
+      lastUpdateDate: Common.formatDateTime(new Date()),
+      mappings: {}
+    };
+    if (fs.existsSync(this.storeFilePath)) {
+      try {
+        this.store = JSON.parse(fs.readFileSync(this.storeFilePath, 'utf8'));
+      } catch (ex: any) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.maskingStoreReadError, this.storeFilePath, ex.message));
+      }
+      this.store.mappings = this.store.mappings || {};
+    }
+    this.maskedValues = new Set<string>(Object.values(this.store.mappings));
+  }
+
+  /**
+   * Returns the copy of the given records
+   * with the field values masked according to the masking profile
+   *
+   * @param {MigrationJobTask} task The task the records belong to
+   * @param {Array<any>} records The records to mask
+   * @returns {Array<any>}
+   * @memberof MigrationJobMasking
+   */
+  maskRecords(task: MigrationJobTask, records: Array<any>): Array<any> {
+
+    if (!this.profile || records.length == 0) {
+      return records;
+    }
+
+    let externalIdFields = task.scriptObject.externalId.split(CONSTANTS.COMPLEX_FIELDS_SEPARATOR);
+    let fieldToRuleMap = new Map<SFieldDescribe, ScriptMaskingRule>();
+    task.data.sFieldsToUpdate.forEach(field => {
+      if (CONSTANTS.MASKING_NOT_SUPPORTED_FIELD_TYPES.indexOf(field.type) >= 0
+        || externalIdFields.indexOf(field.name) >= 0) {
+        // The records are matched by the external id => it can't be masked
+        return;
+      }
+      let rule = this.profile.getRule(task.sObjectName, field);
+      if (rule) {
+        fieldToRuleMap.set(field, rule);
+      }
+    });
+
+    if (fieldToRuleMap.size == 0) {
+      return records;
+    }
+
+    let maskedAmount = 0;
+    let maskedRecords = records.map(record => {
+      let maskedRecord = Object.assign({}, record);
+      fieldToRuleMap.forEach((rule, field) => {
+        if (!maskedRecord.hasOwnProperty(field.name)) {
+          return;
+        }
+        maskedRecord[field.name] = this.maskValue(task.sObjectName, field, rule, maskedRecord[field.name]);
+        maskedAmount++;
+      });
+      return maskedRecord;
+    });
+
+    // The fake values are generated using the seeded generator,
+    //  so the mock values need to be random again
+    casual.seed(Date.now());
+
+    if (maskedAmount > 0) {
+      this.logger.infoVerbose(RESOURCES.maskingRecordsMasked, task.sObjectName, String(maskedAmount));
+    }
+    return maskedRecords;
+  }
+
+  /**
+   * Masks the single value using the given rule
+   *
+   * @param {string} sObjectName
+   * @param {SFieldDescribe} field
+   * @param {ScriptMaskingRule} rule
+   * @param {*} value
+   * @returns {*}
+   * @memberof MigrationJobMasking
+   */
+  maskValue(sObjectName: string, field: SFieldDescribe, rule: ScriptMaskingRule, value: any): any {
+
+    if (rule.strategy == MASKING_STRATEGY.Null) {
+      return null;
+    }
+    if (value == null || value === '') {
+      return value;
+    }
+
+    let self = this;
+    let stringValue = String(value);
+
+    switch (rule.strategy) {
+      case MASKING_STRATEGY.Hash: {
+        let hash = this._hmac(rule.salt + stringValue).toString('hex');
+        return rule.length > 0 ? hash.substr(0, rule.length) : hash;
+      }
+
+      case MASKING_STRATEGY.Redact:
+        return ___redact();
+
+      case MASKING_STRATEGY.FormatPreserving:
+        return this._getMappedValue([rule.strategy, rule.keepFirst, rule.keepLast, stringValue],
+          (attempt: number) => ___preserveFormat(attempt));
+
+      default: {
+        // Fake
+        let generator = rule.generator || CONSTANTS.MASKING_DEFAULT_GENERATORS.get(field.type);
+        if (!generator || this.failedGenerators.has(generator)) {
+          return this._getMappedValue([MASKING_STRATEGY.FormatPreserving, rule.keepFirst, rule.keepLast, stringValue],
+            (attempt: number) => ___preserveFormat(attempt));
+        }
+        return this._getMappedValue([rule.strategy, generator, stringValue], (attempt: number) => {
+          casual.seed(this._hmac(`${generator}\u0000${stringValue}`, attempt).readUInt32BE(0));
+          try {
+            let fakeValue = eval(`casual.${generator}`);
+            return String(rule.length > 0 ? String(fakeValue).substr(0, rule.length) : fakeValue);
+          } catch (ex: any) {
+            this.failedGenerators.add(generator);
+            this.logger.warn(RESOURCES.maskingGeneratorFailed, sObjectName, field.name, generator, ex.message);
+            return ___preserveFormat(attempt);
+          }
+        });
+      }
+    }
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___redact(): string {
+      let chars = stringValue.split('');
+      let maskAll = rule.keepFirst + rule.keepLast >= chars.length;
+      return chars.map((char, index) => {
+        return !maskAll && (index < rule.keepFirst || index >= chars.length - rule.keepLast) ? char : rule.maskChar;
+      }).join('');
+    }
+
+    function ___preserveFormat(attempt: number): string {
+      // Replaces each digit with digit and each letter with letter of the same case
+      let chars = stringValue.split('');
+      let bytes = self._getBytes(stringValue, attempt, chars.length);
+      return chars.map((char, index) => {
+        if (index < rule.keepFirst || index >= chars.length - rule.keepLast) {
+          return char;
+        }
+        if (/[0-9]/.test(char)) {
+          return String(bytes[index] % 10);
+        }
+        if (/[a-z]/.test(char)) {
+          return String.fromCharCode(97 + bytes[index] % 26);
+        }
+        if (/[A-Z]/.test(char)) {
+          return String.fromCharCode(65 + bytes[index] % 26);
+        }
+        return char;
+      }).join('');
+    }
+  }
+
+  /**
+   * Writes the mapping store to the disk
+   *
+   * @memberof MigrationJobMasking
+   */
+  save() {
+    if (!this.profile || !this.isModified) {
+      return;
+    }
+    this.store.lastUpdateDate = Common.formatDateTime(new Date());
+    fs.writeFileSync(path.join(this.job.script.maskingDirectory, CONSTANTS.MASKING_STORE_FILENAME),
+      JSON.stringify(this.store, null, 2));
+    this.isModified = false;
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _getLocalSecret(): string {
+    let filePath = path.join(this.job.script.maskingDirectory, CONSTANTS.MASKING_SECRET_FILENAME);
+    if (fs.existsSync(filePath)) {
+      return fs.readFileSync(filePath, 'utf8').trim();
+    }
+    let secret = crypto.randomBytes(32).toString('hex');
+    fs.writeFileSync(filePath, secret, { mode: 0o600 });
+    return secret;
+  }
+
+  private _hmac(value: string, attempt?: number): Buffer {
+    return crypto.createHmac('sha256', this.secret)
+      .update(value + (attempt ? `\u0000${attempt}` : ''))
+      .digest();
+  }
+
+  private _getBytes(value: string, attempt: number, length: number): Buffer {
+    let buffers = new Array<Buffer>();
+    for (let block = 0, total = 0; total < length; block++) {
+      let buffer = this._hmac(`${value}\u0000${block}`, attempt);
+      buffers.push(buffer);
+      total += buffer.length;
+    }
+    return Buffer.concat(buffers);
+  }
+
+  private _getMappedValue(keyParts: Array<any>, generate: (attempt: number) => string): string {
+    let key = this._hmac(keyParts.join('\u0000')).toString('hex');
+    if (this.store.mappings.hasOwnProperty(key)) {
+      return this.store.mappings[key];
+    }
+    let maskedValue: string;
+    for (let attempt = 0; attempt < CONSTANTS.MASKING_MAX_COLLISION_ATTEMPTS; attempt++) {
+      maskedValue = generate(attempt);
+      if (!this.maskedValues.has(maskedValue)) {
+        break;
+      }
+    }
+    this.store.mappings[key] = maskedValue;
+    this.maskedValues.add(maskedValue);
+    this.isModified = true;
+    return maskedValue;
+  }
+
+}
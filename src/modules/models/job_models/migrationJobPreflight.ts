@@ -0,0 +1,271 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from '../../components/common_components/common';
+import {
+  DATA_MEDIA_TYPE,
+  OPERATION,
+  PREFLIGHT_ISSUE_SEVERITY,
+  PREFLIGHT_ISSUE_TYPE,
+} from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { CommandExecutionError } from '../common_models/errors';
+import { IPreflightIssue } from '../common_models/helper_interfaces';
+import SFieldDescribe from '../sf_models/sfieldDescribe';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * The schema compatibility check between the Source and the Target
+ * performed before any DML.
+ * Compares the Source and the Target metadata of each field to update (including the mapped fields)
+ * and then the retrieved Source values against the restricted picklists
+ * and the lengths of the Target fields.
+ *
+ * @export
+ * @class MigrationJobPreflight
+ */
+export default class MigrationJobPreflight {
+
+  job: MigrationJob;
+  issues: Array<IPreflightIssue> = new Array<IPreflightIssue>();
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+  get errorsCount(): number {
+    return this.issues.filter(issue => issue.severity == PREFLIGHT_ISSUE_SEVERITY.Error).length;
+  }
+
+  get warningsCount(): number {
+    return this.issues.filter(issue => issue.severity == PREFLIGHT_ISSUE_SEVERITY.Warning).length;
+  }
+
+  get tasks(): Array<MigrationJobTask> {
+    return this.job.tasks.filter(task => task.targetData.media == DATA_MEDIA_TYPE.Org
+      && task.scriptObject.hasToBeUpdated
+      && !task.scriptObject.isDeletedFromSourceOperation);
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Compares the Source and the Target metadata of all fields to update
+   *
+   * @memberof MigrationJobPreflight
+   */
+  checkMetadata() {
+
+    this.logger.infoVerbose(RESOURCES.newLine);
+    this.logger.headerMinimal(RESOURCES.runningPreflightCheck);
+
+    this.tasks.forEach(task => {
+
+      let targetSObjectName = task.scriptObject.sourceTargetFieldMapping.targetSObjectName;
+
+      task.scriptObject.missingFieldsInTarget.forEach(fieldName => {
+        this._addIssue(task, fieldName, undefined, PREFLIGHT_ISSUE_SEVERITY.Warning, PREFLIGHT_ISSUE_TYPE.MissingField,
+          RESOURCES.preflightMissingField, targetSObjectName);
+      });
+
+      this._getFieldPairs(task).forEach(([source, target]) => {
+
+        let sourceTypeGroup = CONSTANTS.PREFLIGHT_FIELD_TYPE_GROUPS.get(source.type) || source.type;
+        let targetTypeGroup = CONSTANTS.PREFLIGHT_FIELD_TYPE_GROUPS.get(target.type) || target.type;
+
+        // Any value can be written to the text field
+        if (sourceTypeGroup != targetTypeGroup && targetTypeGroup != "text") {
+          this._addIssue(task, source.name, target.name, PREFLIGHT_ISSUE_SEVERITY.Error, PREFLIGHT_ISSUE_TYPE.TypeMismatch,
+            RESOURCES.preflightTypeMismatch, source.type, target.name, target.type);
+        }
+
+        if (sourceTypeGroup == "text" && targetTypeGroup == "text"
+          && target.length > 0 && source.length > target.length) {
+          this._addIssue(task, source.name, target.name, PREFLIGHT_ISSUE_SEVERITY.Warning, PREFLIGHT_ISSUE_TYPE.LengthMismatch,
+            RESOURCES.preflightLengthMismatch, target.name, String(target.length), String(source.length));
+        }
+
+        if (!target.creatable
+          && (task.operation == OPERATION.Insert || task.operation == OPERATION.Upsert)) {
+          this._addIssue(task, source.name, target.name, PREFLIGHT_ISSUE_SEVERITY.Error, PREFLIGHT_ISSUE_TYPE.NotCreateable,
+            RESOURCES.preflightNotCreateable, target.name, task.scriptObject.strOperation);
+        }
+
+        // The non-updateable Source fields are never updated
+        if (!target.updateable && source.updateable
+          && (task.operation == OPERATION.Update || task.operation == OPERATION.Upsert)) {
+          // Upsert fails only for the existing records
+          this._addIssue(task, source.name, target.name,
+            task.operation == OPERATION.Update ? PREFLIGHT_ISSUE_SEVERITY.Error : PREFLIGHT_ISSUE_SEVERITY.Warning,
+            PREFLIGHT_ISSUE_TYPE.NotUpdateable,
+            RESOURCES.preflightNotUpdateable, target.name, task.scriptObject.strOperation);
+        }
+
+        if (source.lookup && target.lookup
+          && !source.isPolymorphicField && !source.isPolymorphicFieldDefinition) {
+          let parentMapping = this.job.script.sourceTargetFieldMapping.get(source.referencedObjectType);
+          let expectedReferencedObjectType = parentMapping ? parentMapping.targetSObjectName : source.referencedObjectType;
+          if (target.referencedObjectType != expectedReferencedObjectType) {
+            this._addIssue(task, source.name, target.name, PREFLIGHT_ISSUE_SEVERITY.Error, PREFLIGHT_ISSUE_TYPE.LookupTargetMismatch,
+              RESOURCES.preflightLookupTargetMismatch, target.name, target.referencedObjectType, expectedReferencedObjectType);
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Checks the retrieved Source records against the restricted picklist values
+   * and the lengths of the Target fields.
+   * The fields with the value mapping or the mock patterns are skipped,
+   * since their values are changed before the update.
+   *
+   * @memberof MigrationJobPreflight
+   */
+  checkSourceRecords() {
+
+    this.logger.infoNormal(RESOURCES.runningPreflightRecordsCheck);
+
+    this.tasks.forEach(task => {
+
+      let records = task.sourceData.records;
+      if (records.length == 0) {
+        return;
+      }
+
+      let changedFields = task.scriptObject.mockFields.map(field => field.name);
+      let pairs = this._getFieldPairs(task).filter(([source]) => {
+        return !(task.scriptObject.updateWithMockData && changedFields.indexOf(source.name) >= 0)
+          && !(task.scriptObject.hasUseValueMapping && this.job.valueMapping.has(task.sObjectName + source.name));
+      });
+
+      pairs.forEach(([source, target]) => {
+
+        let values = records.map(record => record[source.name]).filter(value => value != null && value !== '');
+
+        if (target.restrictedPicklist && target.picklistValues.length > 0) {
+          let notAllowedValues = new Set<string>();
+          let recordsCount = 0;
+          values.forEach(value => {
+            let items = target.type == "multipicklist" ? String(value).split(';') : [String(value)];
+            let notAllowedItems = items.filter(item => target.picklistValues.indexOf(item) < 0);
+            if (notAllowedItems.length > 0) {
+              notAllowedItems.forEach(item => notAllowedValues.add(item));
+              recordsCount++;
+            }
+          });
+          if (recordsCount > 0) {
+            this._addIssue(task, source.name, target.name, PREFLIGHT_ISSUE_SEVERITY.Error, PREFLIGHT_ISSUE_TYPE.RestrictedPicklistValue,
+              RESOURCES.preflightRestrictedPicklistValue, String(recordsCount), target.name,
+              [...notAllowedValues].slice(0, CONSTANTS.PREFLIGHT_MAX_VALUES_IN_ISSUE).join(', '));
+          }
+        }
+
+        if (!this.job.script.allowFieldTruncation
+          && CONSTANTS.PREFLIGHT_FIELD_TYPE_GROUPS.get(target.type) == "text"
+          && target.length > 0) {
+          let recordsCount = values.filter(value => String(value).length > target.length).length;
+          if (recordsCount > 0) {
+            this._addIssue(task, source.name, target.name, PREFLIGHT_ISSUE_SEVERITY.Error, PREFLIGHT_ISSUE_TYPE.ValueTooLong,
+              RESOURCES.preflightValueTooLong, String(recordsCount), String(target.length), target.name);
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Writes the preflight report to the reports directory
+   * and fails the job if there are any errors
+   *
+   * @memberof MigrationJobPreflight
+   */
+  async completeAsync(): Promise<void> {
+
+    let directory = this.job.script.diffReportDirectory;
+
+    // CSV
+    let csvFilePath = path.join(directory, CONSTANTS.PREFLIGHT_REPORT_CSV_FILENAME);
+    this.logger.infoVerbose(RESOURCES.writingCsvFile, csvFilePath);
+    await Common.writeCsvFileAsync(csvFilePath, this.issues.map(issue => {
+      return {
+        Severity: issue.severity,
+        IssueType: issue.issueType,
+        SObjectName: issue.sObjectName,
+        FieldName: issue.fieldName,
+        TargetSObjectName: issue.targetSObjectName,
+        TargetFieldName: issue.targetFieldName,
+        Details: issue.details
+      };
+    }), true);
+
+    // JSON
+    let jsonFilePath = path.join(directory, CONSTANTS.PREFLIGHT_REPORT_JSON_FILENAME);
+    fs.writeFileSync(jsonFilePath, JSON.stringify({
+      objectSetIndex: this.job.script.objectSetIndex || 0,
+      sourceUsername: this.job.script.sourceOrg.name,
+      targetUsername: this.job.script.targetOrg.name,
+      createdDate: Common.formatDateTime(new Date()),
+      errors: this.errorsCount,
+      warnings: this.warningsCount,
+      issues: this.issues
+    }, null, 2));
+    this.logger.infoNormal(RESOURCES.preflightReportCreated, jsonFilePath);
+
+    if (this.errorsCount > 0) {
+      throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.preflightFailed,
+        String(this.errorsCount), String(this.warningsCount), jsonFilePath));
+    }
+    this.logger.infoMinimal(RESOURCES.preflightPassed, String(this.warningsCount));
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _getFieldPairs(task: MigrationJobTask): Array<[SFieldDescribe, SFieldDescribe]> {
+    let targetDescribe = task.scriptObject.targetSObjectDescribe;
+    if (!targetDescribe) {
+      return [];
+    }
+    let fieldMapping = task.scriptObject.sourceTargetFieldMapping.fieldMapping;
+    return task.data.sFieldsToUpdate.filter(source => source.isDescribed && source.isSimple && source.name != "Id")
+      .map(source => <[SFieldDescribe, SFieldDescribe]>[source, targetDescribe.fieldsMap.get(fieldMapping.get(source.name) || source.name)])
+      .filter(([, target]) => !!target);
+  }
+
+  private _addIssue(task: MigrationJobTask,
+    fieldName: string,
+    targetFieldName: string,
+    severity: PREFLIGHT_ISSUE_SEVERITY,
+    issueType: PREFLIGHT_ISSUE_TYPE,
+    message: RESOURCES,
+    ...tokens: Array<string>) {
+    let issue: IPreflightIssue = {
+      severity,
+      issueType,
+      sObjectName: task.sObjectName,
+      fieldName,
+      targetSObjectName: task.scriptObject.sourceTargetFieldMapping.targetSObjectName,
+      targetFieldName: targetFieldName || "",
+      details: this.logger.getResourceString(message, ...tokens)
+    };
+    this.issues.push(issue);
+    this.logger.warn(RESOURCES.preflightIssue, issue.severity, issue.sObjectName, issue.fieldName, issue.details);
+  }
+
+}
@@ -0,0 +1,305 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  CommandExecutionError,
+  CommandInitializationError,
+  Script,
+  ScriptObject,
+  ScriptOrg,
+} from '../';
+import {
+  BulkApiV1_0Engine,
+} from '../../components/api_engines/bulkApiV1_0Engine';
+import {
+  BulkApiV2_0Engine,
+} from '../../components/api_engines/bulkApiV2_0Engine';
+import { RestApiEngine } from '../../components/api_engines/restApiEngine';
+import { Common } from '../../components/common_components/common';
+import { OPERATION } from '../../components/common_components/enumerations';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { Sfdx } from '../../components/common_components/sfdx';
+import { CONSTANTS } from '../../components/common_components/statics';
+import {
+  IApiEngine,
+  IApiEngineInitParameters,
+  IRollbackRecorder,
+} from '../api_models';
+import { IRollbackJournal } from '../common_models/helper_interfaces';
+
+/**
+ * The rollback journal of the migration job.
+ * Records every change made in the Target org by the current object set
+ * (the Ids of the inserted records and the snapshots of the updated / deleted records),
+ * so the changes could be reverted when the job fails (the transactionalMode)
+ * or later using the sfdmu:rollback command.
+ *
+ * @export
+ * @class MigrationJobRollback
+ * @implements {IRollbackRecorder}
+ */
+export default class MigrationJobRollback implements IRollbackRecorder {
+
+  script: Script;
+  objectSetIndex: number;
+  journal: IRollbackJournal;
+
+  constructor(script: Script, objectSetIndex: number) {
+    this.script = script;
+    this.objectSetIndex = objectSetIndex || 0;
+  }
+
+  get logger(): Logger {
+    return this.script.logger;
+  }
+
+  get directoryPath(): string {
+    return path.join(
+      this.script.basePath,
+      CONSTANTS.ROLLBACK_SUB_DIRECTORY +
+      this.script.fanOutSubdirectory +
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+    );
+  }
+
+  get filePath(): string {
+    return path.join(this.directoryPath, CONSTANTS.ROLLBACK_JOURNAL_FILENAME);
+  }
+
+  /**
+   * true if the journal contains the changes which were not reverted yet
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof MigrationJobRollback
+   */
+  get hasChanges(): boolean {
+    return !!this.journal && this.journal.entries.some(entry => !entry.reverted);
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Starts the new empty journal
+   *
+   * @memberof MigrationJobRollback
+   */
+  start() {
+    this.journal = {
+      objectSetIndex: this.objectSetIndex,
+      targetUsername: this.script.targetOrg.name,
+      startDate: Common.formatDateTime(new Date()),
+      lastUpdateDate: Common.formatDateTime(new Date()),
+      rolledBack: false,
+      entries: []
+    };
+    this.save();
+  }
+
+  /**
+   * Loads the existing journal from the disk
+   *
+   * @returns {boolean} false if there is no journal to load
+   * @memberof MigrationJobRollback
+   */
+  load(): boolean {
+    if (!fs.existsSync(this.filePath)) {
+      return false;
+    }
+    try {
+      this.journal = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (ex: any) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.rollbackJournalReadError, this.filePath, ex.message));
+    }
+    this.journal.entries = this.journal.entries || [];
+    return true;
+  }
+
+  /**
+   * Implements IRollbackRecorder.
+   * Adds the new entry to the journal and writes it to the disk immediately,
+   * so the changes are not lost even if the process was killed.
+   *
+   * @param {OPERATION} operation
+   * @param {string} sObjectName
+   * @param {Array<any>} records
+   * @memberof MigrationJobRollback
+   */
+  recordChanges(operation: OPERATION, sObjectName: string, records: Array<any>): void {
+    if (!this.journal) {
+      return;
+    }
+    this.journal.entries.push({
+      operation: ScriptObject.getStrOperation(operation),
+      sObjectName,
+      date: Common.formatDateTime(new Date()),
+      reverted: false,
+      records
+    });
+    this.save();
+  }
+
+  /**
+   * Reverts all recorded changes in the reverse order:
+   * the inserted records are deleted, the updated records are restored
+   * and the deleted records are inserted again.
+   *
+   * @param {ScriptOrg} org The Target org
+   * @returns {Promise<number>} Total amount of the reverted records
+   * @memberof MigrationJobRollback
+   */
+  async revertAsync(org: ScriptOrg): Promise<number> {
+
+    if (!this.hasChanges) {
+      this.logger.infoNormal(RESOURCES.nothingToRollback, this.filePath);
+      return 0;
+    }
+
+    this.logger.infoMinimal(RESOURCES.rollingBackChanges, this.filePath, org.name);
+
+    // Old Id => new Id of the re-inserted records
+    let idMap = new Map<string, string>();
+    let totalReverted = 0;
+
+    let entries = this.journal.entries.filter(entry => !entry.reverted).reverse();
+    for (let entry of entries) {
+      let operation = ScriptObject.getOperation(entry.operation);
+      let records: Array<any>;
+      let revertOperation: OPERATION;
+
+      switch (operation) {
+        case OPERATION.Insert:
+          revertOperation = OPERATION.Delete;
+          records = entry.records.map(record => {
+            return {
+              Id: idMap.get(record["Id"]) || record["Id"]
+            };
+          });
+          break;
+
+        case OPERATION.Update:
+          revertOperation = OPERATION.Update;
+          records = entry.records.map(record => ___remapIds(Object.assign({}, record)));
+          break;
+
+        case OPERATION.Delete:
+        case OPERATION.HardDelete:
+          revertOperation = OPERATION.Insert;
+          records = await ___getRecordsToReinsertAsync(entry.sObjectName, entry.records);
+          break;
+
+        default:
+          continue;
+      }
+
+      let oldIds = records.map(record => record["Id"]);
+      let engine = this._createApiEngine(org, revertOperation, entry.sObjectName, records.length);
+      let resultRecords = await engine.executeCRUD(records, () => { });
+      if (resultRecords == null) {
+        throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.rollbackFailed,
+          entry.sObjectName, ScriptObject.getStrOperation(revertOperation)));
+      }
+
+      if (revertOperation == OPERATION.Insert) {
+        records.forEach((record, index) => {
+          if (record["Id"] && !record[CONSTANTS.ERRORS_FIELD_NAME]) {
+            idMap.set(oldIds[index], record["Id"]);
+          }
+        });
+      }
+
+      entry.reverted = true;
+      this.save();
+
+      totalReverted += records.length;
+      this.logger.infoNormal(RESOURCES.rollbackEntryReverted,
+        entry.sObjectName, entry.operation, String(records.length));
+    }
+
+    this.journal.rolledBack = true;
+    this.save();
+
+    this.logger.infoMinimal(RESOURCES.rollbackCompleted, String(totalReverted));
+
+    return totalReverted;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___remapIds(record: any): any {
+      Object.keys(record).forEach(field => {
+        if (field != "Id" && typeof record[field] == 'string' && idMap.has(record[field])) {
+          record[field] = idMap.get(record[field]);
+        }
+      });
+      return record;
+    }
+
+    async function ___getRecordsToReinsertAsync(sObjectName: string, snapshots: Array<any>): Promise<Array<any>> {
+      let describe = await new Sfdx(org).describeSObjectAsync(sObjectName);
+      return snapshots.map(snapshot => {
+        let record = Object.keys(snapshot).reduce((acc, field) => {
+          let fieldDescribe = describe.fieldsMap.get(field);
+          if (fieldDescribe && fieldDescribe.creatable) {
+            acc[field] = snapshot[field];
+          }
+          return acc;
+        }, { Id: snapshot["Id"] });
+        return ___remapIds(record);
+      });
+    }
+  }
+
+  /**
+   * Writes the journal to the disk
+   *
+   * @memberof MigrationJobRollback
+   */
+  save() {
+    this.journal.lastUpdateDate = Common.formatDateTime(new Date());
+    if (!fs.existsSync(this.directoryPath)) {
+      fs.mkdirSync(this.directoryPath, { recursive: true });
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(this.journal, null, 2));
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _createApiEngine(org: ScriptOrg, operation: OPERATION, sObjectName: string, amountOfRecordsToProcess: number): IApiEngine {
+    let init: IApiEngineInitParameters = {
+      logger: this.logger,
+      connectionData: org.connectionData,
+      sObjectName,
+      operation,
+      pollingIntervalMs: this.script.pollingIntervalMs,
+      concurrencyMode: this.script.concurrencyMode,
+      updateRecordId: true,
+      restApiBatchSize: this.script.restApiBatchSize || CONSTANTS.DEFAULT_REST_API_BATCH_SIZE,
+      bulkApiV1BatchSize: this.script.bulkApiV1BatchSize || CONSTANTS.DEFAULT_BULK_API_V1_BATCH_SIZE,
+      allOrNone: this.script.allOrNone,
+      targetCSVFullFilename: null,
+      createTargetCSVFiles: false,
+      simulationMode: false,
+      retryPolicy: this.script.retryPolicy
+    };
+    if ((amountOfRecordsToProcess > this.script.bulkThreshold && !this.script.alwaysUseRestApiToUpdateRecords)
+      && CONSTANTS.NOT_SUPPORTED_OBJECTS_IN_BULK_API.indexOf(sObjectName) < 0) {
+      switch (this.script.bulkApiVersionNumber) {
+        case 2: // Bulk Api V2.0
+          return new BulkApiV2_0Engine(init);
+        default: // Bulk Api V1.0
+          return new BulkApiV1_0Engine(init);
+      }
+    }
+    return new RestApiEngine(init);
+  }
+
+}
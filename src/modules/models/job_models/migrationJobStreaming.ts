@@ -0,0 +1,304 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+
+import {
+  DiskKeyValueIndex,
+} from '../../components/common_components/diskKeyValueIndex';
+import {
+  DATA_MEDIA_TYPE,
+  OPERATION,
+} from '../../components/common_components/enumerations';
+import { CONSTANTS } from '../../components/common_components/statics';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * The disk storage of the task processed in the streaming mode.
+ * The source records are spooled to the file and read back chunk by chunk.
+ * The target records and the source => target record Id map
+ * are kept in the on-disk key/value indexes,
+ * so the memory used by the task does not depend on the amount of its records.
+ *
+ * @export
+ * @class MigrationJobStreaming
+ */
+export default class MigrationJobStreaming {
+
+  task: MigrationJobTask;
+  sourceRecordsCount: number = 0;
+  targetRecordsCount: number = 0;
+  backwardsCompleted: boolean = false;
+
+  // External Id value => Target record
+  targetRecords: DiskKeyValueIndex;
+
+  // Source record Id => Target record Id
+  targetIds: DiskKeyValueIndex;
+
+  constructor(task: MigrationJobTask) {
+    this.task = task;
+    this.targetRecords = new DiskKeyValueIndex(path.join(this.directoryPath, CONSTANTS.STREAMING_TARGET_RECORDS_INDEX_NAME));
+    this.targetIds = new DiskKeyValueIndex(path.join(this.directoryPath, CONSTANTS.STREAMING_TARGET_IDS_INDEX_NAME));
+  }
+
+  get directoryPath(): string {
+    return path.join(this.task.script.streamingDirectoryPath, this.task.sObjectName);
+  }
+
+  get sourceFilePath(): string {
+    return path.join(this.directoryPath, CONSTANTS.STREAMING_SOURCE_RECORDS_FILENAME);
+  }
+
+  /**
+   * The max amount of the records processed at once
+   *
+   * @readonly
+   * @type {number}
+   * @memberof MigrationJobStreaming
+   */
+  get chunkSize(): number {
+    return this.task.script.bulkQueryPageSize || CONSTANTS.DEFAULT_BULK_QUERY_PAGE_SIZE;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Checks whether the given task can be processed in the streaming mode.
+   * The records of the streamed object are not available in the memory,
+   * so the filtered queries of the related objects can not be built from them.
+   *
+   * @static
+   * @param {MigrationJobTask} task
+   * @returns {boolean}
+   * @memberof MigrationJobStreaming
+   */
+  static isSupported(task: MigrationJobTask): boolean {
+    let scriptObject = task.scriptObject;
+    let script = task.script;
+    let relatedObjects = scriptObject.parentLookupObjects.concat(script.objects.filter(object => {
+      return object.parentLookupObjects.some(parentObject => parentObject.name == scriptObject.name);
+    }));
+    return script.sourceOrg.media == DATA_MEDIA_TYPE.Org
+      && script.targetOrg.media == DATA_MEDIA_TYPE.Org
+      && script.bulkQueryApiVersionNumber == 2
+      && !scriptObject.useSourceCSVFile
+      && [OPERATION.Insert, OPERATION.Upsert, OPERATION.Update].indexOf(scriptObject.operation) >= 0
+      && !scriptObject.isSpecialObject
+      && !task.data.isPersonAccountOrContact
+      && scriptObject.processAllSource
+      && !scriptObject.isIncrementalMode
+      && relatedObjects.every(object => object.processAllSource && !object.isIncrementalMode);
+  }
+
+  /**
+   * Starts spooling of the source records.
+   * The source and the target records are always retrieved again,
+   * the Id map is kept in resume mode, since the target records were already created by the previous run.
+   *
+   * @param {boolean} isResumed
+   * @memberof MigrationJobStreaming
+   */
+  startSourceRecords(isResumed: boolean) {
+    if (!isResumed) {
+      this.targetIds.clear();
+    }
+    this.targetRecords.clear();
+    fs.mkdirSync(this.directoryPath, { recursive: true });
+    fs.writeFileSync(this.sourceFilePath, '');
+    this.sourceRecordsCount = 0;
+    this.backwardsCompleted = false;
+  }
+
+  /**
+   * Appends the retrieved source records to the file
+   *
+   * @param {Array<any>} records
+   * @memberof MigrationJobStreaming
+   */
+  appendSourceRecords(records: Array<any>) {
+    if (records.length == 0) {
+      return;
+    }
+    fs.appendFileSync(this.sourceFilePath, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+    this.sourceRecordsCount += records.length;
+  }
+
+  /**
+   * Starts indexing of the target records
+   *
+   * @memberof MigrationJobStreaming
+   */
+  startTargetRecords() {
+    this.targetRecords.clear();
+    this.targetRecordsCount = 0;
+  }
+
+  /**
+   * Adds the retrieved target records to the index by their external id values
+   *
+   * @param {Array<any>} records
+   * @memberof MigrationJobStreaming
+   */
+  appendTargetRecords(records: Array<any>) {
+    records.forEach(record => {
+      let externalIdValue = this.task.getRecordValue(record, this.task.complexExternalId);
+      if (record["Id"] && externalIdValue) {
+        this.targetRecords.set(String(externalIdValue), record);
+      }
+    });
+    this.targetRecordsCount += records.length;
+  }
+
+  /**
+   * Writes all the buffered index values to the disk
+   *
+   * @memberof MigrationJobStreaming
+   */
+  flush() {
+    this.targetRecords.flush();
+    this.targetIds.flush();
+  }
+
+  /**
+   * Reads the spooled source records chunk by chunk
+   *
+   * @param {(records: Array<any>) => Promise<void>} chunkCallbackAsync Processes the chunk of the records
+   * @param {(record: any) => boolean} [filter] Returns true to include the record into the chunk
+   * @returns {Promise<void>}
+   * @memberof MigrationJobStreaming
+   */
+  async readSourceRecordsAsync(chunkCallbackAsync: (records: Array<any>) => Promise<void>, filter?: (record: any) => boolean): Promise<void> {
+
+    let self = this;
+
+    if (!fs.existsSync(this.sourceFilePath)) {
+      return;
+    }
+
+    let file = fs.openSync(this.sourceFilePath, 'r');
+    let buffer = Buffer.alloc(CONSTANTS.STREAMING_READ_BUFFER_SIZE);
+    let decoder = new StringDecoder('utf8');
+    let records = new Array<any>();
+    let tail = '';
+
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(file, buffer, 0, buffer.length, null)) > 0) {
+        let lines = (tail + decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+        tail = lines.pop();
+        for (let line of lines) {
+          await ___addLineAsync(line);
+        }
+      }
+      await ___addLineAsync(tail + decoder.end());
+      if (records.length > 0) {
+        await chunkCallbackAsync(records);
+      }
+    } finally {
+      fs.closeSync(file);
+    }
+
+    // ---------------------- Internal functions --------------------------- //
+    async function ___addLineAsync(line: string): Promise<void> {
+      if (!line) {
+        return;
+      }
+      let record = JSON.parse(line);
+      if (filter && !filter(record)) {
+        return;
+      }
+      records.push(record);
+      if (records.length >= self.chunkSize) {
+        let chunk = records;
+        records = new Array<any>();
+        await chunkCallbackAsync(chunk);
+      }
+    }
+  }
+
+  /**
+   * Returns the target records matching the given source records by the external id
+   *
+   * @param {Array<any>} sourceRecords
+   * @returns {Array<any>}
+   * @memberof MigrationJobStreaming
+   */
+  getTargetRecords(sourceRecords: Array<any>): Array<any> {
+    let externalIdValues = sourceRecords
+      .map(record => this.task.getRecordValue(record, this.task.complexExternalId))
+      .filter(value => !!value)
+      .map(value => String(value));
+    return [...this.targetRecords.getMany(externalIdValues).values()];
+  }
+
+  /**
+   * Stores the Ids of the target records mapped to the source records
+   *
+   * @param {Map<any, any>} sourceToTargetRecordMap
+   * @memberof MigrationJobStreaming
+   */
+  setTargetIds(sourceToTargetRecordMap: Map<any, any>) {
+    sourceToTargetRecordMap.forEach((target, source) => {
+      if (source["Id"] && target["Id"]) {
+        this.targetIds.set(source["Id"], target["Id"]);
+        this._targetIdsCache.delete(source["Id"]);
+      }
+    });
+    this.targetIds.flush();
+  }
+
+  /**
+   * Loads the target Ids of the given source records at once.
+   * Replaces the previously loaded Ids.
+   *
+   * @param {Array<string>} sourceIds
+   * @memberof MigrationJobStreaming
+   */
+  loadTargetIds(sourceIds: Array<string>) {
+    let targetIds = this.targetIds.getMany(sourceIds);
+    this._targetIdsCache = new Map<string, string>();
+    sourceIds.forEach(sourceId => {
+      this._targetIdsCache.set(sourceId, targetIds.get(sourceId) || null);
+    });
+  }
+
+  /**
+   * Returns the Id of the target record mapped to the given source record
+   *
+   * @param {string} sourceId
+   * @returns {string}
+   * @memberof MigrationJobStreaming
+   */
+  getTargetId(sourceId: string): string {
+    if (this._targetIdsCache.has(sourceId)) {
+      return this._targetIdsCache.get(sourceId);
+    }
+    return this.targetIds.get(sourceId);
+  }
+
+  /**
+   * Removes the spooled source records and the target records index
+   * when they are not needed anymore. The Id map is kept for the resume mode.
+   *
+   * @memberof MigrationJobStreaming
+   */
+  releaseRecords() {
+    this.targetRecords.clear();
+    if (fs.existsSync(this.sourceFilePath)) {
+      fs.unlinkSync(this.sourceFilePath);
+    }
+    this._targetIdsCache = new Map<string, string>();
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _targetIdsCache: Map<string, string> = new Map<string, string>();
+
+}
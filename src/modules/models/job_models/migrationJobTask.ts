@@ -7,7 +7,6 @@
 
 import * as casual from 'casual';
 import * as deepClone from 'deep.clone';
-import * as fs from 'fs';
 import {
   composeQuery,
   Condition,
@@ -37,6 +36,9 @@ import {
 import {
   BulkApiV2_0Engine,
 } from '../../components/api_engines/bulkApiV2_0Engine';
+import {
+  CompositeApiEngine,
+} from '../../components/api_engines/compositeApiEngine';
 import { RestApiEngine } from '../../components/api_engines/restApiEngine';
 import { Common } from '../../components/common_components/common';
 import {
@@ -64,10 +66,12 @@ import {
   ICSVIssueCsvRow,
   IFieldMapping,
   IFieldMappingResult,
+  IIncrementalWatermark,
   IMissingParentLookupRecordCsvRow,
   IMockField,
 } from '../common_models/helper_interfaces';
 import SFieldDescribe from '../sf_models/sfieldDescribe';
+import MigrationJobStreaming from './migrationJobStreaming';
 
 const alasql = require("alasql");
 
@@ -81,6 +85,9 @@ export default class MigrationJobTask {
   targetTotalRecorsCount: number = 0;
   apiEngine: IApiEngine;
 
+  // Set when the records of the task are processed in the streaming mode
+  streaming: MigrationJobStreaming;
+
   processedData: ProcessedData;
   updateMode: 'forwards' | 'backwards';
 
@@ -101,6 +108,10 @@ export default class MigrationJobTask {
     return this.scriptObject.script;
   }
 
+  get incrementalWatermark(): IIncrementalWatermark {
+    return this.job.watermarks && this.job.watermarks.getWatermark(this);
+  }
+
   get logger(): Logger {
     return this.script.logger;
   }
@@ -142,7 +153,7 @@ export default class MigrationJobTask {
     let csvIssues = new Array<ICSVIssueCsvRow>();
 
     // Check csv file --------------------------------------
-    if (!fs.existsSync(this.data.sourceCsvFilename)) {
+    if (!(await Common.dataFileExistsAsync(this.data.sourceCsvFilename))) {
 
       // Missing or empty file
       if (!this.script.excludeIdsFromCSVFiles) {
@@ -586,6 +597,22 @@ export default class MigrationJobTask {
     return record[propName];
   }
 
+  /**
+   * Returns the Id of the target record
+   *    mapped to the given source record of this sobject
+   *
+   * @param {string} sourceId The Id of the source record
+   * @returns {string}
+   * @memberof MigrationJobTask
+   */
+  getTargetRecordId(sourceId: string): string {
+    if (this.streaming) {
+      return this.streaming.getTargetId(sourceId);
+    }
+    let targetRecord = this.data.sourceToTargetRecordMap.get(this.sourceData.idRecordsMap.get(sourceId));
+    return targetRecord && targetRecord["Id"];
+  }
+
   /**
    * Get CSV filename for this sobject including the full directory path
    *
@@ -606,6 +633,8 @@ export default class MigrationJobTask {
    * @param {boolean} [removeLimits=false]  true to remove LIMIT, OFFSET, ORDERBY clauses
    * @param {Query} [parsedQuery]  Default parsed query.
    * @param {boolan} [useFieldMapping]  Transform query string according to the field mapping before return.
+   * @param {boolean} [isTargetQuery=false]  true if the query is executed against the target
+   * @param {boolean} [isDeleteQuery=false]  true to not apply the incremental watermark to the query
    * @returns {string}
    * @memberof MigrationJobTask
    */
@@ -613,7 +642,8 @@ export default class MigrationJobTask {
     removeLimits: boolean = false,
     parsedQuery?: Query,
     useFieldMapping: boolean = false,
-    isTargetQuery: boolean = false): string {
+    isTargetQuery: boolean = false,
+    isDeleteQuery: boolean = false): string {
 
     let self = this;
 
@@ -637,13 +667,19 @@ export default class MigrationJobTask {
     if (isTargetQuery) {
       // Fix target query
       ___filterTargetQuery(tempQuery);
-    } else if (this.scriptObject.sourceRecordsFilter) {
-      // Add any extra filter conditions to the source query
-      try {
-        const additionalWhereClause = parseQuery(`SELECT Id FROM ${this.sObjectName} WHERE ${this.scriptObject.sourceRecordsFilter}`).where;
-        tempQuery.where = Common.mergeWhereClauses(tempQuery.where, additionalWhereClause);
-      } catch (ex) {
-        self.logger.warn(RESOURCES.skippedSourceRecordsFilterWarning, ex.message);
+    } else {
+      if (this.scriptObject.sourceRecordsFilter) {
+        // Add any extra filter conditions to the source query
+        try {
+          const additionalWhereClause = parseQuery(`SELECT Id FROM ${this.sObjectName} WHERE ${this.scriptObject.sourceRecordsFilter}`).where;
+          tempQuery.where = Common.mergeWhereClauses(tempQuery.where, additionalWhereClause);
+        } catch (ex) {
+          self.logger.warn(RESOURCES.skippedSourceRecordsFilterWarning, ex.message);
+        }
+      }
+      if (!isDeleteQuery) {
+        // Retrieve only the records modified since the previous run
+        tempQuery.where = this._composeIncrementalWhereClause(tempQuery.where);
       }
     }
 
@@ -726,11 +762,11 @@ export default class MigrationJobTask {
    * @returns
    * @memberof MigrationJobTask
    */
-  createDeleteQuery() {
+  createDeleteQuery(fieldNames: Array<string> = ["Id"]) {
     if (!this.scriptObject.parsedDeleteQuery) {
-      return this.createQuery(["Id"], true, null);
+      return this.createQuery(fieldNames, true, null, false, false, true);
     } else {
-      return this.createQuery(["Id"], true, this.scriptObject.parsedDeleteQuery);
+      return this.createQuery(fieldNames, true, this.scriptObject.parsedDeleteQuery, false, false, true);
     }
   }
 
@@ -787,15 +823,20 @@ export default class MigrationJobTask {
    */
   async deleteOldTargetRecords(): Promise<boolean> {
     // Checking
+    //  (the records inserted by the previous run are kept when retrying the failed records)
     if (!(this.targetData.media == DATA_MEDIA_TYPE.Org
       && this.scriptObject.operation != OPERATION.Readonly
-      && this.scriptObject.deleteOldData)) {
+      && this.scriptObject.deleteOldData
+      && !this.script.retryFailedMode)) {
       this.logger.infoNormal(RESOURCES.nothingToDelete, this.sObjectName);
       return false;
     }
     // Querying
+    //  (in the transactional mode the field values are needed to insert the deleted records again by the rollback)
     this.logger.infoNormal(RESOURCES.deletingTargetSObjectRecords, this.sObjectName);
-    let soql = this.createDeleteQuery();
+    let soql = this.createDeleteQuery(!this.job.rollback ? undefined : ["Id"].concat(this.data.sFieldsToUpdate
+      .filter(field => field.isSimple && field.name != "Id")
+      .map(field => field.name)));
     let apiSf = new Sfdx(this.targetData.org);
     let queryResult = await apiSf.queryOrgAsync(soql, this.targetData.useBulkQueryApi, null, this.script.pollingQueryTimeoutMs);
     if (queryResult.length == 0) {
@@ -816,6 +857,15 @@ export default class MigrationJobTask {
       this._apiOperationError(OPERATION.Delete);
     }
 
+    if (this.job.rollback) {
+      // The target records are not retrieved yet, so the api engine has no snapshots of the deleted records
+      let deletedIds = new Set<string>(resultRecords.filter(record => !record[CONSTANTS.ERRORS_FIELD_NAME]).map(record => record["Id"]));
+      let snapshots = queryResult.filter(record => deletedIds.has(record["Id"]));
+      if (snapshots.length > 0) {
+        this.job.rollback.recordChanges(OPERATION.Delete, this.sObjectName, snapshots);
+      }
+    }
+
     // Done
     this.logger.infoVerbose(RESOURCES.deletingRecordsCompleted, this.sObjectName);
     return true;
@@ -830,6 +880,11 @@ export default class MigrationJobTask {
    */
   async deleteRecords(): Promise<number> {
 
+    if (this.script.retryFailedMode) {
+      // Only the failed records are processed in retry mode
+      return 0;
+    }
+
     //  DELETE ORG :::::::::
     //  Create delete data => only the target records which are existing in the Source
     let recordsToDelete = this.sourceData.records.map(sourceRecord => {
@@ -885,6 +940,11 @@ export default class MigrationJobTask {
       return hasRecords;
     };
 
+    if (this.streaming) {
+      // The records of the streamed object are stored on the disk
+      return await this._retrieveStreamedRecordsAsync(queryMode, reversed);
+    }
+
 
     // Read SOURCE DATA *********************************************************************************************
     // **************************************************************************************************************
@@ -915,8 +975,9 @@ export default class MigrationJobTask {
           let sfdx = new Sfdx(this.sourceData.org, this._sourceFieldMapping);
           records = await sfdx.queryOrgOrCsvAsync(query, this.sourceData.useBulkQueryApi, undefined, undefined, this.scriptObject.useQueryAll, this.script.pollingQueryTimeoutMs);
           hasRecords = true;
-        } else if (!this.scriptObject.processAllSource) {
+        } else if (!this.scriptObject.processAllSource || reversed && this.incrementalWatermark) {
           // Filtered records ************ //
+          // (+ the unmodified parents of the modified children in the incremental mode)
           let queries = this._createFilteredQueries(queryMode, reversed);
           if (queries.length > 0) {
             // Start message ------
@@ -1026,6 +1087,27 @@ export default class MigrationJobTask {
   }
 
 
+  /**
+   * Retrieves the target records by their Ids
+   * and adds them to the target data of the task.
+   * Used to load the records changed by the previous run
+   * which were not retrieved by the target query.
+   *
+   * @param {Array<string>} ids The target record Ids
+   * @returns {Promise<Array<any>>}
+   * @memberof MigrationJobTask
+   */
+  async retrieveTargetRecordsByIdsAsync(ids: Array<string>): Promise<Array<any>> {
+    if (ids.length == 0 || this.targetData.media != DATA_MEDIA_TYPE.Org) {
+      return new Array<any>();
+    }
+    let fieldsInQuery = this.data.fieldsInQuery.filter(field => this.data.fieldsExcludedFromTargetQuery.indexOf(field) < 0);
+    let queries = Common.createFieldInQueries(fieldsInQuery, "Id", this.sObjectName, ids);
+    let records = await this._retrieveFilteredRecords(queries, this.targetData, this._targetFieldMapping, undefined, this.script.pollingQueryTimeoutMs);
+    this._setExternalIdMap(records, this.targetData.extIdRecordsMap, this.targetData.idRecordsMap);
+    return records;
+  }
+
   /**
    * Performs target records update.
    *
@@ -1041,6 +1123,11 @@ export default class MigrationJobTask {
     // Set the run context
     this.updateMode = updateMode;
 
+    if (this.job.failedRecords.isTaskSkipped(this)) {
+      // No failed records of this object to retry
+      return 0;
+    }
+
     if (this.scriptObject.isDeletedFromSourceOperation) {
       if (updateMode != "forwards") {
         return 0;
@@ -1053,17 +1140,21 @@ export default class MigrationJobTask {
       //  WRITE CSV ::::::::::
       if (this.operation != OPERATION.Delete && updateMode == "forwards") {
         this.logger.infoNormal(RESOURCES.writingToFile, this.sObjectName, this.data.csvFilename);
-        let records = await ___filterRecords(this.sourceData.records);
-        records = ___mockRecords(records);
+        let records = await this.transformRecordsAsync(this.sourceData.records);
         self.mapRecords(records);
         records = ___removeCSVFileColumns(records);
         await ___writeToTargetCSVFile(records);
-        await Common.writeCsvFileAsync(self.data.csvFilename, records, true);
+        await Common.writeCsvFileAsync(self.data.csvFilename, records, true, null, self.sourceData.fieldTypesMap);
         return records.length;
       }
       return 0;
     }
 
+    if (this.streaming) {
+      //  UPDATE ORG CHUNK BY CHUNK :::::::::
+      return await ___updateStreamedRecordsAsync();
+    }
+
     //  UPDATE ORG :::::::::
     let totalProcessedRecordsAmount = 0;
     let totalNonProcessedRecordsAmount = 0;
@@ -1109,6 +1200,90 @@ export default class MigrationJobTask {
 
 
     // ------------------------ Internal functions --------------------------
+    async function ___updateStreamedRecordsAsync(): Promise<number> {
+
+      // The lookups to the self and to the next objects are set by the backwards step
+      let backwardsLookupFields = self.data.sFieldsToUpdate.filter(field => field.isSimpleReference
+        && self.data.prevTasks.indexOf(field.parentLookupObject.task) < 0);
+
+      if (updateMode == "backwards" && (self.streaming.backwardsCompleted || backwardsLookupFields.length == 0)) {
+        return 0;
+      }
+
+      let totalProcessedRecordsAmount = 0;
+      let totalNonProcessedRecordsAmount = 0;
+      let totalReadRecordsAmount = 0;
+      let chunkNumber = 0;
+
+      await self.streaming.readSourceRecordsAsync(async records => {
+
+        // Load the chunk ****
+        self._setExternalIdMap(records, self.sourceData.extIdRecordsMap, self.sourceData.idRecordsMap);
+        if (updateMode == "forwards") {
+          self._setExternalIdMap(self.streaming.getTargetRecords(records), self.targetData.extIdRecordsMap, self.targetData.idRecordsMap, true);
+          if (self.operation == OPERATION.Insert) {
+            // Skip the records inserted before the job was interrupted
+            records.forEach(source => {
+              let targetId = self.job.checkpoint.getTargetId(self, source["Id"]);
+              if (targetId && !self.data.sourceToTargetRecordMap.has(source)) {
+                self.data.sourceToTargetRecordMap.set(source, { Id: targetId });
+              }
+            });
+          }
+        } else {
+          // The indexed target records are compared to detect the unchanged lookups,
+          // the records inserted by the forwards step are known only by their Ids
+          self._setExternalIdMap(self.streaming.getTargetRecords(records), self.targetData.extIdRecordsMap, self.targetData.idRecordsMap, true);
+          self.streaming.loadTargetIds(records.map(record => record["Id"]));
+          records.forEach(source => {
+            let targetId = self.streaming.getTargetId(source["Id"]);
+            if (targetId && !self.data.sourceToTargetRecordMap.has(source)) {
+              self.data.sourceToTargetRecordMap.set(source, { Id: targetId });
+            }
+          });
+        }
+
+        // Process the chunk ****
+        let data = await ___createUpdateData(false);
+        data.chunkNumber = ++chunkNumber;
+        if (data.missingParentLookups.length > 0) {
+          // Warn user
+          await warnUserCallbackAsync(data);
+        }
+        totalProcessedRecordsAmount += (await ___updateData(data));
+        totalNonProcessedRecordsAmount += data.nonProcessedRecordsAmount;
+        if (updateMode == "forwards") {
+          self.streaming.setTargetIds(self.data.sourceToTargetRecordMap);
+        }
+
+        totalReadRecordsAmount += records.length;
+        self.logger.infoNormal(RESOURCES.streamingChunkProcessed, self.sObjectName, String(totalReadRecordsAmount),
+          String(updateMode == "forwards" ? self.streaming.sourceRecordsCount : totalReadRecordsAmount));
+
+        // Unload the chunk ****
+        self.sourceData.idRecordsMap.clear();
+        self.sourceData.extIdRecordsMap.clear();
+        self.targetData.idRecordsMap.clear();
+        self.targetData.extIdRecordsMap.clear();
+        self.data.sourceToTargetRecordMap.clear();
+        self.processedData = undefined;
+
+      }, updateMode == "backwards" ? record => backwardsLookupFields.some(field => !!record[field.nameId]) : undefined);
+
+      if (updateMode == "backwards") {
+        // The circular references are resolved already, since all the target Ids are known
+        self.streaming.backwardsCompleted = true;
+        self.streaming.releaseRecords();
+      }
+
+      // Warn the about skipped equal records
+      if (totalNonProcessedRecordsAmount > 0) {
+        self.logger.infoNormal(RESOURCES.skippedUpdatesWarning, self.sObjectName, String(totalNonProcessedRecordsAmount));
+      }
+
+      return totalProcessedRecordsAmount;
+    }
+
     async function ___createUpdateData(processPersonAccounts: boolean): Promise<ProcessedData> {
 
       let processedData = new ProcessedData();
@@ -1186,7 +1361,9 @@ export default class MigrationJobTask {
       if (processedData.fields.some(field => field.name != "Id" && field.name != CONSTANTS.__ID_FIELD_NAME)) {
 
         // Map: cloned => source
-        let tempClonedToSourceMap = Common.cloneArrayOfObjects(self.sourceData.records, fieldNamesToClone);
+        //   (only the previously failed records in retry mode)
+        let sourceRecords = self.job.failedRecords.filterRecordsToRetry(self, self.sourceData.records, updateMode);
+        let tempClonedToSourceMap = Common.cloneArrayOfObjects(sourceRecords, fieldNamesToClone);
 
         // Map: "___Id" => cloned
         let ___IdToClonedMap = new Map<string, any>();
@@ -1194,6 +1371,24 @@ export default class MigrationJobTask {
           ___IdToClonedMap.set(cloned[CONSTANTS.__ID_FIELD_NAME], cloned);
         });
 
+        // Load the target Ids of all the streamed parent records at once
+        let streamedParentTaskToIdsMap = new Map<MigrationJobTask, Array<string>>();
+        processedData.lookupIdFields.forEach(idField => {
+          let parentTask = idField.parentLookupObject.task;
+          if (parentTask.streaming) {
+            let parentIds = streamedParentTaskToIdsMap.get(parentTask) || new Array<string>();
+            tempClonedToSourceMap.forEach(source => {
+              if (source[idField.nameId]) {
+                parentIds.push(source[idField.nameId]);
+              }
+            });
+            streamedParentTaskToIdsMap.set(parentTask, parentIds);
+          }
+        });
+        streamedParentTaskToIdsMap.forEach((parentIds, parentTask) => {
+          parentTask.streaming.loadTargetIds(Common.distinctStringArray(parentIds));
+        });
+
         // Map: cloned => source
         //    + update lookup Id fields (f.ex. Account__c)
         if (self.data.isPersonAccountOrContact) {
@@ -1234,11 +1429,8 @@ export default class MigrationJobTask {
         tempClonedToSourceMap = processedData.clonedToSourceMap;
         processedData.clonedToSourceMap = new Map<any, any>();
 
-        // Apply Records Filter
-        let clonedRecords = await ___filterRecords([...tempClonedToSourceMap.keys()]);
-
-        // Mock records
-        clonedRecords = ___mockRecords(clonedRecords);
+        // Apply Records Filter, mock and mask records
+        let clonedRecords = await self.transformRecordsAsync([...tempClonedToSourceMap.keys()]);
 
         // Truncate records
         clonedRecords = ___truncateRecords(clonedRecords);
@@ -1277,6 +1469,9 @@ export default class MigrationJobTask {
               processedData.recordsToUpdate.push(cloned);
               source[CONSTANTS.__IS_PROCESSED_FIELD_NAME] = true;
             }
+          } else if (target && self.operation == OPERATION.Insert) {
+            // The record was already inserted by the previous run
+            source[CONSTANTS.__IS_PROCESSED_FIELD_NAME] = true;
           } else if (!target && self.operation == OPERATION.Upsert || self.operation == OPERATION.Insert) {
             // Inserting new record to the target
             if (!doNotDeleteIdFieldOnInsert) {
@@ -1351,8 +1546,37 @@ export default class MigrationJobTask {
     async function ___updateData(data: ProcessedData): Promise<number> {
 
       let totalProcessedAmount = 0;
-      let targetFilenameSuffix = data.processPersonAccounts ? CONSTANTS.CSV_TARGET_FILE_PERSON_ACCOUNTS_SUFFIX : "";
+      let targetFilenameSuffix = (data.processPersonAccounts ? CONSTANTS.CSV_TARGET_FILE_PERSON_ACCOUNTS_SUFFIX : "")
+        + (data.chunkNumber ? CONSTANTS.CSV_TARGET_FILE_CHUNK_SUFFIX(data.chunkNumber) : "");
+
+
+      // Upserting ////////
+      if (___canUseNativeUpsert(data)) {
+        // The new and the existing records are matched by the external id on the Target side,
+        // so they are sent together by the same requests
+        let records = data.recordsToInsert.concat(data.recordsToUpdate);
+        let recordsToInsert = new Set<any>(data.recordsToInsert);
+        self.logger.infoVerbose(RESOURCES.amountOfRecordsTo,
+          self.sObjectName,
+          self.logger.getResourceString(RESOURCES.upsert),
+          String(records.length));
+
+        self.createApiEngine(self.targetData.org, OPERATION.Upsert, records.length, true, targetFilenameSuffix,
+          targetRecords => self.job.checkpoint.recordInsertedRecords(self, targetRecords.filter(target => recordsToInsert.has(target)), data.clonedToSourceMap));
+        let targetRecords = await self.apiEngine.executeCRUDMultithreaded(records, self.apiProgressCallback, self.getParallelThreadCount());
+
+        if (targetRecords == null) {
+          self._apiOperationError(OPERATION.Upsert);
+        }
+        totalProcessedAmount += targetRecords.length;
+        ___mapInsertedRecords(data, targetRecords.filter(target => recordsToInsert.has(target)));
+        ___mapUpdatedRecords(data, targetRecords.filter(target => !recordsToInsert.has(target)));
 
+        // Call addon onAfterUpdate event
+        await self.runAddonEventAsync(ADDON_EVENTS.onAfterUpdate);
+
+        return totalProcessedAmount;
+      }
 
       // Inserting ////////
       if (data.recordsToInsert.length > 0) {
@@ -1365,25 +1589,20 @@ export default class MigrationJobTask {
         // Value mapping
         //self.mapRecords(data.recordsToInsert);
 
-        self.createApiEngine(self.targetData.org, OPERATION.Insert, data.recordsToInsert.length, true, targetFilenameSuffix);
+        // The inserted records are stored to the checkpoint journal after each batch
+        self.createApiEngine(self.targetData.org, OPERATION.Insert, data.recordsToInsert.length, true, targetFilenameSuffix,
+          targetRecords => self.job.checkpoint.recordInsertedRecords(self, targetRecords, data.clonedToSourceMap));
+        if (updateMode == "forwards" && self.apiEngine instanceof CompositeApiEngine) {
+          // The records referring to each other are inserted together
+          ___setInsertedParentRecords(data);
+        }
         let targetRecords = await self.apiEngine.executeCRUDMultithreaded(data.recordsToInsert, self.apiProgressCallback, self.getParallelThreadCount());
 
         if (targetRecords == null) {
           self._apiOperationError(OPERATION.Insert);
         }
         totalProcessedAmount += targetRecords.length;
-
-        // Set external ids ---
-        self._setExternalIdMap(targetRecords, self.targetData.extIdRecordsMap, self.targetData.idRecordsMap);
-
-        // Map records ---
-        targetRecords.forEach(target => {
-          let source = data.clonedToSourceMap.get(target);
-          if (source) {
-            self.data.sourceToTargetRecordMap.set(source, target);
-            data.insertedRecordsSourceToTargetMap.set(source, target);
-          }
-        });
+        ___mapInsertedRecords(data, targetRecords);
       }
 
       // Updating ///////
@@ -1403,16 +1622,7 @@ export default class MigrationJobTask {
           self._apiOperationError(OPERATION.Update);
         }
         totalProcessedAmount += targetRecords.length;
-
-        // Map records ---
-        // TODO: This is new update, check if it has no any negative impact
-        targetRecords.forEach(target => {
-          let source = data.clonedToSourceMap.get(target);
-          // Prevent override of previously mapped inserts
-          if (source && !self.data.sourceToTargetRecordMap.has(source)) {
-            self.data.sourceToTargetRecordMap.set(source, target);
-          }
-        });
+        ___mapUpdatedRecords(data, targetRecords);
       }
 
       // Call addon onAfterUpdate event
@@ -1421,6 +1631,93 @@ export default class MigrationJobTask {
       return totalProcessedAmount;
     }
 
+    /**
+     * Checks if the records of the Upsert operation can be sent by the native upsert of the Composite Api.
+     * It requires the simple external id which is the External Id field in the Target
+     * and has the value in each record.
+     *
+     * @param {ProcessedData} data
+     * @returns {boolean}
+     */
+    function ___canUseNativeUpsert(data: ProcessedData): boolean {
+      if (!self.script.useCompositeApi
+        || self.operation != OPERATION.Upsert
+        || updateMode != "forwards"
+        || data.processPersonAccounts
+        || data.recordsToInsert.length + data.recordsToUpdate.length == 0
+        || self.scriptObject.hasComplexExternalId
+        || !self.targetData.org.isOrgMedia) {
+        return false;
+      }
+      let externalId = self.scriptObject.sourceToTargetFieldNameMap.get(self.scriptObject.externalId) || self.scriptObject.externalId;
+      let externalIdField = self.scriptObject.targetSObjectDescribe && self.scriptObject.targetSObjectDescribe.fieldsMap.get(externalId);
+      return !!externalIdField && externalIdField.externalId
+        && data.recordsToInsert.concat(data.recordsToUpdate).every(record => record[externalId] != null && record[externalId] !== '');
+    }
+
+    function ___mapInsertedRecords(data: ProcessedData, targetRecords: Array<any>) {
+
+      self.job.failedRecords.addRecords(self, OPERATION.Insert, updateMode, targetRecords, data.clonedToSourceMap);
+
+      // Set external ids ---
+      self._setExternalIdMap(targetRecords, self.targetData.extIdRecordsMap, self.targetData.idRecordsMap);
+
+      // Map records ---
+      targetRecords.forEach(target => {
+        let source = data.clonedToSourceMap.get(target);
+        if (source) {
+          self.data.sourceToTargetRecordMap.set(source, target);
+          data.insertedRecordsSourceToTargetMap.set(source, target);
+        }
+      });
+    }
+
+    function ___mapUpdatedRecords(data: ProcessedData, targetRecords: Array<any>) {
+
+      self.job.failedRecords.addRecords(self, OPERATION.Update, updateMode, targetRecords, data.clonedToSourceMap);
+
+      // Map records ---
+      // TODO: This is new update, check if it has no any negative impact
+      targetRecords.forEach(target => {
+        let source = data.clonedToSourceMap.get(target);
+        // Prevent override of previously mapped inserts
+        if (source && !self.data.sourceToTargetRecordMap.has(source)) {
+          self.data.sourceToTargetRecordMap.set(source, target);
+        }
+      });
+    }
+
+    /**
+     * Sets the self lookups of the records to insert to the parent records
+     * inserted by the same call, so the Composite Api engine can insert them
+     * by the single request instead of the additional update by the backwards step.
+     * The lookups to the other sObjects are not affected, their parents are inserted
+     * by the previous tasks.
+     *
+     * @param {ProcessedData} data
+     */
+    function ___setInsertedParentRecords(data: ProcessedData) {
+      let selfLookupFields = self.data.sFieldsToUpdate.filter(field => field.isSimpleReference
+        && field.parentLookupObject.task == self
+        && (!field.isDescribed || field.creatable));
+      if (selfLookupFields.length == 0) {
+        return;
+      }
+      let sourceIdToInsertedMap = new Map<string, any>();
+      data.recordsToInsert.forEach(cloned => {
+        sourceIdToInsertedMap.set(data.clonedToSourceMap.get(cloned)["Id"], cloned);
+      });
+      data.recordsToInsert.forEach(cloned => {
+        let source = data.clonedToSourceMap.get(cloned);
+        selfLookupFields.forEach(field => {
+          let parent = sourceIdToInsertedMap.get(source[field.nameId]);
+          if (parent && parent != cloned) {
+            cloned[field.nameId] = parent;
+          }
+        });
+      });
+    }
+
     /**
      * After the Person Accounts inserted the Person Contacts are automatically added.
      * Need to query and add them to the local data storage.
@@ -1508,16 +1805,10 @@ export default class MigrationJobTask {
         let parentId = source[idField.nameId];
         if (parentId) {
           let parentTask = idField.parentLookupObject.task;
-          let parentRecord = parentTask.sourceData.idRecordsMap.get(parentId);
-          if (parentRecord) {
-            let targetRecord = parentTask.data.sourceToTargetRecordMap.get(parentRecord);
-            if (targetRecord) {
-              let id = targetRecord["Id"];
-              if (id) {
-                cloned[idField.nameId] = id;
-                found = true;
-              }
-            }
+          let id = parentTask.getTargetRecordId(parentId);
+          if (id) {
+            cloned[idField.nameId] = id;
+            found = true;
           }
         }
         if (parentId && !found) {
@@ -1536,28 +1827,6 @@ export default class MigrationJobTask {
       });
     }
 
-    async function ___filterRecords(records: Array<any>): Promise<Array<any>> {
-      return new Promise<Array<any>>(async resolve => {
-
-        self.tempRecords = records;
-        await self.runAddonEventAsync(ADDON_EVENTS.filterRecordsAddons);
-        records = self.tempRecords;
-
-        if (!self.scriptObject.targetRecordsFilter) {
-          resolve(records);
-          return;
-        }
-        try {
-          alasql(`SELECT * FROM ? WHERE ${self.scriptObject.targetRecordsFilter}`, [records], function (selectedRecords: any) {
-            resolve(selectedRecords);
-          });
-        } catch (ex) {
-          self.logger.warn(RESOURCES.skippedTargetRecordsFilterWarning, ex.message);
-          resolve(records);
-        }
-      });
-    }
-
     function ___removeRecordFields(record: any, fieldsToRemove: Array<string>) {
       if (fieldsToRemove.length == 0) return;
       fieldsToRemove.forEach(field => {
@@ -1588,7 +1857,7 @@ export default class MigrationJobTask {
 
     async function ___writeToTargetCSVFile(records: Array<any>): Promise<void> {
       if (self.script.createTargetCSVFiles) {
-        await Common.writeCsvFileAsync(self.data.getTargetCSVFilename(self.operation), records, true);
+        await Common.writeCsvFileAsync(self.data.getTargetCSVFilename(self.operation), records, true, null, self.sourceData.fieldTypesMap);
       }
     }
 
@@ -1650,6 +1919,67 @@ export default class MigrationJobTask {
       return records;
     }
 
+    /**
+     * @returns {boolean} true = > not equal
+     */
+    function ___compareRecords(target: any, cloned: any, fieldsToCompareRecords: Array<string>): boolean {
+      if (target && !cloned || cloned && !target || self.scriptObject.idFieldIsMapped) {
+        return true;
+      }
+      return Object.keys(cloned)
+        .filter(key => fieldsToCompareRecords.length == 0 || fieldsToCompareRecords.indexOf(key) >= 0)
+        .some(key => {
+          if (key != "Id" && key != CONSTANTS.__ID_FIELD_NAME && key != CONSTANTS.__SOURCE_ID_FIELD_NAME) {
+            // FIXME: && target.hasOwnProperty(key) solves issue
+            // Auto-number fields ignored when used as sourceField in fieldMapping #89
+            // But it causes error when copying self-referencing fields with field mapping with complex extgernal id
+            return target[key] != cloned[key]; // && target.hasOwnProperty(key);
+          }
+          return false;
+        });
+    }
+  }
+
+  /**
+   * Applies the targetRecordsFilter (with the filter add-ons),
+   * the mock data and the masking profile to the given records,
+   * the same way as the records are transformed before updating the Target.
+   *
+   * @param {Array<any>} records The records to transform
+   * @returns {Promise<Array<any>>} The filtered and transformed records
+   * @memberof MigrationJobTask
+   */
+  async transformRecordsAsync(records: Array<any>): Promise<Array<any>> {
+
+    let self = this;
+
+    records = await ___filterRecords(records);
+    records = ___mockRecords(records);
+    return this.job.masking.maskRecords(this, records);
+
+    // ------------------ Internal functions ------------------------- //
+    async function ___filterRecords(records: Array<any>): Promise<Array<any>> {
+      return new Promise<Array<any>>(async resolve => {
+
+        self.tempRecords = records;
+        await self.runAddonEventAsync(ADDON_EVENTS.filterRecordsAddons);
+        records = self.tempRecords;
+
+        if (!self.scriptObject.targetRecordsFilter) {
+          resolve(records);
+          return;
+        }
+        try {
+          alasql(`SELECT * FROM ? WHERE ${self.scriptObject.targetRecordsFilter}`, [records], function (selectedRecords: any) {
+            resolve(selectedRecords);
+          });
+        } catch (ex) {
+          self.logger.warn(RESOURCES.skippedTargetRecordsFilterWarning, ex.message);
+          resolve(records);
+        }
+      });
+    }
+
     function ___mockRecords(records: Array<any>): Array<any> {
       let updatedRecords = new Array<any>();
       if (records.length == 0) {
@@ -1748,26 +2078,6 @@ export default class MigrationJobTask {
           || field.name == CONSTANTS.MOCK_ALL_FIELDS_PATTERN)
         && !field.excludeNames.includes(fieldName))[0] || new ScriptMockField();
     }
-
-    /**
-     * @returns {boolean} true = > not equal
-     */
-    function ___compareRecords(target: any, cloned: any, fieldsToCompareRecords: Array<string>): boolean {
-      if (target && !cloned || cloned && !target || self.scriptObject.idFieldIsMapped) {
-        return true;
-      }
-      return Object.keys(cloned)
-        .filter(key => fieldsToCompareRecords.length == 0 || fieldsToCompareRecords.indexOf(key) >= 0)
-        .some(key => {
-          if (key != "Id" && key != CONSTANTS.__ID_FIELD_NAME && key != CONSTANTS.__SOURCE_ID_FIELD_NAME) {
-            // FIXME: && target.hasOwnProperty(key) solves issue
-            // Auto-number fields ignored when used as sourceField in fieldMapping #89
-            // But it causes error when copying self-referencing fields with field mapping with complex extgernal id
-            return target[key] != cloned[key]; // && target.hasOwnProperty(key);
-          }
-          return false;
-        });
-    }
   }
 
   /**
@@ -1780,13 +2090,19 @@ export default class MigrationJobTask {
    *                                with the target record ids
    * @param {number} amountOfRecordsToProcess The total amount of records that should
    *                                          be processed using this engine instance
+   * @param {(resultRecords: Array<any>) => void} [batchCompletedCallback] Receives the records
+   *                                          processed by each api batch
    * @returns {IApiEngine}
    * @memberof MigrationJobTask
    */
-  createApiEngine(org: ScriptOrg, operation: OPERATION, amountOfRecordsToProcess: number, updateRecordId: boolean, targetFilenameSuffix?: string): IApiEngine {
+  createApiEngine(org: ScriptOrg, operation: OPERATION, amountOfRecordsToProcess: number, updateRecordId: boolean, targetFilenameSuffix?: string,
+    batchCompletedCallback?: (resultRecords: Array<any>) => void): IApiEngine {
     let engine: IApiEngine;
+    // Only the changes made in the Target org can be reverted
+    let rollbackRecorder = org.isOrgMedia && !org.isSource ? this.job.rollback : undefined;
     if ((amountOfRecordsToProcess > this.script.bulkThreshold && !this.script.alwaysUseRestApiToUpdateRecords)
-      && CONSTANTS.NOT_SUPPORTED_OBJECTS_IN_BULK_API.indexOf(this.sObjectName) < 0) {
+      && CONSTANTS.NOT_SUPPORTED_OBJECTS_IN_BULK_API.indexOf(this.sObjectName) < 0
+      && operation != OPERATION.Upsert) {
       if (this.scriptObject.hardDelete == true && operation == OPERATION.Delete) {
         operation = OPERATION.HardDelete;
       }
@@ -1805,7 +2121,13 @@ export default class MigrationJobTask {
             createTargetCSVFiles: this.script.createTargetCSVFiles,
             targetFieldMapping: this._targetFieldMapping,
             simulationMode: this.script.simulationMode,
-            binaryDataCache: this.script.binaryDataCache
+            binaryDataCache: this.script.binaryDataCache,
+            rollbackRecorder,
+            targetRecordsMap: this.targetData.idRecordsMap,
+            retryPolicy: this.script.retryPolicy,
+            groupByFieldName: this.scriptObject.bulkApiGroupByField,
+            limitsGuard: this.job.limits,
+            batchCompletedCallback
           });
           break;
         default: // Bulk Api V1.0
@@ -1822,10 +2144,42 @@ export default class MigrationJobTask {
             createTargetCSVFiles: this.script.createTargetCSVFiles,
             targetFieldMapping: this._targetFieldMapping,
             simulationMode: this.script.simulationMode,
-            binaryDataCache: this.script.binaryDataCache
+            binaryDataCache: this.script.binaryDataCache,
+            rollbackRecorder,
+            targetRecordsMap: this.targetData.idRecordsMap,
+            retryPolicy: this.script.retryPolicy,
+            groupByFieldName: this.scriptObject.bulkApiGroupByField,
+            limitsGuard: this.job.limits,
+            batchCompletedCallback
           });
           break;
       }
+    } else if (this.script.useCompositeApi || operation == OPERATION.Upsert) {
+      // Use composite api (the only engine supporting the native upsert)
+      engine = new CompositeApiEngine({
+        logger: this.logger,
+        connectionData: org.connectionData,
+        sObjectName: this.sObjectName,
+        operation,
+        pollingIntervalMs: this.script.pollingIntervalMs,
+        concurrencyMode: this.script.concurrencyMode,
+        updateRecordId,
+        restApiBatchSize: this.scriptObject.batchSizes.restBatchSize,
+        allOrNone: this.script.allOrNone,
+        targetCSVFullFilename: this.data.getTargetCSVFilename(operation, targetFilenameSuffix),
+        createTargetCSVFiles: this.script.createTargetCSVFiles,
+        targetFieldMapping: this._targetFieldMapping,
+        simulationMode: this.script.simulationMode,
+        binaryDataCache: this.script.binaryDataCache,
+        binaryCacheDirectory: this.script.binaryCacheDirectory,
+        rollbackRecorder,
+        targetRecordsMap: this.targetData.idRecordsMap,
+        externalIdFieldName: this.scriptObject.hasComplexExternalId ? undefined
+          : this.scriptObject.sourceToTargetFieldNameMap.get(this.scriptObject.externalId) || this.scriptObject.externalId,
+        retryPolicy: this.script.retryPolicy,
+        limitsGuard: this.job.limits,
+        batchCompletedCallback
+      });
     } else {
       // Use rest api
       engine = new RestApiEngine({
@@ -1843,7 +2197,12 @@ export default class MigrationJobTask {
         targetFieldMapping: this._targetFieldMapping,
         simulationMode: this.script.simulationMode,
         binaryDataCache: this.script.binaryDataCache,
-        binaryCacheDirectory: this.script.binaryCacheDirectory
+        binaryCacheDirectory: this.script.binaryCacheDirectory,
+        rollbackRecorder,
+        targetRecordsMap: this.targetData.idRecordsMap,
+        retryPolicy: this.script.retryPolicy,
+        limitsGuard: this.job.limits,
+        batchCompletedCallback
       });
     }
     this.setApiEngine(engine);
@@ -2058,6 +2417,15 @@ export default class MigrationJobTask {
     throw new CommandExecutionError(this.logger.getResourceString(RESOURCES.apiOperationFailed, this.sObjectName, OPERATION[operation] || this.apiEngine.getStrOperation()));
   }
 
+  private _composeIncrementalWhereClause(where: WhereClause): WhereClause {
+    let watermark = this.incrementalWatermark;
+    if (!watermark || this.script.retryFailedMode) {
+      // The failed records older than the watermark should be retried as well
+      return where;
+    }
+    return Common.composeWhereClause(where, watermark.field, watermark.value, ">", "DATETIME", "AND");
+  }
+
   private _createFilteredQueries(queryMode: "forwards" | "backwards" | "target", reversed: boolean, fieldNames?: string[]): Array<string> {
 
     let queries = new Array<string>();
@@ -2148,6 +2516,12 @@ export default class MigrationJobTask {
       //queries.push(this.createQuery(fieldNames));
       where = Common.extractWhereClause(this.scriptObject.query);
     }
+    if (isSource && queryMode == "forwards" && !reversed && this.incrementalWatermark) {
+      // Retrieve only the records modified since the previous run
+      let tempQuery = parseQuery(`SELECT Id FROM ${this.sObjectName}` + (where ? ` WHERE ${where}` : ''));
+      tempQuery.where = this._composeIncrementalWhereClause(tempQuery.where);
+      where = Common.extractWhereClause(composeQuery(tempQuery));
+    }
     fieldsToQueryMap.forEach((inValues, field) => {
       // Filter by cached values => get out all duplicated IN values thet
       // were previously queried
@@ -2222,6 +2596,48 @@ export default class MigrationJobTask {
     return records;
   }
 
+  private async _retrieveStreamedRecordsAsync(queryMode: "forwards" | "backwards" | "target", reversed: boolean): Promise<boolean> {
+
+    if (queryMode == "forwards" && !reversed) {
+      // Spool all the SOURCE records *********
+      let query = this.createQuery();
+      // Start message ------
+      this.logger.infoNormal(RESOURCES.queryingAll, this.sObjectName, this.sourceData.resourceString_Source_Target, this.data.resourceString_org,
+        this.data.getResourceString_Step(queryMode));
+      // Query string message ------
+      this.logger.infoVerbose(RESOURCES.queryString, this.sObjectName, this.createShortQueryString(query));
+      // Fetch records
+      this.streaming.startSourceRecords(this.job.checkpoint && this.job.checkpoint.isResumed);
+      let sfdx = new Sfdx(this.sourceData.org, this._sourceFieldMapping);
+      await sfdx.queryOrgOrCsvAsync(query, true, undefined, undefined, this.scriptObject.useQueryAll, this.script.pollingQueryTimeoutMs,
+        async records => this.streaming.appendSourceRecords(records));
+      // Completed message ------
+      this.logger.infoNormal(RESOURCES.queryingFinished, this.sObjectName, this.sourceData.resourceString_Source_Target, String(this.streaming.sourceRecordsCount));
+      return true;
+    }
+
+    if (queryMode == "target" && this.operation != OPERATION.Insert) {
+      // Index all the TARGET records *********
+      let fieldsInQuery = this.data.fieldsInQuery.filter(field => this.data.fieldsExcludedFromTargetQuery.indexOf(field) < 0);
+      let query = this.createQuery(fieldsInQuery, undefined, undefined, undefined, true);
+      // Start message ------
+      this.logger.infoNormal(RESOURCES.queryingAll, this.sObjectName, this.targetData.resourceString_Source_Target, this.data.resourceString_org, this.data.getResourceString_Step(queryMode));
+      // Query string message ------
+      this.logger.infoVerbose(RESOURCES.queryString, this.sObjectName, this.createShortQueryString(query));
+      // Fetch records
+      this.streaming.startTargetRecords();
+      let sfdx = new Sfdx(this.targetData.org, this._targetFieldMapping);
+      await sfdx.queryOrgOrCsvAsync(query, true, undefined, undefined, undefined, this.script.pollingQueryTimeoutMs,
+        async records => this.streaming.appendTargetRecords(records));
+      this.streaming.flush();
+      // Completed message ------
+      this.logger.infoNormal(RESOURCES.queryingFinished, this.sObjectName, this.targetData.resourceString_Source_Target, String(this.streaming.targetRecordsCount));
+      return true;
+    }
+
+    return false;
+  }
+
   private _transformQuery(query: string, sourceSObjectName: string) {
 
     let sourceParsedQuery = parseQuery(query);
@@ -0,0 +1,173 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from '../../components/common_components/common';
+import {
+  Logger,
+  RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { CommandInitializationError } from '../common_models/errors';
+import {
+  IIncrementalWatermark,
+  IIncrementalWatermarks,
+} from '../common_models/helper_interfaces';
+import MigrationJob from './migrationJob';
+import MigrationJobTask from './migrationJobTask';
+
+/**
+ * The high-watermarks of the incremental mode.
+ * Stores the max value of the incremental field (SystemModstamp / LastModifiedDate)
+ * of the retrieved source records per each source org and sObject,
+ * so the next run retrieves only the records modified after the previous one.
+ *
+ * @export
+ * @class MigrationJobWatermarks
+ */
+export default class MigrationJobWatermarks {
+
+  job: MigrationJob;
+  watermarks: IIncrementalWatermarks;
+
+  constructor(job: MigrationJob) {
+    this.job = job;
+  }
+
+  get logger(): Logger {
+    return this.job.script.logger;
+  }
+
+  get filePath(): string {
+    return path.join(this.job.script.incrementalDirectoryPath, CONSTANTS.INCREMENTAL_WATERMARKS_FILENAME);
+  }
+
+  get sourceWatermarks(): Record<string, IIncrementalWatermark> {
+    let sourceName = this.job.script.sourceOrg.name;
+    this.watermarks.sources[sourceName] = this.watermarks.sources[sourceName] || {};
+    return this.watermarks.sources[sourceName];
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Loads the watermarks stored by the previous run.
+   * If the --resetwatermarks flag was provided
+   * the watermarks of the current source org are removed.
+   *
+   * @memberof MigrationJobWatermarks
+   */
+  load() {
+    let script = this.job.script;
+    this.watermarks = {
+      objectSetIndex: script.objectSetIndex || 0,
+      lastUpdateDate: Common.formatDateTime(new Date()),
+      sources: {}
+    };
+    if (!script.hasIncrementalObjects) {
+      return;
+    }
+    if (fs.existsSync(this.filePath)) {
+      try {
+        this.watermarks = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      } catch (ex: any) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.incrementalWatermarksReadError, this.filePath, ex.message));
+      }
+      this.watermarks.sources = this.watermarks.sources || {};
+    }
+    if (script.resetWatermarks) {
+      delete this.watermarks.sources[script.sourceOrg.name];
+      this.logger.infoMinimal(RESOURCES.incrementalWatermarksReset);
+    }
+    if (script.retryFailedMode) {
+      this.logger.infoNormal(RESOURCES.incrementalWatermarksIgnoredInRetryMode);
+      return;
+    }
+    this.job.tasks.filter(task => task.scriptObject.isIncrementalMode).forEach(task => {
+      let watermark = this.getWatermark(task);
+      if (watermark) {
+        this.logger.infoNormal(RESOURCES.incrementalWatermarkApplied, task.sObjectName, watermark.field, watermark.value);
+      } else {
+        this.logger.infoNormal(RESOURCES.incrementalWatermarkNotFound, task.sObjectName);
+      }
+    });
+  }
+
+  /**
+   * Returns the stored watermark of the given task
+   * or undefined if the task is not in the incremental mode
+   * or there is no watermark yet for the configured incremental field
+   *
+   * @param {MigrationJobTask} task
+   * @returns {IIncrementalWatermark}
+   * @memberof MigrationJobWatermarks
+   */
+  getWatermark(task: MigrationJobTask): IIncrementalWatermark {
+    if (!this.watermarks || !task.scriptObject.isIncrementalMode) {
+      return undefined;
+    }
+    let watermark = this.sourceWatermarks[task.sObjectName];
+    if (!watermark || watermark.field != task.scriptObject.incrementalField || !watermark.value) {
+      return undefined;
+    }
+    return watermark;
+  }
+
+  /**
+   * Calculates the new watermarks from the retrieved source records
+   * and writes them to the disk.
+   * The watermark of the sObject with the failed records is not advanced,
+   * so the failed records are retrieved again by the next run.
+   * Should be called after the job was successfully completed.
+   * The watermarks are not changed in retry mode, since only the failed records are processed.
+   *
+   * @memberof MigrationJobWatermarks
+   */
+  save() {
+    let script = this.job.script;
+    if (script.simulationMode || script.diffMode || script.retryFailedMode || !script.hasIncrementalObjects) {
+      // Nothing was really changed in the simulation / diff mode,
+      //  so the same records should be retrieved during the next run.
+      //  The retry run processes only the failed records,
+      //  so the watermarks of the previous run are kept as well
+      return;
+    }
+    this.job.tasks.filter(task => task.scriptObject.isIncrementalMode).forEach(task => {
+      if (this.job.failedRecords.hasFailedRecords(task)) {
+        this.logger.warn(RESOURCES.incrementalWatermarkNotAdvanced, task.sObjectName);
+        return;
+      }
+      let fieldName = task.scriptObject.incrementalField;
+      let maxTime = task.sourceData.records.reduce((max: number, record: any) => {
+        let time = record[fieldName] ? new Date(record[fieldName]).getTime() : NaN;
+        return !isNaN(time) && time > max ? time : max;
+      }, 0);
+      if (!maxTime) {
+        // No records were retrieved => keep the previous watermark
+        return;
+      }
+      let previous = this.getWatermark(task);
+      if (previous && new Date(previous.value).getTime() > maxTime) {
+        return;
+      }
+      // The milliseconds are not allowed in SOQL datetime literals
+      let value = new Date(maxTime).toISOString().replace(/\.\d{3}Z$/, 'Z');
+      this.sourceWatermarks[task.sObjectName] = {
+        field: fieldName,
+        value,
+        updatedDate: Common.formatDateTime(new Date())
+      };
+      this.logger.infoNormal(RESOURCES.incrementalWatermarkSaved, task.sObjectName, fieldName, value);
+    });
+    this.watermarks.lastUpdateDate = Common.formatDateTime(new Date());
+    fs.writeFileSync(path.join(script.incrementalDirectory, CONSTANTS.INCREMENTAL_WATERMARKS_FILENAME),
+      JSON.stringify(this.watermarks, null, 2));
+  }
+
+}
@@ -8,7 +8,10 @@
 import 'reflect-metadata';
 import 'es6-shim';
 
-import { Type } from 'class-transformer';
+import {
+  plainToClass,
+  Type,
+} from 'class-transformer';
 import * as fs from 'fs';
 import * as path from 'path';
 import {
@@ -22,6 +25,9 @@ import {
   ScriptObject,
   ScriptObjectSet,
   ScriptOrg,
+  ScriptParameter,
+  ScriptApiLimits,
+  ScriptRetryPolicy,
   SObjectDescribe,
 } from '../';
 import ISfdmuRunScript
@@ -36,7 +42,9 @@ import { IAppScript } from '../../app/appModels';
 import { Common } from '../../components/common_components/common';
 import {
   DATA_CACHE_TYPES,
+  DATA_FILE_FORMAT,
   DATA_MEDIA_TYPE,
+  MASKING_STRATEGY,
   OPERATION,
 } from '../../components/common_components/enumerations';
 import {
@@ -49,10 +57,12 @@ import {
   CommandExecutionError,
   CommandInitializationError,
 } from '../common_models/errors';
+import { IRunCommandOptions } from '../common_models/helper_interfaces';
 import ICommandRunInfo from '../common_models/ICommandRunInfo';
 import IPluginInfo from '../common_models/IPluginInfo';
 import MigrationJob from '../job_models/migrationJob';
 import ScriptAddonManifestDefinition from './scriptAddonManifestDefinition';
+import ScriptMaskingProfile from './scriptMaskingProfile';
 
 /**
  * The script object which is parsed from the script file
@@ -74,15 +84,28 @@ export default class Script implements IAppScript, ISfdmuRunScript {
   @Type(() => ScriptObjectSet)
   objectSets: ScriptObjectSet[] = new Array<ScriptObjectSet>();
 
+  @Type(() => ScriptParameter)
+  parameters: ScriptParameter[] = new Array<ScriptParameter>();
+
   pollingIntervalMs: number = CONSTANTS.DEFAULT_POLLING_INTERVAL_MS;
   pollingQueryTimeoutMs: number = CONSTANTS.DEFAULT_POLLING_QUERY_TIMEOUT_MS;
   concurrencyMode: "Serial" | "Parallel" = "Parallel";
   bulkThreshold: number = CONSTANTS.DEFAULT_BULK_API_THRESHOLD_RECORDS;
   queryBulkApiThreshold: number = CONSTANTS.QUERY_BULK_API_THRESHOLD;
   bulkApiVersion: string = CONSTANTS.DEFAULT_BULK_API_VERSION;
+  bulkQueryApiVersion: string = CONSTANTS.DEFAULT_BULK_QUERY_API_VERSION;
+  bulkQueryPageSize: number = CONSTANTS.DEFAULT_BULK_QUERY_PAGE_SIZE;
+  bulkQueryPkChunkSize: number = 0;
   bulkApiV1BatchSize: number;
   restApiBatchSize: number;
   allOrNone: boolean = false;
+
+  @Type(() => ScriptRetryPolicy)
+  retryPolicy: ScriptRetryPolicy = new ScriptRetryPolicy();
+
+  @Type(() => ScriptApiLimits)
+  apiLimits: ScriptApiLimits = new ScriptApiLimits();
+
   //promptOnUpdateError: boolean = true;
   promptOnMissingParentObjects: boolean = true;
   promptOnIssuesInCSVFiles: boolean = true;
@@ -91,24 +114,33 @@ export default class Script implements IAppScript, ISfdmuRunScript {
   createTargetCSVFiles: boolean = true;
   importCSVFilesAsIs: boolean = false;
   alwaysUseRestApiToUpdateRecords: boolean = false;
+  useCompositeApi: boolean = false;
   excludeIdsFromCSVFiles: boolean = false;
   //fileLog: boolean = true;
   keepObjectOrderWhileExecute: boolean = false;
   allowFieldTruncation: boolean = false;
   simulationMode: boolean = false;
+  transactionalMode: boolean = false;
+  diffMode: boolean = false;
+  preflightMode: boolean = false;
 
   proxyUrl: string;
   csvReadFileDelimiter: ',' | ';' = ",";
   csvWriteFileDelimiter: ',' | ';' = ",";
   useSeparatedCSVFiles: boolean = false;
+  dataFileFormat: DATA_FILE_FORMAT = DATA_FILE_FORMAT.Csv;
+  maskingProfile: string = "";
 
   binaryDataCache: DATA_CACHE_TYPES = DATA_CACHE_TYPES.InMemory;
   sourceRecordsCache: DATA_CACHE_TYPES = DATA_CACHE_TYPES.InMemory;
+  describeCache: DATA_CACHE_TYPES = DATA_CACHE_TYPES.InMemory;
+  describeCacheTtlHours: number = CONSTANTS.DEFAULT_DESCRIBE_CACHE_TTL_HOURS;
 
   parallelBinaryDownloads: number = CONSTANTS.DEFAULT_MAX_PARALLEL_BLOB_DOWNLOADS;
 
   parallelBulkJobs: number = 1;
   parallelRestJobs: number = 1;
+  parallelTasks: number = 1;
 
 
 
@@ -139,6 +171,16 @@ export default class Script implements IAppScript, ISfdmuRunScript {
   objectSetIndex: number;
   useSf: boolean = false;
   logfullquery: boolean = false;
+  resume: boolean = false;
+  resetWatermarks: boolean = false;
+  retryFailedMode: boolean = false;
+  refreshDescribeCache: boolean = false;
+  offlineMode: boolean = false;
+  graphMode: boolean = false;
+  preflightOnlyMode: boolean = false;
+  fanOutTargetName: string;
+  fanOutTargetIndex: number = 0;
+  parsedMaskingProfile: ScriptMaskingProfile;
 
 
 
@@ -163,10 +205,23 @@ export default class Script implements IAppScript, ISfdmuRunScript {
     return +(this.bulkApiVersion || '1.0');
   }
 
+  get bulkQueryApiVersionNumber(): number {
+    return +(this.bulkQueryApiVersion || CONSTANTS.DEFAULT_BULK_QUERY_API_VERSION);
+  }
+
+  /**
+   * The subdirectory of the current target org when the job is fanned out
+   * to multiple target orgs (empty for the single target)
+   */
+  get fanOutSubdirectory(): string {
+    return !this.fanOutTargetName ? '' : `/${Common.formatFileName(this.fanOutTargetName)}`;
+  }
+
   get targetDirectoryPath(): string {
     return path.join(
       this.basePath,
       CONSTANTS.CSV_TARGET_SUB_DIRECTORY +
+      this.fanOutSubdirectory +
       (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
     );
   }
@@ -210,7 +265,8 @@ export default class Script implements IAppScript, ISfdmuRunScript {
   get reportsDirectoryPath(): string {
     return path.join(
       this.basePath,
-      (!this.objectSetIndex ? '' : `${CONSTANTS.REPORTS_SUB_DIRECTORY}/${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+      (!this.objectSetIndex && !this.fanOutTargetName ? '' : `${CONSTANTS.REPORTS_SUB_DIRECTORY}${this.fanOutSubdirectory}`),
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
     );
   }
 
@@ -243,6 +299,105 @@ export default class Script implements IAppScript, ISfdmuRunScript {
     return this.sourceRecordsCacheDirectoryPath;
   }
 
+  get diffReportDirectoryPath(): string {
+    return path.join(
+      this.basePath,
+      CONSTANTS.REPORTS_SUB_DIRECTORY +
+      this.fanOutSubdirectory +
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+    );
+  }
+
+  get diffReportDirectory(): string {
+    if (!fs.existsSync(this.diffReportDirectoryPath)) {
+      fs.mkdirSync(this.diffReportDirectoryPath, { recursive: true });
+    }
+    return this.diffReportDirectoryPath;
+  }
+
+  get checkpointDirectoryPath(): string {
+    return path.join(
+      this.basePath,
+      CONSTANTS.CHECKPOINT_SUB_DIRECTORY +
+      this.fanOutSubdirectory +
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+    );
+  }
+
+  get checkpointDirectory(): string {
+    if (!fs.existsSync(this.checkpointDirectoryPath)) {
+      fs.mkdirSync(this.checkpointDirectoryPath, { recursive: true });
+    }
+    return this.checkpointDirectoryPath;
+  }
+
+  get streamingDirectoryPath(): string {
+    return path.join(
+      this.basePath,
+      CONSTANTS.STREAMING_SUB_DIRECTORY +
+      this.fanOutSubdirectory +
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+    );
+  }
+
+  get failedRecordsDirectoryPath(): string {
+    return path.join(
+      this.basePath,
+      CONSTANTS.FAILED_RECORDS_SUB_DIRECTORY +
+      this.fanOutSubdirectory +
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+    );
+  }
+
+  get failedRecordsDirectory(): string {
+    if (!fs.existsSync(this.failedRecordsDirectoryPath)) {
+      fs.mkdirSync(this.failedRecordsDirectoryPath, { recursive: true });
+    }
+    return this.failedRecordsDirectoryPath;
+  }
+
+  get incrementalDirectoryPath(): string {
+    return path.join(
+      this.basePath,
+      CONSTANTS.INCREMENTAL_SUB_DIRECTORY +
+      this.fanOutSubdirectory +
+      (!this.objectSetIndex ? '' : `${CONSTANTS.OBJECT_SET_SUBDIRECTORY_PREFIX}${this.objectSetIndex + 1}`)
+    );
+  }
+
+  get incrementalDirectory(): string {
+    if (!fs.existsSync(this.incrementalDirectoryPath)) {
+      fs.mkdirSync(this.incrementalDirectoryPath, { recursive: true });
+    }
+    return this.incrementalDirectoryPath;
+  }
+
+  get describeCacheDirectoryPath(): string {
+    return path.join(this.basePath, CONSTANTS.DESCRIBE_CACHE_SUB_DIRECTORY);
+  }
+
+  get describeCacheDirectory(): string {
+    if (!fs.existsSync(this.describeCacheDirectoryPath)) {
+      fs.mkdirSync(this.describeCacheDirectoryPath, { recursive: true });
+    }
+    return this.describeCacheDirectoryPath;
+  }
+
+  get maskingDirectoryPath(): string {
+    return path.join(this.basePath, CONSTANTS.MASKING_SUB_DIRECTORY);
+  }
+
+  get maskingDirectory(): string {
+    if (!fs.existsSync(this.maskingDirectoryPath)) {
+      fs.mkdirSync(this.maskingDirectoryPath, { recursive: true });
+    }
+    return this.maskingDirectoryPath;
+  }
+
+  get hasIncrementalObjects(): boolean {
+    return this.objects.some(object => object.isIncrementalMode);
+  }
+
   get hasDeleteFromSourceObjectOperation(): boolean {
     return this.objects.some(object => object.isDeletedFromSourceOperation);
   }
@@ -265,6 +420,7 @@ export default class Script implements IAppScript, ISfdmuRunScript {
    * @param {string} targetUsername
    * @param {string} basePath
    * @param {string} apiVersion
+   * @param {IRunCommandOptions} [options] The run options from the command line
    * @returns {Promise<void>}
    * @memberof Script
    */
@@ -278,7 +434,8 @@ export default class Script implements IAppScript, ISfdmuRunScript {
     canModify: string,
     simulation: boolean,
     useSf: boolean,
-    logfullquery:boolean): Promise<void> {
+    logfullquery:boolean,
+    options: IRunCommandOptions = {}): Promise<void> {
 
     // Initialize script
     this.logger = logger;
@@ -287,6 +444,13 @@ export default class Script implements IAppScript, ISfdmuRunScript {
     this.simulationMode = this.simulationMode || simulation;
     this.useSf = useSf;
     this.logfullquery = logfullquery;
+    this.resume = !!options.resume;
+    this.diffMode = this.diffMode || !!options.diff;
+    this.resetWatermarks = !!options.resetWatermarks;
+    this.refreshDescribeCache = !!options.refreshDescribeCache;
+    this.offlineMode = !!options.offline;
+    this.preflightMode = this.preflightMode || !!options.preflight;
+    this.retryFailedMode = !!options.retryFailed;
 
     // Message about the running version
     this.logger.objectMinimal({ [this.logger.getResourceString(RESOURCES.runningVersion)]: pinfo.version });
@@ -316,6 +480,37 @@ export default class Script implements IAppScript, ISfdmuRunScript {
       this.logger.infoMinimal(RESOURCES.runningInSimulationMode);
     }
 
+    if (this.diffMode) {
+      this.logger.infoMinimal(RESOURCES.runningInDiffMode);
+    }
+
+    if (this.preflightMode) {
+      this.logger.infoMinimal(RESOURCES.runningInPreflightMode);
+    }
+
+    if (this.retryFailedMode) {
+      this.logger.infoMinimal(RESOURCES.runningInRetryFailedMode);
+    }
+
+    if (this.fanOutTargetName) {
+      // The source records are retrieved once by the first target
+      //  and read from the file cache by the rest of the targets
+      if (this.fanOutTargetIndex == 0 && !this.objectSetIndex) {
+        if (this.sourceRecordsCache == DATA_CACHE_TYPES.InMemory) {
+          this.sourceRecordsCache = DATA_CACHE_TYPES.CleanFileCache;
+        }
+      } else {
+        this.sourceRecordsCache = DATA_CACHE_TYPES.FileCache;
+      }
+    }
+
+    if (this.offlineMode) {
+      if (!this.simulationMode && !this.graphMode) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.offlineModeRequiresSimulation));
+      }
+      this.logger.infoMinimal(RESOURCES.runningInOfflineMode);
+    }
+
     // Fix object values
     this.objects.forEach(object => {
       // Fix operations
@@ -412,7 +607,8 @@ export default class Script implements IAppScript, ISfdmuRunScript {
     }
 
     // Perform clean-up the target directory if need --------------
-    if (this.createTargetCSVFiles) {
+    //   (keep the target files of the previous run when resuming or retrying the failed records)
+    if (this.createTargetCSVFiles && !this.resume && !this.retryFailedMode) {
       try {
         Common.deleteFolderRecursive(this.targetDirectoryPath, true);
       } catch (ex) {
@@ -692,6 +888,31 @@ export default class Script implements IAppScript, ISfdmuRunScript {
     });
   }
 
+  /**
+   * Load the masking profile file referenced by the maskingProfile property
+   *
+   * @memberof Script
+   */
+  loadMaskingProfile() {
+    if (!this.maskingProfile) {
+      return;
+    }
+    let filePath = path.isAbsolute(this.maskingProfile) ? this.maskingProfile : path.join(this.basePath, this.maskingProfile);
+    try {
+      this.parsedMaskingProfile = plainToClass(ScriptMaskingProfile, JSON.parse(fs.readFileSync(filePath, 'utf8')) as object);
+    } catch (ex: any) {
+      throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.maskingProfileLoadError, filePath, ex.message));
+    }
+    let strategies: Array<string> = Object.values(MASKING_STRATEGY);
+    this.parsedMaskingProfile.rules.forEach((rule, index) => {
+      if (strategies.indexOf(rule.strategy) < 0) {
+        throw new CommandInitializationError(this.logger.getResourceString(RESOURCES.maskingRuleInvalidStrategy,
+          String(index + 1), String(rule.strategy), strategies.join(', ')));
+      }
+    });
+    this.logger.infoVerbose(RESOURCES.maskingProfileLoaded, filePath, String(this.parsedMaskingProfile.rules.length));
+  }
+
   /**
    * Load Field Mapping configuration from the csv file
    *
@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { CONSTANTS } from '../../components/common_components/statics';
+
+/**
+ * The monitoring of the org api limits.
+ * The job is paused or aborted before the remaining
+ * daily api requests or Bulk Api v2.0 query jobs fall below the reserve.
+ *
+ * @export
+ * @class ScriptApiLimits
+ */
+export default class ScriptApiLimits {
+    // ------------- JSON --------------
+    enabled: boolean = false;
+    dailyApiRequestsReserve: number = CONSTANTS.DEFAULT_DAILY_API_REQUESTS_RESERVE;
+    dailyBulkV2QueryJobsReserve: number = CONSTANTS.DEFAULT_DAILY_BULK_V2_QUERY_JOBS_RESERVE;
+    pauseOnReserveReached: boolean = false;
+    pauseIntervalMs: number = CONSTANTS.DEFAULT_API_LIMITS_PAUSE_INTERVAL_MS;
+    maxPauseMs: number = CONSTANTS.DEFAULT_API_LIMITS_MAX_PAUSE_MS;
+    batchCheckIntervalMs: number = CONSTANTS.DEFAULT_API_LIMITS_BATCH_CHECK_INTERVAL_MS;
+
+    /**
+     * Returns the reserve of the given org limit
+     *
+     * @param {string} limitName The name of the limit returned by the /limits resource
+     * @returns {number}
+     * @memberof ScriptApiLimits
+     */
+    getReserve(limitName: string): number {
+        switch (limitName) {
+            case CONSTANTS.DAILY_API_REQUESTS_LIMIT: return this.dailyApiRequestsReserve || 0;
+            case CONSTANTS.DAILY_BULK_V2_QUERY_JOBS_LIMIT: return this.dailyBulkV2QueryJobsReserve || 0;
+        }
+        return 0;
+    }
+}
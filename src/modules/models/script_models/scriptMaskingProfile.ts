@@ -0,0 +1,38 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { Type } from 'class-transformer';
+
+import SFieldDescribe from '../sf_models/sfieldDescribe';
+import ScriptMaskingRule from './scriptMaskingRule';
+
+/**
+ * Parsed masking profile file
+ * referenced by the maskingProfile property of the script
+ *
+ * @export
+ * @class ScriptMaskingProfile
+ */
+export default class ScriptMaskingProfile {
+    // ------------- JSON --------------
+    secret: string = "";
+
+    @Type(() => ScriptMaskingRule)
+    rules: ScriptMaskingRule[] = new Array<ScriptMaskingRule>();
+
+    /**
+     * Returns the first rule matching the given field of the given sObject
+     *
+     * @param {string} sObjectName
+     * @param {SFieldDescribe} field
+     * @returns {ScriptMaskingRule}
+     * @memberof ScriptMaskingProfile
+     */
+    getRule(sObjectName: string, field: SFieldDescribe): ScriptMaskingRule {
+        return this.rules.find(rule => rule.isMatch(sObjectName, field));
+    }
+}
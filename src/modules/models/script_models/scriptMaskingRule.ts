@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { MASKING_STRATEGY } from '../../components/common_components/enumerations';
+import SFieldDescribe from '../sf_models/sfieldDescribe';
+
+/**
+ * Parsed masking rule
+ * from the masking profile file
+ *
+ * @export
+ * @class ScriptMaskingRule
+ */
+export default class ScriptMaskingRule {
+    // ------------- JSON --------------
+    objects: string = "";
+    fieldTypes: string[] = [];
+    fieldRegex: string = "";
+    strategy: MASKING_STRATEGY = MASKING_STRATEGY.Fake;
+    generator: string = "";
+    salt: string = "";
+    length: number = 0;
+    keepFirst: number = 0;
+    keepLast: number = 0;
+    maskChar: string = "*";
+
+    /**
+     * true if the rule should be applied to the given field of the given sObject
+     *
+     * @param {string} sObjectName
+     * @param {SFieldDescribe} field
+     * @returns {boolean}
+     * @memberof ScriptMaskingRule
+     */
+    isMatch(sObjectName: string, field: SFieldDescribe): boolean {
+        if (!this.fieldTypes.length && !this.fieldRegex) {
+            return false;
+        }
+        if (this.objects && !new RegExp(this.objects, 'i').test(sObjectName)) {
+            return false;
+        }
+        if (this.fieldTypes.length && !this.fieldTypes.some(type => String(type).toLowerCase() == field.type)) {
+            return false;
+        }
+        return !this.fieldRegex || new RegExp(this.fieldRegex, 'i').test(field.name);
+    }
+}
@@ -97,10 +97,16 @@ export default class ScriptObject implements ISfdmuRunScriptObject {
 
   parallelBulkJobs: number = 1;
   parallelRestJobs: number = 1;
+  bulkApiGroupByField: string;
 
   useSourceCSVFile: boolean;
   skipRecordsComparison: boolean = false;
 
+  incrementalMode: boolean = false;
+  incrementalField: string = CONSTANTS.DEFAULT_INCREMENTAL_FIELD_NAME;
+
+  streamingMode: boolean = false;
+
   @Type(() => ScriptAddonManifestDefinition)
   beforeAddons: ScriptAddonManifestDefinition[] = new Array<ScriptAddonManifestDefinition>();
 
@@ -145,6 +151,8 @@ export default class ScriptObject implements ISfdmuRunScriptObject {
   excludedFieldsFromUpdate: Array<string> = new Array<string>();
   originalExternalIdIsEmpty: boolean = false;
   extraFieldsToUpdate: Array<string> = new Array<string>();
+  // The fields removed from the query because they are missing in the Target (reported by the preflight check)
+  missingFieldsInTarget: Array<string> = new Array<string>();
 
   
   
@@ -255,6 +263,13 @@ export default class ScriptObject implements ISfdmuRunScriptObject {
       && (this.parsedQuery.limit > 0 || !!this.parsedQuery.where);
   }
 
+  get isIncrementalMode(): boolean {
+    return this.incrementalMode
+      && this.script.sourceOrg.media == DATA_MEDIA_TYPE.Org
+      && !this.useSourceCSVFile
+      && this.operation != OPERATION.Delete;
+  }
+
   get isSpecialObject(): boolean {
     return CONSTANTS.SPECIAL_OBJECTS.indexOf(this.name) >= 0;
   }
@@ -519,6 +534,16 @@ export default class ScriptObject implements ISfdmuRunScriptObject {
       }
     }
 
+    // Add the watermark field of the incremental mode
+    if (this.isIncrementalMode) {
+      let incrementalField = CONSTANTS.SUPPORTED_INCREMENTAL_FIELDS.find(fieldName => fieldName.toLowerCase() == (this.incrementalField || '').toLowerCase());
+      if (!incrementalField) {
+        throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.incrementalFieldIsNotSupported, this.name, this.incrementalField));
+      }
+      this.incrementalField = incrementalField;
+      this.parsedQuery.fields.push(getComposedField(this.incrementalField));
+    }
+
     // Make each field appear only once in the query
     this.parsedQuery.fields = Common.distinctArray(this.parsedQuery.fields, "field").filter(field => !!(<SOQLField>field).field);
 
@@ -954,8 +979,10 @@ export default class ScriptObject implements ISfdmuRunScriptObject {
           // Field in the query is missing in the org metadata. Warn user.
           if (isSource)
             this.script.logger.warn(RESOURCES.missingFieldInSource, this.name, sourceFieldName);
-          else
+          else {
             this.script.logger.warn(RESOURCES.missingFieldInTarget, this.name, sourceFieldName);
+            this.missingFieldsInTarget.push(sourceFieldName);
+          }
 
           // Remove missing field from the query
           Common.removeBy(this.parsedQuery.fields, "field", sourceFieldName);
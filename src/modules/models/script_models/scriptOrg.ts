@@ -5,6 +5,9 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+
 import {
   OrgInfo,
   Script,
@@ -16,15 +19,24 @@ import {
 import { IAppScriptOrg } from '../../app/appModels';
 import { Common } from '../../components/common_components/common';
 import {
+  DATA_CACHE_TYPES,
   DATA_MEDIA_TYPE,
+  OAUTH_FLOW,
 } from '../../components/common_components/enumerations';
 import { RESOURCES } from '../../components/common_components/logger';
+import { OAuth } from '../../components/common_components/oauth';
 import { Sfdx } from '../../components/common_components/sfdx';
+import { CONSTANTS } from '../../components/common_components/statics';
 import {
   CommandAbortedByUserError,
   CommandInitializationError,
 } from '../common_models/errors';
-import { IOrgConnectionData } from '../common_models/helper_interfaces';
+import {
+  IDescribeCacheEntry,
+  IDescribeCacheOrgInfo,
+  IOAuthSettings,
+  IOrgConnectionData,
+} from '../common_models/helper_interfaces';
 
 /**
  * Parsed org object
@@ -51,25 +63,47 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
   instanceUrl: string = "";
   accessToken: string = "";
 
+  /**
+   * The OAuth 2.0 flow used to connect to the org without the SFDX/SF CLI:
+   * jwt | refreshToken | clientCredentials.
+   * Each setting can also be provided using the environment variable
+   * SFDMU_SOURCE_<SETTING> / SFDMU_TARGET_<SETTING> (f.ex. SFDMU_TARGET_CLIENT_ID)
+   */
+  authFlow: string = "";
+  loginUrl: string = "";
+  clientId: string = "";
+  clientSecret: string = "";
+  privateKey: string = "";
+  refreshToken: string = "";
+
 
   // -----------------------------------
   script: Script;
   media: DATA_MEDIA_TYPE = DATA_MEDIA_TYPE.Org;
   isSource: boolean = false;
+  orgId: string = "";
   isPersonAccountEnabled: boolean = false;
   orgDescribe: Map<string, SObjectDescribe> = new Map<string, SObjectDescribe>();
   organizationType: "Developer Edition";
   isSandbox: boolean = false;
+  oAuthSettings: IOAuthSettings;
+
+  private _accessTokenRequest: Promise<string>;
 
   get connectionData(): IOrgConnectionData {
     return {
       instanceUrl: this.instanceUrl,
       accessToken: this.accessToken,
       apiVersion: this.script.apiVersion,
-      proxyUrl: this.script.proxyUrl
+      proxyUrl: this.script.proxyUrl,
+      refreshAccessTokenAsync: this.isOAuthConnection ? (expiredAccessToken: string) => this.refreshAccessTokenAsync(expiredAccessToken) : undefined
     };
   }
 
+  get isOAuthConnection(): boolean {
+    return !!this.oAuthSettings;
+  }
+
   get isConnected(): boolean {
     return !!this.accessToken;
   }
@@ -102,6 +136,25 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
     return Common.extractDomainFromUrlString(this.instanceUrl) || "";
   }
 
+  get isDescribeCacheEnabled(): boolean {
+    return this.isOrgMedia
+      && (this.script.describeCache != DATA_CACHE_TYPES.InMemory || this.script.refreshDescribeCache || this.script.offlineMode);
+  }
+
+  /**
+   * The describe cache is kept separately for each org and api version
+   */
+  get describeCacheDirectoryPath(): string {
+    return path.join(this.script.describeCacheDirectoryPath, this.orgId, this.script.apiVersion);
+  }
+
+  get describeCacheDirectory(): string {
+    if (!fs.existsSync(this.describeCacheDirectoryPath)) {
+      fs.mkdirSync(this.describeCacheDirectoryPath, { recursive: true });
+    }
+    return this.describeCacheDirectoryPath;
+  }
+
   // ----------------------- Public methods -------------------------------------------
   /**
    * Setup this object
@@ -133,6 +186,10 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
     if (
       !this.isFileMedia                                                               // It's Org, not File +
       && this.isProduction                                                            // It's Production +
+      && !this.script.diffMode                                                        // It's not the diff mode (nothing is modified) +
+      && !this.script.graphMode                                                       // It's not the graph mode (nothing is modified) +
+      && !this.script.preflightOnlyMode                                               // It's not the preflight check (nothing is modified) +
+      && !this.script.offlineMode                                                     // It's not the offline mode (nothing is modified) +
       && this.script.canModify.toLowerCase() != domain                                // There is no --canmodify flag passed with the CLI command +
       && (
         !this.isSource                                                              // It's the Target org ...
@@ -153,6 +210,95 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
     return Sfdx.createOrgConnection(this.connectionData);
   }
 
+  /**
+   * Obtains the new access token using the OAuth 2.0 flow of this org.
+   * Called by the api engines when the session has expired during the run.
+   * The parallel requests failed with the same expired token share the single token request.
+   *
+   * @param {string} [expiredAccessToken] The access token which was rejected by the org
+   * @returns {Promise<string>} The new access token
+   * @memberof ScriptOrg
+   */
+  async refreshAccessTokenAsync(expiredAccessToken?: string): Promise<string> {
+    if (expiredAccessToken && expiredAccessToken != this.accessToken) {
+      // Already refreshed by the other request
+      return this.accessToken;
+    }
+    if (!this._accessTokenRequest) {
+      this._accessTokenRequest = this._requestAccessTokenAsync().then(() => {
+        this._accessTokenRequest = undefined;
+        this.script.logger.infoNormal(RESOURCES.accessTokenRefreshed, this.name);
+        return this.accessToken;
+      }, (ex: any) => {
+        this._accessTokenRequest = undefined;
+        throw ex;
+      });
+    }
+    return this._accessTokenRequest;
+  }
+
+  /**
+   * Returns the data stored in the describe cache file of this org.
+   * Returns undefined if the cache is disabled, refreshed or expired,
+   * so the metadata is described again.
+   * In the offline mode the data is always taken from the cache.
+   *
+   * @param {string} fileName The name of the cache file
+   * @returns {*}
+   * @memberof ScriptOrg
+   */
+  readDescribeCache(fileName: string): any {
+    if (!this.isDescribeCacheEnabled
+      || !this.script.offlineMode
+      && (this.script.describeCache == DATA_CACHE_TYPES.CleanFileCache || this.script.refreshDescribeCache)) {
+      return undefined;
+    }
+    let filePath = path.join(this.describeCacheDirectoryPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      if (this.script.offlineMode) {
+        throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.describeCacheFileNotFound, filePath, this.name));
+      }
+      return undefined;
+    }
+    let entry: IDescribeCacheEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (ex) {
+      return undefined;
+    }
+    if (entry.formatVersion != CONSTANTS.DESCRIBE_CACHE_FORMAT_VERSION) {
+      // The file was created by the other version of the plugin
+      if (this.script.offlineMode) {
+        throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.describeCacheFormatMismatch, filePath, this.name));
+      }
+      return undefined;
+    }
+    let ttlMs = this.script.describeCacheTtlHours * 3600000;
+    if (!this.script.offlineMode && ttlMs > 0 && Date.now() - Date.parse(entry.cachedDate) > ttlMs) {
+      return undefined;
+    }
+    this.script.logger.infoVerbose(RESOURCES.readingFromDescribeCache, this.name, filePath);
+    return entry.data;
+  }
+
+  /**
+   * Writes the described metadata to the describe cache file of this org
+   *
+   * @param {string} fileName The name of the cache file
+   * @param {*} data The data to store
+   * @memberof ScriptOrg
+   */
+  writeDescribeCache(fileName: string, data: any) {
+    if (!this.isDescribeCacheEnabled || this.script.offlineMode) {
+      return;
+    }
+    fs.writeFileSync(path.join(this.describeCacheDirectory, fileName), JSON.stringify(<IDescribeCacheEntry>{
+      formatVersion: CONSTANTS.DESCRIBE_CACHE_FORMAT_VERSION,
+      cachedDate: new Date().toISOString(),
+      data
+    }));
+  }
+
 
   // ----------------------- Private members -------------------------------------------
   private _parseForceOrgDisplayResult(commandResult: string): OrgInfo {
@@ -184,7 +330,8 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
 
       // Get org info
       try {
-        let ret = await apiSf.queryOrgAsync("SELECT OrganizationType, IsSandbox FROM Organization LIMIT 1", false);
+        let ret = await apiSf.queryOrgAsync("SELECT Id, OrganizationType, IsSandbox FROM Organization LIMIT 1", false);
+        this.orgId = ret[0]["Id"];
         this.isSandbox = ret[0]["IsSandbox"];
         this.organizationType = ret[0]["OrganizationType"];
       } catch (ex) {
@@ -207,7 +354,26 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
       // By default the org username has the same value as the name
       this.orgUserName = this.name;
 
-      if (!this.isConnected) {
+      if (this.script.offlineMode) {
+        // Set up the org from the describe cache without connecting to it
+        this._loadOrgInfoFromDescribeCache();
+        this.script.logger.infoNormal(RESOURCES.usingOfflineDescribeCache, this.name);
+        return;
+      }
+
+      // The OAuth 2.0 flow set in the export.json or using the environment variables
+      this.oAuthSettings = this._getOAuthSettings();
+
+      if (!this.isConnected && this.isOAuthConnection) {
+        // Connect natively using the OAuth 2.0 flow
+        this.script.logger.infoNormal(RESOURCES.connectingToOrgOAuth, this.name, this.oAuthSettings.authFlow);
+        try {
+          await this._requestAccessTokenAsync();
+        } catch (ex: any) {
+          throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.oAuthConnectingFailed, this.name, ex.message));
+        }
+        this.orgUserName = this.oAuthSettings.username;
+      } else if (!this.isConnected) {
         // Connect with SFDX/SF
         let processResult = "";
         if (this.script.useSf) {
@@ -232,10 +398,60 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
       // Validate connection and check person account availability
       await this._validateOrgAsync();
 
+      // Keep the org details for the offline mode
+      this._saveOrgInfoToDescribeCache();
+
       this.script.logger.infoNormal(RESOURCES.successfullyConnected, this.name);
     }
   }
 
+  private _getOAuthSettings(): IOAuthSettings {
+
+    let prefix = CONSTANTS.OAUTH_ENV_VARIABLE_PREFIX(this.isSource);
+    let settings = <IOAuthSettings>{
+      proxyUrl: this.script.proxyUrl
+    };
+    CONSTANTS.OAUTH_ENV_VARIABLES.forEach((variable, setting) => {
+      (<any>settings)[setting] = (<any>this)[setting] || process.env[prefix + variable] || "";
+    });
+
+    if (!settings.authFlow) {
+      return undefined;
+    }
+
+    let flows: Array<string> = Object.values(OAUTH_FLOW);
+    if (flows.indexOf(settings.authFlow) < 0) {
+      throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.oAuthInvalidFlow,
+        settings.authFlow, this.name, flows.join(', ')));
+    }
+
+    // The name is the org username when the org is described in the export.json
+    settings.username = settings.username || this.name;
+
+    if (settings.privateKey && settings.privateKey.indexOf('-----BEGIN') < 0) {
+      // The path to the key file
+      let filePath = path.isAbsolute(settings.privateKey) ? settings.privateKey : path.join(this.script.basePath, settings.privateKey);
+      if (!fs.existsSync(filePath)) {
+        throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.oAuthPrivateKeyFileNotFound, filePath, this.name));
+      }
+      settings.privateKey = fs.readFileSync(filePath, 'utf8');
+    }
+
+    let missingSettings = OAuth.getMissingSettings(settings);
+    if (missingSettings.length > 0) {
+      throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.oAuthMissingSettings,
+        settings.authFlow, this.name, missingSettings.map(setting => `${setting} (${prefix}${CONSTANTS.OAUTH_ENV_VARIABLES.get(setting)})`).join(', ')));
+    }
+
+    return settings;
+  }
+
+  private async _requestAccessTokenAsync(): Promise<void> {
+    let token = await OAuth.requestAccessTokenAsync(this.oAuthSettings);
+    this.accessToken = token.accessToken;
+    this.instanceUrl = token.instanceUrl || this.instanceUrl;
+  }
+
   private async _describeOrg(): Promise<void> {
     try {
       if (this.media == DATA_MEDIA_TYPE.Org) {
@@ -245,7 +461,53 @@ export default class ScriptOrg implements IAppScriptOrg, ISfdmuRunCustomAddonScr
           return acc;
         }, new Map<string, SObjectDescribe>());
       }
-    } catch (ex) { }
+    } catch (ex) {
+      if (ex instanceof CommandInitializationError) {
+        throw ex;
+      }
+    }
+  }
+
+  private _loadOrgInfoFromDescribeCache() {
+    let orgInfo = this._readDescribeCacheOrgs()[this.name];
+    if (!orgInfo) {
+      throw new CommandInitializationError(this.script.logger.getResourceString(RESOURCES.describeCacheOrgNotFound, this.name));
+    }
+    Object.assign(this, {
+      orgId: orgInfo.orgId,
+      orgUserName: orgInfo.orgUserName,
+      instanceUrl: orgInfo.instanceUrl,
+      organizationType: orgInfo.organizationType,
+      isSandbox: orgInfo.isSandbox,
+      isPersonAccountEnabled: orgInfo.isPersonAccountEnabled
+    });
+  }
+
+  private _saveOrgInfoToDescribeCache() {
+    if (!this.isDescribeCacheEnabled) {
+      return;
+    }
+    let orgs = this._readDescribeCacheOrgs();
+    orgs[this.name] = {
+      orgId: this.orgId,
+      orgUserName: this.orgUserName,
+      instanceUrl: this.instanceUrl,
+      organizationType: this.organizationType,
+      isSandbox: this.isSandbox,
+      isPersonAccountEnabled: this.isPersonAccountEnabled,
+      cachedDate: new Date().toISOString()
+    };
+    fs.writeFileSync(path.join(this.script.describeCacheDirectory, CONSTANTS.DESCRIBE_CACHE_ORGS_FILENAME), JSON.stringify(orgs, null, 2));
+  }
+
+  private _readDescribeCacheOrgs(): Record<string, IDescribeCacheOrgInfo> {
+    let filePath = path.join(this.script.describeCacheDirectoryPath, CONSTANTS.DESCRIBE_CACHE_ORGS_FILENAME);
+    if (fs.existsSync(filePath)) {
+      try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (ex) { }
+    }
+    return {};
   }
 
 }
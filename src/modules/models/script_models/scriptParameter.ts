@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { SCRIPT_PARAMETER_TYPE } from '../../components/common_components/enumerations';
+import {
+    Logger,
+    RESOURCES,
+} from '../../components/common_components/logger';
+import { CONSTANTS } from '../../components/common_components/statics';
+import { CommandInitializationError } from '../common_models/errors';
+
+/**
+ * Parsed parameter declaration
+ * from the script file
+ *
+ * @export
+ * @class ScriptParameter
+ */
+export default class ScriptParameter {
+    // ------------- JSON --------------
+    name: string = "";
+    type: SCRIPT_PARAMETER_TYPE = SCRIPT_PARAMETER_TYPE.String;
+    defaultValue: any;
+    required: boolean = false;
+    allowedValues: string[] = [];
+    description: string = "";
+
+    /**
+     * Returns the value to substitute into the script:
+     * the provided value or the default value if not provided.
+     * Validates the value against the type and the allowed values of the parameter.
+     *
+     * @param {string} value The value from the command line or the params file
+     * @param {Logger} logger
+     * @returns {string}
+     * @memberof ScriptParameter
+     */
+    getValue(value: string, logger: Logger): string {
+
+        if (value == null && this.defaultValue != null) {
+            value = String(this.defaultValue);
+        }
+
+        if (value == null) {
+            if (this.required) {
+                throw new CommandInitializationError(logger.getResourceString(RESOURCES.missingRequiredScriptParameter, this.name));
+            }
+            return "";
+        }
+
+        let type = String(this.type || SCRIPT_PARAMETER_TYPE.String).toLowerCase();
+        let types: Array<string> = Object.values(SCRIPT_PARAMETER_TYPE);
+        if (types.indexOf(type) < 0) {
+            throw new CommandInitializationError(logger.getResourceString(RESOURCES.invalidScriptParameterType,
+                String(this.type), this.name, types.join(', ')));
+        }
+
+        let pattern = CONSTANTS.SCRIPT_PARAMETER_TYPE_PATTERNS.get(type);
+        if (pattern && !pattern.test(value)) {
+            throw new CommandInitializationError(logger.getResourceString(RESOURCES.invalidScriptParameterValue, value, this.name, type));
+        }
+        if (type == SCRIPT_PARAMETER_TYPE.Boolean) {
+            value = value.toLowerCase();
+        }
+
+        if (this.allowedValues.length > 0 && this.allowedValues.map(allowedValue => String(allowedValue)).indexOf(value) < 0) {
+            throw new CommandInitializationError(logger.getResourceString(RESOURCES.scriptParameterValueNotAllowed,
+                value, this.name, this.allowedValues.join(', ')));
+        }
+
+        return value;
+    }
+}
@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { CONSTANTS } from '../../components/common_components/statics';
+
+/**
+ * The policy of the automatic retry of the records
+ * failed by the transient api errors
+ *
+ * @export
+ * @class ScriptRetryPolicy
+ */
+export default class ScriptRetryPolicy {
+    // ------------- JSON --------------
+    maxRetries: number = 0;
+    initialDelayMs: number = CONSTANTS.DEFAULT_RETRY_INITIAL_DELAY_MS;
+    backoffMultiplier: number = CONSTANTS.DEFAULT_RETRY_BACKOFF_MULTIPLIER;
+    maxDelayMs: number = CONSTANTS.DEFAULT_RETRY_MAX_DELAY_MS;
+    retryableErrors: string[] = [...CONSTANTS.DEFAULT_RETRYABLE_API_ERRORS];
+    switchToRestApiOnLockErrors: boolean = false;
+    switchToSerialModeOnLockErrors: boolean = false;
+
+    get isEnabled(): boolean {
+        return this.maxRetries > 0;
+    }
+
+    /**
+     * Returns the delay before the given retry attempt
+     *
+     * @param {number} attempt The 1-based number of the attempt
+     * @returns {number}
+     * @memberof ScriptRetryPolicy
+     */
+    getDelayMs(attempt: number): number {
+        let delay = this.initialDelayMs * Math.pow(this.backoffMultiplier || 1, attempt - 1);
+        return Math.max(0, Math.min(delay, this.maxDelayMs));
+    }
+}
@@ -42,6 +42,7 @@ export default class SFieldDescribe implements ISFieldDescribe {
     cascadeDelete: boolean = false;
     autoNumber: boolean = false;
     unique: boolean = false;
+    externalId: boolean = false;
     nameField: boolean = false;
     custom: boolean = false;
     calculated: boolean = false;
@@ -52,6 +53,12 @@ export default class SFieldDescribe implements ISFieldDescribe {
 
     length: number;
 
+    /**
+     * The active picklist values
+     */
+    picklistValues: Array<string> = new Array<string>();
+    restrictedPicklist: boolean = false;
+
     originalReferencedObjectType: string = "";
 
     /*
@@ -6,6 +6,7 @@
  */
 
 import { SFieldDescribe } from '../';
+import { ISObjectChildRelationship } from '../common_models/helper_interfaces';
 
 /**
  * Description of the sobject
@@ -27,4 +28,5 @@ export default class SObjectDescribe {
     createable: boolean = false;
     custom: boolean = false;
     fieldsMap: Map<string, SFieldDescribe> = new Map<string, SFieldDescribe>();
+    childRelationships: Array<ISObjectChildRelationship> = new Array<ISObjectChildRelationship>();
 }
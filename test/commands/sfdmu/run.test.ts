@@ -0,0 +1,818 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as initSqlJs from 'sql.js';
+
+import AppConsoleLogger from '../../../src/modules/app/appConsoleUxLogger';
+import AppJsonMessages from '../../../src/modules/app/appJsonMessages';
+import AppSfdmuRunApp from '../../../src/modules/app/appSfdmuRunApp';
+import { IInitProcess } from '../../../src/modules/commands_processors/IInitProcess';
+import InitCommandExecutor from '../../../src/modules/commands_processors/initCommandExecutor';
+import { Common } from '../../../src/modules/components/common_components/common';
+import MigrationJobStreaming from '../../../src/modules/models/job_models/migrationJobStreaming';
+import { FakeOrgServer } from '../../fake_org/fakeOrgServer';
+
+describe('sfdmu:run', () => {
+
+  let source: FakeOrgServer;
+  let target: FakeOrgServer;
+  let workingDirectory: string;
+
+  beforeEach(async () => {
+    source = new FakeOrgServer();
+    target = new FakeOrgServer();
+    source.db.seed({
+      records: {
+        Account: [
+          { Id: 'a1', Name: 'Acc01', Phone: '1' },
+          { Id: 'a2', Name: 'Acc02', Phone: '2' },
+          { Id: 'a3', Name: 'Acc03', Phone: '3' },
+          { Id: 'a4', Name: 'Acc04', Phone: '4' }
+        ],
+        Contact: [
+          { Id: 'c1', LastName: 'Smith', AccountId: 'a1' },
+          { Id: 'c2', LastName: 'Jones', AccountId: 'a1' },
+          { Id: 'c3', LastName: 'Brown', AccountId: 'a3' }
+        ]
+      }
+    });
+    await source.startAsync();
+    await target.startAsync();
+    workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'sfdmu-run-'));
+  });
+
+  afterEach(async () => {
+    await source.stopAsync();
+    await target.stopAsync();
+    fs.rmSync(workingDirectory, { recursive: true, force: true });
+  });
+
+  it('inserts the records and links the child records to the inserted parents', async () => {
+    await ___runAsync();
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(___queryContacts()).to.deep.equal(['Brown:Acc03', 'Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('updates the existing records matched by the external id', async () => {
+    target.db.seed({
+      records: {
+        Account: [{ Id: 't1', Name: 'Acc01', Phone: 'old' }]
+      }
+    });
+
+    await ___runAsync({ operation: 'Upsert' });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(target.query.execute("SELECT Phone FROM Account WHERE Name = 'Acc01'").records[0].Phone).to.equal('1');
+  });
+
+  it('upserts the new and the existing records by the native upsert of the Composite API', async () => {
+    let objects = [{ name: 'Account', fields: [{ name: 'ExtId__c', type: 'string', custom: true, externalId: true }] }];
+    source.db.seed({
+      objects,
+      records: {
+        Account: [
+          { Id: 'a5', Name: 'Acc05', Phone: '5', ExtId__c: 'E5' },
+          { Id: 'a6', Name: 'Acc06', Phone: '6', ExtId__c: 'E6' }
+        ]
+      }
+    });
+    target.db.seed({
+      objects,
+      records: {
+        Account: [{ Id: 't5', Name: 'Old05', Phone: 'old', ExtId__c: 'E5' }]
+      }
+    });
+
+    await ___runAsync({
+      settings: { useCompositeApi: true },
+      operation: 'Upsert',
+      accountQuery: "SELECT Id, Name, Phone, ExtId__c FROM Account WHERE ExtId__c != null",
+      accountSettings: { externalId: 'ExtId__c' },
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'"
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc05', 'Acc06']);
+    let compositeRequests = target.requests.filter(request => request.indexOf('/composite/sobjects') >= 0);
+    expect(compositeRequests).to.have.lengthOf(1);
+    expect(compositeRequests[0]).to.match(/^PATCH .*\/composite\/sobjects\/Account\/ExtId__c$/);
+  });
+
+  it('rolls back the records created and updated by the native upsert', async () => {
+    let objects = [{ name: 'Account', fields: [{ name: 'ExtId__c', type: 'string', custom: true, externalId: true }] }];
+    source.db.seed({
+      objects,
+      records: {
+        Account: [
+          { Id: 'a5', Name: 'Acc05', Phone: '5', ExtId__c: 'E5' },
+          { Id: 'a6', Name: 'Acc06', Phone: '6', ExtId__c: 'E6' }
+        ]
+      }
+    });
+    target.db.seed({
+      objects,
+      records: {
+        Account: [{ Id: 't5', Name: 'Old05', Phone: 'old', ExtId__c: 'E5' }]
+      }
+    });
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'UNKNOWN_EXCEPTION',
+      filter: () => {
+        // The job is aborted before the next object
+        target.limits.DailyApiRequests.Remaining = 100;
+        return false;
+      }
+    });
+
+    await ___runAsync({
+      settings: {
+        useCompositeApi: true,
+        transactionalMode: true,
+        apiLimits: { enabled: true, dailyApiRequestsReserve: 100, batchCheckIntervalMs: 3600000 }
+      },
+      operation: 'Upsert',
+      accountQuery: "SELECT Id, Name, Phone, ExtId__c FROM Account WHERE ExtId__c != null",
+      accountSettings: { externalId: 'ExtId__c' },
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'"
+    });
+
+    expect(target.query.execute('SELECT Name, Phone FROM Account').records.map((record: any) => `${record.Name}:${record.Phone}`))
+      .to.deep.equal(['Old05:old']);
+  });
+
+  it('rolls back the inserted, updated and deleted records when the transactional job fails', async () => {
+    target.db.seed({
+      records: {
+        Account: [{ Id: 't1', Name: 'Acc01', Phone: 'old' }],
+        Contact: [{ Id: 'tc1', LastName: 'Old', AccountId: 't1' }]
+      }
+    });
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'UNKNOWN_EXCEPTION',
+      filter: () => {
+        // The job is aborted before the next object
+        target.limits.DailyApiRequests.Remaining = 100;
+        return false;
+      }
+    });
+
+    await ___runAsync({
+      settings: {
+        transactionalMode: true,
+        apiLimits: { enabled: true, dailyApiRequestsReserve: 100, batchCheckIntervalMs: 3600000 }
+      },
+      operation: 'Upsert',
+      contactSettings: { deleteOldData: true }
+    });
+
+    expect(target.query.execute('SELECT Name, Phone FROM Account').records.map((record: any) => `${record.Name}:${record.Phone}`))
+      .to.deep.equal(['Acc01:old']);
+    expect(___queryContacts()).to.deep.equal(['Old:Acc01']);
+  });
+
+  it('re-submits the records failed by the lock errors using the REST API', async () => {
+    target.db.injectErrors({ sObjectName: 'Account', operations: ['insert'], statusCode: 'UNABLE_TO_LOCK_ROW', times: 2 });
+
+    await ___runAsync({
+      settings: {
+        bulkThreshold: 1000,
+        retryPolicy: { maxRetries: 2, initialDelayMs: 10 }
+      }
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(___queryContacts()).to.deep.equal(['Brown:Acc03', 'Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('re-submits the grouped Bulk API records failed by the lock errors', async () => {
+    target.db.injectErrors({
+      sObjectName: 'Contact',
+      operations: ['insert'],
+      statusCode: 'UNABLE_TO_LOCK_ROW',
+      times: 1,
+      filter: record => record.LastName == 'Jones'
+    });
+
+    await ___runAsync({
+      settings: {
+        bulkThreshold: 1,
+        bulkApiVersion: '1.0',
+        bulkApiV1BatchSize: 2,
+        retryPolicy: { maxRetries: 2, initialDelayMs: 10, switchToSerialModeOnLockErrors: true }
+      },
+      contactGroupByField: 'AccountId'
+    });
+
+    expect(___queryContacts()).to.deep.equal(['Brown:Acc03', 'Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('re-submits the grouped Bulk API 2.0 records failed by the lock errors', async () => {
+    target.db.injectErrors({
+      sObjectName: 'Contact',
+      operations: ['insert'],
+      statusCode: 'UNABLE_TO_LOCK_ROW',
+      times: 1,
+      filter: record => record.LastName == 'Jones'
+    });
+
+    await ___runAsync({
+      settings: {
+        bulkThreshold: 1,
+        bulkApiVersion: '2.0',
+        retryPolicy: { maxRetries: 2, initialDelayMs: 10 }
+      },
+      contactGroupByField: 'AccountId'
+    });
+
+    expect(___queryContacts()).to.deep.equal(['Brown:Acc03', 'Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('does not switch to the REST API by the lock errors which are not retryable', async () => {
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'UNABLE_TO_LOCK_ROW',
+      filter: record => record.Name == 'Acc02'
+    });
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'SERVER_UNAVAILABLE',
+      times: 1,
+      filter: record => record.Name == 'Acc03'
+    });
+
+    await ___runAsync({
+      settings: {
+        bulkThreshold: 1,
+        bulkApiVersion: '1.0',
+        retryPolicy: { maxRetries: 2, initialDelayMs: 10, retryableErrors: ['SERVER_UNAVAILABLE'], switchToRestApiOnLockErrors: true }
+      },
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'"
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc03', 'Acc04']);
+    expect(target.requests.filter(request => request.indexOf('/composite/sobjects') >= 0)).to.be.empty;
+  });
+
+  it('writes the records which are still failing to the failed records file', async () => {
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+      filter: record => record.Name == 'Acc02'
+    });
+
+    await ___runAsync({
+      settings: {
+        retryPolicy: { maxRetries: 2, initialDelayMs: 10 }
+      }
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc03', 'Acc04']);
+    let failedRecords = JSON.parse(fs.readFileSync(path.join(workingDirectory, 'failed_records', 'Account.json'), 'utf8'));
+    expect(failedRecords.records.map((record: any) => record.sourceId)).to.have.lengthOf(1);
+  });
+
+  it('writes the failed records file when the job is aborted', async () => {
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+      filter: record => {
+        if (record.Name != 'Acc02') {
+          return false;
+        }
+        // The job is aborted before the next object
+        target.limits.DailyApiRequests.Remaining = 0;
+        return true;
+      }
+    });
+
+    await ___runAsync({
+      settings: {
+        apiLimits: { enabled: true, dailyApiRequestsReserve: 10, batchCheckIntervalMs: 3600000 }
+      }
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc03', 'Acc04']);
+    expect(___queryContacts()).to.be.empty;
+    let failedRecords = JSON.parse(fs.readFileSync(path.join(workingDirectory, 'failed_records', 'Account.json'), 'utf8'));
+    expect(failedRecords.records).to.have.lengthOf(1);
+  });
+
+  it('resumes the aborted job from the checkpoint without inserting the same records again', async () => {
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'UNKNOWN_EXCEPTION',
+      filter: () => {
+        // The job is aborted before the next object
+        target.limits.DailyApiRequests.Remaining = 100;
+        return false;
+      }
+    });
+    let settings = {
+      apiLimits: { enabled: true, dailyApiRequestsReserve: 100, batchCheckIntervalMs: 3600000 }
+    };
+
+    await ___runAsync({ settings });
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(___queryContacts()).to.be.empty;
+
+    target.db.clearErrors();
+    target.limits.DailyApiRequests.Remaining = 15000;
+    await ___runAsync({ settings, flags: ['--resume'] });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(___queryContacts()).to.deep.equal(['Brown:Acc03', 'Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('retrieves only the records modified since the previous incremental run', async () => {
+    let accounts = source.db.getRecords(source.db.findObject('Account'));
+    accounts.forEach(record => record.SystemModstamp = '2020-01-02T00:00:00.000+0000');
+    let options = {
+      operation: 'Upsert',
+      accountSettings: { incrementalMode: true },
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'"
+    };
+    await ___runAsync(options);
+    // Acc01 is modified after the watermark, Acc03 is changed without updating its modstamp
+    Object.assign(accounts.find(record => record.Name == 'Acc01'), { Phone: '11', SystemModstamp: '2020-01-03T00:00:00.000+0000' });
+    accounts.find(record => record.Name == 'Acc03').Phone = '33';
+
+    await ___runAsync(options);
+    expect(___queryPhones()).to.deep.equal(['Acc01:11', 'Acc02:2', 'Acc03:3', 'Acc04:4']);
+
+    await ___runAsync(Object.assign({ flags: ['--resetwatermarks'] }, options));
+    expect(___queryPhones()).to.deep.equal(['Acc01:11', 'Acc02:2', 'Acc03:33', 'Acc04:4']);
+  });
+
+  it('keeps the incremental watermark of the object with the failed records', async () => {
+    // The failed record is older than the others
+    source.db.getRecords(source.db.findObject('Account')).forEach(record => {
+      record.SystemModstamp = record.Name == 'Acc02' ? '2020-01-01T00:00:00.000+0000' : '2020-01-02T00:00:00.000+0000';
+    });
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+      times: 1,
+      filter: record => record.Name == 'Acc02'
+    });
+    let options = {
+      operation: 'Upsert',
+      accountSettings: { incrementalMode: true },
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'"
+    };
+
+    await ___runAsync(options);
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc03', 'Acc04']);
+
+    await ___runAsync(options);
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+  });
+
+  it('retries the failed records older than the incremental watermark', async () => {
+    source.db.getRecords(source.db.findObject('Account')).forEach(record => {
+      record.SystemModstamp = record.Name == 'Acc02' ? '2020-01-01T00:00:00.000+0000' : '2020-01-02T00:00:00.000+0000';
+    });
+    let contactQuery = "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'";
+    // The watermark is stored without the record failed later
+    await ___runAsync({
+      operation: 'Upsert',
+      accountQuery: "SELECT Id, Name, Phone FROM Account WHERE Name != 'Acc02'",
+      accountSettings: { incrementalMode: true },
+      contactQuery
+    });
+    target.db.injectErrors({
+      sObjectName: 'Account',
+      operations: ['insert'],
+      statusCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+      times: 1,
+      filter: record => record.Name == 'Acc02'
+    });
+    await ___runAsync({ operation: 'Upsert', contactQuery });
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc03', 'Acc04']);
+    let watermarksFilePath = path.join(workingDirectory, 'incremental', 'watermarks.json');
+    let watermarks = fs.readFileSync(watermarksFilePath, 'utf8');
+
+    await ___runAsync({
+      operation: 'Upsert',
+      accountSettings: { incrementalMode: true },
+      contactQuery,
+      flags: ['--retry-failed']
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(fs.existsSync(path.join(workingDirectory, 'failed_records', 'Account.json'))).to.equal(false);
+    expect(fs.readFileSync(watermarksFilePath, 'utf8')).to.equal(watermarks);
+  });
+
+  it('reports the records to insert, update and leave unchanged in the diff mode without changing the target', async () => {
+    target.db.seed({
+      records: {
+        Account: [
+          { Id: 't1', Name: 'Acc01', Phone: 'old' },
+          { Id: 't3', Name: 'Acc03', Phone: '3' }
+        ]
+      }
+    });
+
+    await ___runAsync({ operation: 'Upsert', flags: ['--diff'] });
+
+    expect(target.query.execute('SELECT Name, Phone FROM Account ORDER BY Name').records.map((record: any) => `${record.Name}:${record.Phone}`))
+      .to.deep.equal(['Acc01:old', 'Acc03:3']);
+    expect(___queryContacts()).to.be.empty;
+    let directory = path.join(workingDirectory, 'reports');
+    let report = JSON.parse(fs.readFileSync(path.join(directory, 'DiffReport.json'), 'utf8'));
+    let account = report.objects.find((object: any) => object.sObjectName == 'Account');
+    expect([account.inserted, account.updated, account.unchanged, account.deleted]).to.deep.equal([2, 1, 1, 0]);
+    expect(account.records.map((record: any) => `${record.action}:${record.externalIdValue}`).sort())
+      .to.deep.equal(['Insert:Acc02', 'Insert:Acc04', 'Unchanged:Acc03', 'Update:Acc01']);
+    expect(account.records.find((record: any) => record.action == 'Update').changes)
+      .to.deep.equal([{ field: 'Phone', oldValue: 'old', newValue: '1' }]);
+    expect(report.objects.find((object: any) => object.sObjectName == 'Contact').inserted).to.equal(3);
+    expect(fs.readFileSync(path.join(directory, 'Account_DiffReport.csv'), 'utf8')).to.match(/^Update,Acc01,Phone,1,old,/m);
+    expect(fs.readFileSync(path.join(directory, 'DiffReport.html'), 'utf8')).to.contain('<span class="old">old</span>');
+  });
+
+  it('reports only the records passing the target records filter in the diff mode', async () => {
+    await ___runAsync({
+      operation: 'Upsert',
+      accountSettings: { targetRecordsFilter: "Name != 'Acc02'" },
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'",
+      flags: ['--diff']
+    });
+
+    expect(___queryNames('Account')).to.be.empty;
+    let report = JSON.parse(fs.readFileSync(path.join(workingDirectory, 'reports', 'DiffReport.json'), 'utf8'));
+    let account = report.objects.find((object: any) => object.sObjectName == 'Account');
+    expect(account.records.map((record: any) => `${record.action}:${record.externalIdValue}`))
+      .to.deep.equal(['Insert:Acc01', 'Insert:Acc03', 'Insert:Acc04']);
+  });
+
+  it('masks the same source value with the same fake value across the objects and the runs', async () => {
+    let objects = ['Account', 'Contact'].map(name => ({ name, fields: [{ name: 'Email', type: 'email' }] }));
+    source.db.seed({ objects });
+    target.db.seed({ objects });
+    source.db.getRecords(source.db.findObject('Account')).find(record => record.Name == 'Acc01').Email = 'john@example.com';
+    source.db.getRecords(source.db.findObject('Contact')).find(record => record.LastName == 'Smith').Email = 'john@example.com';
+    fs.writeFileSync(path.join(workingDirectory, 'masking.json'), JSON.stringify({
+      secret: 'secret',
+      rules: [{ fieldRegex: '^Email$', strategy: 'fake', generator: 'email' }]
+    }));
+    let options = {
+      settings: { maskingProfile: 'masking.json' },
+      operation: 'Upsert',
+      accountQuery: "SELECT Id, Name, Email FROM Account WHERE Name = 'Acc01'",
+      contactQuery: "SELECT Id, LastName, AccountId, Email FROM Contact WHERE LastName = 'Smith'"
+    };
+
+    await ___runAsync(options);
+    let emails = ___queryEmails();
+    expect(emails[0]).to.not.equal('john@example.com');
+    expect(emails).to.deep.equal([emails[0], emails[0]]);
+
+    // The masked values are derived from the secret even without the mapping store of the previous run
+    fs.rmSync(path.join(workingDirectory, 'masking'), { recursive: true, force: true });
+    await ___runAsync(options);
+    expect(___queryEmails()).to.deep.equal(emails);
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___queryEmails(): Array<string> {
+      return ['Account', 'Contact'].map(sObjectName => target.query.execute(`SELECT Email FROM ${sObjectName}`).records[0].Email);
+    }
+  });
+
+  it('reports the masked values in the diff mode', async () => {
+    fs.writeFileSync(path.join(workingDirectory, 'masking.json'), JSON.stringify({
+      secret: 'secret',
+      rules: [{ fieldRegex: '^Phone$', strategy: 'hash', length: 8 }]
+    }));
+    let options = {
+      settings: { maskingProfile: 'masking.json' },
+      operation: 'Upsert',
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'"
+    };
+    await ___runAsync(options);
+    source.db.getRecords(source.db.findObject('Account')).find(record => record.Name == 'Acc01').Phone = '555-0199';
+
+    await ___runAsync(Object.assign({ flags: ['--diff'] }, options));
+
+    let directory = path.join(workingDirectory, 'reports');
+    let report = JSON.parse(fs.readFileSync(path.join(directory, 'DiffReport.json'), 'utf8'));
+    let account = report.objects.find((object: any) => object.sObjectName == 'Account');
+    expect([account.updated, account.unchanged]).to.deep.equal([1, 3]);
+    expect(account.records.find((record: any) => record.action == 'Update').changes[0].newValue).to.have.lengthOf(8);
+    ['DiffReport.json', 'DiffReport.html', 'Account_DiffReport.csv'].forEach(filename => {
+      expect(fs.readFileSync(path.join(directory, filename), 'utf8')).to.not.contain('555-0199');
+    });
+  });
+
+  it('queries the source records by the Id ranges using the Bulk API 2.0', async () => {
+    await ___runAsync({
+      settings: {
+        queryBulkApiThreshold: 1,
+        bulkQueryApiVersion: '2.0',
+        bulkQueryPkChunkSize: 2
+      }
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    expect(___queryContacts()).to.deep.equal(['Brown:Acc03', 'Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('writes the target file for each chunk processed in the streaming mode', async () => {
+    let pageSizes = new Array<number>();
+    let appendSourceRecords = MigrationJobStreaming.prototype.appendSourceRecords;
+    MigrationJobStreaming.prototype.appendSourceRecords = function (records: Array<any>) {
+      pageSizes.push(records.length);
+      return appendSourceRecords.call(this, records);
+    };
+    try {
+      await ___runAsync({
+        settings: { bulkQueryPageSize: 3, bulkQueryApiVersion: '2.0' },
+        accountSettings: { streamingMode: true }
+      });
+    } finally {
+      MigrationJobStreaming.prototype.appendSourceRecords = appendSourceRecords;
+    }
+
+    // The source records are spooled page by page, not loaded at once
+    expect(pageSizes).to.deep.equal([3, 1]);
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+    let targetFiles = fs.readdirSync(path.join(workingDirectory, 'target')).filter(fileName => fileName.startsWith('Account_insert'));
+    expect(targetFiles.sort()).to.deep.equal(['Account_insert_chunk1_target.csv', 'Account_insert_chunk2_target.csv']);
+  });
+
+  it('ignores the streaming mode when the records are not queried page by page', async () => {
+    let pagesCount = 0;
+    let appendSourceRecords = MigrationJobStreaming.prototype.appendSourceRecords;
+    MigrationJobStreaming.prototype.appendSourceRecords = function (records: Array<any>) {
+      pagesCount++;
+      return appendSourceRecords.call(this, records);
+    };
+    try {
+      await ___runAsync({
+        settings: { bulkQueryPageSize: 3 },
+        accountSettings: { streamingMode: true }
+      });
+    } finally {
+      MigrationJobStreaming.prototype.appendSourceRecords = appendSourceRecords;
+    }
+
+    expect(pagesCount).to.equal(0);
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+  });
+
+  it('writes the target files of the parallel tasks into the same SQLite database', async () => {
+    await ___runAsync({
+      settings: { dataFileFormat: 'sqlite', parallelTasks: 2 },
+      contactQuery: 'SELECT Id, LastName FROM Contact'
+    });
+
+    let SQL = await initSqlJs.default();
+    let db = new SQL.Database(fs.readFileSync(path.join(workingDirectory, 'target', 'data.db')));
+    try {
+      let tables = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")[0].values.map(values => values[0]);
+      expect(tables).to.deep.equal(['Account_insert_target', 'Contact_insert_target']);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('logs the api requests consumed by the parallel tasks together', async () => {
+    await ___runAsync({
+      settings: {
+        parallelTasks: 2,
+        apiLimits: { enabled: true, dailyApiRequestsReserve: 10 }
+      },
+      contactQuery: 'SELECT Id, LastName FROM Contact',
+      flags: ['--filelog', '1', '--loglevel', 'info']
+    });
+
+    let logDirectory = path.join(workingDirectory, 'logs');
+    let log = fs.readdirSync(logDirectory).map(fileName => fs.readFileSync(path.join(logDirectory, fileName), 'utf8')).join('\n');
+    expect(log).to.match(/\{Account\} \d+ api requests have been consumed in the target org together with the parallel tasks Contact/);
+    expect(log).to.match(/\{Contact\} \d+ api requests have been consumed in the target org together with the parallel tasks Account/);
+  });
+
+  it('runs the job against each target org and writes the fan-out summary', async () => {
+    let target2 = new FakeOrgServer();
+    await target2.startAsync();
+    try {
+      target2.db.injectErrors({
+        sObjectName: 'Account',
+        operations: ['insert'],
+        statusCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+        filter: record => record.Name == 'Acc02'
+      });
+
+      await ___runAsync({
+        settings: {
+          orgs: [source.getOrgSettings('source'), target.getOrgSettings('target'), target2.getOrgSettings('target2')]
+        },
+        contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'",
+        targetUsername: 'target,target2',
+        flags: ['--filelog', '1', '--loglevel', 'info']
+      });
+
+      expect(___queryNames('Account')).to.deep.equal(['Acc01', 'Acc02', 'Acc03', 'Acc04']);
+      expect(target2.query.execute('SELECT Name FROM Account ORDER BY Name').records.map((record: any) => record.Name))
+        .to.deep.equal(['Acc01', 'Acc03', 'Acc04']);
+      let summary = JSON.parse(fs.readFileSync(path.join(workingDirectory, 'reports', 'FanOutSummary.json'), 'utf8'));
+      expect(summary.targets.map((result: any) => `${result.targetUsername}:${result.status}:${result.processedRecordsAmount}`))
+        .to.deep.equal(['target:Succeeded:4', 'target2:Succeeded:4']);
+      expect(fs.existsSync(path.join(workingDirectory, 'failed_records', 'target', 'Account.json'))).to.equal(false);
+      expect(fs.existsSync(path.join(workingDirectory, 'failed_records', 'target2', 'Account.json'))).to.equal(true);
+      let logFileNames = fs.readdirSync(path.join(workingDirectory, 'logs'));
+      expect(logFileNames.some(fileName => fileName.endsWith('.target.log'))).to.equal(true);
+      expect(logFileNames.some(fileName => fileName.endsWith('.target2.log'))).to.equal(true);
+    } finally {
+      await target2.stopAsync();
+    }
+  });
+
+  it('substitutes the parameters containing the commas and the quotes into the query', async () => {
+    source.db.seed({
+      records: {
+        Account: [{ Id: 'a5', Name: "O'Brien, Ltd", Phone: '5' }]
+      }
+    });
+
+    await ___runAsync({
+      settings: {
+        parameters: [{ name: 'accountName' }]
+      },
+      accountQuery: "SELECT Id, Name, Phone FROM Account WHERE Name = '${accountName}' OR Phone = '${phone}'",
+      contactQuery: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName = 'none'",
+      flags: ['--params', "accountName=O'Brien, Ltd,phone=1"]
+    });
+
+    expect(___queryNames('Account')).to.deep.equal(['Acc01', "O'Brien, Ltd"]);
+  });
+
+  it('merges the objects of the base script and the included objects into the derived script', async () => {
+    target.db.seed({
+      records: {
+        Account: [{ Id: 't1', Name: 'Acc01', Phone: 'old' }]
+      }
+    });
+    fs.writeFileSync(path.join(workingDirectory, 'base.json'), JSON.stringify({
+      objects: [
+        { query: "SELECT Id, Name, Phone FROM Account WHERE Name = 'Acc01'", operation: 'Insert', externalId: 'Name' }
+      ]
+    }));
+    fs.writeFileSync(path.join(workingDirectory, 'contact.json'), JSON.stringify([
+      { query: "SELECT Id, LastName, AccountId FROM Contact WHERE LastName != 'Brown'", operation: 'Insert', externalId: 'LastName' }
+    ]));
+
+    await ___runAsync({
+      settings: {
+        extends: 'base.json',
+        objects: [
+          { query: 'SELECT Id, Name, Phone FROM Account', operation: 'Upsert' },
+          { $include: 'contact.json', operation: 'Upsert' }
+        ]
+      }
+    });
+
+    expect(___queryPhones()).to.deep.equal(['Acc01:1', 'Acc02:2', 'Acc03:3', 'Acc04:4']);
+    expect(___queryContacts()).to.deep.equal(['Jones:Acc01', 'Smith:Acc01']);
+  });
+
+  it('rejects the script files referencing each other', async () => {
+    fs.writeFileSync(path.join(workingDirectory, 'base.json'), JSON.stringify({ extends: 'export.json' }));
+
+    await ___runAsync({
+      settings: { extends: 'base.json' },
+      flags: ['--filelog', '1', '--loglevel', 'info']
+    });
+
+    let logDirectory = path.join(workingDirectory, 'logs');
+    let log = fs.readdirSync(logDirectory).map(fileName => fs.readFileSync(path.join(logDirectory, fileName), 'utf8')).join('\n');
+    let scriptFilePath = path.join(workingDirectory, 'export.json');
+    expect(log).to.contain(`Circular reference between the script files: ${scriptFilePath} -> ${path.join(workingDirectory, 'base.json')} -> ${scriptFilePath}.`);
+    expect(___queryNames('Account')).to.deep.equal([]);
+  });
+
+  it('rejects the script with the unknown property and suggests the closest property name', async () => {
+    await ___runAsync({
+      accountSettings: { opertion: 'Upsert' },
+      flags: ['--filelog', '1', '--loglevel', 'info']
+    });
+
+    let logDirectory = path.join(workingDirectory, 'logs');
+    let log = fs.readdirSync(logDirectory).map(fileName => fs.readFileSync(path.join(logDirectory, fileName), 'utf8')).join('\n');
+    expect(log).to.contain(`The script file ${path.join(workingDirectory, 'export.json')} is invalid (1 errors)`);
+    expect(log).to.match(/\[Error\] .*export\.json:1:\d+ objects\[0\]\.opertion: Unknown property 'opertion'\. Did you mean 'operation'\?/);
+    expect(___queryNames('Account')).to.deep.equal([]);
+  });
+
+  it('creates the script from the root objects and their relationships described in the org', async () => {
+    fs.writeFileSync(path.join(workingDirectory, 'export.json'), '{}');
+
+    await ___initAsync(['--objects', 'account', '--depth', '1', '--overwrite']);
+
+    let objects: Array<any> = JSON.parse(fs.readFileSync(path.join(workingDirectory, 'export.json'), 'utf8')).objects;
+    expect(objects.map(object => `${object.query.split(' FROM ')[1]}:${object.operation}:${object.externalId}`)).to.deep.equal([
+      'Account:Upsert:Name',
+      'User:Readonly:Username',
+      'RecordType:Readonly:DeveloperName;NamespacePrefix;SobjectType',
+      'Contact:Upsert:Name',
+      'Opportunity:Upsert:Name',
+      'Case:Insert:Id'
+    ]);
+    expect(objects[0].query).to.contain(' ParentId, OwnerId, RecordTypeId FROM');
+    expect(objects[3].query).to.contain(' AccountId, ReportsToId, OwnerId, RecordTypeId FROM');
+  });
+
+  // ---------------------- Helper functions --------------------------- //
+  async function ___runAsync(options: {
+    settings?: any,
+    operation?: string,
+    accountQuery?: string,
+    accountSettings?: any,
+    contactQuery?: string,
+    contactSettings?: any,
+    contactGroupByField?: string,
+    targetUsername?: string,
+    flags?: Array<string>
+  } = {}): Promise<void> {
+    let operation = options.operation || 'Insert';
+    fs.writeFileSync(path.join(workingDirectory, 'export.json'), JSON.stringify(Object.assign({
+      orgs: [source.getOrgSettings('source'), target.getOrgSettings('target')],
+      pollingIntervalMs: 10,
+      objects: [
+        Object.assign({ query: options.accountQuery || 'SELECT Id, Name, Phone FROM Account', operation, externalId: 'Name' }, options.accountSettings),
+        Object.assign({
+          query: options.contactQuery || 'SELECT Id, LastName, AccountId FROM Contact',
+          operation,
+          externalId: 'LastName',
+          bulkApiGroupByField: options.contactGroupByField
+        }, options.contactSettings)
+      ]
+    }, options.settings)));
+    let app = new AppSfdmuRunApp({
+      argv: ['node', 'sfdmu', '--sourceusername', 'source', '--targetusername', options.targetUsername || 'target', '--path', workingDirectory, '--noprompt', '--quiet']
+        .concat(options.flags || []),
+      exitProcess: false
+    });
+    await app.runCommand();
+  }
+
+  async function ___initAsync(flags: Array<string>): Promise<void> {
+    // The org is connected by the OAuth 2.0 client credentials flow, there is no script to describe it
+    source.oAuthClient = { clientId: 'client', clientSecret: 'secret' };
+    let variables: Record<string, string> = {
+      SFDMU_SOURCE_AUTH_FLOW: 'clientCredentials',
+      SFDMU_SOURCE_LOGIN_URL: source.instanceUrl,
+      SFDMU_SOURCE_CLIENT_ID: 'client',
+      SFDMU_SOURCE_CLIENT_SECRET: 'secret'
+    };
+    Object.assign(process.env, variables);
+    try {
+      let argv = ['--sourceusername', 'source', '--path', workingDirectory, '--noprompt', '--quiet', '--filelog', '0'].concat(flags);
+      await InitCommandExecutor.execute(<IInitProcess><unknown>{
+        argv,
+        statics: { name: 'Init', plugin: { name: 'sfdmu', root: path.resolve(__dirname, '../../../') } },
+        m_ux: new AppConsoleLogger(),
+        m_flags: Common.parseArgv(...argv),
+        commandMessages: new AppJsonMessages(path.resolve(__dirname, '../../../'), 'init'),
+        resources: new AppJsonMessages(path.resolve(__dirname, '../../../'), 'resources'),
+        exitProcess: false
+      });
+    } finally {
+      Object.keys(variables).forEach(variable => delete process.env[variable]);
+    }
+  }
+
+  function ___queryNames(sObjectName: string): Array<string> {
+    return target.query.execute(`SELECT Name FROM ${sObjectName} ORDER BY Name`).records.map((record: any) => record.Name);
+  }
+
+  function ___queryPhones(): Array<string> {
+    return target.query.execute('SELECT Name, Phone FROM Account ORDER BY Name').records
+      .map((record: any) => `${record.Name}:${record.Phone}`);
+  }
+
+  function ___queryContacts(): Array<string> {
+    return target.query.execute('SELECT LastName, Account.Name FROM Contact ORDER BY LastName').records
+      .map((record: any) => `${record.LastName}:${record.Account && record.Account.Name}`);
+  }
+
+});
@@ -0,0 +1,1059 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Common } from '../../src/modules/components/common_components/common';
+import {
+  FakeOrgApiError,
+  IFakeOrgErrorRule,
+  IFakeOrgField,
+  IFakeOrgObject,
+  IFakeOrgSaveResult,
+  IFakeOrgSeed,
+} from './fakeOrgModels';
+
+const ID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ID_CHECKSUM_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ012345';
+const NULL_VALUE = '#N/A';
+
+const STRING_FIELD_TYPES = ['string', 'textarea', 'picklist', 'multipicklist', 'email', 'phone', 'url', 'combobox', 'encryptedstring'];
+
+const SYSTEM_FIELDS: Array<IFakeOrgField> = [
+  { name: 'Id', type: 'id', label: 'Record ID', nillable: false, createable: false, updateable: false },
+  { name: 'IsDeleted', type: 'boolean', label: 'Deleted', createable: false, updateable: false },
+  { name: 'CreatedDate', type: 'datetime', label: 'Created Date', createable: false, updateable: false },
+  { name: 'LastModifiedDate', type: 'datetime', label: 'Last Modified Date', createable: false, updateable: false },
+  { name: 'SystemModstamp', type: 'datetime', label: 'System Modstamp', createable: false, updateable: false }
+];
+
+const OWNER_FIELD: IFakeOrgField = { name: 'OwnerId', type: 'reference', label: 'Owner ID', referenceTo: ['Group', 'User'], relationshipName: 'Owner' };
+const RECORD_TYPE_FIELD: IFakeOrgField = { name: 'RecordTypeId', type: 'reference', label: 'Record Type ID', referenceTo: ['RecordType'], relationshipName: 'RecordType' };
+const FULL_NAME_FIELD: IFakeOrgField = { name: 'Name', type: 'string', label: 'Full Name', nameField: true, calculated: true };
+
+const STANDARD_OBJECTS: Array<IFakeOrgObject> = [
+  {
+    name: 'Organization', keyPrefix: '00D', createable: false, updateable: false, fields: [
+      { name: 'Name', type: 'string', nameField: true },
+      { name: 'OrganizationType', type: 'picklist' },
+      { name: 'IsSandbox', type: 'boolean' }
+    ]
+  },
+  {
+    name: 'User', keyPrefix: '005', fields: [
+      { name: 'Username', type: 'string', nillable: false, unique: true },
+      { name: 'FirstName', type: 'string' },
+      { name: 'LastName', type: 'string', nillable: false },
+      FULL_NAME_FIELD,
+      { name: 'Email', type: 'email' },
+      { name: 'IsActive', type: 'boolean' }
+    ]
+  },
+  {
+    name: 'Group', keyPrefix: '00G', fields: [
+      { name: 'Name', type: 'string', nillable: false, nameField: true },
+      { name: 'DeveloperName', type: 'string' },
+      { name: 'Type', type: 'picklist', nillable: false }
+    ]
+  },
+  {
+    name: 'RecordType', keyPrefix: '012', fields: [
+      { name: 'Name', type: 'string', nillable: false, nameField: true },
+      { name: 'DeveloperName', type: 'string', nillable: false },
+      { name: 'NamespacePrefix', type: 'string', createable: false, updateable: false },
+      { name: 'SobjectType', type: 'picklist', nillable: false, updateable: false },
+      { name: 'IsActive', type: 'boolean' }
+    ]
+  },
+  {
+    name: 'Account', keyPrefix: '001', fields: [
+      { name: 'Name', type: 'string', nillable: false, nameField: true },
+      { name: 'AccountNumber', type: 'string', length: 40 },
+      { name: 'Type', type: 'picklist' },
+      { name: 'Industry', type: 'picklist' },
+      { name: 'Phone', type: 'phone', length: 40 },
+      { name: 'Website', type: 'url' },
+      { name: 'AnnualRevenue', type: 'currency' },
+      { name: 'NumberOfEmployees', type: 'int' },
+      { name: 'Description', type: 'textarea', length: 32000 },
+      { name: 'ParentId', type: 'reference', referenceTo: ['Account'], relationshipName: 'Parent' },
+      OWNER_FIELD,
+      RECORD_TYPE_FIELD
+    ]
+  },
+  {
+    name: 'Contact', keyPrefix: '003', fields: [
+      { name: 'FirstName', type: 'string', length: 40 },
+      { name: 'LastName', type: 'string', length: 80, nillable: false },
+      FULL_NAME_FIELD,
+      { name: 'Email', type: 'email' },
+      { name: 'Phone', type: 'phone', length: 40 },
+      { name: 'Title', type: 'string', length: 128 },
+      { name: 'AccountId', type: 'reference', referenceTo: ['Account'], relationshipName: 'Account' },
+      { name: 'ReportsToId', type: 'reference', referenceTo: ['Contact'], relationshipName: 'ReportsTo' },
+      OWNER_FIELD,
+      RECORD_TYPE_FIELD
+    ]
+  },
+  {
+    name: 'Opportunity', keyPrefix: '006', fields: [
+      { name: 'Name', type: 'string', length: 120, nillable: false, nameField: true },
+      { name: 'StageName', type: 'picklist', nillable: false },
+      { name: 'CloseDate', type: 'date', nillable: false },
+      { name: 'Amount', type: 'currency' },
+      { name: 'AccountId', type: 'reference', referenceTo: ['Account'], relationshipName: 'Account' },
+      OWNER_FIELD,
+      RECORD_TYPE_FIELD
+    ]
+  },
+  {
+    name: 'Case', keyPrefix: '500', fields: [
+      { name: 'CaseNumber', type: 'string', length: 30, nameField: true, autoNumber: true },
+      { name: 'Subject', type: 'string' },
+      { name: 'Status', type: 'picklist' },
+      { name: 'Origin', type: 'picklist' },
+      { name: 'Priority', type: 'picklist' },
+      { name: 'Description', type: 'textarea', length: 32000 },
+      { name: 'AccountId', type: 'reference', referenceTo: ['Account'], relationshipName: 'Account' },
+      { name: 'ContactId', type: 'reference', referenceTo: ['Contact'], relationshipName: 'Contact' },
+      OWNER_FIELD,
+      RECORD_TYPE_FIELD
+    ]
+  },
+  {
+    name: 'Lead', keyPrefix: '00Q', fields: [
+      { name: 'FirstName', type: 'string', length: 40 },
+      { name: 'LastName', type: 'string', length: 80, nillable: false },
+      FULL_NAME_FIELD,
+      { name: 'Company', type: 'string', nillable: false },
+      { name: 'Status', type: 'picklist' },
+      { name: 'Email', type: 'email' },
+      OWNER_FIELD,
+      RECORD_TYPE_FIELD
+    ]
+  }
+];
+
+// The metadata objects, which records are built from the current object definitions
+const METADATA_OBJECTS: Array<IFakeOrgObject> = [
+  {
+    name: 'EntityDefinition', keyPrefix: '0ED', createable: false, updateable: false, fields: [
+      { name: 'DurableId', type: 'string' },
+      { name: 'QualifiedApiName', type: 'string' },
+      { name: 'Label', type: 'string' },
+      { name: 'KeyPrefix', type: 'string' },
+      { name: 'IsCustomizable', type: 'boolean' },
+      { name: 'IsDeprecatedAndHidden', type: 'boolean' }
+    ]
+  },
+  {
+    name: 'FieldDefinition', keyPrefix: '0FD', createable: false, updateable: false, fields: [
+      { name: 'DurableId', type: 'string' },
+      { name: 'QualifiedApiName', type: 'string' },
+      { name: 'Label', type: 'string' },
+      { name: 'DataType', type: 'string' },
+      { name: 'EntityDefinitionId', type: 'string' },
+      { name: 'IsPolymorphicForeignKey', type: 'boolean' }
+    ]
+  }
+];
+
+/**
+ * The in-memory storage of the fake org:
+ * holds the sObject metadata and the records
+ * and performs the validated DML operations.
+ *
+ * @export
+ * @class FakeOrgDatabase
+ */
+export class FakeOrgDatabase {
+
+  organizationId: string;
+  defaultUserId: string;
+
+  private _objects: Map<string, IFakeOrgObject> = new Map<string, IFakeOrgObject>();
+  private _fields: Map<string, Map<string, IFakeOrgField>> = new Map<string, Map<string, IFakeOrgField>>();
+  private _keyPrefixes: Map<string, IFakeOrgObject> = new Map<string, IFakeOrgObject>();
+  private _records: Map<string, Map<string, any>> = new Map<string, Map<string, any>>();
+  private _idCounter: number = 0;
+  private _autoNumberCounter: number = 0;
+  private _seedIdMap: Map<string, string> = new Map<string, string>();
+  private _transaction: Map<string, Map<string, any>>;
+  private _errorRules: Array<{ rule: IFakeOrgErrorRule, failures: number }> = [];
+
+  constructor() {
+    STANDARD_OBJECTS.concat(METADATA_OBJECTS).forEach(object => this.defineObject(object));
+    this.organizationId = this._insertRecord(this.getObject('Organization'), {
+      Name: 'Fake Org',
+      OrganizationType: 'Developer Edition',
+      IsSandbox: false
+    });
+    this.defaultUserId = this._insertRecord(this.getObject('User'), {
+      Username: 'admin@fake.org',
+      FirstName: 'Fake',
+      LastName: 'Admin',
+      Email: 'admin@fake.org',
+      IsActive: true
+    });
+  }
+
+
+  // ----------------------- Metadata -------------------------------------------
+  /**
+   * Adds the new sObject to the org
+   * or adds the new fields to the existing sObject.
+   * The system fields are added automatically.
+   *
+   * @param {IFakeOrgObject} object The sObject metadata
+   * @returns {IFakeOrgObject} The resulting sObject metadata
+   * @memberof FakeOrgDatabase
+   */
+  defineObject(object: IFakeOrgObject): IFakeOrgObject {
+
+    let existing = this.findObject(object.name);
+    if (existing) {
+      (object.fields || []).forEach(field => this.defineField(existing, field));
+      return existing;
+    }
+
+    let custom = typeof object.custom == 'undefined' ? Common.isCustomObject(object.name) : object.custom;
+    let newObject: IFakeOrgObject = {
+      name: object.name,
+      label: object.label || object.name,
+      keyPrefix: object.keyPrefix || this._createKeyPrefix(),
+      custom,
+      createable: object.createable != false,
+      updateable: object.updateable != false,
+      fields: []
+    };
+    this._objects.set(newObject.name.toLowerCase(), newObject);
+    this._fields.set(newObject.name, new Map<string, IFakeOrgField>());
+    this._keyPrefixes.set(newObject.keyPrefix, newObject);
+    this._records.set(newObject.name, new Map<string, any>());
+
+    SYSTEM_FIELDS.forEach(field => this.defineField(newObject, field));
+    if (custom) {
+      this.defineField(newObject, { name: 'Name', type: 'string', length: 80, nameField: true });
+      this.defineField(newObject, OWNER_FIELD);
+    }
+    (object.fields || []).forEach(field => this.defineField(newObject, field));
+
+    return newObject;
+  }
+
+  /**
+   * Adds the new field to the sObject
+   * or replaces the metadata of the existing field
+   *
+   * @param {IFakeOrgObject} object The sObject metadata
+   * @param {IFakeOrgField} field The field metadata
+   * @returns {IFakeOrgField} The resulting field metadata
+   * @memberof FakeOrgDatabase
+   */
+  defineField(object: IFakeOrgObject, field: IFakeOrgField): IFakeOrgField {
+
+    let readonly = field.calculated || field.autoNumber || field.type == 'id';
+    let isReference = field.type == 'reference';
+    let newField: IFakeOrgField = {
+      name: field.name,
+      type: field.type || 'string',
+      label: field.label || field.name,
+      length: field.length || (STRING_FIELD_TYPES.indexOf(field.type || 'string') >= 0 ? 255 : isReference || field.type == 'id' ? 18 : 0),
+      createable: !readonly && field.createable != false,
+      updateable: !readonly && field.updateable != false,
+      nillable: field.nillable != false && field.type != 'boolean',
+      custom: typeof field.custom == 'undefined' ? Common.isCustomObject(field.name) : field.custom,
+      nameField: !!field.nameField,
+      unique: !!field.unique,
+      externalId: !!field.externalId,
+      calculated: !!field.calculated,
+      autoNumber: !!field.autoNumber,
+      cascadeDelete: !!field.cascadeDelete,
+      referenceTo: isReference ? (field.referenceTo || []) : [],
+      relationshipName: isReference ? (field.relationshipName || ___getRelationshipName(field.name)) : null,
+      picklistValues: field.picklistValues || [],
+      restrictedPicklist: !!field.restrictedPicklist
+    };
+
+    let fields = this._fields.get(object.name);
+    let existing = fields.get(newField.name.toLowerCase());
+    if (existing) {
+      object.fields.splice(object.fields.indexOf(existing), 1, newField);
+    } else {
+      object.fields.push(newField);
+    }
+    fields.set(newField.name.toLowerCase(), newField);
+    return newField;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___getRelationshipName(fieldName: string): string {
+      return fieldName.endsWith('__c') ? fieldName.replace(/__c$/, '__r')
+        : fieldName.endsWith('Id') ? fieldName.substring(0, fieldName.length - 2)
+          : fieldName;
+    }
+  }
+
+  /**
+   * Returns the sObject metadata by the case-insensitive name
+   * or undefined if the sObject does not exist
+   *
+   * @param {string} sObjectName
+   * @returns {IFakeOrgObject}
+   * @memberof FakeOrgDatabase
+   */
+  findObject(sObjectName: string): IFakeOrgObject {
+    return this._objects.get(String(sObjectName).toLowerCase());
+  }
+
+  /**
+   * Returns the sObject metadata by the case-insensitive name
+   * or throws the api error if the sObject does not exist
+   *
+   * @param {string} sObjectName
+   * @returns {IFakeOrgObject}
+   * @memberof FakeOrgDatabase
+   */
+  getObject(sObjectName: string): IFakeOrgObject {
+    let object = this.findObject(sObjectName);
+    if (!object) {
+      throw new FakeOrgApiError('INVALID_TYPE', `sObject type '${sObjectName}' is not supported.`);
+    }
+    return object;
+  }
+
+  /**
+   * Returns the sObject metadata by the key prefix of the given record Id
+   *
+   * @param {string} id The record Id
+   * @returns {IFakeOrgObject}
+   * @memberof FakeOrgDatabase
+   */
+  getObjectById(id: string): IFakeOrgObject {
+    return id && this._keyPrefixes.get(String(id).substring(0, 3));
+  }
+
+  /**
+   * Returns the field metadata by the case-insensitive name
+   * or undefined if the field does not exist
+   *
+   * @param {IFakeOrgObject} object
+   * @param {string} fieldName
+   * @returns {IFakeOrgField}
+   * @memberof FakeOrgDatabase
+   */
+  findField(object: IFakeOrgObject, fieldName: string): IFakeOrgField {
+    return this._fields.get(object.name).get(String(fieldName).toLowerCase());
+  }
+
+  /**
+   * Returns the field metadata by the case-insensitive name
+   * or throws the api error if the field does not exist
+   *
+   * @param {IFakeOrgObject} object
+   * @param {string} fieldName
+   * @returns {IFakeOrgField}
+   * @memberof FakeOrgDatabase
+   */
+  getField(object: IFakeOrgObject, fieldName: string): IFakeOrgField {
+    let field = this.findField(object, fieldName);
+    if (!field) {
+      throw new FakeOrgApiError('INVALID_FIELD', `No such column '${fieldName}' on entity '${object.name}'.`);
+    }
+    return field;
+  }
+
+  /**
+   * Returns the reference field by the case-insensitive relationship name
+   *
+   * @param {IFakeOrgObject} object
+   * @param {string} relationshipName
+   * @returns {IFakeOrgField}
+   * @memberof FakeOrgDatabase
+   */
+  findRelationshipField(object: IFakeOrgObject, relationshipName: string): IFakeOrgField {
+    relationshipName = String(relationshipName).toLowerCase();
+    return object.fields.filter(field => field.relationshipName && field.relationshipName.toLowerCase() == relationshipName)[0];
+  }
+
+  /**
+   * Returns the result of the describeGlobal api call
+   *
+   * @returns {*}
+   * @memberof FakeOrgDatabase
+   */
+  describeGlobal(): any {
+    return {
+      encoding: 'UTF-8',
+      maxBatchSize: 200,
+      sobjects: [...this._objects.values()].map(object => this._describeObject(object))
+    };
+  }
+
+  /**
+   * Returns the result of the sObject describe api call
+   *
+   * @param {string} sObjectName
+   * @returns {*}
+   * @memberof FakeOrgDatabase
+   */
+  describe(sObjectName: string): any {
+    let object = this.findObject(sObjectName);
+    if (!object) {
+      throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+    }
+    return Object.assign(this._describeObject(object), {
+      fields: object.fields.map(field => {
+        return {
+          name: field.name,
+          label: field.label,
+          type: field.type,
+          length: field.length,
+          createable: field.createable,
+          updateable: field.updateable,
+          nillable: field.nillable,
+          custom: field.custom,
+          nameField: field.nameField,
+          unique: field.unique,
+          externalId: field.externalId,
+          calculated: field.calculated,
+          autoNumber: field.autoNumber,
+          cascadeDelete: field.cascadeDelete,
+          defaultedOnCreate: field.type == 'boolean' || field.name == 'OwnerId',
+          referenceTo: field.referenceTo,
+          relationshipName: field.relationshipName,
+          polymorphicForeignKey: field.referenceTo.length > 1,
+          restrictedPicklist: !!field.restrictedPicklist,
+          picklistValues: (field.picklistValues || []).map(value => {
+            return {
+              value,
+              label: value,
+              active: true,
+              defaultValue: false
+            };
+          })
+        };
+      }),
+      childRelationships: this._getChildRelationships(object)
+    });
+  }
+
+
+  // ----------------------- Records -------------------------------------------
+  /**
+   * Returns all records of the sObject
+   *
+   * @param {IFakeOrgObject} object
+   * @param {boolean} [includeDeleted] true to include the records from the recycle bin
+   * @returns {Array<any>}
+   * @memberof FakeOrgDatabase
+   */
+  getRecords(object: IFakeOrgObject, includeDeleted?: boolean): Array<any> {
+    switch (object.name) {
+      case 'EntityDefinition':
+        return this._getEntityDefinitions();
+      case 'FieldDefinition':
+        return this._getFieldDefinitions();
+    }
+    let records = [...this._records.get(object.name).values()];
+    return includeDeleted ? records : records.filter(record => !record.IsDeleted);
+  }
+
+  /**
+   * Returns the record by Id
+   *
+   * @param {string} id The 15 or 18 characters record Id
+   * @param {boolean} [includeDeleted] true to return the record from the recycle bin
+   * @returns {*}
+   * @memberof FakeOrgDatabase
+   */
+  getRecord(id: string, includeDeleted?: boolean): any {
+    let object = this.getObjectById(id);
+    let record = object && this._records.get(object.name).get(this.to18(id));
+    return record && (includeDeleted || !record.IsDeleted) ? record : undefined;
+  }
+
+  /**
+   * Inserts the new record
+   *
+   * @param {string} sObjectName
+   * @param {*} record
+   * @returns {IFakeOrgSaveResult}
+   * @memberof FakeOrgDatabase
+   */
+  insert(sObjectName: string, record: any): IFakeOrgSaveResult {
+    return this._save(() => {
+      let object = this.getObject(sObjectName);
+      if (!object.createable) {
+        throw new FakeOrgApiError('INVALID_TYPE', `sObject type '${object.name}' is not creatable.`);
+      }
+      if (record['Id']) {
+        throw new FakeOrgApiError('INVALID_FIELD_FOR_INSERT_UPDATE', 'cannot specify Id in an insert call', 400);
+      }
+      this._applyErrorRules(object, 'insert', record);
+      let values = this._convertValues(object, record, true);
+      return this._insertRecord(object, values);
+    }, true);
+  }
+
+  /**
+   * Updates the existing record
+   *
+   * @param {string} sObjectName
+   * @param {*} record The record values including the Id
+   * @returns {IFakeOrgSaveResult}
+   * @memberof FakeOrgDatabase
+   */
+  update(sObjectName: string, record: any): IFakeOrgSaveResult {
+    return this._save(() => {
+      let object = sObjectName ? this.getObject(sObjectName) : this.getObjectById(record['Id']);
+      let existing = this._getRecordToModify(object, record['Id']);
+      if (!object.updateable) {
+        throw new FakeOrgApiError('INVALID_TYPE', `sObject type '${object.name}' is not updateable.`);
+      }
+      this._applyErrorRules(object, 'update', Object.assign({}, existing, record));
+      let values = this._convertValues(object, record, false);
+      this._validateUnique(object, values, existing['Id']);
+      Object.assign(existing, values, {
+        LastModifiedDate: this._now(),
+        SystemModstamp: this._now()
+      });
+      this._computeFields(object, existing);
+      return existing['Id'];
+    }, false, record['Id']);
+  }
+
+  /**
+   * Inserts the new record or updates the existing record
+   * matched by the value of the external id field
+   *
+   * @param {string} sObjectName
+   * @param {*} record
+   * @param {string} externalIdFieldName
+   * @returns {IFakeOrgSaveResult}
+   * @memberof FakeOrgDatabase
+   */
+  upsert(sObjectName: string, record: any, externalIdFieldName: string): IFakeOrgSaveResult {
+    let object = this.findObject(sObjectName);
+    let field = object && this.findField(object, externalIdFieldName);
+    let value = field && record[Object.keys(record).filter(key => key.toLowerCase() == field.name.toLowerCase())[0]];
+    let matched = field && value != null && value !== '' && this.getRecords(object).filter(existing => {
+      return String(existing[field.name]).toLowerCase() == String(value).toLowerCase();
+    });
+    if (matched && matched.length > 1) {
+      return this._save(() => {
+        throw new FakeOrgApiError('DUPLICATE_EXTERNAL_ID', `${field.name}: more than one record found for external id field: [${matched.map(x => x.Id).join(', ')}]`);
+      }, false);
+    }
+    if (matched && matched.length == 1) {
+      return this.update(sObjectName, Object.assign({}, record, { Id: matched[0].Id }));
+    }
+    let newRecord = Object.assign({}, record);
+    delete newRecord['Id'];
+    return this.insert(sObjectName, newRecord);
+  }
+
+  /**
+   * Deletes the record.
+   * The soft-deleted record is moved to the recycle bin and still could be queried using queryAll.
+   * The child records are deleted if the lookup field is set to the cascade deletion.
+   *
+   * @param {string} id The record Id
+   * @param {boolean} [hardDelete] true to remove the record permanently
+   * @returns {IFakeOrgSaveResult}
+   * @memberof FakeOrgDatabase
+   */
+  delete(id: string, hardDelete?: boolean): IFakeOrgSaveResult {
+    return this._save(() => {
+      let object = this.getObjectById(id);
+      let record = this._getRecordToModify(object, id);
+      this._applyErrorRules(object, 'delete', record);
+      this._deleteRecord(object, record, hardDelete);
+      return record['Id'];
+    }, false, id);
+  }
+
+  /**
+   * Starts the new transaction.
+   * All the changes made after this call can be reverted using rollback().
+   *
+   * @memberof FakeOrgDatabase
+   */
+  beginTransaction() {
+    this._transaction = new Map<string, Map<string, any>>([...this._records.entries()].map(([name, records]) => {
+      return [name, new Map<string, any>([...records.entries()].map(([id, record]) => [id, Object.assign({}, record)]))];
+    }));
+  }
+
+  /**
+   * Accepts all changes made in the current transaction
+   *
+   * @memberof FakeOrgDatabase
+   */
+  commitTransaction() {
+    this._transaction = undefined;
+  }
+
+  /**
+   * Reverts all changes made in the current transaction
+   *
+   * @memberof FakeOrgDatabase
+   */
+  rollbackTransaction() {
+    if (this._transaction) {
+      this._records = this._transaction;
+      this._transaction = undefined;
+    }
+  }
+
+
+  // ----------------------- Error injection -------------------------------------------
+  /**
+   * Adds the rule making the DML operations fail for the matching records.
+   * Only the matching records get the error result,
+   * the other records of the same api call are processed as usual.
+   *
+   * @param {IFakeOrgErrorRule} rule
+   * @memberof FakeOrgDatabase
+   */
+  injectErrors(rule: IFakeOrgErrorRule) {
+    this._errorRules.push({ rule, failures: 0 });
+  }
+
+  /**
+   * Removes all the error rules
+   *
+   * @memberof FakeOrgDatabase
+   */
+  clearErrors() {
+    this._errorRules = [];
+  }
+
+
+  // ----------------------- Seeding -------------------------------------------
+  /**
+   * Loads the sObject definitions and the records into the org.
+   * The seed records may contain any Ids: the Ids which are not valid Salesforce Ids
+   * are replaced with the generated Ids both in the records and in the lookup fields.
+   * The unknown columns are added to the sObject as text fields.
+   *
+   * @param {IFakeOrgSeed} seed
+   * @memberof FakeOrgDatabase
+   */
+  seed(seed: IFakeOrgSeed) {
+
+    (seed.objects || []).forEach(object => this.defineObject(object));
+
+    Object.keys(seed.records || {}).forEach(sObjectName => {
+      let object = this.findObject(sObjectName) || this.defineObject({ name: sObjectName, fields: [] });
+      (seed.records[sObjectName] || []).forEach(record => {
+        let values = Object.keys(record).reduce((acc, key) => {
+          if (key == 'attributes' || key.indexOf('.') >= 0) {
+            return acc;
+          }
+          let field = this.findField(object, key) || this.defineField(object, { name: key, type: 'string' });
+          acc[field.name] = this.convertValue(field, record[key]);
+          return acc;
+        }, {});
+        let seedId = values['Id'];
+        delete values['Id'];
+        let id = this._insertRecord(object, values, seedId && this.isValidId(seedId) ? this.to18(seedId) : undefined);
+        if (seedId) {
+          this._seedIdMap.set(String(seedId), id);
+        }
+      });
+    });
+
+    // Replace the seed Ids in the lookup fields
+    [...this._objects.values()].forEach(object => {
+      let references = object.fields.filter(field => field.type == 'reference');
+      this._records.get(object.name).forEach(record => {
+        references.forEach(field => {
+          let value = record[field.name];
+          if (value && this._seedIdMap.has(value)) {
+            record[field.name] = this._seedIdMap.get(value);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Loads the seed from the file:
+   *  - the .json file contains the IFakeOrgSeed object,
+   *  - the .csv file contains the records of the sObject with the same name as the file name.
+   *
+   * @param {string} filePath
+   * @returns {Promise<void>}
+   * @memberof FakeOrgDatabase
+   */
+  async seedFromFileAsync(filePath: string): Promise<void> {
+    if (path.extname(filePath).toLowerCase() == '.json') {
+      this.seed(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    } else {
+      let records = await Common.readCsvFileAsync(filePath);
+      this.seed({
+        records: {
+          [path.basename(filePath, path.extname(filePath))]: records
+        }
+      });
+    }
+  }
+
+  /**
+   * Loads all the .json and .csv seed files from the directory.
+   * The .json files are loaded first, so they can define the sObjects used by the .csv files.
+   *
+   * @param {string} directoryPath
+   * @returns {Promise<void>}
+   * @memberof FakeOrgDatabase
+   */
+  async seedFromDirectoryAsync(directoryPath: string): Promise<void> {
+    let files = fs.readdirSync(directoryPath).filter(file => /\.(json|csv)$/i.test(file)).sort((a, b) => {
+      return Number(/\.csv$/i.test(a)) - Number(/\.csv$/i.test(b)) || a.localeCompare(b);
+    });
+    for (let file of files) {
+      await this.seedFromFileAsync(path.join(directoryPath, file));
+    }
+  }
+
+
+  // ----------------------- Helpers -------------------------------------------
+  /**
+   * Converts the raw value (from the json or from the csv) to the value of the field type
+   *
+   * @param {IFakeOrgField} field
+   * @param {*} value
+   * @returns {*}
+   * @memberof FakeOrgDatabase
+   */
+  convertValue(field: IFakeOrgField, value: any): any {
+    if (typeof value == 'undefined' || value == null || value === '' || value == NULL_VALUE) {
+      return field.type == 'boolean' ? false : null;
+    }
+    switch (field.type) {
+      case 'boolean':
+        return value === true || String(value).toLowerCase() == 'true' || value === 1 || value === '1';
+      case 'int':
+      case 'double':
+      case 'currency':
+      case 'percent': {
+        let num = Number(value);
+        if (isNaN(num)) {
+          throw new FakeOrgApiError('INVALID_TYPE_ON_FIELD_IN_RECORD', `${field.name}: value not of required type: ${value}`);
+        }
+        return field.type == 'int' ? Math.trunc(num) : num;
+      }
+      case 'date':
+      case 'datetime': {
+        let date = new Date(typeof value == 'number' ? value : String(value));
+        if (isNaN(date.getTime())) {
+          throw new FakeOrgApiError('INVALID_TYPE_ON_FIELD_IN_RECORD', `${field.name}: value not of required type: ${value}`);
+        }
+        return field.type == 'date' ? date.toISOString().substring(0, 10) : this.formatDateTime(date);
+      }
+      case 'id':
+      case 'reference':
+        return this.isValidId(value) ? this.to18(value) : String(value);
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Returns true if the value looks like the valid Salesforce Id
+   *
+   * @param {string} value
+   * @returns {boolean}
+   * @memberof FakeOrgDatabase
+   */
+  isValidId(value: string): boolean {
+    return /^[a-zA-Z0-9]{15}([A-Z0-5]{3})?$/.test(String(value));
+  }
+
+  /**
+   * Converts the 15 characters Id to the 18 characters Id
+   *
+   * @param {string} id
+   * @returns {string}
+   * @memberof FakeOrgDatabase
+   */
+  to18(id: string): string {
+    if (!id || id.length != 15) {
+      return id;
+    }
+    let suffix = '';
+    for (let chunk = 0; chunk < 3; chunk++) {
+      let flags = 0;
+      for (let position = 0; position < 5; position++) {
+        let char = id.charAt(chunk * 5 + position);
+        if (char >= 'A' && char <= 'Z') {
+          flags += 1 << position;
+        }
+      }
+      suffix += ID_CHECKSUM_CHARS.charAt(flags);
+    }
+    return id + suffix;
+  }
+
+  /**
+   * Formats the date as the Salesforce datetime string
+   *
+   * @param {Date} date
+   * @returns {string}
+   * @memberof FakeOrgDatabase
+   */
+  formatDateTime(date: Date): string {
+    return date.toISOString().replace('Z', '+0000');
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _describeObject(object: IFakeOrgObject): any {
+    let isMetadata = METADATA_OBJECTS.some(x => x.name == object.name);
+    return {
+      name: object.name,
+      label: object.label,
+      labelPlural: object.label,
+      keyPrefix: object.keyPrefix,
+      custom: object.custom,
+      createable: object.createable,
+      updateable: object.updateable,
+      deletable: object.createable,
+      queryable: true,
+      retrieveable: !isMetadata,
+      searchable: !isMetadata,
+      layoutable: !isMetadata,
+      urls: {}
+    };
+  }
+
+  private _getChildRelationships(object: IFakeOrgObject): Array<any> {
+    let childRelationships = new Array<any>();
+    [...this._objects.values()]
+      .filter(child => !METADATA_OBJECTS.some(x => x.name == child.name))
+      .forEach(child => {
+        child.fields
+          .filter(field => (field.referenceTo || []).some(name => name.toLowerCase() == object.name.toLowerCase()))
+          .forEach(field => {
+            childRelationships.push({
+              childSObject: child.name,
+              field: field.name,
+              relationshipName: child.custom ? child.name.replace(/__c$/i, 's__r') : child.name + 's',
+              cascadeDelete: field.cascadeDelete
+            });
+          });
+      });
+    return childRelationships;
+  }
+
+  private _getEntityDefinitions(): Array<any> {
+    return [...this._objects.values()]
+      .filter(object => !METADATA_OBJECTS.some(x => x.name == object.name))
+      .map(object => {
+        return {
+          Id: object.keyPrefix,
+          DurableId: object.name,
+          QualifiedApiName: object.name,
+          Label: object.label,
+          KeyPrefix: object.keyPrefix,
+          IsCustomizable: true,
+          IsDeprecatedAndHidden: false
+        };
+      });
+  }
+
+  private _getFieldDefinitions(): Array<any> {
+    return Common.flattenArrays(this._getEntityDefinitions().map(entity => {
+      return this.getObject(entity.QualifiedApiName).fields.map(field => {
+        return {
+          Id: `${entity.KeyPrefix}.${field.name}`,
+          DurableId: `${entity.QualifiedApiName}.${field.name}`,
+          QualifiedApiName: field.name,
+          Label: field.label,
+          DataType: field.type,
+          EntityDefinitionId: entity.QualifiedApiName,
+          IsPolymorphicForeignKey: field.referenceTo.length > 1
+        };
+      });
+    }));
+  }
+
+  private _createKeyPrefix(): string {
+    let index = 0;
+    let keyPrefix: string;
+    do {
+      keyPrefix = 'a' + ('00' + (index++).toString(36)).slice(-2);
+    } while (this._keyPrefixes.has(keyPrefix));
+    return keyPrefix;
+  }
+
+  private _createId(object: IFakeOrgObject): string {
+    let counter = ++this._idCounter;
+    let body = '';
+    while (counter > 0) {
+      body = ID_CHARS.charAt(counter % ID_CHARS.length) + body;
+      counter = Math.floor(counter / ID_CHARS.length);
+    }
+    return this.to18(object.keyPrefix + '0' + body.padStart(11, '0'));
+  }
+
+  private _now(): string {
+    return this.formatDateTime(new Date());
+  }
+
+  private _insertRecord(object: IFakeOrgObject, values: any, id?: string): string {
+    let record = Object.assign({
+      Id: id || this._createId(object),
+      IsDeleted: false,
+      CreatedDate: this._now(),
+      LastModifiedDate: this._now(),
+      SystemModstamp: this._now()
+    }, values);
+    if (this.findField(object, 'OwnerId') && !record['OwnerId'] && this.defaultUserId) {
+      record['OwnerId'] = this.defaultUserId;
+    }
+    object.fields.filter(field => field.autoNumber && !record[field.name]).forEach(field => {
+      record[field.name] = String(++this._autoNumberCounter).padStart(8, '0');
+    });
+    this._computeFields(object, record);
+    this._records.get(object.name).set(record['Id'], record);
+    return record['Id'];
+  }
+
+  private _deleteRecord(object: IFakeOrgObject, record: any, hardDelete: boolean) {
+
+    if (hardDelete) {
+      this._records.get(object.name).delete(record['Id']);
+    } else {
+      record['IsDeleted'] = true;
+      record['LastModifiedDate'] = record['SystemModstamp'] = this._now();
+    }
+
+    // Cascade deletion of the child records
+    [...this._objects.values()].forEach(child => {
+      child.fields.filter(field => field.cascadeDelete && field.referenceTo.indexOf(object.name) >= 0).forEach(field => {
+        this.getRecords(child).filter(childRecord => childRecord[field.name] == record['Id']).forEach(childRecord => {
+          this._deleteRecord(child, childRecord, hardDelete);
+        });
+      });
+    });
+  }
+
+  private _getRecordToModify(object: IFakeOrgObject, id: string): any {
+    if (!id || !this.isValidId(id)) {
+      throw new FakeOrgApiError('MALFORMED_ID', `malformed id ${id || ''}`);
+    }
+    let record = object && this.getObjectById(id) == object && this._records.get(object.name).get(this.to18(id));
+    if (!record) {
+      throw new FakeOrgApiError('INVALID_CROSS_REFERENCE_KEY', 'invalid cross reference id');
+    }
+    if (record['IsDeleted']) {
+      throw new FakeOrgApiError('ENTITY_IS_DELETED', 'entity is deleted');
+    }
+    return record;
+  }
+
+  private _convertValues(object: IFakeOrgObject, record: any, isInsert: boolean): any {
+
+    let values = Object.keys(record).reduce((acc, key) => {
+      if (key == 'attributes' || key == 'Id') {
+        return acc;
+      }
+      let field = this.findField(object, key);
+      if (!field) {
+        throw new FakeOrgApiError('INVALID_FIELD', `No such column '${key}' on sobject of type ${object.name}`);
+      }
+      if (isInsert && !field.createable || !isInsert && !field.updateable) {
+        throw new FakeOrgApiError('INVALID_FIELD_FOR_INSERT_UPDATE',
+          `Unable to create/update fields: ${field.name}. Please check the security settings of this field and verify that it is read/write for your profile or permission set.`);
+      }
+      let value = this.convertValue(field, record[key]);
+      if (typeof value == 'string' && field.length && value.length > field.length) {
+        throw new FakeOrgApiError('STRING_TOO_LONG', `${field.label}: data value too large: ${value} (max length=${field.length})`);
+      }
+      if (field.restrictedPicklist && value != null
+        && String(value).split(';').some(item => (field.picklistValues || []).indexOf(item) < 0)) {
+        throw new FakeOrgApiError('INVALID_OR_NULL_FOR_RESTRICTED_PICKLIST', `${field.label}: bad value for restricted picklist field: ${value}`);
+      }
+      if (field.type == 'reference' && value != null) {
+        let parent = this.getRecord(value);
+        if (!parent || field.referenceTo.indexOf(this.getObjectById(value).name) < 0) {
+          throw new FakeOrgApiError('INVALID_CROSS_REFERENCE_KEY', `${field.label}: id value of incorrect type: ${value}`);
+        }
+      }
+      acc[field.name] = value;
+      return acc;
+    }, {});
+
+    let missing = object.fields.filter(field => {
+      return field.createable && !field.nillable && field.type != 'boolean'
+        && (isInsert ? values[field.name] == null : typeof values[field.name] != 'undefined' && values[field.name] == null);
+    }).map(field => field.name);
+    if (missing.length > 0) {
+      throw new FakeOrgApiError('REQUIRED_FIELD_MISSING', `Required fields are missing: [${missing.join(', ')}]`);
+    }
+
+    if (isInsert) {
+      this._validateUnique(object, values);
+    }
+    return values;
+  }
+
+  private _validateUnique(object: IFakeOrgObject, values: any, id?: string) {
+    object.fields.filter(field => field.unique && values[field.name] != null).forEach(field => {
+      let value = String(values[field.name]).toLowerCase();
+      let duplicate = this.getRecords(object).filter(record => record['Id'] != id && String(record[field.name]).toLowerCase() == value)[0];
+      if (duplicate) {
+        throw new FakeOrgApiError('DUPLICATE_VALUE', `duplicate value found: ${field.name} duplicates value on record with id: ${duplicate['Id']}`);
+      }
+    });
+  }
+
+  private _computeFields(object: IFakeOrgObject, record: any) {
+    let nameField = this.findField(object, 'Name');
+    if (nameField && nameField.calculated) {
+      record['Name'] = [record['FirstName'], record['LastName']].filter(x => !!x).join(' ');
+    }
+  }
+
+  private _applyErrorRules(object: IFakeOrgObject, operation: 'insert' | 'update' | 'delete', record: any) {
+    let entry = this._errorRules.find(x => x.rule.sObjectName.toLowerCase() == object.name.toLowerCase()
+      && (!x.rule.operations || x.rule.operations.indexOf(operation) >= 0)
+      && (x.rule.times == undefined || x.failures < x.rule.times)
+      && (!x.rule.filter || x.rule.filter(record)));
+    if (entry) {
+      entry.failures++;
+      throw new FakeOrgApiError(entry.rule.statusCode, entry.rule.message || `The ${operation} operation has failed.`);
+    }
+  }
+
+  private _save(saveFn: () => string, isInsert: boolean, id?: string): IFakeOrgSaveResult {
+    try {
+      return {
+        id: saveFn(),
+        success: true,
+        created: isInsert,
+        errors: []
+      };
+    } catch (ex: any) {
+      if (!(ex instanceof FakeOrgApiError)) {
+        throw ex;
+      }
+      return {
+        id: isInsert ? null : (id || null),
+        success: false,
+        errors: [{
+          statusCode: ex.errorCode,
+          message: ex.message,
+          fields: []
+        }]
+      };
+    }
+  }
+
+}
@@ -0,0 +1,105 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+/**
+ * The field metadata of the fake org sObject
+ */
+export interface IFakeOrgField {
+  name: string,
+  type: string,
+  label?: string,
+  length?: number,
+  createable?: boolean,
+  updateable?: boolean,
+  nillable?: boolean,
+  custom?: boolean,
+  nameField?: boolean,
+  unique?: boolean,
+  externalId?: boolean,
+  calculated?: boolean,
+  autoNumber?: boolean,
+  cascadeDelete?: boolean,
+  referenceTo?: Array<string>,
+  relationshipName?: string,
+  picklistValues?: Array<string>,
+  restrictedPicklist?: boolean
+}
+
+/**
+ * The metadata of the fake org sObject
+ */
+export interface IFakeOrgObject {
+  name: string,
+  label?: string,
+  keyPrefix?: string,
+  custom?: boolean,
+  createable?: boolean,
+  updateable?: boolean,
+  fields: Array<IFakeOrgField>
+}
+
+/**
+ * The JSON seed of the fake org:
+ * the additional sObject definitions and the initial records
+ * keyed by the sObject name
+ */
+export interface IFakeOrgSeed {
+  objects?: Array<IFakeOrgObject>,
+  records?: {
+    [sObjectName: string]: Array<any>
+  }
+}
+
+/**
+ * The result of the single DML operation performed in the fake org
+ */
+export interface IFakeOrgSaveResult {
+  id: string,
+  success: boolean,
+  created?: boolean,
+  errors: Array<{
+    statusCode: string,
+    message: string,
+    fields: Array<string>
+  }>
+}
+
+
+/**
+ * The rule making the DML operations of the fake org fail
+ * for the matching records with the given error,
+ * f.ex. to simulate the record lock errors
+ */
+export interface IFakeOrgErrorRule {
+  sObjectName: string,
+  // The failed operations, all operations by default
+  operations?: Array<'insert' | 'update' | 'delete'>,
+  statusCode: string,
+  message?: string,
+  // The total amount of the failures caused by the rule, unlimited by default
+  times?: number,
+  // Only the matching records fail, all records by default
+  filter?: (record: any) => boolean
+}
+
+/**
+ * The error returned by the fake org api
+ * as the Salesforce api error response
+ *
+ * @export
+ * @class FakeOrgApiError
+ * @extends {Error}
+ */
+export class FakeOrgApiError extends Error {
+  errorCode: string;
+  statusCode: number;
+  constructor(errorCode: string, m: string, statusCode: number = 400) {
+    super(m);
+    this.errorCode = errorCode;
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,658 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import {
+  parseQuery,
+  Query,
+} from 'soql-parser-js';
+
+import { FakeOrgDatabase } from './fakeOrgDatabase';
+import {
+  FakeOrgApiError,
+  IFakeOrgField,
+  IFakeOrgObject,
+} from './fakeOrgModels';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLAUSE_KEYWORDS = ['ORDER', 'GROUP', 'LIMIT', 'OFFSET', 'HAVING', 'FOR', 'WITH'];
+
+interface IToken {
+  type: 'paren' | 'comma' | 'operator' | 'string' | 'word',
+  value: string,
+  start: number,
+  end: number
+}
+
+interface ILiteral {
+  value: any,
+  from?: number,
+  to?: number
+}
+
+interface ICondition {
+  type: 'or' | 'and' | 'not' | 'condition',
+  items?: Array<ICondition>,
+  field?: string,
+  operator?: string,
+  literals?: Array<ILiteral>,
+  subquery?: string
+}
+
+/**
+ * The result of the query executed in the fake org
+ */
+export interface IFakeOrgQueryResult {
+  sObjectName: string,
+  totalSize: number,
+  // The queried field paths in the same order as in the query
+  fields: Array<string>,
+  // The records in the REST api format (the relationship fields are nested objects)
+  records: Array<any>
+}
+
+/**
+ * Evaluates the subset of SOQL against the fake org records:
+ *  - the fields and the relationship fields of any depth (including polymorphic),
+ *  - the COUNT() aggregate,
+ *  - the WHERE clause with AND / OR / NOT, the parentheses,
+ *    the operators =, !=, <>, <, <=, >, >=, LIKE, IN, NOT IN, INCLUDES, EXCLUDES,
+ *    the semi-join subqueries and the TODAY / YESTERDAY / TOMORROW / LAST_N_DAYS / NEXT_N_DAYS literals,
+ *  - ORDER BY, LIMIT and OFFSET.
+ *
+ * @export
+ * @class FakeOrgQuery
+ */
+export class FakeOrgQuery {
+
+  db: FakeOrgDatabase;
+  apiVersion: string;
+
+  constructor(db: FakeOrgDatabase, apiVersion: string) {
+    this.db = db;
+    this.apiVersion = apiVersion;
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Executes the query
+   *
+   * @param {string} soql The SOQL query
+   * @param {boolean} [includeDeleted] true to query the records from the recycle bin as well (queryAll)
+   * @returns {IFakeOrgQueryResult}
+   * @memberof FakeOrgQuery
+   */
+  execute(soql: string, includeDeleted?: boolean): IFakeOrgQueryResult {
+
+    let self = this;
+    let parsedQuery: Query;
+    try {
+      parsedQuery = parseQuery(soql);
+    } catch (ex: any) {
+      throw new FakeOrgApiError('MALFORMED_QUERY', ex.message);
+    }
+
+    let object = this.db.getObject(parsedQuery.sObject);
+    let where = this._parseWhere(soql);
+    let records = this.db.getRecords(object, includeDeleted).filter(record => !where || this._evaluate(object, record, where));
+
+    // COUNT()
+    let aggregates = parsedQuery.fields.filter(field => field.type == 'FieldFunctionExpression');
+    if (aggregates.length > 0) {
+      if (aggregates.length != parsedQuery.fields.length || aggregates.some((field: any) => String(field.fn).toUpperCase() != 'COUNT')) {
+        throw new FakeOrgApiError('MALFORMED_QUERY', 'Only the COUNT() aggregate function is supported by the fake org');
+      }
+      let countFields = aggregates.filter((field: any) => field.parameters && field.parameters.length > 0);
+      if (countFields.length == 0) {
+        return {
+          sObjectName: object.name,
+          totalSize: records.length,
+          fields: [],
+          records: []
+        };
+      }
+      let aggregate = countFields.reduce((acc, field: any, index) => {
+        acc[field.alias || `expr${index}`] = records.length;
+        return acc;
+      }, {
+        attributes: {
+          type: 'AggregateResult'
+        }
+      });
+      return {
+        sObjectName: object.name,
+        totalSize: 1,
+        fields: Object.keys(aggregate).filter(key => key != 'attributes'),
+        records: [aggregate]
+      };
+    }
+
+    // Fields
+    let paths = parsedQuery.fields.map((field: any) => {
+      switch (field.type) {
+        case 'Field':
+          return [field.field];
+        case 'FieldRelationship':
+          return field.relationships.concat(field.field);
+        default:
+          throw new FakeOrgApiError('MALFORMED_QUERY', `The field ${field.rawValue || field.type} is not supported by the fake org`);
+      }
+    }).map(path => this._validatePath(object, path));
+
+    // ORDER BY
+    let orderBy = [].concat(parsedQuery.orderBy || []).map((order: any) => {
+      return {
+        path: this._validatePath(object, String(order.field).split('.')),
+        desc: String(order.order).toUpperCase() == 'DESC',
+        nullsLast: order.nulls ? String(order.nulls).toUpperCase() == 'LAST' : String(order.order).toUpperCase() == 'DESC'
+      };
+    });
+    if (orderBy.length > 0) {
+      let sortValues = new Map<any, Array<any>>(records.map(record => [record, orderBy.map(order => this._getValue(object, record, order.path).value)]));
+      records.sort((a, b) => {
+        for (let index = 0; index < orderBy.length; index++) {
+          let result = ___compareForSort(sortValues.get(a)[index], sortValues.get(b)[index], orderBy[index].nullsLast, orderBy[index].desc);
+          if (result != 0) {
+            return result;
+          }
+        }
+        return 0;
+      });
+    }
+
+    // OFFSET / LIMIT
+    let offset = parsedQuery.offset || 0;
+    let limit = typeof parsedQuery.limit == 'number' ? parsedQuery.limit : records.length;
+    records = records.slice(offset, offset + limit);
+
+    return {
+      sObjectName: object.name,
+      totalSize: records.length,
+      fields: paths.map(path => path.join('.')),
+      records: records.map(record => {
+        let output = {
+          attributes: this._getAttributes(object, record)
+        };
+        paths.forEach(path => this._setValue(object, record, path, output));
+        return output;
+      })
+    };
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___compareForSort(a: any, b: any, nullsLast: boolean, desc: boolean): number {
+      let aNull = a == null || a === '';
+      let bNull = b == null || b === '';
+      if (aNull || bNull) {
+        return aNull && bNull ? 0 : (aNull ? -1 : 1) * (nullsLast ? -1 : 1);
+      }
+      return self._compareValues(a, b) * (desc ? -1 : 1);
+    }
+  }
+
+  /**
+   * Returns the value of the queried field path from the nested REST api record,
+   * used to produce the flat Bulk api records
+   *
+   * @static
+   * @param {*} record The record returned by execute()
+   * @param {string} path The field path, e.g. Account.Owner.Name
+   * @returns {*}
+   * @memberof FakeOrgQuery
+   */
+  static getFlatValue(record: any, path: string): any {
+    return path.split('.').reduce((value, part) => value == null ? null : value[part], record);
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private _getAttributes(object: IFakeOrgObject, record: any): any {
+    return {
+      type: object.name,
+      url: `/services/data/v${this.apiVersion}/sobjects/${object.name}/${record['Id']}`
+    };
+  }
+
+  /**
+   * Validates the field path and returns the path with the canonical names
+   */
+  private _validatePath(object: IFakeOrgObject, path: Array<string>): Array<string> {
+    if (path.length == 1) {
+      return [this.db.getField(object, path[0]).name];
+    }
+    let field = this.db.findRelationshipField(object, path[0]);
+    if (!field) {
+      throw new FakeOrgApiError('INVALID_FIELD', `Didn't understand relationship '${path[0]}' in field path. `
+        + `If you are attempting to use a custom relationship, be sure to append the '__r' after the custom relationship name.`);
+    }
+    let errors = [];
+    for (let parentName of field.referenceTo) {
+      try {
+        return [field.relationshipName].concat(this._validatePath(this.db.getObject(parentName), path.slice(1)));
+      } catch (ex: any) {
+        errors.push(ex);
+      }
+    }
+    throw errors[0] || new FakeOrgApiError('INVALID_FIELD', `No such column '${path.join('.')}' on entity '${object.name}'.`);
+  }
+
+  /**
+   * Returns the value and the field metadata of the (validated) field path
+   */
+  private _getValue(object: IFakeOrgObject, record: any, path: Array<string>): { field: IFakeOrgField, value: any } {
+    if (path.length == 1) {
+      let field = this.db.findField(object, path[0]);
+      return {
+        field: field || { name: path[0], type: 'string' },
+        value: !field || typeof record[field.name] == 'undefined' ? null : record[field.name]
+      };
+    }
+    let field = this.db.findRelationshipField(object, path[0]);
+    let parent = field && this.db.getRecord(record[field.name]);
+    if (!parent) {
+      if (!field) {
+        // Polymorphic lookup to the object without this relationship
+        return { field: { name: path[path.length - 1], type: 'string' }, value: null };
+      }
+      let parentObject = this.db.getObject(field.referenceTo[0]);
+      return {
+        field: this.db.findField(parentObject, path[path.length - 1]) || field,
+        value: null
+      };
+    }
+    return this._getValue(this.db.getObjectById(parent['Id']), parent, path.slice(1));
+  }
+
+  /**
+   * Puts the value of the (validated) field path into the nested REST api record
+   */
+  private _setValue(object: IFakeOrgObject, record: any, path: Array<string>, output: any) {
+    if (path.length == 1) {
+      let value = record[path[0]];
+      output[path[0]] = typeof value == 'undefined' ? null : value;
+      return;
+    }
+    let field = this.db.findRelationshipField(object, path[0]);
+    if (!field) {
+      // Polymorphic lookup to the object without this relationship
+      return;
+    }
+    let parent = this.db.getRecord(record[field.name]);
+    if (!parent) {
+      if (typeof output[path[0]] == 'undefined') {
+        output[path[0]] = null;
+      }
+      return;
+    }
+    let parentObject = this.db.getObjectById(parent['Id']);
+    if (!this.db.findField(parentObject, path[path.length - 1]) && path.length == 2) {
+      // Polymorphic lookup to the object without this field
+      return;
+    }
+    output[path[0]] = output[path[0]] || {
+      attributes: this._getAttributes(parentObject, parent)
+    };
+    this._setValue(parentObject, parent, path.slice(1), output[path[0]]);
+  }
+
+
+  // ----------------------- WHERE clause -------------------------------------------
+  private _tokenize(soql: string): Array<IToken> {
+    let tokens = new Array<IToken>();
+    let index = 0;
+    while (index < soql.length) {
+      let char = soql.charAt(index);
+      let start = index;
+      if (/\s/.test(char)) {
+        index++;
+      } else if (char == '(' || char == ')') {
+        tokens.push({ type: 'paren', value: char, start, end: ++index });
+      } else if (char == ',') {
+        tokens.push({ type: 'comma', value: char, start, end: ++index });
+      } else if (char == "'") {
+        let value = '';
+        index++;
+        while (index < soql.length && soql.charAt(index) != "'") {
+          if (soql.charAt(index) == '\\') {
+            let escaped = soql.charAt(++index);
+            value += escaped == 'n' ? '\n' : escaped == 'r' ? '\r' : escaped == 't' ? '\t' : escaped;
+          } else {
+            value += soql.charAt(index);
+          }
+          index++;
+        }
+        if (index >= soql.length) {
+          throw new FakeOrgApiError('MALFORMED_QUERY', 'unexpected end of the string literal');
+        }
+        tokens.push({ type: 'string', value, start, end: ++index });
+      } else if (/[=!<>]/.test(char)) {
+        let operator = /^(!=|<>|<=|>=|=|<|>)/.exec(soql.substring(index));
+        if (!operator) {
+          throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected token: '${char}'`);
+        }
+        index += operator[1].length;
+        tokens.push({ type: 'operator', value: operator[1] == '<>' ? '!=' : operator[1], start, end: index });
+      } else {
+        let word = /^[\w.:+\-]+/.exec(soql.substring(index));
+        if (!word) {
+          throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected token: '${char}'`);
+        }
+        index += word[0].length;
+        tokens.push({ type: 'word', value: word[0], start, end: index });
+      }
+    }
+    return tokens;
+  }
+
+  private _parseWhere(soql: string): ICondition {
+
+    let self = this;
+    let tokens = this._tokenize(soql);
+
+    // Locate the top-level WHERE clause
+    let depth = 0;
+    let first = -1;
+    let last = tokens.length;
+    for (let index = 0; index < tokens.length; index++) {
+      let token = tokens[index];
+      if (token.type == 'paren') {
+        depth += token.value == '(' ? 1 : -1;
+      } else if (depth == 0 && token.type == 'word') {
+        let keyword = token.value.toUpperCase();
+        if (first < 0 && keyword == 'WHERE') {
+          first = index + 1;
+        } else if (first >= 0 && CLAUSE_KEYWORDS.indexOf(keyword) >= 0) {
+          last = index;
+          break;
+        }
+      }
+    }
+    if (first < 0) {
+      return null;
+    }
+
+    tokens = tokens.slice(first, last);
+    let position = 0;
+    let condition = ___parseOr();
+    if (position < tokens.length) {
+      throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected token: '${tokens[position].value}'`);
+    }
+    return condition;
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___peek(): string {
+      let token = tokens[position];
+      return token ? token.value.toUpperCase() : '';
+    }
+
+    function ___next(): IToken {
+      let token = tokens[position++];
+      if (!token) {
+        throw new FakeOrgApiError('MALFORMED_QUERY', 'unexpected end of the WHERE clause');
+      }
+      return token;
+    }
+
+    function ___expect(value: string) {
+      let token = ___next();
+      if (token.value.toUpperCase() != value) {
+        throw new FakeOrgApiError('MALFORMED_QUERY', `expecting '${value}', found '${token.value}'`);
+      }
+    }
+
+    function ___parseOr(): ICondition {
+      let items = [___parseAnd()];
+      while (___peek() == 'OR') {
+        position++;
+        items.push(___parseAnd());
+      }
+      return items.length == 1 ? items[0] : { type: 'or', items };
+    }
+
+    function ___parseAnd(): ICondition {
+      let items = [___parseNot()];
+      while (___peek() == 'AND') {
+        position++;
+        items.push(___parseNot());
+      }
+      return items.length == 1 ? items[0] : { type: 'and', items };
+    }
+
+    function ___parseNot(): ICondition {
+      if (___peek() == 'NOT') {
+        position++;
+        return { type: 'not', items: [___parseNot()] };
+      }
+      if (___peek() == '(') {
+        position++;
+        let condition = ___parseOr();
+        ___expect(')');
+        return condition;
+      }
+      return ___parseCondition();
+    }
+
+    function ___parseCondition(): ICondition {
+      let field = ___next();
+      if (field.type != 'word') {
+        throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected token: '${field.value}'`);
+      }
+      let operator = ___next().value.toUpperCase();
+      if (operator == 'NOT') {
+        operator = 'NOT ' + ___next().value.toUpperCase();
+      }
+      switch (operator) {
+        case 'IN':
+        case 'NOT IN':
+        case 'INCLUDES':
+        case 'EXCLUDES': {
+          let open = tokens[position];
+          ___expect('(');
+          if (___peek() == 'SELECT') {
+            // Semi-join
+            let depth = 1;
+            while (depth > 0) {
+              let token = ___next();
+              if (token.type == 'paren') {
+                depth += token.value == '(' ? 1 : -1;
+              }
+            }
+            return {
+              type: 'condition',
+              field: field.value,
+              operator,
+              subquery: soql.substring(open.end, tokens[position - 1].start)
+            };
+          }
+          let literals = [___parseLiteral()];
+          while (___peek() == ',') {
+            position++;
+            literals.push(___parseLiteral());
+          }
+          ___expect(')');
+          return { type: 'condition', field: field.value, operator, literals };
+        }
+        case '=':
+        case '!=':
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+        case 'LIKE':
+          return { type: 'condition', field: field.value, operator, literals: [___parseLiteral()] };
+        default:
+          throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected operator: '${operator}'`);
+      }
+    }
+
+    function ___parseLiteral(): ILiteral {
+      let token = ___next();
+      if (token.type == 'string') {
+        return { value: token.value };
+      }
+      if (token.type != 'word') {
+        throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected token: '${token.value}'`);
+      }
+      let value = token.value;
+      let upper = value.toUpperCase();
+      if (upper == 'NULL') {
+        return { value: null };
+      }
+      if (upper == 'TRUE' || upper == 'FALSE') {
+        return { value: upper == 'TRUE' };
+      }
+      if (/^[+\-]?\d+(\.\d+)?$/.test(value)) {
+        return { value: Number(value) };
+      }
+      if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        let from = Date.parse(value + 'T00:00:00Z');
+        return { value, from, to: from + DAY_MS };
+      }
+      if (/^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value))) {
+        let from = Date.parse(value);
+        return { value, from, to: from + 1 };
+      }
+      return self._parseDateLiteral(upper);
+    }
+  }
+
+  private _parseDateLiteral(literal: string): ILiteral {
+    let today = new Date();
+    let todayMs = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+    let [name, n] = literal.split(':');
+    let days = Number(n);
+    switch (name) {
+      case 'TODAY':
+        return { value: literal, from: todayMs, to: todayMs + DAY_MS };
+      case 'YESTERDAY':
+        return { value: literal, from: todayMs - DAY_MS, to: todayMs };
+      case 'TOMORROW':
+        return { value: literal, from: todayMs + DAY_MS, to: todayMs + 2 * DAY_MS };
+      case 'LAST_N_DAYS':
+        if (!isNaN(days)) {
+          return { value: literal, from: todayMs - days * DAY_MS, to: todayMs + DAY_MS };
+        }
+        break;
+      case 'NEXT_N_DAYS':
+        if (!isNaN(days)) {
+          return { value: literal, from: todayMs + DAY_MS, to: todayMs + (days + 1) * DAY_MS };
+        }
+        break;
+    }
+    throw new FakeOrgApiError('MALFORMED_QUERY', `unexpected token: '${literal}'`);
+  }
+
+  private _evaluate(object: IFakeOrgObject, record: any, condition: ICondition): boolean {
+
+    let self = this;
+
+    switch (condition.type) {
+      case 'or':
+        return condition.items.some(item => this._evaluate(object, record, item));
+      case 'and':
+        return condition.items.every(item => this._evaluate(object, record, item));
+      case 'not':
+        return !this._evaluate(object, record, condition.items[0]);
+    }
+
+    let path = this._validatePath(object, condition.field.split('.'));
+    let { field, value } = this._getValue(object, record, path);
+
+    if (condition.subquery) {
+      // The semi-join results are not cached since the fake org is used with small data sets
+      let result = this.execute(condition.subquery);
+      let literals = result.records.map(subRecord => {
+        return { value: FakeOrgQuery.getFlatValue(subRecord, result.fields[0]) };
+      });
+      return ___matchAny(literals) == (condition.operator == 'IN');
+    }
+
+    switch (condition.operator) {
+      case 'IN':
+        return ___matchAny(condition.literals);
+      case 'NOT IN':
+        return !___matchAny(condition.literals);
+      case 'INCLUDES':
+      case 'EXCLUDES': {
+        let values = String(value || '').split(';').map(x => x.trim().toLowerCase());
+        let includes = condition.literals.some(literal => {
+          return String(literal.value).split(';').every(x => values.indexOf(x.trim().toLowerCase()) >= 0);
+        });
+        return value != null && (condition.operator == 'INCLUDES' ? includes : !includes);
+      }
+      case 'LIKE': {
+        let pattern = String(condition.literals[0].value)
+          .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/%/g, '.*')
+          .replace(/_/g, '.');
+        return value != null && new RegExp(`^${pattern}$`, 'is').test(String(value));
+      }
+      default:
+        return this._compare(field, value, condition.operator, condition.literals[0]);
+    }
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___matchAny(literals: Array<ILiteral>): boolean {
+      return literals.some(literal => self._compare(field, value, '=', literal));
+    }
+  }
+
+  private _compare(field: IFakeOrgField, value: any, operator: string, literal: ILiteral): boolean {
+
+    if (literal.value == null || value == null) {
+      let equal = literal.value == null && value == null;
+      return operator == '=' ? equal : operator == '!=' ? !equal : false;
+    }
+
+    // Dates
+    if (typeof literal.from == 'number' || field.type == 'date' || field.type == 'datetime') {
+      let time = Date.parse(field.type == 'date' ? value + 'T00:00:00Z' : value);
+      let from = typeof literal.from == 'number' ? literal.from : Date.parse(literal.value);
+      let to = typeof literal.to == 'number' ? literal.to : from + 1;
+      switch (operator) {
+        case '=': return time >= from && time < to;
+        case '!=': return time < from || time >= to;
+        case '<': return time < from;
+        case '<=': return time < to;
+        case '>': return time >= to;
+        case '>=': return time >= from;
+      }
+    }
+
+    let result: number;
+    if (field.type == 'id' || field.type == 'reference') {
+      // Ids are case-sensitive
+      let a = this.db.to18(String(value));
+      let b = this.db.to18(String(literal.value));
+      result = a == b ? 0 : a < b ? -1 : 1;
+    } else {
+      result = this._compareValues(value, literal.value);
+    }
+
+    switch (operator) {
+      case '=': return result == 0;
+      case '!=': return result != 0;
+      case '<': return result < 0;
+      case '<=': return result <= 0;
+      case '>': return result > 0;
+      case '>=': return result >= 0;
+    }
+    return false;
+  }
+
+  private _compareValues(a: any, b: any): number {
+    if (typeof a == 'number' || typeof b == 'number') {
+      return Number(a) - Number(b);
+    }
+    if (typeof a == 'boolean' || typeof b == 'boolean') {
+      return Number(String(a) == 'true') - Number(String(b) == 'true');
+    }
+    let aString = String(a).toLowerCase();
+    let bString = String(b).toLowerCase();
+    return aString == bString ? 0 : aString < bString ? -1 : 1;
+  }
+
+}
@@ -0,0 +1,1138 @@
+/*
+ * Copyright (c) 2020, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: BSD-3-Clause
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+const parse2 = require('csv-parse/lib/sync');
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import {
+  AddressInfo,
+  Socket,
+} from 'net';
+
+import { Common } from '../../src/modules/components/common_components/common';
+import { CONSTANTS } from '../../src/modules/components/common_components/statics';
+import { ScriptOrg } from '../../src/modules/models';
+import { IOrgLimit } from '../../src/modules/models/common_models/helper_interfaces';
+import { FakeOrgDatabase } from './fakeOrgDatabase';
+import {
+  FakeOrgApiError,
+  IFakeOrgSaveResult,
+  IFakeOrgSeed,
+} from './fakeOrgModels';
+import { FakeOrgQuery } from './fakeOrgQuery';
+
+const parse = (parse2 as any).parse || parse2;
+
+const BULK_V1_XMLNS = 'http://www.force.com/2009/06/asyncapi/dataload';
+const BULK_NULL_VALUE = '#N/A';
+
+interface IFakeOrgBulkJob {
+  id: string,
+  object: string,
+  operation: string,
+  externalIdFieldName: string,
+  state: string,
+  createdDate: string,
+  apiVersion: string,
+  concurrencyMode: string,
+  numberRecordsProcessed: number,
+  numberRecordsFailed: number,
+  // Bulk Api v1.0
+  batches: Map<string, IFakeOrgBulkBatch>,
+  // Bulk Api v2.0
+  csv: Array<string>,
+  successfulResults: Array<Array<any>>,
+  failedResults: Array<Array<any>>,
+  unprocessedRecords: Array<Array<any>>,
+  columns: Array<string>,
+  // Bulk Api v2.0 query
+  query: string,
+  queryRows: Array<Array<any>>
+}
+
+interface IFakeOrgBulkBatch {
+  id: string,
+  state: string,
+  stateMessage: string,
+  numberRecordsProcessed: number,
+  numberRecordsFailed: number,
+  createdDate: string,
+  // CRUD results or query result sets
+  results: Array<Array<any>>,
+  queryResults: Map<string, Array<Array<any>>>
+}
+
+/**
+ * The in-process stand-in of the Salesforce org for the end-to-end tests.
+ * Serves the subset of the REST api (query, queryAll, describe, sObject, sObject collections, composite graph and limits),
+ * the Bulk Api v1.0, the Bulk Api v2.0 ingest and query job lifecycle and the OAuth 2.0 token endpoint
+ * over the local http server using the in-memory FakeOrgDatabase.
+ *
+ * Usage:
+ *  let server = new FakeOrgServer();
+ *  await server.seedAsync('./seed');
+ *  await server.startAsync();
+ *  // Put server.getOrgSettings('fake-target') into the "orgs" section of the export.json
+ *  // or use server.createScriptOrg('fake-target')
+ *  // Make the first 2 Account records fail with the lock error
+ *  server.db.injectErrors({ sObjectName: 'Account', statusCode: 'UNABLE_TO_LOCK_ROW', times: 2 });
+ *  await server.stopAsync();
+ *
+ * @export
+ * @class FakeOrgServer
+ */
+export class FakeOrgServer {
+
+  db: FakeOrgDatabase;
+  query: FakeOrgQuery;
+  accessToken: string;
+  instanceUrl: string = '';
+
+  // The connected app used by the OAuth 2.0 flows.
+  // The JWT signature is verified only when the public key is set.
+  oAuthClient: {
+    clientId: string,
+    clientSecret?: string,
+    refreshToken?: string,
+    publicKey?: string
+  };
+
+  // The org limits served by the /limits resource.
+  // Each api request consumes the DailyApiRequests, each Bulk Api v2.0 query job consumes the DailyBulkV2QueryJobs.
+  limits: Record<string, IOrgLimit> = {
+    [CONSTANTS.DAILY_API_REQUESTS_LIMIT]: { Max: 15000, Remaining: 15000 },
+    [CONSTANTS.DAILY_BULK_V2_QUERY_JOBS_LIMIT]: { Max: 10000, Remaining: 10000 }
+  };
+
+  // The handled requests ("<method> <path>"), used to check which api was called.
+  requests: Array<string> = new Array<string>();
+
+  private _server: http.Server;
+  private _sockets: Set<Socket> = new Set<Socket>();
+  private _jobs: Map<string, IFakeOrgBulkJob> = new Map<string, IFakeOrgBulkJob>();
+  private _idCounter: number = 0;
+
+  constructor(db?: FakeOrgDatabase, apiVersion: string = CONSTANTS.DEFAULT_API_VERSION) {
+    this.db = db || new FakeOrgDatabase();
+    this.query = new FakeOrgQuery(this.db, apiVersion);
+    this.accessToken = this.db.organizationId + '!' + Common.makeId(40);
+  }
+
+
+  // ----------------------- Public methods -------------------------------------------
+  /**
+   * Loads the seed into the org database.
+   *
+   * @param {(string | IFakeOrgSeed)} seed The seed object, the path to the seed file (.json or .csv)
+   *                                      or the path to the directory containing the seed files
+   * @returns {Promise<void>}
+   * @memberof FakeOrgServer
+   */
+  async seedAsync(seed: string | IFakeOrgSeed): Promise<void> {
+    if (typeof seed != 'string') {
+      this.db.seed(seed);
+    } else if (fs.statSync(seed).isDirectory()) {
+      await this.db.seedFromDirectoryAsync(seed);
+    } else {
+      await this.db.seedFromFileAsync(seed);
+    }
+  }
+
+  /**
+   * Starts listening on the local host
+   *
+   * @param {number} [port=0] The port to listen, the random free port by default
+   * @returns {Promise<string>} The instance url of the org
+   * @memberof FakeOrgServer
+   */
+  async startAsync(port: number = 0): Promise<string> {
+    this._server = http.createServer((req, res) => {
+      this._handleRequestAsync(req, res);
+    });
+    this._server.on('connection', (socket: Socket) => {
+      this._sockets.add(socket);
+      socket.on('close', () => this._sockets.delete(socket));
+    });
+    await new Promise<void>((resolve, reject) => {
+      this._server.once('error', reject);
+      this._server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.instanceUrl = `http://127.0.0.1:${(<AddressInfo>this._server.address()).port}`;
+    return this.instanceUrl;
+  }
+
+  /**
+   * Stops the server
+   *
+   * @returns {Promise<void>}
+   * @memberof FakeOrgServer
+   */
+  async stopAsync(): Promise<void> {
+    if (!this._server) {
+      return;
+    }
+    // The api clients keep the connections alive
+    let closed = new Promise<void>(resolve => this._server.close(() => resolve()));
+    this._sockets.forEach(socket => socket.destroy());
+    this._sockets.clear();
+    await closed;
+    this._server = undefined;
+  }
+
+  /**
+   * Returns the org settings to put into the "orgs" section of the export.json.
+   * When the instanceUrl and the accessToken are set, the org connection is made
+   * without the SFDX/SF CLI.
+   *
+   * @param {string} name The org name to use with the --sourceusername / --targetusername flags
+   * @returns {{ name: string, instanceUrl: string, accessToken: string }}
+   * @memberof FakeOrgServer
+   */
+  getOrgSettings(name: string): { name: string, instanceUrl: string, accessToken: string } {
+    return {
+      name,
+      instanceUrl: this.instanceUrl,
+      accessToken: this.accessToken
+    };
+  }
+
+  /**
+   * Invalidates the current access token,
+   * so the next api request fails with INVALID_SESSION_ID
+   * and the new token should be obtained from the OAuth 2.0 token endpoint
+   *
+   * @memberof FakeOrgServer
+   */
+  expireSession() {
+    this.accessToken = this.db.organizationId + '!' + Common.makeId(40);
+  }
+
+  /**
+   * Creates the ScriptOrg connected to this fake org
+   *
+   * @param {string} name The org name
+   * @returns {ScriptOrg}
+   * @memberof FakeOrgServer
+   */
+  createScriptOrg(name: string): ScriptOrg {
+    let org = new ScriptOrg();
+    Object.assign(org, this.getOrgSettings(name));
+    return org;
+  }
+
+
+  // ----------------------- Private members -------------------------------------------
+  private async _handleRequestAsync(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+
+    let url = new URL(req.url, 'http://localhost');
+    let pathname = url.pathname.replace(/\/+$/, '');
+    let isBulkV1 = pathname.startsWith('/services/async/');
+    this.requests.push(`${req.method} ${pathname}`);
+
+    try {
+
+      let body = await this._readBodyAsync(req);
+
+      if (pathname == CONSTANTS.OAUTH_TOKEN_ENDPOINT) {
+        this._handleOAuthTokenRequest(body, res);
+        return;
+      }
+
+      this._checkSession(req, isBulkV1);
+      this._consumeLimit(CONSTANTS.DAILY_API_REQUESTS_LIMIT, 'REQUEST_LIMIT_EXCEEDED', 'TotalRequests Limit exceeded.', 403);
+
+      let match: RegExpExecArray;
+      if ((match = /^\/services\/async\/([\d.]+)\/(.+)$/.exec(pathname))) {
+        this._handleBulkV1Request(req.method, match[1], match[2].split('/'), body, res);
+        return;
+      }
+
+      if (!(match = /^\/services\/data(?:\/v([\d.]+)(?:\/(.*))?)?$/.exec(pathname))) {
+        throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+      }
+      let version = match[1];
+      let parts = (match[2] || '').split('/').filter(part => !!part);
+
+      if (!version) {
+        this._sendJson(res, 200, [{
+          label: 'Fake Org',
+          url: `/services/data/v${this.query.apiVersion}`,
+          version: this.query.apiVersion
+        }]);
+        return;
+      }
+
+      switch (parts[0]) {
+        case 'limits':
+          this._sendJson(res, 200, this.limits);
+          return;
+        case 'query':
+        case 'queryAll': {
+          let result = this.query.execute(url.searchParams.get('q'), parts[0] == 'queryAll');
+          this._sendJson(res, 200, {
+            totalSize: result.totalSize,
+            done: true,
+            records: result.records
+          });
+          return;
+        }
+        case 'sobjects':
+          this._handleSObjectRequest(req.method, parts.slice(1), body, res);
+          return;
+        case 'composite':
+          if (parts[1] == 'sobjects') {
+            this._handleCompositeRequest(req.method, parts.slice(2), url, body, res);
+            return;
+          }
+          if (parts[1] == 'graph' && req.method == 'POST') {
+            this._handleCompositeGraphRequest(body, res);
+            return;
+          }
+          break;
+        case 'jobs':
+          if (parts[1] == 'ingest') {
+            this._handleBulkV2Request(req.method, version, parts.slice(2), body, res);
+            return;
+          }
+          if (parts[1] == 'query') {
+            this._handleBulkV2QueryRequest(req.method, version, parts.slice(2), url, body, res);
+            return;
+          }
+          break;
+      }
+      throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+
+    } catch (ex: any) {
+      let error = ex instanceof FakeOrgApiError ? ex : new FakeOrgApiError('UNKNOWN_EXCEPTION', ex.message, 500);
+      if (isBulkV1) {
+        this._sendXml(res, error.statusCode, 'error', {
+          exceptionCode: error.errorCode,
+          exceptionMessage: error.message
+        });
+      } else {
+        this._sendJson(res, error.statusCode, [{
+          message: error.message,
+          errorCode: error.errorCode
+        }]);
+      }
+    }
+  }
+
+  private _consumeLimit(limitName: string, errorCode: string, errorMessage: string, statusCode: number) {
+    let limit = this.limits[limitName];
+    if (!limit) {
+      return;
+    }
+    if (limit.Remaining <= 0) {
+      throw new FakeOrgApiError(errorCode, errorMessage, statusCode);
+    }
+    limit.Remaining--;
+  }
+
+  private _checkSession(req: http.IncomingMessage, isBulkV1: boolean) {
+    let token = isBulkV1 ? req.headers['x-sfdc-session'] : String(req.headers['authorization'] || '').replace(/^(Bearer|OAuth)\s+/i, '');
+    if (token != this.accessToken) {
+      if (isBulkV1) {
+        throw new FakeOrgApiError('InvalidSessionId', 'Invalid session id', 400);
+      }
+      throw new FakeOrgApiError('INVALID_SESSION_ID', 'Session expired or invalid', 401);
+    }
+  }
+
+
+  // ------------------ OAuth 2.0 ------------------------- //
+  private _handleOAuthTokenRequest(body: string, res: http.ServerResponse) {
+
+    let params = new URLSearchParams(body);
+    let client = this.oAuthClient;
+    let error: string;
+
+    if (!client) {
+      error = 'invalid_client_id';
+    } else {
+      switch (params.get('grant_type')) {
+        case 'urn:ietf:params:oauth:grant-type:jwt-bearer': {
+          let parts = String(params.get('assertion') || '').split('.');
+          let claims: any = {};
+          try {
+            claims = JSON.parse(Buffer.from(parts[1], 'base64').toString('utf8'));
+          } catch (ex) { }
+          if (claims.iss != client.clientId) {
+            error = 'invalid_client_id';
+          } else if (!claims.exp || claims.exp * 1000 < Date.now()) {
+            error = 'invalid_grant';
+          } else if (client.publicKey && !crypto.createVerify('RSA-SHA256')
+            .update(parts[0] + '.' + parts[1])
+            .verify(client.publicKey, Buffer.from(parts[2] || '', 'base64'))) {
+            error = 'invalid_grant';
+          }
+          break;
+        }
+        case 'refresh_token':
+          if (params.get('client_id') != client.clientId) {
+            error = 'invalid_client_id';
+          } else if (!client.refreshToken || params.get('refresh_token') != client.refreshToken) {
+            error = 'invalid_grant';
+          }
+          break;
+        case 'client_credentials':
+          if (params.get('client_id') != client.clientId || params.get('client_secret') != client.clientSecret) {
+            error = 'invalid_client';
+          }
+          break;
+        default:
+          error = 'unsupported_grant_type';
+          break;
+      }
+    }
+
+    if (error) {
+      this._sendJson(res, 400, {
+        error,
+        error_description: 'authentication failure'
+      });
+      return;
+    }
+
+    this._sendJson(res, 200, {
+      access_token: this.accessToken,
+      instance_url: this.instanceUrl,
+      id: `${this.instanceUrl}/id/${this.db.organizationId}`,
+      token_type: 'Bearer',
+      issued_at: String(Date.now())
+    });
+  }
+
+
+  // ------------------ REST Api ------------------------- //
+  private _handleSObjectRequest(method: string, parts: Array<string>, body: string, res: http.ServerResponse) {
+
+    // /sobjects
+    if (parts.length == 0) {
+      this._sendJson(res, 200, this.db.describeGlobal());
+      return;
+    }
+
+    let object = this.db.getObject(parts[0]);
+
+    // /sobjects/{type}/describe
+    if (parts[1] == 'describe') {
+      this._sendJson(res, 200, this.db.describe(object.name));
+      return;
+    }
+
+    // /sobjects/{type}
+    if (parts.length == 1) {
+      if (method != 'POST') {
+        this._sendJson(res, 200, { objectDescribe: this.db.describeGlobal().sobjects.filter((x: any) => x.name == object.name)[0] });
+        return;
+      }
+      let result = this.db.insert(object.name, JSON.parse(body || '{}'));
+      this._sendSaveResult(res, result, 201);
+      return;
+    }
+
+    // /sobjects/{type}/{id}[/{blobField}]
+    let id = parts[1];
+    switch (method) {
+      case 'GET': {
+        let record = this.db.getRecord(id);
+        if (!record || this.db.getObjectById(id) != object) {
+          throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+        }
+        if (parts[2]) {
+          // Blob field
+          let field = this.db.getField(object, parts[2]);
+          res.writeHead(200, { 'Content-Type': 'application/octetstream' });
+          res.end(Buffer.from(String(record[field.name] || ''), 'base64'));
+          return;
+        }
+        this._sendJson(res, 200, this.query.execute(`SELECT ${object.fields.map(field => field.name).join(', ')} FROM ${object.name} WHERE Id = '${record['Id']}'`).records[0]);
+        return;
+      }
+      case 'PATCH':
+        this._sendSaveResult(res, this.db.update(object.name, Object.assign(JSON.parse(body || '{}'), { Id: id })), 204);
+        return;
+      case 'DELETE':
+        this._sendSaveResult(res, this.db.delete(id), 204);
+        return;
+    }
+    throw new FakeOrgApiError('METHOD_NOT_ALLOWED', `HTTP Method '${method}' not allowed`, 405);
+  }
+
+  private _handleCompositeRequest(method: string, parts: Array<string>, url: URL, body: string, res: http.ServerResponse) {
+
+    let request = body ? JSON.parse(body) : {};
+    let allOrNone = String(request.allOrNone || url.searchParams.get('allOrNone')) == 'true';
+
+    this.db.beginTransaction();
+    let results: Array<IFakeOrgSaveResult>;
+    switch (method) {
+      case 'POST':
+        results = (request.records || []).map((record: any) => {
+          let values = Object.assign({}, record);
+          delete values.attributes;
+          return this.db.insert(record.attributes && record.attributes.type, values);
+        });
+        break;
+      case 'PATCH':
+        if (parts.length == 2) {
+          // /composite/sobjects/{type}/{externalIdField} => upsert
+          results = (request.records || []).map((record: any) => {
+            let values = Object.assign({}, record);
+            delete values.attributes;
+            return this.db.upsert(parts[0], values, parts[1]);
+          });
+          break;
+        }
+        results = (request.records || []).map((record: any) => {
+          // The record Id is passed as "id" in the collection
+          let values = Object.assign({}, record, { Id: record.Id || record.id });
+          delete values.attributes;
+          delete values.id;
+          return this.db.update(record.attributes && record.attributes.type, values);
+        });
+        break;
+      case 'DELETE':
+        results = String(url.searchParams.get('ids') || '').split(',').filter(id => !!id).map(id => this.db.delete(id));
+        break;
+      default:
+        this.db.commitTransaction();
+        throw new FakeOrgApiError('METHOD_NOT_ALLOWED', `HTTP Method '${method}' not allowed`, 405);
+    }
+
+    if (allOrNone && results.some(result => !result.success)) {
+      this.db.rollbackTransaction();
+      results = results.map(result => {
+        return result.success ? {
+          id: method == 'POST' ? null : result.id,
+          success: false,
+          errors: [{
+            statusCode: 'ALL_OR_NONE_OPERATION_ROLLED_BACK',
+            message: 'Record rolled back because not all records were valid and the request was using AllOrNone header',
+            fields: []
+          }]
+        } : result;
+      });
+    } else {
+      this.db.commitTransaction();
+    }
+
+    this._sendJson(res, 200, results.map(result => {
+      return Object.assign({
+        id: result.id,
+        success: result.success,
+        errors: result.errors
+      }, method == 'PATCH' && parts.length == 2 ? { created: !!result.created } : {});
+    }));
+  }
+
+  private _handleCompositeGraphRequest(body: string, res: http.ServerResponse) {
+
+    let request = body ? JSON.parse(body) : {};
+
+    // Each graph is processed in its own transaction
+    let graphs = (request.graphs || []).map((graph: any) => {
+
+      let referenceIdToRecordIdMap = new Map<string, string>();
+      let nodes: Array<any> = graph.compositeRequest || [];
+      let results = new Array<IFakeOrgSaveResult>();
+
+      this.db.beginTransaction();
+      for (let node of nodes) {
+        let values = Object.assign({}, node.body);
+        Object.keys(values).forEach(key => {
+          // @{referenceId.id} => the Id of the record created by the previous node
+          let match = /^@\{(\w+)\.id\}$/i.exec(String(values[key]));
+          if (match) {
+            values[key] = referenceIdToRecordIdMap.get(match[1]) || null;
+          }
+        });
+        let type = (/\/sobjects\/(\w+)(?:\/(\w+))?\/?$/.exec(node.url) || [])[1];
+        let id = (/\/sobjects\/\w+\/(\w+)\/?$/.exec(node.url) || [])[1];
+        let result = String(node.method).toUpperCase() == 'PATCH'
+          ? this.db.update(type, Object.assign(values, { Id: id }))
+          : this.db.insert(type, values);
+        results.push(result);
+        if (!result.success) {
+          break;
+        }
+        referenceIdToRecordIdMap.set(node.referenceId, result.id);
+      }
+
+      let isSuccessful = results.every(result => result.success);
+      if (isSuccessful) {
+        this.db.commitTransaction();
+      } else {
+        this.db.rollbackTransaction();
+      }
+
+      return {
+        graphId: graph.graphId,
+        isSuccessful,
+        graphResponse: {
+          compositeResponse: nodes.map((node, index) => {
+            let result = results[index];
+            if (isSuccessful) {
+              return {
+                body: {
+                  id: result.id,
+                  success: true,
+                  errors: []
+                },
+                httpHeaders: {},
+                httpStatusCode: 201,
+                referenceId: node.referenceId
+              };
+            }
+            return {
+              body: result && !result.success ? result.errors.map(error => {
+                return {
+                  errorCode: error.statusCode,
+                  message: error.message
+                };
+              }) : [{
+                errorCode: 'PROCESSING_HALTED',
+                message: 'The transaction was rolled back since another operation in the same transaction failed.'
+              }],
+              httpHeaders: {},
+              httpStatusCode: 400,
+              referenceId: node.referenceId
+            };
+          })
+        }
+      };
+    });
+
+    this._sendJson(res, 200, { graphs });
+  }
+
+
+  // ------------------ Bulk Api v1.0 ------------------------- //
+  private _handleBulkV1Request(method: string, version: string, parts: Array<string>, body: string, res: http.ServerResponse) {
+
+    // POST /job
+    if (parts[0] == 'job' && parts.length == 1 && method == 'POST') {
+      let job = this._createJob(version, ___getXmlValue('object'), ___getXmlValue('operation'),
+        ___getXmlValue('externalIdFieldName'), ___getXmlValue('concurrencyMode') || 'Parallel');
+      this._sendXml(res, 201, 'jobInfo', this._getBulkV1JobInfo(job));
+      return;
+    }
+
+    let job = this._getJob(parts[1]);
+
+    // GET|POST /job/{id}
+    if (parts.length == 2) {
+      if (method == 'POST') {
+        job.state = ___getXmlValue('state') || job.state;
+      }
+      this._sendXml(res, 200, 'jobInfo', this._getBulkV1JobInfo(job));
+      return;
+    }
+
+    // POST|GET /job/{id}/batch
+    if (parts.length == 3 && parts[2] == 'batch') {
+      if (method == 'POST') {
+        if (job.state != 'Open') {
+          throw new FakeOrgApiError('InvalidJobState', `Job ${job.id} is not open`);
+        }
+        let batch = this._executeBulkV1Batch(job, body);
+        this._sendXml(res, 201, 'batchInfo', this._getBulkV1BatchInfo(job, batch));
+        return;
+      }
+      this._sendXml(res, 200, 'batchInfoList', {
+        batchInfo: [...job.batches.values()].map(batch => this._getBulkV1BatchInfo(job, batch))
+      });
+      return;
+    }
+
+    let batch = job.batches.get(parts[3]);
+    if (!batch) {
+      throw new FakeOrgApiError('InvalidBatch', `Unable to find batch for id: ${parts[3]}`);
+    }
+
+    // GET /job/{id}/batch/{batchId}
+    if (parts.length == 4) {
+      this._sendXml(res, 200, 'batchInfo', this._getBulkV1BatchInfo(job, batch));
+      return;
+    }
+
+    // GET /job/{id}/batch/{batchId}/result[/{resultId}]
+    if (parts[4] == 'result') {
+      if (job.operation == 'query' || job.operation == 'queryAll') {
+        if (parts[5]) {
+          let rows = batch.queryResults.get(parts[5]);
+          if (!rows) {
+            throw new FakeOrgApiError('InvalidBatch', `Unable to find result for id: ${parts[5]}`);
+          }
+          this._sendCsv(res, 200, rows);
+          return;
+        }
+        this._sendXml(res, 200, 'result-list', {
+          result: [...batch.queryResults.keys()]
+        });
+        return;
+      }
+      this._sendCsv(res, 200, [['Id', 'Success', 'Created', 'Error']].concat(batch.results));
+      return;
+    }
+
+    throw new FakeOrgApiError('InvalidUrl', 'Unknown resource');
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___getXmlValue(name: string): string {
+      let match = new RegExp(`<${name}>([^<]*)</${name}>`).exec(body);
+      return match ? match[1].trim() : undefined;
+    }
+  }
+
+  private _executeBulkV1Batch(job: IFakeOrgBulkJob, body: string): IFakeOrgBulkBatch {
+
+    let batch: IFakeOrgBulkBatch = {
+      id: this._createId('751'),
+      state: 'Completed',
+      stateMessage: '',
+      numberRecordsProcessed: 0,
+      numberRecordsFailed: 0,
+      createdDate: this.db.formatDateTime(new Date()),
+      results: [],
+      queryResults: new Map<string, Array<Array<any>>>()
+    };
+    job.batches.set(batch.id, batch);
+
+    if (job.operation == 'query' || job.operation == 'queryAll') {
+      try {
+        let result = this.query.execute(body, job.operation == 'queryAll');
+        batch.queryResults.set(this._createId('752'), [result.fields].concat(result.records.map(record => {
+          return result.fields.map(field => FakeOrgQuery.getFlatValue(record, field));
+        })));
+        batch.numberRecordsProcessed = result.records.length;
+      } catch (ex: any) {
+        batch.state = 'Failed';
+        batch.stateMessage = `${ex.errorCode || 'UNKNOWN_EXCEPTION'} : ${ex.message}`;
+      }
+    } else {
+      let [columns, ...rows] = this._parseCsv(body);
+      batch.results = this._executeBulkRows(job, columns, rows).map(result => {
+        return [
+          result.id || '',
+          String(result.success),
+          String(!!result.created),
+          result.success ? '' : result.errors.map(error => `${error.statusCode}:${error.message}:--`).join('; ')
+        ];
+      });
+      batch.numberRecordsProcessed = batch.results.length;
+      batch.numberRecordsFailed = batch.results.filter(result => result[1] != 'true').length;
+    }
+
+    job.numberRecordsProcessed += batch.numberRecordsProcessed;
+    job.numberRecordsFailed += batch.numberRecordsFailed;
+    return batch;
+  }
+
+  private _getBulkV1JobInfo(job: IFakeOrgBulkJob): any {
+    let batches = [...job.batches.values()];
+    return {
+      id: job.id,
+      operation: job.operation,
+      object: job.object,
+      createdById: this.db.defaultUserId,
+      createdDate: job.createdDate,
+      systemModstamp: job.createdDate,
+      state: job.state,
+      externalIdFieldName: job.externalIdFieldName,
+      concurrencyMode: job.concurrencyMode,
+      contentType: 'CSV',
+      numberBatchesQueued: 0,
+      numberBatchesInProgress: 0,
+      numberBatchesCompleted: batches.filter(batch => batch.state == 'Completed').length,
+      numberBatchesFailed: batches.filter(batch => batch.state == 'Failed').length,
+      numberBatchesTotal: batches.length,
+      numberRecordsProcessed: job.numberRecordsProcessed,
+      numberRetries: 0,
+      apiVersion: job.apiVersion,
+      numberRecordsFailed: job.numberRecordsFailed
+    };
+  }
+
+  private _getBulkV1BatchInfo(job: IFakeOrgBulkJob, batch: IFakeOrgBulkBatch): any {
+    return {
+      id: batch.id,
+      jobId: job.id,
+      state: batch.state,
+      stateMessage: batch.stateMessage,
+      createdDate: batch.createdDate,
+      systemModstamp: batch.createdDate,
+      numberRecordsProcessed: batch.numberRecordsProcessed,
+      numberRecordsFailed: batch.numberRecordsFailed,
+      totalProcessingTime: 0,
+      apiActiveProcessingTime: 0,
+      apexProcessingTime: 0
+    };
+  }
+
+
+  // ------------------ Bulk Api v2.0 ------------------------- //
+  private _handleBulkV2Request(method: string, version: string, parts: Array<string>, body: string, res: http.ServerResponse) {
+
+    // POST /jobs/ingest
+    if (parts.length == 0) {
+      if (method != 'POST') {
+        this._sendJson(res, 200, {
+          done: true,
+          records: [...this._jobs.values()].filter(job => !job.batches && !job.query).map(job => this._getBulkV2JobInfo(job))
+        });
+        return;
+      }
+      let request = JSON.parse(body || '{}');
+      let job = this._createJob(version, request.object, request.operation, request.externalIdFieldName, 'Parallel');
+      job.batches = undefined;
+      this._sendJson(res, 200, this._getBulkV2JobInfo(job));
+      return;
+    }
+
+    let job = this._getJob(parts[0]);
+    if (job.batches || job.query) {
+      throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+    }
+
+    switch (parts[1] || '') {
+      case '':
+        switch (method) {
+          case 'PATCH': {
+            let state = JSON.parse(body || '{}').state;
+            if (state == 'UploadComplete') {
+              if (job.state != 'Open') {
+                throw new FakeOrgApiError('INVALIDJOBSTATE', `Job ${job.id} is not open`);
+              }
+              this._executeBulkV2Job(job);
+              this._sendJson(res, 200, Object.assign(this._getBulkV2JobInfo(job), { state: 'UploadComplete' }));
+              return;
+            }
+            if (state == 'Aborted' && job.state == 'Open') {
+              job.state = 'Aborted';
+            }
+            this._sendJson(res, 200, this._getBulkV2JobInfo(job));
+            return;
+          }
+          case 'DELETE':
+            this._jobs.delete(job.id);
+            res.writeHead(204);
+            res.end();
+            return;
+          default:
+            this._sendJson(res, 200, this._getBulkV2JobInfo(job));
+            return;
+        }
+      case 'batches':
+        if (job.state != 'Open') {
+          throw new FakeOrgApiError('INVALIDJOBSTATE', `Job ${job.id} is not open`);
+        }
+        job.csv.push(body);
+        res.writeHead(201);
+        res.end();
+        return;
+      case 'successfulResults':
+        this._sendCsv(res, 200, [['sf__Id', 'sf__Created'].concat(job.columns)].concat(job.successfulResults));
+        return;
+      case 'failedResults':
+        this._sendCsv(res, 200, [['sf__Id', 'sf__Error'].concat(job.columns)].concat(job.failedResults));
+        return;
+      case 'unprocessedrecords':
+        this._sendCsv(res, 200, [job.columns].concat(job.unprocessedRecords));
+        return;
+    }
+    throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+  }
+
+  private _executeBulkV2Job(job: IFakeOrgBulkJob) {
+    job.csv.forEach(csv => {
+      let [columns, ...rows] = this._parseCsv(csv);
+      job.columns = columns || job.columns;
+      this._executeBulkRows(job, job.columns, rows).forEach((result, index) => {
+        if (result.success) {
+          job.successfulResults.push([result.id, String(!!result.created)].concat(rows[index]));
+        } else {
+          job.failedResults.push([result.id || '', result.errors.map(error => `${error.statusCode}:${error.message}`).join('; ')].concat(rows[index]));
+        }
+      });
+    });
+    job.numberRecordsProcessed = job.successfulResults.length + job.failedResults.length;
+    job.numberRecordsFailed = job.failedResults.length;
+    job.state = 'JobComplete';
+  }
+
+  private _getBulkV2JobInfo(job: IFakeOrgBulkJob): any {
+    return {
+      id: job.id,
+      operation: job.operation,
+      object: job.object,
+      createdById: this.db.defaultUserId,
+      createdDate: job.createdDate,
+      systemModstamp: job.createdDate,
+      state: job.state,
+      externalIdFieldName: job.externalIdFieldName,
+      concurrencyMode: job.concurrencyMode,
+      contentType: 'CSV',
+      apiVersion: Number(job.apiVersion),
+      jobType: 'V2Ingest',
+      contentUrl: `services/data/v${job.apiVersion}/jobs/ingest/${job.id}/batches`,
+      lineEnding: 'LF',
+      columnDelimiter: 'COMMA',
+      numberRecordsProcessed: job.numberRecordsProcessed,
+      numberRecordsFailed: job.numberRecordsFailed,
+      retries: 0,
+      totalProcessingTime: 0
+    };
+  }
+
+
+  // ------------------ Bulk Api v2.0 query ------------------------- //
+  /**
+   * The query is executed when the job is created.
+   * The job is reported as InProgress by the first status request and as JobComplete by the next one,
+   * the results are paged by maxRecords using the row offset as the locator.
+   */
+  private _handleBulkV2QueryRequest(method: string, version: string, parts: Array<string>, url: URL, body: string, res: http.ServerResponse) {
+
+    // POST /jobs/query
+    if (parts.length == 0) {
+      if (method != 'POST') {
+        this._sendJson(res, 200, {
+          done: true,
+          records: [...this._jobs.values()].filter(job => !!job.query).map(job => this._getBulkV2QueryJobInfo(job))
+        });
+        return;
+      }
+      let request = JSON.parse(body || '{}');
+      if (request.operation != 'query' && request.operation != 'queryAll') {
+        throw new FakeOrgApiError('InvalidJob', `Invalid operation: ${request.operation}`);
+      }
+      let result = this.query.execute(request.query, request.operation == 'queryAll');
+      this._consumeLimit(CONSTANTS.DAILY_BULK_V2_QUERY_JOBS_LIMIT, 'LIMIT_EXCEEDED', 'Max bulk v2 query jobs per 24 hrs exceeded.', 400);
+      let job = this._createJob(version, result.sObjectName, request.operation, undefined, 'Parallel');
+      job.batches = undefined;
+      job.query = request.query;
+      job.columns = result.fields;
+      job.queryRows = result.records.map(record => result.fields.map(field => FakeOrgQuery.getFlatValue(record, field)));
+      job.numberRecordsProcessed = job.queryRows.length;
+      job.state = 'UploadComplete';
+      this._sendJson(res, 200, this._getBulkV2QueryJobInfo(job));
+      return;
+    }
+
+    let job = this._getJob(parts[0]);
+    if (!job.query) {
+      throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+    }
+
+    switch (parts[1] || '') {
+      case '':
+        switch (method) {
+          case 'PATCH':
+            if (JSON.parse(body || '{}').state == 'Aborted' && job.state != 'JobComplete') {
+              job.state = 'Aborted';
+            }
+            this._sendJson(res, 200, this._getBulkV2QueryJobInfo(job));
+            return;
+          case 'DELETE':
+            this._jobs.delete(job.id);
+            res.writeHead(204);
+            res.end();
+            return;
+          default:
+            job.state = job.state == 'UploadComplete' ? 'InProgress'
+              : job.state == 'InProgress' ? 'JobComplete'
+                : job.state;
+            this._sendJson(res, 200, this._getBulkV2QueryJobInfo(job));
+            return;
+        }
+      case 'results': {
+        if (job.state != 'JobComplete') {
+          throw new FakeOrgApiError('INVALIDJOBSTATE', `Job ${job.id} is not completed`);
+        }
+        let offset = +url.searchParams.get('locator') || 0;
+        let maxRecords = +url.searchParams.get('maxRecords') || job.queryRows.length;
+        let rows = job.queryRows.slice(offset, offset + maxRecords);
+        this._sendCsv(res, 200, [job.columns].concat(rows), {
+          'Sforce-Locator': offset + maxRecords < job.queryRows.length ? String(offset + maxRecords) : 'null',
+          'Sforce-NumberOfRecords': String(rows.length)
+        });
+        return;
+      }
+    }
+    throw new FakeOrgApiError('NOT_FOUND', 'The requested resource does not exist', 404);
+  }
+
+  private _getBulkV2QueryJobInfo(job: IFakeOrgBulkJob): any {
+    return {
+      id: job.id,
+      operation: job.operation,
+      object: job.object,
+      createdById: this.db.defaultUserId,
+      createdDate: job.createdDate,
+      systemModstamp: job.createdDate,
+      state: job.state,
+      concurrencyMode: job.concurrencyMode,
+      contentType: 'CSV',
+      apiVersion: Number(job.apiVersion),
+      jobType: 'V2Query',
+      lineEnding: 'LF',
+      columnDelimiter: 'COMMA',
+      numberRecordsProcessed: job.state == 'JobComplete' ? job.numberRecordsProcessed : 0,
+      retries: 0,
+      totalProcessingTime: 0
+    };
+  }
+
+
+  // ------------------ Bulk jobs ------------------------- //
+  private _createJob(version: string, sObjectName: string, operation: string, externalIdFieldName: string, concurrencyMode: string): IFakeOrgBulkJob {
+    let object = this.db.getObject(sObjectName);
+    if (['insert', 'update', 'upsert', 'delete', 'hardDelete', 'query', 'queryAll'].indexOf(operation) < 0) {
+      throw new FakeOrgApiError('InvalidJob', `Invalid operation: ${operation}`);
+    }
+    let job: IFakeOrgBulkJob = {
+      id: this._createId('750'),
+      object: object.name,
+      operation,
+      externalIdFieldName,
+      state: 'Open',
+      createdDate: this.db.formatDateTime(new Date()),
+      apiVersion: version,
+      concurrencyMode,
+      numberRecordsProcessed: 0,
+      numberRecordsFailed: 0,
+      batches: new Map<string, IFakeOrgBulkBatch>(),
+      csv: [],
+      successfulResults: [],
+      failedResults: [],
+      unprocessedRecords: [],
+      columns: [],
+      query: undefined,
+      queryRows: []
+    };
+    this._jobs.set(job.id, job);
+    return job;
+  }
+
+  private _getJob(id: string): IFakeOrgBulkJob {
+    let job = this._jobs.get(id);
+    if (!job) {
+      throw new FakeOrgApiError('NOT_FOUND', `Unable to find job for id: ${id}`, 404);
+    }
+    return job;
+  }
+
+  /**
+   * Performs the bulk operation over the csv rows.
+   * The blank value leaves the field unchanged, the #N/A value sets the field to null.
+   */
+  private _executeBulkRows(job: IFakeOrgBulkJob, columns: Array<string>, rows: Array<Array<string>>): Array<IFakeOrgSaveResult> {
+    return rows.map(row => {
+      let record = columns.reduce((acc, column, index) => {
+        let value = row[index];
+        if (value !== '' && typeof value != 'undefined') {
+          acc[column] = value == BULK_NULL_VALUE ? null : value;
+        }
+        return acc;
+      }, {});
+      let id = record['Id'] || record['ID'] || record['id'];
+      switch (job.operation) {
+        case 'insert':
+          return this.db.insert(job.object, record);
+        case 'update':
+          return this.db.update(job.object, record);
+        case 'upsert':
+          return this.db.upsert(job.object, record, job.externalIdFieldName);
+        case 'delete':
+          return this.db.delete(id);
+        default:
+          return this.db.delete(id, true);
+      }
+    });
+  }
+
+  private _createId(keyPrefix: string): string {
+    return this.db.to18(keyPrefix + String(++this._idCounter).padStart(12, '0'));
+  }
+
+
+  // ------------------ Http helpers ------------------------- //
+  private _readBodyAsync(req: http.IncomingMessage): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let chunks = new Array<Buffer>();
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private _parseCsv(csv: string): Array<Array<string>> {
+    return parse(String(csv || '').replace(/^\uFEFF/, ''), {
+      skip_empty_lines: true
+    });
+  }
+
+  private _sendSaveResult(res: http.ServerResponse, result: IFakeOrgSaveResult, successStatusCode: number) {
+    if (!result.success) {
+      this._sendJson(res, 400, result.errors.map(error => {
+        return {
+          message: error.message,
+          errorCode: error.statusCode,
+          fields: error.fields
+        };
+      }));
+    } else if (successStatusCode == 204) {
+      res.writeHead(204);
+      res.end();
+    } else {
+      this._sendJson(res, successStatusCode, {
+        id: result.id,
+        success: true,
+        errors: []
+      });
+    }
+  }
+
+  private _sendJson(res: http.ServerResponse, statusCode: number, body: any) {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json;charset=UTF-8' });
+    res.end(JSON.stringify(body));
+  }
+
+  private _sendCsv(res: http.ServerResponse, statusCode: number, rows: Array<Array<any>>, headers?: any) {
+    res.writeHead(statusCode, Object.assign({ 'Content-Type': 'text/csv' }, headers));
+    res.end(rows.map(row => row.map(value => {
+      return '"' + String(value == null ? '' : value).replace(/"/g, '""') + '"';
+    }).join(',')).join('\n') + '\n');
+  }
+
+  private _sendXml(res: http.ServerResponse, statusCode: number, rootName: string, body: any) {
+    res.writeHead(statusCode, { 'Content-Type': 'application/xml' });
+    res.end(`<?xml version="1.0" encoding="UTF-8"?><${rootName} xmlns="${BULK_V1_XMLNS}">${___toXml(body)}</${rootName}>`);
+
+    // ---------------------- Internal functions --------------------------- //
+    function ___toXml(value: any): string {
+      return Object.keys(value).map(key => {
+        return [].concat(value[key]).filter(item => typeof item != 'undefined' && item != null).map(item => {
+          let content = typeof item == 'object' ? ___toXml(item) : ___escape(String(item));
+          return `<${key}>${content}</${key}>`;
+        }).join('');
+      }).join('');
+    }
+
+    function ___escape(value: string): string {
+      return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+  }
+
+}